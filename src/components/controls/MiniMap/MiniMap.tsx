@@ -3,8 +3,19 @@
  */
 
 import { memo, useMemo } from 'react'
+import type { OccupancyGrid } from '@/core/accessibility/grid'
+import { AccessCell } from '@/core/accessibility/grid'
+import { UNITS } from '@/core/constants'
+import { ACCESS_CELL_COLORS } from '@/components/primitives/OccupancyGrid'
 import './MiniMap.css'
 
+/** Estancia de un almacén con varias estancias, en metros y coordenadas del almacén */
+export interface MiniMapRoom {
+  id: string
+  name?: string
+  polygon: Array<{ x: number; z: number }>
+}
+
 export interface MiniMapProps {
   /** Ancho de la escena en metros */
   sceneWidth: number
@@ -14,12 +25,24 @@ export interface MiniMapProps {
   sceneType: 'truck' | 'warehouse'
   /** Polígono del suelo (solo para warehouse) */
   floorPolygon?: Array<{ x: number; z: number }>
+  /** Esquina de la escena con x y z mínimas, en metros (por defecto: 0, 0) */
+  sceneOrigin?: { x: number; z: number }
+  /** Estancias del almacén (solo para warehouse); se pintan en lugar de `floorPolygon` */
+  rooms?: MiniMapRoom[]
+  /** Estancia resaltada */
+  activeRoomId?: string | null
+  /** Estancias con errores de validación */
+  invalidRoomIds?: string[]
+  /** Click sobre una estancia */
+  onRoomClick?: (roomId: string) => void
   /** Posición de la cámara actual en la escena */
   cameraPosition?: { x: number; z: number }
   /** Posición del objetivo/target de la cámara */
   targetPosition?: { x: number; z: number }
   /** Posición: 'bottom-left' | 'bottom-right' */
   position?: 'bottom-left' | 'bottom-right'
+  /** Rejilla de ocupación a superponer (mm, como la devuelve analyzeRoomAccessibility) */
+  occupancyGrid?: OccupancyGrid
 }
 
 export const MiniMap = memo<MiniMapProps>(function MiniMap({
@@ -27,12 +50,20 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
   sceneDepth,
   sceneType,
   floorPolygon,
+  sceneOrigin,
+  rooms,
+  activeRoomId,
+  invalidRoomIds,
+  onRoomClick,
   cameraPosition,
   targetPosition,
   position = 'bottom-left',
+  occupancyGrid,
 }) {
   const mapSize = 150 // tamaño del minimap en px
   const padding = 10
+  const originX = sceneOrigin?.x ?? 0
+  const originZ = sceneOrigin?.z ?? 0
 
   // Calcular escala para que el contenido quepa en el minimap
   const scale = useMemo(() => {
@@ -43,8 +74,8 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
   // Convertir coordenadas de mundo a coordenadas del minimap
   const worldToMap = (x: number, z: number): { x: number; y: number } => {
     return {
-      x: padding + x * scale,
-      y: padding + z * scale,
+      x: padding + (x - originX) * scale,
+      y: padding + (z - originZ) * scale,
     }
   }
 
@@ -60,7 +91,49 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
     })
 
     return `M ${points.join(' L ')} Z`
-  }, [sceneType, floorPolygon, scale])
+  }, [sceneType, floorPolygon, scale, originX, originZ])
+
+  // Paths de las estancias del almacén
+  const roomPaths = useMemo(() => {
+    if (sceneType !== 'warehouse' || !rooms) return []
+    return rooms.map(room => ({
+      id: room.id,
+      name: room.name ?? room.id,
+      d: `M ${room.polygon
+        .map(p => `${padding + (p.x - originX) * scale},${padding + (p.z - originZ) * scale}`)
+        .join(' L ')} Z`,
+    }))
+  }, [sceneType, rooms, scale, originX, originZ])
+
+  // Celdas de la rejilla de ocupación, agrupando en cada fila las consecutivas del mismo estado
+  const gridRects = useMemo(() => {
+    if (!occupancyGrid) return []
+    const { origin, cellSize, columns, rows, cells } = occupancyGrid
+    const s = UNITS.MM_TO_M
+    const rects: Array<{ x: number; y: number; width: number; height: number; color: string }> = []
+
+    for (let row = 0; row < rows; row++) {
+      let column = 0
+      while (column < columns) {
+        const state = cells[row * columns + column] as AccessCell
+        let end = column + 1
+        while (end < columns && cells[row * columns + end] === state) end++
+
+        const color = ACCESS_CELL_COLORS[state]
+        if (color) {
+          rects.push({
+            x: padding + ((origin.x + column * cellSize) * s - originX) * scale,
+            y: padding + ((origin.z + row * cellSize) * s - originZ) * scale,
+            width: (end - column) * cellSize * s * scale,
+            height: cellSize * s * scale,
+            color,
+          })
+        }
+        column = end
+      }
+    }
+    return rects
+  }, [occupancyGrid, scale, originX, originZ])
 
   // Rectángulo para truck
   const truckRect = useMemo(() => {
@@ -92,10 +165,28 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
         <rect width={mapSize} height={mapSize} fill="#1a1a2e" />
 
         {/* Escena: Warehouse (polígono) o Truck (rectángulo) */}
-        {sceneType === 'warehouse' && polygonPath && (
+        {sceneType === 'warehouse' && polygonPath && !rooms && (
           <path d={polygonPath} fill="rgba(96, 165, 250, 0.15)" stroke="#60a5fa" strokeWidth="2" />
         )}
 
+        {roomPaths.map(room => {
+          const active = room.id === activeRoomId
+          const invalid = invalidRoomIds?.includes(room.id)
+          return (
+            <path
+              key={room.id}
+              d={room.d}
+              fill={active ? 'rgba(96, 165, 250, 0.4)' : 'rgba(96, 165, 250, 0.15)'}
+              stroke={invalid ? '#f87171' : '#60a5fa'}
+              strokeWidth={active ? 2 : 1}
+              style={onRoomClick ? { cursor: 'pointer' } : undefined}
+              onClick={onRoomClick ? () => onRoomClick(room.id) : undefined}
+            >
+              <title>{room.name}</title>
+            </path>
+          )
+        })}
+
         {sceneType === 'truck' && truckRect && (
           <rect
             x={truckRect.x}
@@ -108,6 +199,11 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
           />
         )}
 
+        {/* Rejilla de ocupación */}
+        {gridRects.map((r, i) => (
+          <rect key={i} x={r.x} y={r.y} width={r.width} height={r.height} fill={r.color} opacity="0.6" />
+        ))}
+
         {/* Grid */}
         <defs>
           <pattern
@@ -173,6 +269,15 @@ export const MiniMap = memo<MiniMapProps>(function MiniMap({
           <span className="minimap__legend-dot minimap__legend-dot--target"></span>
           <span className="minimap__legend-text">Objetivo</span>
         </div>
+        {occupancyGrid && (
+          <div className="minimap__legend-item">
+            <span
+              className="minimap__legend-dot"
+              style={{ background: ACCESS_CELL_COLORS[AccessCell.BLOCKED_PALLET] ?? undefined }}
+            ></span>
+            <span className="minimap__legend-text">Bloqueado</span>
+          </div>
+        )}
       </div>
     </div>
   )
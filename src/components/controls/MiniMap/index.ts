@@ -1,2 +1,2 @@
 export { MiniMap } from './MiniMap'
-export type { MiniMapProps } from './MiniMap'
+export type { MiniMapProps, MiniMapRoom } from './MiniMap'
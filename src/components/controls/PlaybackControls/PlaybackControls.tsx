@@ -0,0 +1,91 @@
+/**
+ * PlaybackControls — Controles flotantes para reproducir una secuencia de carga
+ * (play/pausa, paso a paso y barra de progreso)
+ */
+
+import { memo } from 'react'
+import './PlaybackControls.css'
+
+export interface PlaybackControlsProps {
+  step: number
+  stepCount: number
+  isPlaying: boolean
+  onToggle: () => void
+  onStepBack: () => void
+  onStepForward: () => void
+  onReset: () => void
+  onSeek?: (step: number) => void
+  /** Texto del paso actual (p. ej. el id de la última caja colocada) */
+  label?: string
+  position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left'
+}
+
+export const PlaybackControls = memo<PlaybackControlsProps>(function PlaybackControls({
+  step,
+  stepCount,
+  isPlaying,
+  onToggle,
+  onStepBack,
+  onStepForward,
+  onReset,
+  onSeek,
+  label,
+  position = 'bottom-right',
+}) {
+  return (
+    <div className={`playback-controls playback-controls--${position}`}>
+      <div className="playback-controls__title">
+        Secuencia de carga · {step}/{stepCount}
+      </div>
+      <div className="playback-controls__buttons">
+        <button
+          className="playback-controls__button"
+          onClick={onReset}
+          disabled={step === 0}
+          title="Reiniciar"
+          aria-label="Reiniciar"
+        >
+          ⏮
+        </button>
+        <button
+          className="playback-controls__button"
+          onClick={onStepBack}
+          disabled={step === 0}
+          title="Paso anterior"
+          aria-label="Paso anterior"
+        >
+          ◀
+        </button>
+        <button
+          className="playback-controls__button playback-controls__button--primary"
+          onClick={onToggle}
+          title={isPlaying ? 'Pausa' : 'Reproducir'}
+          aria-label={isPlaying ? 'Pausa' : 'Reproducir'}
+        >
+          {isPlaying ? '⏸' : '▶'}
+        </button>
+        <button
+          className="playback-controls__button"
+          onClick={onStepForward}
+          disabled={step >= stepCount}
+          title="Paso siguiente"
+          aria-label="Paso siguiente"
+        >
+          ▶▶
+        </button>
+      </div>
+      {onSeek && (
+        <input
+          className="playback-controls__progress"
+          type="range"
+          min={0}
+          max={stepCount}
+          value={step}
+          onChange={e => onSeek(Number(e.target.value))}
+          aria-label="Progreso de la secuencia"
+        />
+      )}
+      {label && <div className="playback-controls__label">{label}</div>}
+    </div>
+  )
+})
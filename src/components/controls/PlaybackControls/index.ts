@@ -0,0 +1,2 @@
+export { PlaybackControls } from './PlaybackControls'
+export type { PlaybackControlsProps } from './PlaybackControls'
@@ -9,7 +9,10 @@ export { ViewControls } from './ViewControls'
 export type { ViewControlsProps } from './ViewControls'
 
 export { MiniMap } from './MiniMap'
-export type { MiniMapProps } from './MiniMap'
+export type { MiniMapProps, MiniMapRoom } from './MiniMap'
 
 export { CameraTracker } from './CameraTracker'
 export type { CameraTrackerProps } from './CameraTracker'
+
+export { PlaybackControls } from './PlaybackControls'
+export type { PlaybackControlsProps } from './PlaybackControls'
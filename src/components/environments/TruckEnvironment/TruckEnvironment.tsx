@@ -4,11 +4,14 @@
  * El centro de la escena es el interior del remolque (zona de carga).
  * La superficie donde se colocan los palets es únicamente el suelo del remolque.
  * Elementos visuales adicionales (cabina, chasis, ruedas) dan forma de camión real.
+ * Los contenedores ISO se dibujan como un casco sobre el suelo: paredes corrugadas,
+ * postes de esquina, marco de puertas y, si es frigorífico, el equipo de frío.
  */
 
 import { memo, useMemo, type ReactNode } from 'react'
 import * as THREE from 'three'
 import type { Truck } from '@/core/entities/Truck'
+import { getBulkheads, isContainer, isReeferContainer } from '@/core/entities/Truck'
 import { UNITS } from '@/core/constants'
 import { usePreset } from '@/context/PresetContext'
 
@@ -22,6 +25,8 @@ export interface TruckEnvironmentProps {
   showRoof?: boolean
   /** Mostrar/ocultar paredes laterales. Por defecto: true */
   showSideWalls?: boolean
+  /** Carrocería a dibujar. Por defecto: 'container' para los tipos de contenedor ISO, 'truck' para el resto */
+  body?: 'truck' | 'container'
   children?: ReactNode
 }
 
@@ -59,6 +64,7 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
   wallOpacity = 0.3,
   showRoof = false,
   showSideWalls = true,
+  body,
   children,
 }) {
   const preset = usePreset()
@@ -79,7 +85,14 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
   const chassisH = 0.25               // altura del bastidor
   const wheelY = wheelRadius + groundClearance  // ruedas apoyadas con clearance
   const chassisY = wheelY + wheelRadius + 0.1  // chasis sobre las ruedas
-  const remolqueFloorY = chassisY + chassisH / 2 + floorThickness / 2  // remolque sobre el chasis
+  const container = body ? body === 'container' : isContainer(truck)
+  const reefer = container && isReeferContainer(truck)
+  const containerColor = truckStyle.containerColor ?? truckStyle.wallColor
+  const railH = 0.16                  // largueros inferiores del contenedor
+  // El remolque va sobre el chasis; el contenedor, apoyado en el suelo
+  const remolqueFloorY = container
+    ? railH + floorThickness / 2
+    : chassisY + chassisH / 2 + floorThickness / 2
   
   const cabW = tw + wallThickness * 2  // la cabina tiene el mismo ancho exterior
   const cabD = tw * 0.65              // profundidad de la cabina
@@ -114,7 +127,7 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
   const solidWallMaterial = useMemo(
     () => (
       <meshStandardMaterial
-        color={truckStyle.wallColor}
+        color={container ? containerColor : truckStyle.wallColor}
         roughness={0.5}
         metalness={0.3}
         transparent={wallOpacity < 1}
@@ -123,9 +136,26 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
         depthWrite={wallOpacity >= 0.95}
       />
     ),
-    [truckStyle.wallColor, wallOpacity],
+    [container, containerColor, truckStyle.wallColor, wallOpacity],
   )
 
+  // Contenedor: nervios verticales de las paredes corrugadas (cada 30 cm)
+  const ribZs = useMemo(() => {
+    if (!container) return []
+    const zs: number[] = []
+    for (let z = 0.3; z < td - 0.15; z += 0.3) zs.push(z)
+    return zs
+  }, [container, td])
+
+  // Contenedor: marco de las puertas (z = 0) alrededor del hueco libre
+  const doorW = Math.min((truck.doorOpening?.width ?? truck.dimensions.width) * s, tw)
+  const doorH = Math.min((truck.doorOpening?.height ?? truck.dimensions.height) * s, th)
+  const doorPostW = (tw - doorW) / 2 + wallThickness
+  const doorHeaderH = th - doorH + wallThickness
+
+  // Frigoríficos multitemperatura: mamparos entre compartimentos
+  const bulkheadZs = useMemo(() => getBulkheads(truck).map(z => z * s), [truck, s])
+
   return (
     <group>
       {/* ═══════════════════════════════════════════════════════
@@ -178,6 +208,20 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
         </mesh>
       )}
 
+      {/* Mamparos de los compartimentos de temperatura */}
+      {bulkheadZs.map(z => (
+        <mesh key={`bulkhead-${z}`} position={[tw / 2, remolqueFloorY + th / 2, z]}>
+          <boxGeometry args={[tw, th, 0.04]} />
+          <meshStandardMaterial
+            color={truckStyle.bulkheadColor ?? '#9ecbe8'}
+            transparent
+            opacity={0.35}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+      ))}
+
       {/* Grid del suelo del remolque */}
       {resolvedShowGrid && gridGeometry && (
         <lineSegments geometry={gridGeometry}>
@@ -191,152 +235,207 @@ export const TruckEnvironment = memo<TruckEnvironmentProps>(function TruckEnviro
       )}
 
       {/* ═══════════════════════════════════════════════════════
-       *   CHASIS / BASTIDOR
+       *   CONTENEDOR ISO
        * ═══════════════════════════════════════════════════════ */}
+      {container && (
+        <>
+          {/* Largueros inferiores */}
+          {[-wallThickness, tw + wallThickness].map(x => (
+            <mesh key={`rail-${x}`} position={[x, railH / 2, td / 2]} castShadow>
+              <boxGeometry args={[0.1, railH, td + wallThickness]} />
+              <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
+            </mesh>
+          ))}
+
+          {/* Postes de esquina */}
+          {[-wallThickness, tw + wallThickness].flatMap(x => [0, td + wallThickness].map(z => (
+            <mesh key={`post-${x}-${z}`} position={[x, (remolqueFloorY + th) / 2, z]} castShadow>
+              <boxGeometry args={[0.12, remolqueFloorY + th, 0.12]} />
+              <meshStandardMaterial color={containerColor} roughness={0.6} metalness={0.4} />
+            </mesh>
+          )))}
+
+          {/* Nervios de las paredes laterales */}
+          {showSideWalls && ribZs.flatMap(z => [-wallThickness - 0.01, tw + wallThickness + 0.01].map(x => (
+            <mesh key={`rib-${x}-${z}`} position={[x, remolqueFloorY + th / 2, z]}>
+              <boxGeometry args={[0.02, th, 0.08]} />
+              <meshStandardMaterial color={containerColor} roughness={0.6} metalness={0.4} />
+            </mesh>
+          )))}
+
+          {/* Marco de las puertas: postes laterales y dintel sobre el hueco libre */}
+          {[doorPostW / 2 - wallThickness, tw + wallThickness - doorPostW / 2].map(x => (
+            <mesh key={`door-post-${x}`} position={[x, remolqueFloorY + th / 2, -0.03]} castShadow>
+              <boxGeometry args={[doorPostW, th, 0.06]} />
+              <meshStandardMaterial color={containerColor} roughness={0.6} metalness={0.4} />
+            </mesh>
+          ))}
+          <mesh position={[tw / 2, remolqueFloorY + th - doorHeaderH / 2 + wallThickness, -0.03]} castShadow>
+            <boxGeometry args={[tw + wallThickness * 2, doorHeaderH, 0.06]} />
+            <meshStandardMaterial color={containerColor} roughness={0.6} metalness={0.4} />
+          </mesh>
+
+          {/* Equipo de frío en la pared frontal */}
+          {reefer && (
+            <mesh position={[tw / 2, remolqueFloorY + th / 2, td + wallThickness + 0.12]} castShadow>
+              <boxGeometry args={[tw * 0.9, th * 0.9, 0.2]} />
+              <meshStandardMaterial color="#e8e8e8" roughness={0.5} metalness={0.3} />
+            </mesh>
+          )}
+        </>
+      )}
 
-      {/* Largueros del chasis (dos vigas longitudinales) */}
-      <mesh position={[tw * 0.25, chassisY, (td + cabD + cabGap) / 2]} castShadow>
-        <boxGeometry args={[0.12, chassisH, td + cabD + cabGap]} />
-        <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
-      </mesh>
-      <mesh position={[tw * 0.75, chassisY, (td + cabD + cabGap) / 2]} castShadow>
-        <boxGeometry args={[0.12, chassisH, td + cabD + cabGap]} />
-        <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
-      </mesh>
-
-      {/* Travesaños */}
-      {[0.15, 0.35, 0.55, 0.75, 0.95].map((frac) => (
-        <mesh key={frac} position={[tw / 2, chassisY, td * frac]} castShadow>
-          <boxGeometry args={[tw * 0.6, 0.06, 0.06]} />
-          <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
-        </mesh>
-      ))}
-
-      {/* ═══════════════════════════════════════════════════════
-       *   RUEDAS
-       * ═══════════════════════════════════════════════════════ */}
-
-      {/* Ejes traseros del remolque (doble eje) */}
-      <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, td * 0.12]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-      <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, td * 0.12]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-      <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, td * 0.22]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-      <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, td * 0.22]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-
-      {/* Ruedas del eje de la cabina */}
-      <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, cabZ + cabD * 0.5]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-      <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, cabZ + cabD * 0.5]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
-
-      {/* ═══════════════════════════════════════════════════════
-       *   CABINA
-       * ═══════════════════════════════════════════════════════ */}
-      <group position={[tw / 2, cabFloorY, cabZ]}>
-        {/* Cuerpo principal de la cabina */}
-        <mesh position={[0, cabH / 2, cabD / 2]} castShadow receiveShadow>
-          <boxGeometry args={[cabW, cabH, cabD]} />
-          <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
-        </mesh>
-
-        {/* Parabrisas (frontal) */}
-        <mesh
-          position={[0, cabH * 0.6, cabD + 0.01]}
-          castShadow
-        >
-          <planeGeometry args={[cabW * 0.75, cabH * 0.4]} />
-          <meshStandardMaterial
-            color="#88bbdd"
-            transparent
-            opacity={0.5}
-            roughness={0.1}
-            metalness={0.6}
-            side={THREE.DoubleSide}
-          />
-        </mesh>
-
-        {/* Ventanilla izquierda */}
-        <mesh position={[-cabW / 2 - 0.01, cabH * 0.6, cabD * 0.55]} rotation={[0, Math.PI / 2, 0]}>
-          <planeGeometry args={[cabD * 0.5, cabH * 0.3]} />
-          <meshStandardMaterial
-            color="#88bbdd"
-            transparent
-            opacity={0.4}
-            roughness={0.1}
-            metalness={0.6}
-            side={THREE.DoubleSide}
-          />
-        </mesh>
-
-        {/* Ventanilla derecha */}
-        <mesh position={[cabW / 2 + 0.01, cabH * 0.6, cabD * 0.55]} rotation={[0, -Math.PI / 2, 0]}>
-          <planeGeometry args={[cabD * 0.5, cabH * 0.3]} />
-          <meshStandardMaterial
-            color="#88bbdd"
-            transparent
-            opacity={0.4}
-            roughness={0.1}
-            metalness={0.6}
-            side={THREE.DoubleSide}
-          />
-        </mesh>
-
-        {/* Techo de la cabina (ligeramente redondeado con box) */}
-        <mesh position={[0, cabH + 0.04, cabD / 2]}>
-          <boxGeometry args={[cabW * 0.95, 0.08, cabD * 0.9]} />
-          <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
-        </mesh>
-
-        {/* Deflector de aire encima de la cabina */}
-        <mesh position={[0, cabH + 0.25, cabD * 0.1]} rotation={[-0.3, 0, 0]}>
-          <boxGeometry args={[cabW * 0.9, 0.04, cabD * 0.5]} />
-          <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
-        </mesh>
-
-        {/* Faros delanteros */}
-        <mesh position={[-cabW * 0.35, cabH * 0.2, cabD + 0.02]}>
-          <boxGeometry args={[cabW * 0.15, 0.08, 0.02]} />
-          <meshStandardMaterial color="#ffffcc" emissive="#ffffaa" emissiveIntensity={0.3} />
-        </mesh>
-        <mesh position={[cabW * 0.35, cabH * 0.2, cabD + 0.02]}>
-          <boxGeometry args={[cabW * 0.15, 0.08, 0.02]} />
-          <meshStandardMaterial color="#ffffcc" emissive="#ffffaa" emissiveIntensity={0.3} />
-        </mesh>
-
-        {/* Parachoques delantero */}
-        <mesh position={[0, 0.06, cabD + 0.04]} castShadow>
-          <boxGeometry args={[cabW * 1.02, 0.12, 0.06]} />
-          <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.5} metalness={0.6} />
-        </mesh>
-      </group>
-
-      {/* ═══════════════════════════════════════════════════════
-       *   GUARDABARROS
-       * ═══════════════════════════════════════════════════════ */}
-      {/* Guardabarros traseros */}
-      {[-1, 1].map(side => (
-        <mesh
-          key={`fender-rear-${side}`}
-          position={[
-            side === -1 ? -wallThickness - wheelWidth * 0.5 : tw + wallThickness + wheelWidth * 0.5,
-            wheelY + wheelRadius * 0.6,
-            td * 0.17,
-          ]}
-          castShadow
-        >
-          <boxGeometry args={[wheelWidth + 0.04, 0.04, wheelRadius * 2.5]} />
-          <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.6} metalness={0.4} />
-        </mesh>
-      ))}
-
-      {/* ═══════════════════════════════════════════════════════
-       *   LUCES TRASERAS (puerta del remolque)
-       * ═══════════════════════════════════════════════════════ */}
-      <mesh position={[-wallThickness / 2 + 0.01, remolqueFloorY + th * 0.3, -0.01]}>
-        <boxGeometry args={[0.08, 0.12, 0.02]} />
-        <meshStandardMaterial color="#ff3333" emissive="#ff0000" emissiveIntensity={0.3} />
-      </mesh>
-      <mesh position={[tw + wallThickness / 2 - 0.01, remolqueFloorY + th * 0.3, -0.01]}>
-        <boxGeometry args={[0.08, 0.12, 0.02]} />
-        <meshStandardMaterial color="#ff3333" emissive="#ff0000" emissiveIntensity={0.3} />
-      </mesh>
+      {!container && (
+        <>
+          {/* ═══════════════════════════════════════════════════════
+           *   CHASIS / BASTIDOR
+           * ═══════════════════════════════════════════════════════ */}
+
+          {/* Largueros del chasis (dos vigas longitudinales) */}
+          <mesh position={[tw * 0.25, chassisY, (td + cabD + cabGap) / 2]} castShadow>
+            <boxGeometry args={[0.12, chassisH, td + cabD + cabGap]} />
+            <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
+          </mesh>
+          <mesh position={[tw * 0.75, chassisY, (td + cabD + cabGap) / 2]} castShadow>
+            <boxGeometry args={[0.12, chassisH, td + cabD + cabGap]} />
+            <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
+          </mesh>
+
+          {/* Travesaños */}
+          {[0.15, 0.35, 0.55, 0.75, 0.95].map((frac) => (
+            <mesh key={frac} position={[tw / 2, chassisY, td * frac]} castShadow>
+              <boxGeometry args={[tw * 0.6, 0.06, 0.06]} />
+              <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.7} metalness={0.5} />
+            </mesh>
+          ))}
+
+          {/* ═══════════════════════════════════════════════════════
+           *   RUEDAS
+           * ═══════════════════════════════════════════════════════ */}
+
+          {/* Ejes traseros del remolque (doble eje) */}
+          <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, td * 0.12]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+          <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, td * 0.12]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+          <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, td * 0.22]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+          <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, td * 0.22]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+
+          {/* Ruedas del eje de la cabina */}
+          <Wheel position={[-wheelWidth / 2 - wallThickness, wheelY, cabZ + cabD * 0.5]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+          <Wheel position={[tw + wheelWidth / 2 + wallThickness, wheelY, cabZ + cabD * 0.5]} radius={wheelRadius} width={wheelWidth} color={truckStyle.wheelColor} />
+
+          {/* ═══════════════════════════════════════════════════════
+           *   CABINA
+           * ═══════════════════════════════════════════════════════ */}
+          <group position={[tw / 2, cabFloorY, cabZ]}>
+            {/* Cuerpo principal de la cabina */}
+            <mesh position={[0, cabH / 2, cabD / 2]} castShadow receiveShadow>
+              <boxGeometry args={[cabW, cabH, cabD]} />
+              <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
+            </mesh>
+
+            {/* Parabrisas (frontal) */}
+            <mesh
+              position={[0, cabH * 0.6, cabD + 0.01]}
+              castShadow
+            >
+              <planeGeometry args={[cabW * 0.75, cabH * 0.4]} />
+              <meshStandardMaterial
+                color="#88bbdd"
+                transparent
+                opacity={0.5}
+                roughness={0.1}
+                metalness={0.6}
+                side={THREE.DoubleSide}
+              />
+            </mesh>
+
+            {/* Ventanilla izquierda */}
+            <mesh position={[-cabW / 2 - 0.01, cabH * 0.6, cabD * 0.55]} rotation={[0, Math.PI / 2, 0]}>
+              <planeGeometry args={[cabD * 0.5, cabH * 0.3]} />
+              <meshStandardMaterial
+                color="#88bbdd"
+                transparent
+                opacity={0.4}
+                roughness={0.1}
+                metalness={0.6}
+                side={THREE.DoubleSide}
+              />
+            </mesh>
+
+            {/* Ventanilla derecha */}
+            <mesh position={[cabW / 2 + 0.01, cabH * 0.6, cabD * 0.55]} rotation={[0, -Math.PI / 2, 0]}>
+              <planeGeometry args={[cabD * 0.5, cabH * 0.3]} />
+              <meshStandardMaterial
+                color="#88bbdd"
+                transparent
+                opacity={0.4}
+                roughness={0.1}
+                metalness={0.6}
+                side={THREE.DoubleSide}
+              />
+            </mesh>
+
+            {/* Techo de la cabina (ligeramente redondeado con box) */}
+            <mesh position={[0, cabH + 0.04, cabD / 2]}>
+              <boxGeometry args={[cabW * 0.95, 0.08, cabD * 0.9]} />
+              <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
+            </mesh>
+
+            {/* Deflector de aire encima de la cabina */}
+            <mesh position={[0, cabH + 0.25, cabD * 0.1]} rotation={[-0.3, 0, 0]}>
+              <boxGeometry args={[cabW * 0.9, 0.04, cabD * 0.5]} />
+              <meshStandardMaterial color={truckStyle.cabColor} roughness={0.4} metalness={0.3} />
+            </mesh>
+
+            {/* Faros delanteros */}
+            <mesh position={[-cabW * 0.35, cabH * 0.2, cabD + 0.02]}>
+              <boxGeometry args={[cabW * 0.15, 0.08, 0.02]} />
+              <meshStandardMaterial color="#ffffcc" emissive="#ffffaa" emissiveIntensity={0.3} />
+            </mesh>
+            <mesh position={[cabW * 0.35, cabH * 0.2, cabD + 0.02]}>
+              <boxGeometry args={[cabW * 0.15, 0.08, 0.02]} />
+              <meshStandardMaterial color="#ffffcc" emissive="#ffffaa" emissiveIntensity={0.3} />
+            </mesh>
+
+            {/* Parachoques delantero */}
+            <mesh position={[0, 0.06, cabD + 0.04]} castShadow>
+              <boxGeometry args={[cabW * 1.02, 0.12, 0.06]} />
+              <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.5} metalness={0.6} />
+            </mesh>
+          </group>
+
+          {/* ═══════════════════════════════════════════════════════
+           *   GUARDABARROS
+           * ═══════════════════════════════════════════════════════ */}
+          {/* Guardabarros traseros */}
+          {[-1, 1].map(side => (
+            <mesh
+              key={`fender-rear-${side}`}
+              position={[
+                side === -1 ? -wallThickness - wheelWidth * 0.5 : tw + wallThickness + wheelWidth * 0.5,
+                wheelY + wheelRadius * 0.6,
+                td * 0.17,
+              ]}
+              castShadow
+            >
+              <boxGeometry args={[wheelWidth + 0.04, 0.04, wheelRadius * 2.5]} />
+              <meshStandardMaterial color={truckStyle.chassisColor} roughness={0.6} metalness={0.4} />
+            </mesh>
+          ))}
+
+          {/* ═══════════════════════════════════════════════════════
+           *   LUCES TRASERAS (puerta del remolque)
+           * ═══════════════════════════════════════════════════════ */}
+          <mesh position={[-wallThickness / 2 + 0.01, remolqueFloorY + th * 0.3, -0.01]}>
+            <boxGeometry args={[0.08, 0.12, 0.02]} />
+            <meshStandardMaterial color="#ff3333" emissive="#ff0000" emissiveIntensity={0.3} />
+          </mesh>
+          <mesh position={[tw + wallThickness / 2 - 0.01, remolqueFloorY + th * 0.3, -0.01]}>
+            <boxGeometry args={[0.08, 0.12, 0.02]} />
+            <meshStandardMaterial color="#ff3333" emissive="#ff0000" emissiveIntensity={0.3} />
+          </mesh>
+        </>
+      )}
 
       {/* ═══════════════════════════════════════════════════════
        *   ILUMINACIÓN
@@ -1,6 +1,6 @@
 /**
  * WarehouseEnvironment — Decorado de escena almacén
- * Suelo, paredes (según polígono de Room), techo, grid, iluminación
+ * Suelo, paredes (según polígono de Room), techo, grid, iluminación, obstáculos y estructura de las estanterías
  */
 
 import { memo, useMemo, type ReactNode } from 'react'
@@ -8,12 +8,18 @@ import * as THREE from 'three'
 import { UNITS } from '@/core/constants'
 import type { Room } from '@/core/entities/Room'
 import { usePreset } from '@/context/PresetContext'
+import { RackComponent } from '@/components/primitives/Rack'
+import { RoomObstacleComponent } from '@/components/primitives/RoomObstacle'
 
 export interface WarehouseEnvironmentProps {
   room: Room
   floorColor?: string
   wallColor?: string
   showGrid?: boolean
+  /** Pintar la franja libre de puertas, salidas y cuadros (por defecto: true) */
+  showObstacleClearances?: boolean
+  /** Incluir las luces de la estancia (por defecto: true); la escena de varias estancias las pone una vez */
+  showLighting?: boolean
   children?: ReactNode
 }
 
@@ -23,6 +29,8 @@ export const WarehouseEnvironment = memo<WarehouseEnvironmentProps>(
     floorColor,
     wallColor,
     showGrid,
+    showObstacleClearances = true,
+    showLighting = true,
     children,
   }) {
     const preset = usePreset()
@@ -149,20 +157,39 @@ export const WarehouseEnvironment = memo<WarehouseEnvironmentProps>(
           </lineSegments>
         )}
 
+        {/* Obstáculos y zonas reservadas */}
+        {room.obstacles?.map(obstacle => (
+          <RoomObstacleComponent
+            key={obstacle.id}
+            obstacle={obstacle}
+            room={room}
+            showClearance={showObstacleClearances}
+          />
+        ))}
+
+        {/* Estanterías (sus palets los pinta la escena) */}
+        {room.racks?.map(rack => (
+          <RackComponent key={rack.id} rack={rack} />
+        ))}
+
         {/* Iluminación almacén */}
-        <ambientLight intensity={preset.warehouse.ambientIntensity} />
-        <directionalLight
-          position={[centerX + sizeX, ceilingH * 0.8, centerZ + sizeZ]}
-          intensity={preset.warehouse.directionalIntensity}
-          castShadow
-          shadow-mapSize-width={1024}
-          shadow-mapSize-height={1024}
-        />
-        <pointLight
-          position={[centerX, ceilingH * 0.9, centerZ]}
-          intensity={0.5}
-          distance={Math.max(sizeX, sizeZ) * 2}
-        />
+        {showLighting && (
+          <>
+            <ambientLight intensity={preset.warehouse.ambientIntensity} />
+            <directionalLight
+              position={[centerX + sizeX, ceilingH * 0.8, centerZ + sizeZ]}
+              intensity={preset.warehouse.directionalIntensity}
+              castShadow
+              shadow-mapSize-width={1024}
+              shadow-mapSize-height={1024}
+            />
+            <pointLight
+              position={[centerX, ceilingH * 0.9, centerZ]}
+              intensity={0.5}
+              distance={Math.max(sizeX, sizeZ) * 2}
+            />
+          </>
+        )}
 
         {/* Children (palets, etc.) */}
         {children}
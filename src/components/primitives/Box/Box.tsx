@@ -8,6 +8,7 @@ import { Html, Edges } from "@react-three/drei";
 import * as THREE from "three";
 import type { PlacedBox } from "@/core/entities/PlacedBox";
 import { UNITS } from "@/core/constants";
+import { getOrientedDimensions } from "@/core/validation/collision";
 import { usePreset } from "@/context/PresetContext";
 
 export interface BoxProps {
@@ -48,16 +49,15 @@ export const BoxComponent = memo<BoxProps>(function BoxComponent({
   const resolvedHighlightedColor =
     highlightedColor ?? preset.selection.highlightedColor;
 
-  // Dimensiones (teniendo en cuenta rotación en Y)
-  let w = box.dimensions.width;
-  let d = box.dimensions.depth;
-  if (rotation.y === 90 || rotation.y === 270) {
-    [w, d] = [d, w];
-  }
+  // Dimensiones efectivas (teniendo en cuenta la rotación discreta en X/Y/Z)
+  const { width: w, height: h, depth: d } = getOrientedDimensions(
+    box.dimensions,
+    rotation,
+  );
 
   const scaledDims = useMemo(
-    () => [w * s, box.dimensions.height * s, d * s] as [number, number, number],
-    [w, d, box.dimensions.height, s],
+    () => [w * s, h * s, d * s] as [number, number, number],
+    [w, h, d, s],
   );
 
   // Posición: convertir mm→m, centrar geometría en Y
@@ -0,0 +1,42 @@
+/**
+ * DropIn — Anima la llegada de su contenido: baja desde una altura al montarse
+ * (usado por el modo reproducción de las escenas)
+ */
+
+import { memo, useRef, type ReactNode } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { Group } from 'three'
+import { UNITS } from '@/core/constants'
+
+export interface DropInProps {
+  /** Altura de partida sobre la posición final, en mm (por defecto: 400) */
+  offset?: number
+  /** Duración de la animación en ms (por defecto: 400) */
+  duration?: number
+  children?: ReactNode
+}
+
+export const DropIn = memo<DropInProps>(function DropIn({
+  offset = 400,
+  duration = 400,
+  children,
+}) {
+  const ref = useRef<Group>(null)
+  const elapsed = useRef(0)
+  const startY = offset * UNITS.MM_TO_M
+
+  useFrame((_, delta) => {
+    const group = ref.current
+    if (!group || elapsed.current >= duration) return
+    elapsed.current = Math.min(elapsed.current + delta * 1000, duration)
+    const t = elapsed.current / duration
+    // Ease-out cúbico
+    group.position.y = startY * (1 - t) ** 3
+  })
+
+  return (
+    <group ref={ref} position={[0, startY, 0]}>
+      {children}
+    </group>
+  )
+})
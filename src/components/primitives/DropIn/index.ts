@@ -0,0 +1,2 @@
+export { DropIn } from './DropIn'
+export type { DropInProps } from './DropIn'
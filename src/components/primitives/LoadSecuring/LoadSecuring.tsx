@@ -0,0 +1,93 @@
+/**
+ * LoadSecuring — Dibuja un plan de trincaje sobre el camión: las cinchas por encima
+ * de cada fila y un panel en las caras de las filas que necesitan bloqueo
+ */
+
+import { memo, useMemo } from 'react'
+import type { LoadSecuringPlan } from '@/core/securing'
+import type { BoundingBox } from '@/core/types'
+import { LoadDirection } from '@/core/types'
+import { UNITS } from '@/core/constants'
+
+export interface LoadSecuringComponentProps {
+  plan: LoadSecuringPlan
+  /** Color de las cinchas (por defecto: naranja) */
+  strapColor?: string
+  /** Color de los paneles de bloqueo (por defecto: rojo) */
+  blockingColor?: string
+}
+
+/** Ancho y grosor de una cincha (mm) */
+const STRAP_WIDTH = 50
+const STRAP_THICKNESS = 6
+/** Separación de la cincha respecto a la carga (mm) */
+const STRAP_CLEARANCE = 10
+const PANEL_THICKNESS = 20
+
+type Segment = { center: [number, number, number]; size: [number, number, number] }
+
+export const LoadSecuringComponent = memo<LoadSecuringComponentProps>(function LoadSecuringComponent({
+  plan,
+  strapColor = '#ff9800',
+  blockingColor = '#e53935',
+}) {
+  const s = UNITS.MM_TO_M
+
+  const straps = useMemo(
+    () => plan.rows.flatMap(row => strapSegments(row.bounds, row.topOverLashings)),
+    [plan],
+  )
+  const panels = useMemo(
+    () => plan.rows.flatMap(row => row.blockingDirections.map(d => blockingPanel(row.bounds, d))),
+    [plan],
+  )
+
+  return (
+    <group>
+      {straps.map((seg, i) => (
+        <mesh key={`strap-${i}`} position={seg.center.map(v => v * s) as [number, number, number]}>
+          <boxGeometry args={seg.size.map(v => v * s) as [number, number, number]} />
+          <meshStandardMaterial color={strapColor} roughness={0.7} />
+        </mesh>
+      ))}
+      {panels.map((seg, i) => (
+        <mesh key={`panel-${i}`} position={seg.center.map(v => v * s) as [number, number, number]}>
+          <boxGeometry args={seg.size.map(v => v * s) as [number, number, number]} />
+          <meshStandardMaterial color={blockingColor} transparent opacity={0.35} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  )
+})
+
+/** Cinchas repartidas a lo largo de la fila: tramo superior y los dos laterales */
+function strapSegments(bb: BoundingBox, count: number): Segment[] {
+  const depth = bb.maxZ - bb.minZ
+  const minX = bb.minX - STRAP_CLEARANCE
+  const maxX = bb.maxX + STRAP_CLEARANCE
+  const top = bb.maxY + STRAP_CLEARANCE
+
+  return Array.from({ length: count }, (_, i) => bb.minZ + (depth * (i + 0.5)) / count).flatMap(z => [
+    { center: [(minX + maxX) / 2, top, z], size: [maxX - minX, STRAP_THICKNESS, STRAP_WIDTH] },
+    { center: [minX, top / 2, z], size: [STRAP_THICKNESS, top, STRAP_WIDTH] },
+    { center: [maxX, top / 2, z], size: [STRAP_THICKNESS, top, STRAP_WIDTH] },
+  ] satisfies Segment[])
+}
+
+/** Panel sobre la cara de la fila que da a la dirección indicada */
+function blockingPanel(bb: BoundingBox, direction: LoadDirection): Segment {
+  const cx = (bb.minX + bb.maxX) / 2
+  const cy = (bb.minY + bb.maxY) / 2
+  const cz = (bb.minZ + bb.maxZ) / 2
+  const w = bb.maxX - bb.minX
+  const h = bb.maxY - bb.minY
+  const d = bb.maxZ - bb.minZ
+  const offset = PANEL_THICKNESS / 2
+
+  switch (direction) {
+    case LoadDirection.FORWARD: return { center: [cx, cy, bb.maxZ + offset], size: [w, h, PANEL_THICKNESS] }
+    case LoadDirection.BACKWARD: return { center: [cx, cy, bb.minZ - offset], size: [w, h, PANEL_THICKNESS] }
+    case LoadDirection.LEFT: return { center: [bb.maxX + offset, cy, cz], size: [PANEL_THICKNESS, h, d] }
+    case LoadDirection.RIGHT: return { center: [bb.minX - offset, cy, cz], size: [PANEL_THICKNESS, h, d] }
+  }
+}
@@ -0,0 +1,2 @@
+export { LoadSecuringComponent } from './LoadSecuring'
+export type { LoadSecuringComponentProps } from './LoadSecuring'
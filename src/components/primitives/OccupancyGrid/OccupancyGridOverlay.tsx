@@ -0,0 +1,65 @@
+/**
+ * OccupancyGridOverlay — Rejilla de ocupación pintada sobre el suelo de la estancia
+ * Una textura con un píxel por celda, coloreada según su estado (AccessCell)
+ */
+
+import { memo, useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import type { OccupancyGrid } from '@/core/accessibility/grid'
+import { UNITS } from '@/core/constants'
+import { ACCESS_CELL_COLORS } from './colors'
+
+export interface OccupancyGridOverlayProps {
+  grid: OccupancyGrid
+  /** Opacidad de las celdas coloreadas (por defecto: 0.45) */
+  opacity?: number
+}
+
+export const OccupancyGridOverlay = memo<OccupancyGridOverlayProps>(function OccupancyGridOverlay({
+  grid,
+  opacity = 0.45,
+}) {
+  const s = UNITS.MM_TO_M
+
+  const texture = useMemo(() => {
+    const { columns, rows, cells } = grid
+    const data = new Uint8Array(columns * rows * 4)
+    const colors = Object.fromEntries(
+      Object.entries(ACCESS_CELL_COLORS).map(([state, color]) => [state, color ? new THREE.Color(color) : null]),
+    )
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const color = colors[cells[row * columns + column]]
+        if (!color) continue
+        // La fila 0 de la textura queda en el borde z máximo del plano
+        const i = ((rows - 1 - row) * columns + column) * 4
+        data[i] = color.r * 255
+        data[i + 1] = color.g * 255
+        data[i + 2] = color.b * 255
+        data[i + 3] = opacity * 255
+      }
+    }
+
+    const tex = new THREE.DataTexture(data, columns, rows, THREE.RGBAFormat)
+    tex.magFilter = THREE.NearestFilter
+    tex.minFilter = THREE.NearestFilter
+    tex.needsUpdate = true
+    return tex
+  }, [grid, opacity])
+
+  useEffect(() => () => texture.dispose(), [texture])
+
+  const width = grid.columns * grid.cellSize * s
+  const depth = grid.rows * grid.cellSize * s
+
+  return (
+    <mesh
+      position={[grid.origin.x * s + width / 2, 0.008, grid.origin.z * s + depth / 2]}
+      rotation={[-Math.PI / 2, 0, 0]}
+    >
+      <planeGeometry args={[width, depth]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} />
+    </mesh>
+  )
+})
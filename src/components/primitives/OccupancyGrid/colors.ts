@@ -0,0 +1,11 @@
+import { AccessCell } from '@/core/accessibility/grid'
+
+/** Color de cada estado de celda (`null` = transparente) */
+export const ACCESS_CELL_COLORS: Record<AccessCell, string | null> = {
+  [AccessCell.OUTSIDE]: null,
+  [AccessCell.FREE]: null,
+  [AccessCell.REACHABLE]: '#4ade80',
+  [AccessCell.OBSTACLE]: '#9ca3af',
+  [AccessCell.PALLET]: '#60a5fa',
+  [AccessCell.BLOCKED_PALLET]: '#f87171',
+}
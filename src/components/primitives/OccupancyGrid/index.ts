@@ -0,0 +1,3 @@
+export { OccupancyGridOverlay } from './OccupancyGridOverlay'
+export { ACCESS_CELL_COLORS } from './colors'
+export type { OccupancyGridOverlayProps } from './OccupancyGridOverlay'
@@ -0,0 +1,89 @@
+/**
+ * Rack — Componente primitivo 3D para la estructura de una estantería
+ * Puntales y vigas; los palets de las ubicaciones se pintan aparte (getRackPlacedPallets)
+ */
+
+import { memo, useMemo } from 'react'
+import type { Rack } from '@/core/entities/Rack'
+import { UNITS } from '@/core/constants'
+import { getBayOffset } from '@/core/entities/Rack'
+import { usePreset } from '@/context/PresetContext'
+
+export interface RackComponentProps {
+  rack: Rack
+  uprightColor?: string
+  beamColor?: string
+}
+
+interface Bar {
+  key: string
+  position: [number, number, number]
+  size: [number, number, number]
+}
+
+export const RackComponent = memo<RackComponentProps>(function RackComponent({
+  rack,
+  uprightColor,
+  beamColor,
+}) {
+  const preset = usePreset()
+  const resolvedUprightColor = uprightColor ?? preset.warehouse.rackUprightColor ?? '#2f5d8a'
+  const resolvedBeamColor = beamColor ?? preset.warehouse.rackBeamColor ?? '#e07b24'
+  const s = UNITS.MM_TO_M
+
+  // Geometría en el sistema local del rack (m): x a lo largo de las vigas, z en el fondo
+  const { uprights, beams } = useMemo(() => {
+    const uw = rack.uprightWidth * s
+    const depth = rack.depth * s
+    const height = rack.height * s
+    const uprightBars: Bar[] = []
+    const beamBars: Bar[] = []
+
+    // Un bastidor (dos puntales, delante y detrás) a cada lado de cada vano
+    for (let i = 0; i <= rack.bays.length; i++) {
+      const x = (getBayOffset(rack, i) - rack.uprightWidth) * s
+      for (const z of [uw / 2, depth - uw / 2]) {
+        uprightBars.push({ key: `u-${i}-${z}`, position: [x + uw / 2, height / 2, z], size: [uw, height, uw] })
+      }
+    }
+
+    // Par de vigas (delante y detrás) por nivel elevado de cada vano
+    rack.bays.forEach((bay, b) => {
+      const x = getBayOffset(rack, b) * s
+      const w = bay.width * s
+      for (const level of bay.levels) {
+        if (level.elevation === 0) continue
+        const bh = level.beamHeight * s
+        for (const z of [uw / 2, depth - uw / 2]) {
+          beamBars.push({
+            key: `${level.id}-${z}`,
+            position: [x + w / 2, level.elevation * s - bh / 2, z],
+            size: [w, bh, uw / 2],
+          })
+        }
+      }
+    })
+
+    return { uprights: uprightBars, beams: beamBars }
+  }, [rack, s])
+
+  return (
+    <group
+      position={[rack.position.x * s, rack.position.y * s, rack.position.z * s]}
+      rotation={[0, (rack.yRotation * Math.PI) / 180, 0]}
+    >
+      {uprights.map(bar => (
+        <mesh key={bar.key} position={bar.position} castShadow receiveShadow>
+          <boxGeometry args={bar.size} />
+          <meshStandardMaterial color={resolvedUprightColor} roughness={0.5} metalness={0.4} />
+        </mesh>
+      ))}
+      {beams.map(bar => (
+        <mesh key={bar.key} position={bar.position} castShadow receiveShadow>
+          <boxGeometry args={bar.size} />
+          <meshStandardMaterial color={resolvedBeamColor} roughness={0.5} metalness={0.3} />
+        </mesh>
+      ))}
+    </group>
+  )
+})
@@ -0,0 +1,2 @@
+export { RackComponent } from './Rack'
+export type { RackComponentProps } from './Rack'
@@ -0,0 +1,87 @@
+/**
+ * RoomObstacle — Componente primitivo 3D para un obstáculo o zona reservada de una estancia
+ * Pilares, puertas, salidas y cuadros como volúmenes; pasillos y zonas prohibidas como
+ * marcas en el suelo. La franja libre se pinta en el suelo alrededor del obstáculo.
+ */
+
+import { memo } from 'react'
+import * as THREE from 'three'
+import type { Room, RoomObstacle } from '@/core/entities/Room'
+import { UNITS } from '@/core/constants'
+import { ObstacleType } from '@/core/types'
+import { getObstacleClearance } from '@/core/validation/obstacles'
+import { usePreset } from '@/context/PresetContext'
+
+const DEFAULT_COLORS: Record<ObstacleType, string> = {
+  [ObstacleType.COLUMN]: '#9e9e9e',
+  [ObstacleType.DOOR]: '#8d6e63',
+  [ObstacleType.FIRE_EXIT]: '#2e7d32',
+  [ObstacleType.ELECTRICAL_PANEL]: '#607d8b',
+  [ObstacleType.WALKWAY]: '#f9d71c',
+  [ObstacleType.NO_GO_ZONE]: '#d32f2f',
+}
+
+/** Tipos que se pintan como marca en el suelo y no como volumen */
+const FLOOR_MARKINGS: ObstacleType[] = [ObstacleType.WALKWAY, ObstacleType.NO_GO_ZONE]
+
+/** Tipos que son huecos de paso y se pintan translúcidos */
+const OPENINGS: ObstacleType[] = [ObstacleType.DOOR, ObstacleType.FIRE_EXIT]
+
+export interface RoomObstacleComponentProps {
+  obstacle: RoomObstacle
+  room: Room
+  color?: string
+  /** Pintar la franja libre alrededor del obstáculo (por defecto: true) */
+  showClearance?: boolean
+}
+
+export const RoomObstacleComponent = memo<RoomObstacleComponentProps>(function RoomObstacleComponent({
+  obstacle,
+  room,
+  color,
+  showClearance = true,
+}) {
+  const preset = usePreset()
+  const resolvedColor = color ?? preset.warehouse.obstacleColors?.[obstacle.type] ?? DEFAULT_COLORS[obstacle.type]
+  const s = UNITS.MM_TO_M
+
+  const w = obstacle.width * s
+  const d = obstacle.depth * s
+  const h = (obstacle.height ?? room.ceilingHeight) * s
+  const cx = obstacle.position.x * s + w / 2
+  const cz = obstacle.position.z * s + d / 2
+  const clearance = getObstacleClearance(obstacle) * s
+
+  return (
+    <group>
+      {FLOOR_MARKINGS.includes(obstacle.type) ? (
+        <mesh position={[cx, 0.006, cz]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+          <planeGeometry args={[w, d]} />
+          <meshStandardMaterial color={resolvedColor} transparent opacity={0.6} depthWrite={false} />
+        </mesh>
+      ) : (
+        <mesh position={[cx, h / 2, cz]} castShadow receiveShadow>
+          <boxGeometry args={[w, h, d]} />
+          <meshStandardMaterial
+            color={resolvedColor}
+            roughness={0.8}
+            {...(OPENINGS.includes(obstacle.type) ? { transparent: true, opacity: 0.45, depthWrite: false } : {})}
+          />
+        </mesh>
+      )}
+
+      {showClearance && clearance > 0 && (
+        <mesh position={[cx, 0.004, cz]} rotation={[-Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[w + clearance * 2, d + clearance * 2]} />
+          <meshBasicMaterial
+            color={resolvedColor}
+            transparent
+            opacity={0.18}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+      )}
+    </group>
+  )
+})
@@ -0,0 +1,2 @@
+export { RoomObstacleComponent } from './RoomObstacle'
+export type { RoomObstacleComponentProps } from './RoomObstacle'
@@ -7,10 +7,13 @@ import { memo, useMemo } from 'react'
 import type { StackedPallet } from '@/core/entities/StackedPallet'
 import { ensureUniqueBoxIds } from '@/core/entities/StackedPallet'
 import type { Position3D } from '@/core/types'
+import { getBoxBoundingBox } from '@/core/validation/collision'
+import { getBoxSequenceKey } from '@/core/sequence/loading'
 import { UNITS } from '@/core/constants'
 import { PalletComponent } from '../Pallet'
 import { BoxComponent } from '../Box'
 import { SeparatorComponent } from '../Separator'
+import { DropIn } from '../DropIn'
 
 export interface StackedPalletComponentProps {
   stackedPallet: StackedPallet
@@ -28,6 +31,11 @@ export interface StackedPalletComponentProps {
   /** Color del borde de highlight/hover (por defecto: azul #42a5f5) */
   highlightedColor?: string
   showLabels?: boolean
+  /** Si se indica, solo se muestran las cajas cuya clave (`getBoxSequenceKey`)
+   *  está en el conjunto. Los pisos superiores aparecen con su primera caja. */
+  visibleBoxKeys?: ReadonlySet<string> | null
+  /** Animar la llegada de cada caja al mostrarse (por defecto: false) */
+  animateBoxes?: boolean
   onBoxClick?: (id: string) => void
   onBoxHover?: (id: string | null) => void
 }
@@ -43,6 +51,8 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
     selectedColor,
     highlightedColor,
     showLabels = false,
+    visibleBoxKeys,
+    animateBoxes = false,
     onBoxClick,
     onBoxHover,
   }) {
@@ -65,7 +75,7 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
         currentY += floor.pallet.dimensions.height
         // Altura de las cajas: máximo top
         const maxBoxTop = floor.boxes.reduce(
-          (max, pb) => Math.max(max, pb.position.y + pb.box.dimensions.height),
+          (max, pb) => Math.max(max, getBoxBoundingBox(pb).maxY),
           0,
         )
         currentY += maxBoxTop
@@ -76,12 +86,24 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
       return offsets
     }, [normalizedStack])
 
+    // Pisos visibles: hasta el piso más alto con alguna caja visible
+    const visibleFloorCount = useMemo(() => {
+      if (!visibleBoxKeys) return normalizedStack.floors.length
+      let count = 1
+      normalizedStack.floors.forEach((floor, floorIdx) => {
+        if (floor.boxes.some((_, boxIdx) => visibleBoxKeys.has(getBoxSequenceKey(floorIdx, boxIdx)))) {
+          count = floorIdx + 1
+        }
+      })
+      return count
+    }, [normalizedStack, visibleBoxKeys])
+
     return (
       <group
         position={[position.x * s, position.y * s, position.z * s]}
         rotation={[0, rotationY, 0]}
       >
-        {normalizedStack.floors.map((floor, idx) => {
+        {normalizedStack.floors.slice(0, visibleFloorCount).map((floor, idx) => {
           const floorY = floorOffsets[idx]
           const palletTopY = floorY + floor.pallet.dimensions.height
 
@@ -94,8 +116,9 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
               />
 
               {/* Cajas en posición relativa al top del palet */}
-              {floor.boxes.map(pb => {
-                return (
+              {floor.boxes.map((pb, boxIdx) => {
+                if (visibleBoxKeys && !visibleBoxKeys.has(getBoxSequenceKey(idx, boxIdx))) return null
+                const box = (
                   <BoxComponent
                     key={pb.id}
                     placedBox={{
@@ -115,10 +138,11 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
                     onHover={onBoxHover}
                   />
                 )
+                return animateBoxes ? <DropIn key={pb.id}>{box}</DropIn> : box
               })}
 
               {/* Separador encima (si hay) */}
-              {floor.separatorAbove && (
+              {floor.separatorAbove && (!visibleBoxKeys || idx < visibleFloorCount - 1) && (
                 <SeparatorComponent
                   separator={floor.separatorAbove}
                   position={{
@@ -126,7 +150,7 @@ export const StackedPalletComponent = memo<StackedPalletComponentProps>(
                     y:
                       palletTopY +
                       floor.boxes.reduce(
-                        (max, pb) => Math.max(max, pb.position.y + pb.box.dimensions.height),
+                        (max, pb) => Math.max(max, getBoxBoundingBox(pb).maxY),
                         0,
                       ),
                     z: 0,
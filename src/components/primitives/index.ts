@@ -16,3 +16,18 @@ export type { StackedPalletComponentProps } from './StackedPallet'
 
 export { Label } from './Label'
 export type { LabelProps } from './Label'
+
+export { DropIn } from './DropIn'
+export type { DropInProps } from './DropIn'
+
+export { LoadSecuringComponent } from './LoadSecuring'
+export type { LoadSecuringComponentProps } from './LoadSecuring'
+
+export { RackComponent } from './Rack'
+export type { RackComponentProps } from './Rack'
+
+export { RoomObstacleComponent } from './RoomObstacle'
+export type { RoomObstacleComponentProps } from './RoomObstacle'
+
+export { OccupancyGridOverlay, ACCESS_CELL_COLORS } from './OccupancyGrid'
+export type { OccupancyGridOverlayProps } from './OccupancyGrid'
@@ -3,17 +3,19 @@
  * Canvas + iluminación + CameraControls + StackedPallet
  */
 
-import { memo, useMemo, useState, useCallback, type ReactNode } from 'react'
+import { memo, useMemo, useState, useCallback, useEffect, type ReactNode } from 'react'
 import { Canvas } from '@react-three/fiber'
 import * as THREE from 'three'
 import type { StackedPallet } from '@/core/entities/StackedPallet'
 import { getStackedPalletTotalHeight } from '@/core/entities/StackedPallet'
 import type { CameraPreset } from '@/components/controls/CameraControls'
 import type { ScenePreset } from '@/core/presets'
-import { CameraControlsComponent, MiniMap, CameraTracker } from '@/components/controls'
+import { CameraControlsComponent, MiniMap, CameraTracker, PlaybackControls } from '@/components/controls'
 import { StackedPalletComponent } from '@/components/primitives/StackedPallet'
 import { PresetProvider } from '@/context/PresetContext'
 import { UNITS } from '@/core/constants'
+import { generateLoadingSequence } from '@/core/sequence/loading'
+import { useLoadingPlayback } from '@/hooks/useLoadingPlayback'
 
 export interface PalletSceneProps {
   stackedPallet: StackedPallet
@@ -30,6 +32,12 @@ export interface PalletSceneProps {
   showGrid?: boolean
   /** Mostrar mini-mapa (por defecto: false) */
   showMiniMap?: boolean
+  /** Modo reproducción: monta el palet caja a caja según `generateLoadingSequence` */
+  playback?: boolean
+  /** Tiempo entre pasos de la reproducción en ms (por defecto: 600) */
+  playbackInterval?: number
+  /** Se llama con el número de pasos completados cada vez que cambia */
+  onPlaybackStep?: (step: number) => void
   onBoxClick?: (id: string) => void
   onBoxHover?: (id: string | null) => void
   children?: ReactNode
@@ -47,6 +55,9 @@ export const PalletScene = memo<PalletSceneProps>(function PalletScene({
   cameraPreset = 'perspective',
   showGrid = true,
   showMiniMap = false,
+  playback = false,
+  playbackInterval = 600,
+  onPlaybackStep,
   onBoxClick,
   onBoxHover,
   children,
@@ -60,6 +71,21 @@ export const PalletScene = memo<PalletSceneProps>(function PalletScene({
   const handleCameraPositionChange = useCallback((pos: { x: number; y: number; z: number }) => {
     setCameraPosition({ x: pos.x, z: pos.z })
   }, [])
+
+  // Modo reproducción: cajas visibles hasta el paso actual
+  const sequence = useMemo(
+    () => (playback ? generateLoadingSequence(stackedPallet).steps : []),
+    [playback, stackedPallet],
+  )
+  const player = useLoadingPlayback(sequence.length, { intervalMs: playbackInterval })
+  const visibleBoxKeys = useMemo(
+    () => (playback ? new Set(sequence.slice(0, player.step).map(st => st.key)) : null),
+    [playback, sequence, player.step],
+  )
+
+  useEffect(() => {
+    if (playback) onPlaybackStep?.(player.step)
+  }, [playback, player.step, onPlaybackStep])
   
   // Dimensiones del palet para cálculo de cámara adaptativa
   const sceneSize = useMemo(() => {
@@ -180,6 +206,8 @@ export const PalletScene = memo<PalletSceneProps>(function PalletScene({
             selectedColor={selectedColor}
             highlightedColor={highlightedColor}
             showLabels={showLabels}
+            visibleBoxKeys={visibleBoxKeys}
+            animateBoxes={playback}
             onBoxClick={onBoxClick}
             onBoxHover={onBoxHover}
           />
@@ -199,6 +227,20 @@ export const PalletScene = memo<PalletSceneProps>(function PalletScene({
           position="bottom-left"
         />
       )}
+
+      {playback && (
+        <PlaybackControls
+          step={player.step}
+          stepCount={player.stepCount}
+          isPlaying={player.isPlaying}
+          onToggle={player.toggle}
+          onStepBack={player.stepBack}
+          onStepForward={player.stepForward}
+          onReset={player.reset}
+          onSeek={player.seek}
+          label={player.step > 0 ? sequence[player.step - 1].placedBox.id : undefined}
+        />
+      )}
     </div>
   )
 })
@@ -2,16 +2,21 @@
  * TruckScene — Escena completa de un camión con palets cargados
  */
 
-import { memo, useMemo, useState, useCallback, type ReactNode } from 'react'
+import { memo, useMemo, useState, useCallback, useEffect, type ReactNode } from 'react'
 import { Canvas } from '@react-three/fiber'
 import type { Truck } from '@/core/entities/Truck'
 import type { PlacedPallet } from '@/core/entities/PlacedPallet'
 import type { CameraPreset } from '@/components/controls/CameraControls'
 import type { ScenePreset } from '@/core/presets'
-import { CameraControlsComponent, MiniMap, CameraTracker } from '@/components/controls'
+import type { LoadSecuringPlan } from '@/core/securing'
+import { CameraControlsComponent, MiniMap, CameraTracker, PlaybackControls } from '@/components/controls'
 import { TruckEnvironment } from '@/components/environments/TruckEnvironment'
 import { StackedPalletComponent } from '@/components/primitives/StackedPallet'
+import { DropIn } from '@/components/primitives/DropIn'
+import { LoadSecuringComponent } from '@/components/primitives/LoadSecuring'
 import { validatePalletInTruck } from '@/core/validation/bounds'
+import { generateTruckLoadingSequence } from '@/core/sequence/loading'
+import { useLoadingPlayback } from '@/hooks/useLoadingPlayback'
 import { PresetProvider } from '@/context/PresetContext'
 import { UNITS } from '@/core/constants'
 
@@ -37,6 +42,14 @@ export interface TruckSceneProps {
   cameraPreset?: CameraPreset
   /** Mostrar mini-mapa (por defecto: false) */
   showMiniMap?: boolean
+  /** Plan de trincaje a dibujar (ver `computeLoadSecuring`). Se oculta en modo reproducción */
+  securing?: LoadSecuringPlan
+  /** Modo reproducción: carga el camión palet a palet según `generateTruckLoadingSequence` */
+  playback?: boolean
+  /** Tiempo entre pasos de la reproducción en ms (por defecto: 600) */
+  playbackInterval?: number
+  /** Se llama con el número de pasos completados cada vez que cambia */
+  onPlaybackStep?: (step: number) => void
   onBoxClick?: (id: string) => void
   onBoxHover?: (id: string | null) => void
   children?: ReactNode
@@ -57,6 +70,10 @@ export const TruckScene = memo<TruckSceneProps>(function TruckScene({
   showSideWalls = true,
   cameraPreset = 'perspective',
   showMiniMap = false,
+  securing,
+  playback = false,
+  playbackInterval = 600,
+  onPlaybackStep,
   onBoxClick,
   onBoxHover,
   children,
@@ -106,6 +123,22 @@ export const TruckScene = memo<TruckSceneProps>(function TruckScene({
     })
   }, [truck])
 
+  // Modo reproducción: palets visibles hasta el paso actual
+  const sequence = useMemo(() => {
+    if (!playback) return []
+    const valid = new Set(validPallets)
+    return generateTruckLoadingSequence(truck).filter(st => valid.has(st.placedPallet))
+  }, [playback, truck, validPallets])
+  const player = useLoadingPlayback(sequence.length, { intervalMs: playbackInterval })
+  const renderedPallets = useMemo(
+    () => (playback ? sequence.slice(0, player.step).map(st => st.placedPallet) : validPallets),
+    [playback, sequence, player.step, validPallets],
+  )
+
+  useEffect(() => {
+    if (playback) onPlaybackStep?.(player.step)
+  }, [playback, player.step, onPlaybackStep])
+
   return (
     <div style={{ position: 'relative', width: '100%', height: '100%' }}>
       <Canvas
@@ -135,22 +168,26 @@ export const TruckScene = memo<TruckSceneProps>(function TruckScene({
             showRoof={showRoof}
             showSideWalls={showSideWalls}
           >
-            {validPallets.map(pp => (
-              <StackedPalletComponent
-                key={pp.id}
-                stackedPallet={pp.stackedPallet}
-                position={pp.position}
-                yRotation={pp.yRotation}
-                palletId={pp.id}
-                selectedBoxId={selectedBoxId}
-                highlightedBoxId={highlightedBoxId}
-                selectedColor={selectedColor}
-                highlightedColor={highlightedColor}
-                showLabels={showLabels}
-                onBoxClick={onBoxClick}
-                onBoxHover={onBoxHover}
-              />
-            ))}
+            {renderedPallets.map(pp => {
+              const pallet = (
+                <StackedPalletComponent
+                  key={pp.id}
+                  stackedPallet={pp.stackedPallet}
+                  position={pp.position}
+                  yRotation={pp.yRotation}
+                  palletId={pp.id}
+                  selectedBoxId={selectedBoxId}
+                  highlightedBoxId={highlightedBoxId}
+                  selectedColor={selectedColor}
+                  highlightedColor={highlightedColor}
+                  showLabels={showLabels}
+                  onBoxClick={onBoxClick}
+                  onBoxHover={onBoxHover}
+                />
+              )
+              return playback ? <DropIn key={pp.id} offset={800} duration={500}>{pallet}</DropIn> : pallet
+            })}
+            {securing && !playback && <LoadSecuringComponent plan={securing} />}
             {children}
           </TruckEnvironment>
         </PresetProvider>
@@ -166,6 +203,20 @@ export const TruckScene = memo<TruckSceneProps>(function TruckScene({
           position="bottom-left"
         />
       )}
+
+      {playback && (
+        <PlaybackControls
+          step={player.step}
+          stepCount={player.stepCount}
+          isPlaying={player.isPlaying}
+          onToggle={player.toggle}
+          onStepBack={player.stepBack}
+          onStepForward={player.stepForward}
+          onReset={player.reset}
+          onSeek={player.seek}
+          label={player.step > 0 ? sequence[player.step - 1].placedPallet.id : undefined}
+        />
+      )}
     </div>
   )
 })
@@ -0,0 +1,254 @@
+/**
+ * WarehouseBuildingScene — Escena de un almacén con todas sus estancias
+ * Cada estancia se coloca en su `position`; la cámara vuela a la estancia enfocada
+ */
+
+import { memo, useMemo, useState, useCallback, type ReactNode } from 'react'
+import { Canvas } from '@react-three/fiber'
+import type { Room } from '@/core/entities/Room'
+import type { Warehouse, FloorBounds } from '@/core/entities/Warehouse'
+import type { PlacedPallet } from '@/core/entities/PlacedPallet'
+import type { CameraPreset } from '@/components/controls/CameraControls'
+import type { MiniMapRoom } from '@/components/controls/MiniMap'
+import type { ScenePreset } from '@/core/presets'
+import { CameraControlsComponent, MiniMap, CameraTracker } from '@/components/controls'
+import { WarehouseEnvironment } from '@/components/environments/WarehouseEnvironment'
+import { StackedPalletComponent } from '@/components/primitives/StackedPallet'
+import { getRoomBounds, getRoomFloorPolygon, getRoomOrigin, getWarehouseBounds } from '@/core/entities/Warehouse'
+import { validatePalletInRoom } from '@/core/validation/polygon'
+import { getRackPlacedPallets } from '@/core/racking'
+import { PresetProvider, usePreset } from '@/context/PresetContext'
+import { UNITS } from '@/core/constants'
+
+export interface WarehouseBuildingSceneProps {
+  warehouse: Warehouse
+  /** Estancia a la que vuela la cámara; `null` = todo el almacén. Sin definir, la elige el mini-mapa */
+  focusedRoomId?: string | null
+  /** ID de preset ('unstyled' | 'industrial') o un ScenePreset custom */
+  preset?: string | ScenePreset
+  selectedBoxId?: string | null
+  highlightedBoxId?: string | null
+  /** Color del borde de selección (override del preset) */
+  selectedColor?: string
+  /** Color del borde de highlight/hover (override del preset) */
+  highlightedColor?: string
+  showLabels?: boolean
+  cameraPreset?: CameraPreset
+  /** Mostrar mini-mapa con la planta del almacén (por defecto: true) */
+  showMiniMap?: boolean
+  /** Estancias a marcar en el mini-mapa (ver useWarehouseRoomsValidation) */
+  invalidRoomIds?: string[]
+  /** Click sobre una estancia del mini-mapa */
+  onRoomClick?: (roomId: string) => void
+  onBoxClick?: (id: string) => void
+  onBoxHover?: (id: string | null) => void
+  children?: ReactNode
+  style?: React.CSSProperties
+}
+
+export const WarehouseBuildingScene = memo<WarehouseBuildingSceneProps>(function WarehouseBuildingScene({
+  warehouse,
+  focusedRoomId,
+  preset,
+  selectedBoxId,
+  highlightedBoxId,
+  selectedColor,
+  highlightedColor,
+  showLabels = false,
+  cameraPreset = 'perspective',
+  showMiniMap = true,
+  invalidRoomIds,
+  onRoomClick,
+  onBoxClick,
+  onBoxHover,
+  children,
+  style,
+}) {
+  const s = UNITS.MM_TO_M
+
+  const [cameraPosition, setCameraPosition] = useState<{ x: number; z: number }>({ x: 0, z: 0 })
+  const [localFocusId, setLocalFocusId] = useState<string | null>(null)
+  const focusId = focusedRoomId !== undefined ? focusedRoomId : localFocusId
+
+  const handleCameraPositionChange = useCallback((pos: { x: number; y: number; z: number }) => {
+    setCameraPosition({ x: pos.x, z: pos.z })
+  }, [])
+
+  // Un segundo click sobre la estancia enfocada vuelve a la vista de todo el almacén
+  const handleRoomClick = useCallback((roomId: string) => {
+    setLocalFocusId(current => (current === roomId ? null : roomId))
+    onRoomClick?.(roomId)
+  }, [onRoomClick])
+
+  const buildingBounds = useMemo(() => getWarehouseBounds(warehouse), [warehouse])
+  const buildingHeight = useMemo(
+    () => Math.max(0, ...warehouse.rooms.map(room => room.ceilingHeight)),
+    [warehouse.rooms],
+  )
+
+  // Encuadre: la estancia enfocada o todo el almacén
+  const { target, sceneSize } = useMemo(() => {
+    const room = warehouse.rooms.find(r => r.id === focusId)
+    const bounds = room ? getRoomBounds(room) : buildingBounds
+    const height = (room ? room.ceilingHeight : buildingHeight) * s
+    if (!bounds) return { target: [0, 0, 0] as [number, number, number], sceneSize: { width: 0, height, depth: 0 } }
+
+    return {
+      target: [
+        (bounds.minX + bounds.maxX) / 2 * s,
+        height / 2,
+        (bounds.minZ + bounds.maxZ) / 2 * s,
+      ] as [number, number, number],
+      sceneSize: {
+        width: (bounds.maxX - bounds.minX) * s,
+        height,
+        depth: (bounds.maxZ - bounds.minZ) * s,
+      },
+    }
+  }, [warehouse.rooms, focusId, buildingBounds, buildingHeight, s])
+
+  const buildingSize = buildingBounds
+    ? Math.max((buildingBounds.maxX - buildingBounds.minX) * s, (buildingBounds.maxZ - buildingBounds.minZ) * s, buildingHeight * s)
+    : 1
+
+  // Planta para el MiniMap (metros, coordenadas del almacén)
+  const mapRooms = useMemo<MiniMapRoom[]>(() => {
+    return warehouse.rooms.map(room => ({
+      id: room.id,
+      name: room.name,
+      polygon: getRoomFloorPolygon(room).map(p => ({ x: p.x * s, z: p.z * s })),
+    }))
+  }, [warehouse.rooms, s])
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <Canvas
+        shadows
+        camera={{
+          position: [buildingSize, buildingSize, buildingSize],
+          fov: 45,
+          near: 0.01,
+          far: Math.max(300, buildingSize * 10),
+        }}
+        style={{ width: '100%', height: '100%', ...style }}
+      >
+        <PresetProvider preset={preset}>
+          <CameraControlsComponent
+            preset={cameraPreset}
+            target={target}
+            sceneSize={sceneSize}
+            maxDistance={buildingSize * 4}
+            minDistance={0.5}
+          />
+          <CameraTracker onPositionChange={handleCameraPositionChange} />
+
+          {buildingBounds && <BuildingLights bounds={buildingBounds} height={buildingHeight} />}
+
+          {warehouse.rooms.map(room => (
+            <RoomContents
+              key={room.id}
+              room={room}
+              selectedBoxId={selectedBoxId}
+              highlightedBoxId={highlightedBoxId}
+              selectedColor={selectedColor}
+              highlightedColor={highlightedColor}
+              showLabels={showLabels}
+              onBoxClick={onBoxClick}
+              onBoxHover={onBoxHover}
+            />
+          ))}
+          {children}
+        </PresetProvider>
+      </Canvas>
+
+      {showMiniMap && buildingBounds && (
+        <MiniMap
+          sceneWidth={(buildingBounds.maxX - buildingBounds.minX) * s}
+          sceneDepth={(buildingBounds.maxZ - buildingBounds.minZ) * s}
+          sceneType="warehouse"
+          sceneOrigin={{ x: buildingBounds.minX * s, z: buildingBounds.minZ * s }}
+          rooms={mapRooms}
+          activeRoomId={focusId}
+          invalidRoomIds={invalidRoomIds}
+          onRoomClick={handleRoomClick}
+          cameraPosition={cameraPosition}
+          targetPosition={{ x: target[0], z: target[2] }}
+          position="bottom-left"
+        />
+      )}
+    </div>
+  )
+})
+
+// ─── Internos ────────────────────────────────────────────────────
+
+interface RoomContentsProps
+  extends Pick<
+    WarehouseBuildingSceneProps,
+    'selectedBoxId' | 'highlightedBoxId' | 'selectedColor' | 'highlightedColor' | 'showLabels' | 'onBoxClick' | 'onBoxHover'
+  > {
+  room: Room
+}
+
+/** Una estancia en su posición del almacén, con sus palets del suelo y de las estanterías */
+const RoomContents = memo<RoomContentsProps>(function RoomContents({ room, ...palletProps }) {
+  const s = UNITS.MM_TO_M
+  const origin = getRoomOrigin(room)
+
+  // No renderizar los palets que estén fuera de la estancia
+  const validPallets = useMemo<PlacedPallet[]>(() => {
+    const rackPallets = (room.racks ?? []).flatMap(getRackPlacedPallets)
+    return [...room.pallets, ...rackPallets].filter(pp => {
+      const validation = validatePalletInRoom(pp, room)
+      if (!validation.isValid) {
+        console.error(
+          `[WarehouseBuildingScene] Palet "${pp.id}" fuera de los límites de la estancia "${room.name}".`,
+          'Violaciones:',
+          validation.violations,
+        )
+        return false
+      }
+      return true
+    })
+  }, [room])
+
+  return (
+    <group position={[origin.x * s, 0, origin.z * s]}>
+      <WarehouseEnvironment room={room} showLighting={false}>
+        {validPallets.map(pp => (
+          <StackedPalletComponent
+            key={pp.id}
+            stackedPallet={pp.stackedPallet}
+            position={pp.position}
+            yRotation={pp.yRotation}
+            palletId={pp.id}
+            {...palletProps}
+          />
+        ))}
+      </WarehouseEnvironment>
+    </group>
+  )
+})
+
+/** Luces de todo el almacén, una sola vez para todas las estancias */
+const BuildingLights = memo<{ bounds: FloorBounds; height: number }>(function BuildingLights({ bounds, height }) {
+  const preset = usePreset()
+  const s = UNITS.MM_TO_M
+  const sizeX = (bounds.maxX - bounds.minX) * s
+  const sizeZ = (bounds.maxZ - bounds.minZ) * s
+  const centerX = (bounds.minX + bounds.maxX) / 2 * s
+  const centerZ = (bounds.minZ + bounds.maxZ) / 2 * s
+
+  return (
+    <>
+      <ambientLight intensity={preset.warehouse.ambientIntensity} />
+      <directionalLight
+        position={[centerX + sizeX, height * s * 0.8 + Math.max(sizeX, sizeZ) * 0.5, centerZ + sizeZ]}
+        intensity={preset.warehouse.directionalIntensity}
+        castShadow
+        shadow-mapSize-width={2048}
+        shadow-mapSize-height={2048}
+      />
+    </>
+  )
+})
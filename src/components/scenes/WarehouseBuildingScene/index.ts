@@ -0,0 +1,2 @@
+export { WarehouseBuildingScene } from './WarehouseBuildingScene'
+export type { WarehouseBuildingSceneProps } from './WarehouseBuildingScene'
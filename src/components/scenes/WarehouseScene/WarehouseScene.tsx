@@ -6,12 +6,15 @@ import { memo, useMemo, useState, useCallback, type ReactNode } from 'react'
 import { Canvas } from '@react-three/fiber'
 import type { Room } from '@/core/entities/Room'
 import type { PlacedPallet } from '@/core/entities/PlacedPallet'
+import type { OccupancyGrid } from '@/core/accessibility'
 import type { CameraPreset } from '@/components/controls/CameraControls'
 import type { ScenePreset } from '@/core/presets'
 import { CameraControlsComponent, MiniMap, CameraTracker } from '@/components/controls'
 import { WarehouseEnvironment } from '@/components/environments/WarehouseEnvironment'
 import { StackedPalletComponent } from '@/components/primitives/StackedPallet'
+import { OccupancyGridOverlay } from '@/components/primitives/OccupancyGrid'
 import { validatePalletInRoom } from '@/core/validation/polygon'
+import { getRackPlacedPallets } from '@/core/racking'
 import { PresetProvider } from '@/context/PresetContext'
 import { UNITS } from '@/core/constants'
 
@@ -29,6 +32,8 @@ export interface WarehouseSceneProps {
   cameraPreset?: CameraPreset
   /** Mostrar mini-mapa (por defecto: false) */
   showMiniMap?: boolean
+  /** Rejilla de ocupación a superponer en el suelo y en el mini-mapa (ver useRoomAccessibility) */
+  occupancyGrid?: OccupancyGrid
   onBoxClick?: (id: string) => void
   onBoxHover?: (id: string | null) => void
   children?: ReactNode
@@ -45,6 +50,7 @@ export const WarehouseScene = memo<WarehouseSceneProps>(function WarehouseScene(
   showLabels = false,
   cameraPreset = 'perspective',
   showMiniMap = false,
+  occupancyGrid,
   onBoxClick,
   onBoxHover,
   children,
@@ -104,9 +110,10 @@ export const WarehouseScene = memo<WarehouseSceneProps>(function WarehouseScene(
     return room.floorPolygon.map(p => ({ x: p.x * s, z: p.z * s }))
   }, [room.floorPolygon, s])
 
-  // Filtrar palets válidos - no renderizar los que estén fuera de la estancia
+  // Filtrar palets válidos (en el suelo y en las estanterías) - no renderizar los que estén fuera de la estancia
   const validPallets = useMemo<PlacedPallet[]>(() => {
-    return room.pallets.filter(pp => {
+    const rackPallets = (room.racks ?? []).flatMap(getRackPlacedPallets)
+    return [...room.pallets, ...rackPallets].filter(pp => {
       const validation = validatePalletInRoom(pp, room)
       if (!validation.isValid) {
         console.error(
@@ -159,6 +166,7 @@ export const WarehouseScene = memo<WarehouseSceneProps>(function WarehouseScene(
                 onBoxHover={onBoxHover}
               />
             ))}
+            {occupancyGrid && <OccupancyGridOverlay grid={occupancyGrid} />}
             {children}
           </WarehouseEnvironment>
         </PresetProvider>
@@ -173,6 +181,7 @@ export const WarehouseScene = memo<WarehouseSceneProps>(function WarehouseScene(
           cameraPosition={cameraPosition}
           targetPosition={{ x: target[0], z: target[2] }}
           position="bottom-left"
+          occupancyGrid={occupancyGrid}
         />
       )}
     </div>
@@ -10,3 +10,6 @@ export type { TruckSceneProps } from './TruckScene'
 
 export { WarehouseScene } from './WarehouseScene'
 export type { WarehouseSceneProps } from './WarehouseScene'
+
+export { WarehouseBuildingScene } from './WarehouseBuildingScene'
+export type { WarehouseBuildingSceneProps } from './WarehouseBuildingScene'
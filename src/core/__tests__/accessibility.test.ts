@@ -0,0 +1,104 @@
+/**
+ * Tests — Acceso de la carretilla a los palets de una estancia (BR-413)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { analyzeRoomAccessibility, getRequiredAisleWidth, validateForkliftAccess } from '../accessibility/analysis'
+import { AccessCell, createRoomGrid, getCellAt } from '../accessibility/grid'
+import type { RoomObstacle } from '../entities/Room'
+import { RackFactory } from '../factories/RackFactory'
+import { placePalletInRack } from '../racking/placement'
+import { FORKLIFT_PRESETS } from '../constants'
+import { ObstacleType } from '../types'
+import { makeRoom, makePlacedPallet, makeStackedPallet, pos } from './helpers'
+
+/** Muelle de 3 m en la pared z = 0 */
+const DOOR: RoomObstacle = { id: 'muelle', type: ObstacleType.DOOR, position: { x: 4000, z: -100 }, width: 3000, depth: 200, height: 3000 }
+const COLUMN: RoomObstacle = { id: 'pilar', type: ObstacleType.COLUMN, position: { x: 8000, z: 1000 }, width: 400, depth: 400 }
+
+/** Palet en la esquina del fondo, encerrado por la pared, un vecino al lado y otro delante */
+const PALLETS = [
+  makePlacedPallet({ id: 'fondo', position: pos(0, 0, 7200) }),
+  makePlacedPallet({ id: 'lado', position: pos(1200, 0, 7200) }),
+  makePlacedPallet({ id: 'delante', position: pos(0, 0, 6400) }),
+  makePlacedPallet({ id: 'suelto', position: pos(6000, 0, 3000) }),
+]
+
+function rack(yRotation: 0 | 180, position: { x: number; y: number; z: number }) {
+  const empty = RackFactory.uniform(
+    { bays: 2, bayWidth: 2850, levelElevations: [0, 1500], slotsPerLevel: 3, beamMaxLoad: 2000, position, yRotation },
+    { id: `rack-${yRotation}` },
+  )
+  return placePalletInRack(empty, { bayIndex: 0, levelIndex: 1, slot: 0 }, {
+    id: `arriba-${yRotation}`,
+    stackedPallet: makeStackedPallet(),
+    yRotation: 90,
+  })
+}
+
+describe('Accesibilidad: pasillo de trabajo', () => {
+  it('suma radio de giro, largo de la carga y margen de seguridad', () => {
+    expect(getRequiredAisleWidth(FORKLIFT_PRESETS.COUNTERBALANCE, 1200)).toBe(3400)
+  })
+})
+
+describe('Accesibilidad: rejilla de ocupación', () => {
+  it('rechaza un tamaño de celda no positivo o no finito', () => {
+    for (const cellSize of [0, -100, NaN, Infinity]) {
+      expect(() => createRoomGrid(makeRoom(), cellSize)).toThrow(`got ${cellSize}`)
+      expect(() => analyzeRoomAccessibility(makeRoom(), { cellSize })).toThrow('cell size must be a positive finite number')
+    }
+  })
+})
+
+describe('BR-413: acceso de la carretilla', () => {
+  it('detecta palets encerrados por otros y deja el resto accesible', () => {
+    const result = analyzeRoomAccessibility(makeRoom({ obstacles: [DOOR, COLUMN], pallets: PALLETS }))
+    expect(result.blockedIds).toEqual(['fondo'])
+    expect(result.accessibleIds).toEqual(['lado', 'delante', 'suelto'])
+    expect(result.pallets.find(p => p.palletId === 'delante')?.faces).toContain('-z')
+    expect(result.validation).toMatchObject({
+      isValid: true,
+      violations: [{ code: 'BR-413', severity: 'warning', involvedIds: ['fondo'] }],
+    })
+  })
+
+  it('devuelve la rejilla de ocupación con el estado de cada celda', () => {
+    const { grid } = analyzeRoomAccessibility(makeRoom({ obstacles: [DOOR, COLUMN], pallets: PALLETS }), { cellSize: 200 })
+    expect(grid).toMatchObject({ origin: { x: 0, z: 0 }, cellSize: 200, columns: 50, rows: 40 })
+    expect(getCellAt(grid, { x: 600, z: 7600 })).toBe(AccessCell.BLOCKED_PALLET)
+    expect(getCellAt(grid, { x: 6600, z: 3400 })).toBe(AccessCell.PALLET)
+    expect(getCellAt(grid, { x: 8200, z: 1200 })).toBe(AccessCell.OBSTACLE)
+    expect(getCellAt(grid, { x: 5500, z: 1500 })).toBe(AccessCell.REACHABLE)
+    expect(getCellAt(grid, { x: 100, z: 100 })).toBe(AccessCell.FREE)
+    expect(getCellAt(grid, { x: -500, z: 100 })).toBe(AccessCell.OUTSIDE)
+  })
+
+  it('solo entra por puertas en las que cabe la carretilla', () => {
+    const narrow = makeRoom({ obstacles: [{ ...DOOR, width: 900 }], pallets: PALLETS })
+    expect(validateForkliftAccess(narrow).violations).toHaveLength(4)
+    expect(validateForkliftAccess(narrow, { forklift: FORKLIFT_PRESETS.PALLET_STACKER }).violations).toHaveLength(1)
+    expect(validateForkliftAccess(makeRoom({ pallets: PALLETS }), { entrances: [{ x: 5000, z: 0 }] }).violations).toHaveLength(1)
+  })
+
+  it('sin puertas ni entradas, entra por todo el perímetro', () => {
+    const result = analyzeRoomAccessibility(makeRoom({ pallets: PALLETS }))
+    expect(result.blockedIds).toEqual(['fondo'])
+    expect(getCellAt(result.grid, { x: 5000, z: 6000 })).toBe(AccessCell.REACHABLE)
+    // Con una puerta en la que no cabe, no hay por dónde entrar
+    expect(validateForkliftAccess(makeRoom({ obstacles: [{ ...DOOR, width: 900 }], pallets: PALLETS })).violations)
+      .toHaveLength(4)
+  })
+
+  it('coge los palets de estantería solo por la cara del pasillo', () => {
+    const room = makeRoom({
+      obstacles: [DOOR],
+      racks: [rack(0, { x: 1000, y: 0, z: 4000 }), rack(180, { x: 9000, y: 0, z: 8000 })],
+    })
+    const result = analyzeRoomAccessibility(room)
+    expect(result.pallets).toEqual([
+      { palletId: 'arriba-0', rackId: 'rack-0', accessible: true, faces: ['-z'] },
+      { palletId: 'arriba-180', rackId: 'rack-180', accessible: false, faces: [] },
+    ])
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * Tests — Empaquetado asíncrono
+ * Progreso y cancelación en estrategias, protocolo del worker y packAsync
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { packAsync, LatestPackingRunner } from '../packing/async'
+import { handlePackingMessages } from '../packing/worker'
+import type { PackingWorkerRequest, PackingWorkerResponse, PackingWorkerScope } from '../packing/worker'
+import { PackingRegistry, defaultRegistry } from '../packing/registry'
+import type { PackingProgress } from '../packing/PackingStrategy'
+import { BoxFactory } from '../factories/BoxFactory'
+import { PalletFactory } from '../factories/PalletFactory'
+
+const makeBoxes = (count: number) =>
+  Array.from({ length: count }, () => BoxFactory.create({ width: 400, height: 300, depth: 400 }, { type: 'A' }))
+
+/** Worker en memoria que atiende las peticiones con handlePackingMessages */
+function createInMemoryWorker(registry: PackingRegistry = defaultRegistry) {
+  const scope: PackingWorkerScope = {
+    onmessage: null,
+    postMessage: message => queueMicrotask(() => {
+      if (!worker.terminated) worker.onmessage?.({ data: message } as MessageEvent<PackingWorkerResponse>)
+    }),
+  }
+  handlePackingMessages(scope, registry)
+
+  const worker = {
+    terminated: false,
+    onmessage: null as ((event: MessageEvent<PackingWorkerResponse>) => void) | null,
+    onerror: null as ((event: ErrorEvent) => void) | null,
+    postMessage: (request: PackingWorkerRequest) => queueMicrotask(() => {
+      // Simula el structured clone del navegador
+      scope.onmessage?.({ data: structuredClone(request) } as MessageEvent<PackingWorkerRequest>)
+    }),
+    terminate: vi.fn(() => { worker.terminated = true }),
+  }
+  return worker
+}
+
+// ─── Progreso y cancelación en estrategias ───────────────────────
+
+describe('PackingOptions en estrategias integradas', () => {
+  const pallet = PalletFactory.euro()
+
+  for (const strategy of defaultRegistry.list()) {
+    it(`${strategy.id}: informa del progreso hasta completar`, () => {
+      const boxes = makeBoxes(10)
+      const progress: PackingProgress[] = []
+      strategy.pack(boxes, pallet, { onProgress: p => progress.push(p) })
+
+      expect(progress.length).toBeGreaterThan(0)
+      expect(progress[progress.length - 1]).toEqual({ processed: 10, total: 10 })
+      expect(progress.every(p => p.processed <= p.total)).toBe(true)
+    })
+
+    it(`${strategy.id}: se detiene si la señal está abortada`, () => {
+      const controller = new AbortController()
+      controller.abort(new Error('cancelado'))
+      expect(() => strategy.pack(makeBoxes(5), pallet, { signal: controller.signal })).toThrow('cancelado')
+    })
+  }
+})
+
+// ─── Protocolo del worker ────────────────────────────────────────
+
+describe('handlePackingMessages', () => {
+  it('responde con progreso y resultado', () => {
+    const messages: PackingWorkerResponse[] = []
+    const scope: PackingWorkerScope = { onmessage: null, postMessage: m => messages.push(m) }
+    handlePackingMessages(scope, defaultRegistry)
+
+    const request: PackingWorkerRequest = {
+      type: 'pack',
+      strategyId: 'bin-packing-3d',
+      boxes: makeBoxes(4),
+      pallet: PalletFactory.euro(),
+    }
+    scope.onmessage!({ data: request } as MessageEvent<PackingWorkerRequest>)
+
+    expect(messages.some(m => m.type === 'progress')).toBe(true)
+    const last = messages[messages.length - 1]
+    expect(last.type).toBe('result')
+    if (last.type === 'result') expect(last.result.placements).toHaveLength(4)
+  })
+
+  it('responde con error si la estrategia no existe', () => {
+    const messages: PackingWorkerResponse[] = []
+    const scope: PackingWorkerScope = { onmessage: null, postMessage: m => messages.push(m) }
+    handlePackingMessages(scope, defaultRegistry)
+
+    scope.onmessage!({
+      data: { type: 'pack', strategyId: 'no-existe', boxes: [], pallet: PalletFactory.euro() },
+    } as MessageEvent<PackingWorkerRequest>)
+
+    expect(messages).toHaveLength(1)
+    expect(messages[0].type).toBe('error')
+  })
+})
+
+// ─── packAsync ───────────────────────────────────────────────────
+
+describe('packAsync', () => {
+  const pallet = PalletFactory.euro()
+
+  it('sin Web Workers empaqueta en el hilo principal con el mismo resultado', async () => {
+    const boxes = makeBoxes(8)
+    const onProgress = vi.fn()
+    const result = await packAsync('column', boxes, pallet, { onProgress })
+    const sync = defaultRegistry.get('column').pack(boxes, pallet)
+
+    expect(result.placements.map(p => p.position)).toEqual(sync.placements.map(p => p.position))
+    expect(onProgress).toHaveBeenLastCalledWith({ processed: 8, total: 8 })
+  })
+
+  it('rechaza inmediatamente si la señal ya está abortada', async () => {
+    const controller = new AbortController()
+    controller.abort(new Error('cancelado'))
+    await expect(packAsync('column', makeBoxes(2), pallet, { signal: controller.signal }))
+      .rejects.toThrow('cancelado')
+  })
+
+  it('rechaza si la estrategia no existe', async () => {
+    await expect(packAsync('no-existe', makeBoxes(2), pallet)).rejects.toThrow('not found')
+  })
+
+  it('ejecuta en el worker y conserva la identidad de las cajas', async () => {
+    const boxes = makeBoxes(6)
+    const worker = createInMemoryWorker()
+    const onProgress = vi.fn()
+
+    const result = await packAsync('bin-packing-3d', boxes, pallet, {
+      createWorker: () => worker as unknown as Worker,
+      onProgress,
+    })
+
+    expect(result.placements).toHaveLength(6)
+    expect(result.placements.every(p => boxes.includes(p.box))).toBe(true)
+    expect(onProgress).toHaveBeenCalled()
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+
+  it('cancelar termina el worker y rechaza la promesa', async () => {
+    const worker = createInMemoryWorker()
+    const controller = new AbortController()
+
+    const promise = packAsync('extreme-point', makeBoxes(20), pallet, {
+      createWorker: () => worker as unknown as Worker,
+      signal: controller.signal,
+    })
+    controller.abort(new Error('cancelado'))
+
+    await expect(promise).rejects.toThrow('cancelado')
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+
+  it('propaga los errores del worker', async () => {
+    const worker = createInMemoryWorker(new PackingRegistry())
+    await expect(packAsync('no-existe', makeBoxes(1), pallet, {
+      createWorker: () => worker as unknown as Worker,
+    })).rejects.toThrow('not found')
+  })
+})
+
+// ─── LatestPackingRunner ─────────────────────────────────────────
+
+describe('LatestPackingRunner', () => {
+  const pallet = PalletFactory.euro()
+
+  it('dos llamadas seguidas: la primera se resuelve con null y la segunda con el resultado', async () => {
+    const workers = [createInMemoryWorker(), createInMemoryWorker()]
+    const createWorker = () => workers.shift() as unknown as Worker
+    const runner = new LatestPackingRunner()
+
+    const first = runner.run('extreme-point', makeBoxes(20), pallet, { createWorker })
+    const second = runner.run('extreme-point', makeBoxes(3), pallet, { createWorker })
+
+    await expect(first).resolves.toBeNull()
+    const result = await second
+    expect(result?.placements).toHaveLength(3)
+    expect(runner.isRunning).toBe(false)
+  })
+
+  it('cancel resuelve la llamada en curso con null', async () => {
+    const worker = createInMemoryWorker()
+    const runner = new LatestPackingRunner()
+
+    const promise = runner.run('extreme-point', makeBoxes(20), pallet, {
+      createWorker: () => worker as unknown as Worker,
+    })
+    runner.cancel()
+
+    await expect(promise).resolves.toBeNull()
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(runner.isRunning).toBe(false)
+  })
+
+  it('no informa del progreso de una llamada sustituida', async () => {
+    const workers = [createInMemoryWorker(), createInMemoryWorker()]
+    const createWorker = () => workers.shift() as unknown as Worker
+    const runner = new LatestPackingRunner()
+    const onFirstProgress = vi.fn()
+
+    const first = runner.run('extreme-point', makeBoxes(20), pallet, { createWorker, onProgress: onFirstProgress })
+    await runner.run('extreme-point', makeBoxes(3), pallet, { createWorker })
+
+    await first
+    expect(onFirstProgress).not.toHaveBeenCalled()
+  })
+
+  it('sigue rechazando los errores que no son de cancelación', async () => {
+    const runner = new LatestPackingRunner()
+    await expect(runner.run('no-existe', makeBoxes(1), pallet)).rejects.toThrow('not found')
+    expect(runner.isRunning).toBe(false)
+  })
+})
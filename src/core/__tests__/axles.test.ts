@@ -0,0 +1,164 @@
+/**
+ * Tests — Axle loads (BR-405, BR-406)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateAxleLoads, validateAxleLoads } from '../validation/axles'
+import { calculatePlacedPalletCenterOfGravity } from '../validation/stability'
+import { TruckFactory } from '../factories/TruckFactory'
+import { TruckType } from '../types'
+import type { TruckAxles } from '../entities/Truck'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  dims,
+  pos,
+} from './helpers'
+
+/** Rígido: eje delantero en z = 10000, trasero en z = 2000 */
+const rigidAxles = (): TruckAxles => ({
+  front: { id: 'front', position: 10000, maxLoad: 8000, tareLoad: 4000 },
+  rear: { id: 'rear', position: 2000, maxLoad: 11500, tareLoad: 3000 },
+})
+
+/** Palet EUR (25kg) con una caja de 1200×1000×800 del peso indicado, centrado en z */
+function palletAt(id: string, z: number, boxWeight: number) {
+  return makePlacedPallet({
+    id,
+    position: pos(0, 0, z - 400),
+    stackedPallet: makeStackedPallet({
+      id: `${id}-stack`,
+      floors: [makeFloor({
+        pallet: makePallet({ weight: 0 }),
+        boxes: [makePlacedBox({ box: { dimensions: dims(1200, 1000, 800), weight: boxWeight } })],
+      })],
+    }),
+  })
+}
+
+// ─── CoG de un PlacedPallet ──────────────────────────────────────
+
+describe('calculatePlacedPalletCenterOfGravity', () => {
+  it('devuelve el centro de la carga en coordenadas del contenedor', () => {
+    const pp = palletAt('pp', 5000, 500)
+    const cog = calculatePlacedPalletCenterOfGravity(pp)
+    expect(cog.x).toBeCloseTo(600)
+    expect(cog.z).toBeCloseTo(5000)
+    expect(cog.y).toBeCloseTo(144 + 500)
+  })
+
+  it('aplica la rotación Y del palet', () => {
+    const pp = { ...palletAt('pp', 5000, 500), yRotation: 90 as const, position: pos(0, 0, 6200) }
+    const cog = calculatePlacedPalletCenterOfGravity(pp)
+    // R_y(90°): x' = z, z' = -x → huella x∈[0,800], z∈[5000,6200]
+    expect(cog.x).toBeCloseTo(400)
+    expect(cog.z).toBeCloseTo(5600)
+  })
+})
+
+// ─── Cálculo de cargas por eje ───────────────────────────────────
+
+describe('calculateAxleLoads', () => {
+  it('devuelve vacío si el camión no tiene ejes', () => {
+    expect(calculateAxleLoads(makeTruck())).toEqual([])
+  })
+
+  it('reparte la carga por la regla de la palanca', () => {
+    // 1000kg a mitad de camino entre ejes → 500 + 500 sobre la tara
+    const truck = makeTruck({ axles: rigidAxles(), pallets: [palletAt('a', 6000, 1000)] })
+    const [front, rear] = calculateAxleLoads(truck)
+
+    expect(front.load).toBeCloseTo(4500)
+    expect(rear.load).toBeCloseTo(3500)
+    expect(front.utilization).toBeCloseTo(4500 / 8000)
+  })
+
+  it('la carga sobre un eje va entera a ese eje', () => {
+    const truck = makeTruck({ axles: rigidAxles(), pallets: [palletAt('a', 2000, 1000)] })
+    const [front, rear] = calculateAxleLoads(truck)
+    expect(front.load).toBeCloseTo(4000)
+    expect(rear.load).toBeCloseTo(4000)
+  })
+
+  it('reparte la carga del kingpin entre los ejes de la tractora', () => {
+    const truck = TruckFactory.fromPreset(TruckType.BOX)
+    const loads = calculateAxleLoads(truck)
+
+    expect(loads.map(l => l.axleId)).toEqual(['kingpin', 'trailer-axles', 'steer', 'drive'])
+    const [kingpin, , steer, drive] = loads
+    const tractorTare = (truck.axles!.tractor!.steer.tareLoad ?? 0) + (truck.axles!.tractor!.drive.tareLoad ?? 0)
+    expect(steer.load + drive.load).toBeCloseTo(kingpin.load + tractorTare)
+  })
+})
+
+// ─── BR-405 / BR-406 ─────────────────────────────────────────────
+
+describe('BR-405: validateAxleLoads (sobrecarga)', () => {
+  it('acepta un camión sin geometría de ejes', () => {
+    expect(validateAxleLoads(makeTruck()).isValid).toBe(true)
+  })
+
+  it('acepta una carga repartida dentro de los límites', () => {
+    const truck = makeTruck({
+      axles: rigidAxles(),
+      pallets: [palletAt('a', 4000, 1500), palletAt('b', 8000, 1500)],
+    })
+    expect(validateAxleLoads(truck).violations).toHaveLength(0)
+  })
+
+  it('rechaza un eje trasero sobrecargado aunque el peso total sea válido', () => {
+    const truck = makeTruck({
+      axles: rigidAxles(),
+      pallets: [palletAt('a', 2000, 5000), palletAt('b', 3000, 5000)],
+    })
+    const result = validateAxleLoads(truck)
+
+    expect(result.isValid).toBe(false)
+    const v = result.violations.find(v => v.code === 'BR-405')!
+    expect(v.severity).toBe('error')
+    expect(v.involvedIds).toContain('rear')
+  })
+
+  it('avisa por encima del 90% de la carga máxima', () => {
+    // Trasero: 3000 + 7500 = 10500 (91%)
+    const truck = makeTruck({ axles: rigidAxles(), pallets: [palletAt('a', 2000, 7500)] })
+    const result = validateAxleLoads(truck)
+
+    expect(result.isValid).toBe(true)
+    expect(result.violations.some(v => v.code === 'BR-405' && v.severity === 'warning')).toBe(true)
+  })
+})
+
+describe('BR-406: validateAxleLoads (carga mínima)', () => {
+  it('rechaza una carga tan atrasada que levanta el eje delantero', () => {
+    // Voladizo trasero: z = 400, por detrás del eje trasero (z = 2000)
+    const axles = rigidAxles()
+    axles.front.tareLoad = 1000
+    const truck = makeTruck({ axles, pallets: [palletAt('a', 400, 8000)] })
+    const result = validateAxleLoads(truck)
+
+    expect(result.isValid).toBe(false)
+    expect(result.violations.some(v => v.code === 'BR-406' && v.severity === 'error')).toBe(true)
+  })
+
+  it('avisa si el eje direccional queda con poca carga', () => {
+    const axles = rigidAxles()
+    axles.front.tareLoad = 1000
+    const truck = makeTruck({ axles, pallets: [palletAt('a', 2000, 6000)] })
+    const result = validateAxleLoads(truck)
+
+    const v = result.violations.find(v => v.code === 'BR-406')!
+    expect(v.severity).toBe('warning')
+    expect(v.involvedIds).toContain('front')
+  })
+
+  it('un semirremolque cargado uniformemente no genera violaciones', () => {
+    const truck = TruckFactory.fromPreset(TruckType.BOX)
+    const pallets = Array.from({ length: 17 }, (_, i) => palletAt(`p${i}`, 400 + i * 800, 1000))
+    expect(validateAxleLoads({ ...truck, pallets }).violations).toHaveLength(0)
+  })
+})
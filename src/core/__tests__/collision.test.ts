@@ -4,6 +4,7 @@
 
 import { describe, it, expect } from 'vitest'
 import {
+  getOrientedDimensions,
   getBoxBoundingBox,
   getPalletBoundingBox,
   aabbIntersects,
@@ -52,6 +53,41 @@ describe('getBoxBoundingBox', () => {
   })
 })
 
+// ─── getOrientedDimensions ───────────────────────────────────────
+
+describe('getOrientedDimensions', () => {
+  const d = dims(400, 300, 200)
+
+  it('no cambia las dimensiones sin rotación', () => {
+    expect(getOrientedDimensions(d, rot())).toEqual(dims(400, 300, 200))
+  })
+
+  it('intercambia height/depth al rotar 90° en X', () => {
+    expect(getOrientedDimensions(d, rot(90, 0, 0))).toEqual(dims(400, 200, 300))
+  })
+
+  it('intercambia width/height al rotar 90° en Z', () => {
+    expect(getOrientedDimensions(d, rot(0, 0, 90))).toEqual(dims(300, 400, 200))
+  })
+
+  it('compone rotaciones en orden Z → Y → X', () => {
+    expect(getOrientedDimensions(d, rot(0, 90, 90))).toEqual(dims(200, 400, 300))
+    expect(getOrientedDimensions(d, rot(90, 0, 90))).toEqual(dims(300, 200, 400))
+  })
+
+  it('getBoxBoundingBox usa la altura rotada', () => {
+    const pb = makePlacedBox({
+      position: pos(0, 100, 0),
+      rotation: rot(0, 0, 90),
+      box: { dimensions: d },
+    })
+    const bb = getBoxBoundingBox(pb)
+    expect(bb.maxX).toBe(300)
+    expect(bb.maxY).toBe(500)
+    expect(bb.maxZ).toBe(200)
+  })
+})
+
 // ─── aabbIntersects ──────────────────────────────────────────────
 
 describe('aabbIntersects', () => {
@@ -0,0 +1,122 @@
+/**
+ * Tests — Compression validation (BR-202)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getAllowedCompressionLoad, validateCompressionLoad, validateStackCompressionLoad } from '../validation/compression'
+import { defaultValidationRegistry } from '../validation/rules/registry'
+import { DEFAULT_DURATION_FACTOR, DEFAULT_HUMIDITY_FACTOR } from '../constants'
+import { dims, makeBox, makeFloor, makePallet, makePlacedBox, makeSeparator, makeStackedPallet, pos } from './helpers'
+
+/** Caja de cartón de 400×300 con otra de `topWeight` kg encima */
+function column(topWeight: number, bct = 100) {
+  return [
+    makePlacedBox({ id: 'carton', position: pos(0, 0, 0), box: { compression: { bct } } }),
+    makePlacedBox({ id: 'top', position: pos(0, 300, 0), box: { weight: topWeight } }),
+  ]
+}
+
+describe('getAllowedCompressionLoad', () => {
+  it('aplica los factores de humedad y duración', () => {
+    expect(getAllowedCompressionLoad(makeBox({ compression: { bct: 100 } })))
+      .toBeCloseTo(100 * DEFAULT_HUMIDITY_FACTOR * DEFAULT_DURATION_FACTOR)
+    expect(getAllowedCompressionLoad(makeBox({ compression: { bct: 100 } }), { humidityFactor: 0.5, durationFactor: 1 }))
+      .toBe(50)
+  })
+
+  it('los factores de la caja tienen prioridad', () => {
+    const box = makeBox({ compression: { bct: 100, humidityFactor: 1, durationFactor: 1 } })
+    expect(getAllowedCompressionLoad(box, { humidityFactor: 0.5 })).toBe(100)
+  })
+
+  it('devuelve null sin compression', () => {
+    expect(getAllowedCompressionLoad(makeBox())).toBeNull()
+  })
+})
+
+describe('BR-202: validateCompressionLoad', () => {
+  it('acepta carga dentro de la capacidad', () => {
+    // Capacidad: 100 × 0.8 × 0.63 = 50.4kg
+    const result = validateCompressionLoad(column(30))
+    expect(result.isValid).toBe(true)
+    expect(result.violations).toHaveLength(0)
+  })
+
+  it('marca error si la carga supera la capacidad', () => {
+    const result = validateCompressionLoad(column(60))
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toHaveLength(1)
+    expect(result.violations[0].code).toBe('BR-202')
+    expect(result.violations[0].involvedIds).toEqual(['carton'])
+  })
+
+  it('genera warning cerca del límite', () => {
+    const result = validateCompressionLoad(column(48))
+    expect(result.isValid).toBe(true)
+    expect(result.violations[0]?.severity).toBe('warning')
+  })
+
+  it('propaga la carga por el grafo de soportes', () => {
+    // 62kg sobre un puente repartido 3:1 entre dos cartones: 46.5kg y 15.5kg
+    const boxes = [
+      makePlacedBox({ id: 'left', position: pos(0, 0, 0), box: { compression: { bct: 100 } } }),
+      makePlacedBox({ id: 'right', position: pos(400, 0, 0), box: { compression: { bct: 100 } } }),
+      makePlacedBox({ id: 'bridge', position: pos(100, 300, 0), box: { weight: 20, dimensions: dims(400, 300, 300) } }),
+      makePlacedBox({ id: 'top', position: pos(100, 600, 0), box: { weight: 42, dimensions: dims(400, 300, 300) } }),
+    ]
+    const result = validateCompressionLoad(boxes)
+
+    // left: 46.5kg (warning, > 90% de 50.4kg); right: 15.5kg
+    expect(result.violations.map(v => [v.involvedIds[0], v.severity])).toEqual([['left', 'warning']])
+    expect(validateCompressionLoad(boxes, { humidityFactor: 0.5 }).violations
+      .map(v => [v.involvedIds[0], v.severity])).toEqual([['left', 'error']])
+  })
+
+  it('se registra como regla configurable', () => {
+    const floor = makeFloor({ boxes: column(35) })
+    const byDefault = defaultValidationRegistry.validateFloor(floor)
+    const strict = defaultValidationRegistry.validateFloor(floor, { profile: 'strict-export' })
+
+    expect(byDefault.violations.some(v => v.code === 'BR-202')).toBe(false)
+    expect(strict.violations.filter(v => v.code === 'BR-202').map(v => v.severity)).toEqual(['error'])
+  })
+})
+
+describe('BR-202: validateStackCompressionLoad', () => {
+  /** Columna de 30kg sobre el cartón en el piso 1 y un segundo piso con una caja de `upperWeight` kg */
+  function doubleStack(upperWeight: number, lowerTopWeight = 30) {
+    return makeStackedPallet({
+      floors: [
+        makeFloor({ boxes: column(lowerTopWeight), separatorAbove: makeSeparator() }),
+        makeFloor({
+          level: 1,
+          pallet: makePallet({ id: 'pallet-2' }),
+          boxes: [makePlacedBox({ id: 'upper', position: pos(0, 0, 0), box: { weight: upperWeight } })],
+        }),
+      ],
+    })
+  }
+
+  it('suma al piso de abajo el peso del piso de encima y del separador', () => {
+    // Cartón: 30kg de su piso (OK) + 2 (separador) + 25 (palet) + 10 (caja) = 67kg > 50.4kg
+    const stack = doubleStack(10)
+    expect(validateCompressionLoad(stack.floors[0].boxes).violations).toHaveLength(0)
+
+    const result = validateStackCompressionLoad(stack)
+    expect(result.isValid).toBe(false)
+    expect(result.violations.map(v => [v.code, v.severity, v.involvedIds[0]])).toEqual([['BR-202', 'error', 'carton']])
+    expect(result.violations[0].message).toContain('67.0kg')
+  })
+
+  it('no repite las cajas que ya fallan con la carga de su propio piso', () => {
+    expect(validateStackCompressionLoad(doubleStack(10, 60)).violations).toHaveLength(0)
+  })
+
+  it('se evalúa como regla de stack del registro', () => {
+    const stack = doubleStack(10)
+    expect(defaultValidationRegistry.validateStack(stack).violations.some(v => v.code === 'BR-202')).toBe(true)
+    expect(defaultValidationRegistry.validateStack(stack, {
+      profile: { id: 'p', name: 'P', rules: { 'BR-202-STACK': { enabled: false } } },
+    }).violations.some(v => v.code === 'BR-202')).toBe(false)
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Tests — Importación de listas de carga CSV
+ */
+
+import { describe, it, expect } from 'vitest'
+import { importBoxesFromCsv, parseCsv, LengthUnit, WeightUnit } from '../import/csv'
+
+const ERP_CSV = [
+  'SKU,Qty,Width,Height,Depth,Weight,Fragile,Product',
+  'A-1,3,400,300,300,12.5,no,PROD-A',
+  'B-2,1,600,400,400,20,yes,PROD-B',
+].join('\n')
+
+describe('parseCsv', () => {
+  it('respeta comillas, separadores y saltos de línea dentro de un campo', () => {
+    const records = parseCsv('a,b\n"x, ""y""","línea\nnueva"\r\nc,d')
+    expect(records.map(r => r.cells)).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'línea\nnueva'],
+      ['c', 'd'],
+    ])
+    expect(records.map(r => r.line)).toEqual([1, 2, 4])
+  })
+})
+
+describe('importBoxesFromCsv', () => {
+  it('crea una caja por unidad de cantidad', () => {
+    const { boxes, errors, rowCount } = importBoxesFromCsv(ERP_CSV)
+
+    expect(errors).toHaveLength(0)
+    expect(rowCount).toBe(2)
+    expect(boxes).toHaveLength(4)
+    expect(boxes.filter(b => b.sku === 'A-1')).toHaveLength(3)
+    expect(new Set(boxes.map(b => b.id)).size).toBe(4)
+  })
+
+  it('no comparte objetos anidados entre las cajas de una misma línea', () => {
+    const csv = 'qty,width,height,depth,weight,BCT,ONU,Hazard Class\n2,400,300,300,10,500,UN1202,3'
+    const [a, b] = importBoxesFromCsv(csv).boxes
+
+    expect(a.metadata).toEqual(b.metadata)
+    expect(a.metadata).not.toBe(b.metadata)
+    expect(a.compression).not.toBe(b.compression)
+    expect(a.hazmat).not.toBe(b.hazmat)
+
+    a.metadata.note = 'revisar'
+    expect(b.metadata.note).toBeUndefined()
+  })
+
+  it('asigna dimensiones, peso, fragilidad y producto', () => {
+    const { boxes } = importBoxesFromCsv(ERP_CSV)
+    const a = boxes[0]
+    const b = boxes[3]
+
+    expect(a.dimensions).toEqual({ width: 400, height: 300, depth: 300 })
+    expect(a.weight).toBe(12.5)
+    expect(a.fragile).toBe(false)
+    expect(a.product).toBe('PROD-A')
+    expect(a.metadata.csvRow).toBe(2)
+    expect(b.fragile).toBe(true)
+    expect(b.materialWeight).toBe(0)
+  })
+
+  it('reconoce cabeceras en español, con acentos y separador ;', () => {
+    const csv = 'Referencia;Cantidad;Ancho;Alto;Largo;Peso;Frágil\nR1;2;40;30;30;10;sí'
+    const { boxes, errors } = importBoxesFromCsv(csv, { lengthUnit: LengthUnit.CM })
+
+    expect(errors).toHaveLength(0)
+    expect(boxes).toHaveLength(2)
+    expect(boxes[0].dimensions).toEqual({ width: 400, height: 300, depth: 300 })
+    expect(boxes[0].fragile).toBe(true)
+  })
+
+  it('usa el mapeo de columnas explícito', () => {
+    const csv = 'Artículo\tBultos\tX\tY\tZ\tKilos\nART-9\t2\t400\t300\t300\t8'
+    const { boxes, errors } = importBoxesFromCsv(csv, {
+      mapping: { sku: 'Artículo', quantity: 'Bultos', width: 'X', height: 'Y', depth: 'Z', weight: 'Kilos' },
+    })
+
+    expect(errors).toHaveLength(0)
+    expect(boxes).toHaveLength(2)
+    expect(boxes[0].sku).toBe('ART-9')
+  })
+
+  it('convierte pulgadas y libras', () => {
+    const csv = 'width,height,depth,weight\n10,20,30,22.0462262'
+    const { boxes } = importBoxesFromCsv(csv, { lengthUnit: LengthUnit.IN, weightUnit: WeightUnit.LB })
+
+    expect(boxes[0].dimensions).toEqual({ width: 254, height: 508, depth: 762 })
+    expect(boxes[0].weight).toBeCloseTo(10)
+  })
+
+  it('lee el BCT como resistencia a compresión, en la unidad de peso', () => {
+    const csv = 'width,height,depth,weight,BCT\n400,300,300,10,1000\n400,300,300,10,'
+    const { boxes, errors } = importBoxesFromCsv(csv, { weightUnit: WeightUnit.LB })
+
+    expect(errors).toHaveLength(0)
+    expect(boxes[0].compression?.bct).toBeCloseTo(453.59)
+    expect(boxes[1].compression).toBeUndefined()
+  })
+
+  it('admite coma decimal', () => {
+    const csv = 'width;height;depth;weight\n40,5;30;30;12,25'
+    const { boxes, errors } = importBoxesFromCsv(csv, { decimalSeparator: ',' })
+
+    expect(errors).toHaveLength(0)
+    expect(boxes[0].dimensions.width).toBe(40.5)
+    expect(boxes[0].weight).toBe(12.25)
+  })
+
+  it('devuelve errores por línea y sigue con el resto', () => {
+    const csv = [
+      'sku,qty,width,height,depth,weight,fragile',
+      'OK-1,1,400,300,300,10,no',
+      'BAD-1,1,abc,300,300,10,no',
+      'BAD-2,0,400,300,300,10,no',
+      'BAD-3,1,400,300,,10,talvez',
+      '',
+      'OK-2,2,400,300,300,10,',
+    ].join('\n')
+    const { boxes, errors, rowCount } = importBoxesFromCsv(csv)
+
+    expect(rowCount).toBe(5)
+    expect(boxes.map(b => b.sku)).toEqual(['OK-1', 'OK-2', 'OK-2'])
+    expect(errors.map(e => [e.row, e.field])).toEqual([
+      [3, 'width'],
+      [4, 'quantity'],
+      [5, 'depth'],
+      [5, 'fragile'],
+    ])
+  })
+
+  it('rechaza una coma con separador decimal punto en lugar de malinterpretarla', () => {
+    const csv = 'width;height;depth;weight\n40,5;30;30;10'
+    const { boxes, errors } = importBoxesFromCsv(csv)
+    expect(boxes).toHaveLength(0)
+    expect(errors[0].field).toBe('width')
+  })
+
+  it('informa de columnas obligatorias ausentes', () => {
+    const { boxes, errors } = importBoxesFromCsv('sku,width,height\nA,1,2')
+    expect(boxes).toHaveLength(0)
+    expect(errors.map(e => e.field)).toEqual(['depth', 'weight'])
+    expect(errors[0].row).toBe(1)
+  })
+
+  it('limita la cantidad por línea', () => {
+    const csv = 'qty,width,height,depth,weight\n50000,400,300,300,10'
+    const { boxes, errors } = importBoxesFromCsv(csv)
+    expect(boxes).toHaveLength(0)
+    expect(errors[0].field).toBe('quantity')
+  })
+
+  it('lee los datos de mercancías peligrosas', () => {
+    const csv = [
+      'sku,width,height,depth,weight,ONU,Clase ADR,PG,LQ',
+      'GASOIL,400,300,300,10,UN1202,3,iii,no',
+      'AGUA,400,300,300,10,,,,',
+      'MAL,400,300,300,10,UN9999,11,,',
+    ].join('\n')
+    const { boxes, errors } = importBoxesFromCsv(csv)
+
+    expect(boxes[0].hazmat).toEqual({ unNumber: 'UN1202', hazardClass: '3', packingGroup: 'III', limitedQuantity: false })
+    expect(boxes[1].hazmat).toBeUndefined()
+    expect(errors).toEqual([expect.objectContaining({ row: 4, field: 'hazardClass' })])
+  })
+
+  it('no toma una columna genérica "Class" como clase ADR', () => {
+    const csv = 'sku,width,height,depth,weight,Class,UN\nA-1,400,300,300,10,Premium,ud'
+    const { boxes, errors } = importBoxesFromCsv(csv)
+
+    expect(errors).toHaveLength(0)
+    expect(boxes[0].hazmat).toBeUndefined()
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Tests — Orden de descarga por paradas (BR-407)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isBlockingUnload, validateDeliveryOrder } from '../validation/delivery'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  pos,
+} from './helpers'
+
+/** Palet EUR sin rotar en (x, y, z) con la parada indicada */
+function stopPallet(id: string, deliveryStop: number | undefined, x: number, z: number, y = 0) {
+  return makePlacedPallet({
+    id,
+    position: pos(x, y, z),
+    stackedPallet: makeStackedPallet({ id: `${id}-stack`, deliveryStop }),
+  })
+}
+
+const bb = (minX: number, maxX: number, minZ: number, maxZ: number, minY = 0, maxY = 1000) =>
+  ({ minX, maxX, minY, maxY, minZ, maxZ })
+
+describe('isBlockingUnload', () => {
+  it('bloquea si está entre el palet y las puertas en la misma franja', () => {
+    expect(isBlockingUnload(bb(0, 1200, 0, 800), bb(0, 1200, 800, 1600))).toBe(true)
+  })
+
+  it('no bloquea si está detrás (hacia la cabina)', () => {
+    expect(isBlockingUnload(bb(0, 1200, 1600, 2400), bb(0, 1200, 800, 1600))).toBe(false)
+  })
+
+  it('no bloquea si está en otra franja de ancho', () => {
+    expect(isBlockingUnload(bb(1200, 2400, 0, 800), bb(0, 1200, 800, 1600))).toBe(false)
+  })
+
+  it('bloquea si está apilado encima', () => {
+    expect(isBlockingUnload(bb(0, 1200, 800, 1600, 1000, 2000), bb(0, 1200, 800, 1600))).toBe(true)
+  })
+})
+
+describe('BR-407: validateDeliveryOrder', () => {
+  it('acepta carga LIFO: primera parada junto a las puertas', () => {
+    const truck = makeTruck({
+      pallets: [stopPallet('a', 1, 0, 0), stopPallet('b', 2, 0, 800), stopPallet('c', 3, 0, 1600)],
+    })
+    expect(validateDeliveryOrder(truck).violations).toHaveLength(0)
+  })
+
+  it('rechaza un palet tapado por otro de una parada posterior', () => {
+    const truck = makeTruck({
+      pallets: [stopPallet('tarde', 2, 0, 0), stopPallet('pronto', 1, 0, 800)],
+    })
+    const result = validateDeliveryOrder(truck)
+
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toHaveLength(1)
+    expect(result.violations[0].code).toBe('BR-407')
+    expect(result.violations[0].involvedIds).toEqual(['pronto', 'tarde'])
+  })
+
+  it('permite paradas distintas en franjas de ancho distintas', () => {
+    const truck = makeTruck({
+      pallets: [stopPallet('a', 2, 0, 0), stopPallet('b', 1, 1200, 800)],
+    })
+    expect(validateDeliveryOrder(truck).isValid).toBe(true)
+  })
+
+  it('ignora palets sin parada asignada', () => {
+    const truck = makeTruck({
+      pallets: [stopPallet('sin', undefined, 0, 0), stopPallet('b', 1, 0, 800)],
+    })
+    expect(validateDeliveryOrder(truck).violations).toHaveLength(0)
+  })
+
+  it('rechaza un palet de parada posterior apilado encima', () => {
+    const truck = makeTruck({
+      pallets: [stopPallet('abajo', 1, 0, 800), stopPallet('arriba', 2, 0, 800, 1200)],
+    })
+    expect(validateDeliveryOrder(truck).isValid).toBe(false)
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Tests — Acceso por puertas (BR-408)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { canLoadThroughDoor, findLoadingDoors, validateDoorAccess } from '../validation/doors'
+import { TruckLoadPlanner } from '../packing/TruckLoadPlanner'
+import { TruckFactory } from '../factories/TruckFactory'
+import { getTruckDoors } from '../entities/Truck'
+import type { TruckDoor } from '../entities/Truck'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import { DoorSide, TruckType } from '../types'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  dims,
+  pos,
+} from './helpers'
+
+/** Palet EUR (1200×800) con una caja de la altura indicada (altura total = height + 144) */
+function placed(id: string, x: number, z: number, height = 1000, yRotation: PlacedPallet['yRotation'] = 0) {
+  return makePlacedPallet({
+    id,
+    position: pos(x, 0, z),
+    yRotation,
+    stackedPallet: makeStackedPallet({
+      id: `${id}-stack`,
+      floors: [makeFloor({
+        pallet: makePallet(),
+        boxes: [makePlacedBox({ box: { dimensions: dims(1200, height, 800), weight: 100 } })],
+      })],
+    }),
+  })
+}
+
+describe('getTruckDoors', () => {
+  it('usa una puerta trasera centrada si el camión no declara puertas', () => {
+    expect(getTruckDoors(makeTruck())).toEqual([
+      { id: 'rear', side: DoorSide.REAR, offset: 0, width: 2480, height: 2700 },
+    ])
+    const container = TruckFactory.fromPreset(TruckType.CONTAINER_20)
+    expect(getTruckDoors(container)).toEqual([
+      { id: 'rear', side: DoorSide.REAR, offset: 6, width: 2340, height: 2280 },
+    ])
+  })
+})
+
+describe('validateDoorAccess', () => {
+  it('detecta palets que caben en el contenedor pero no por su puerta', () => {
+    const container = TruckFactory.fromPreset(TruckType.CONTAINER_20)
+    // 2344mm: cabe en los 2393 de altura interior, no en los 2280 de la puerta
+    container.pallets = [placed('alto', 0, 0, 2200), placed('bajo', 1200, 0)]
+
+    const result = validateDoorAccess(container)
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toHaveLength(1)
+    expect(result.violations[0]).toMatchObject({ code: 'BR-408', severity: 'error', involvedIds: ['alto'] })
+    expect(result.violations[0].message).toContain('2344 mm')
+  })
+
+  it('tiene en cuenta la rotación del palet en la puerta trasera', () => {
+    const door: TruckDoor = { id: 'rear', side: DoorSide.REAR, offset: 0, width: 1000, height: 2700 }
+    expect(canLoadThroughDoor(placed('a', 0, 0), door)).toBe(false)
+    // Girado 90°: 800 de ancho en X
+    expect(canLoadThroughDoor(placed('b', 0, 1200, 1000, 90), door)).toBe(true)
+  })
+
+  it('permite cargar por un lateral solo los palets que quedan enfrente de la puerta', () => {
+    const truck = makeTruck({
+      doors: [
+        { id: 'rear', side: DoorSide.REAR, offset: 0, width: 1000, height: 2700 },
+        { id: 'left', side: DoorSide.LEFT, offset: 0, width: 6000, height: 2700 },
+      ],
+      pallets: [placed('delante', 0, 2000), placed('fondo', 0, 8000)],
+    })
+
+    expect(findLoadingDoors(truck.pallets[0], truck).map(d => d.id)).toEqual(['left'])
+    expect(findLoadingDoors(truck.pallets[1], truck)).toEqual([])
+    expect(validateDoorAccess(truck).violations.map(v => v.involvedIds)).toEqual([['fondo']])
+  })
+
+  it('la lona se abre por los dos lados en toda la longitud', () => {
+    const tautliner = TruckFactory.fromPreset(TruckType.TAUTLINER)
+    expect(getTruckDoors(tautliner).map(d => d.side)).toEqual([DoorSide.REAR, DoorSide.LEFT, DoorSide.RIGHT])
+    tautliner.pallets = [placed('p', 0, 12000)]
+    expect(findLoadingDoors(tautliner.pallets[0], tautliner).map(d => d.id)).toEqual(['rear', 'left', 'right'])
+  })
+})
+
+describe('TruckLoadPlanner con puertas', () => {
+  it('no coloca palets que no entran por ninguna puerta', () => {
+    const container = TruckFactory.fromPreset(TruckType.CONTAINER_20)
+    const tall = makeStackedPallet({
+      id: 'alto',
+      floors: [makeFloor({ boxes: [makePlacedBox({ box: { dimensions: dims(1200, 2200, 800), weight: 100 } })] })],
+    })
+    const low = makeStackedPallet({
+      id: 'bajo',
+      floors: [makeFloor({ boxes: [makePlacedBox({ box: { dimensions: dims(1200, 1000, 800), weight: 100 } })] })],
+    })
+
+    const result = TruckLoadPlanner.plan({ truck: container, pallets: [tall, low] })
+    expect(result.placedPallets.map(pp => pp.stackedPallet.id)).toEqual(['bajo'])
+    expect(result.unfitPallets.map(sp => sp.id)).toEqual(['alto'])
+    expect(result.validation.isValid).toBe(true)
+  })
+})
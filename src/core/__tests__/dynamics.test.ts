@@ -0,0 +1,137 @@
+/**
+ * Tests — Estabilidad dinámica (BR-504, BR-505)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { analyzeStackDynamics, analyzeTruckDynamics, validateDynamicStability } from '../validation/dynamics'
+import { defaultValidationRegistry } from '../validation/rules/registry'
+import { LoadDirection, PalletMaterial } from '../types'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  makeSeparator,
+  dims,
+  pos,
+} from './helpers'
+
+/** Palet EUR sin peso con una caja de 1200×height×800 y 500kg: CoG a 144 + height/2 */
+function stack(id: string, height: number) {
+  return makeStackedPallet({
+    id,
+    floors: [makeFloor({
+      pallet: makePallet({ weight: 0 }),
+      boxes: [makePlacedBox({ box: { dimensions: dims(1200, height, 800), weight: 500 } })],
+    })],
+  })
+}
+
+function placed(id: string, x: number, z: number, height = 600, yRotation: PlacedPallet['yRotation'] = 0) {
+  return makePlacedPallet({ id, position: pos(x, 0, z), yRotation, stackedPallet: stack(`${id}-stack`, height) })
+}
+
+const FRONT = 13600 - 800
+
+describe('analyzeStackDynamics', () => {
+  it('calcula el límite de vuelco b/h en cada dirección', () => {
+    const result = analyzeStackDynamics(stack('tall', 2000))
+    const [level] = result.levels
+    const limits = Object.fromEntries(level.directions.map(d => [d.direction, d.tippingLimit]))
+
+    expect(level.cogHeight).toBe(1144)
+    expect(limits.FORWARD).toBeCloseTo(400 / 1144)
+    expect(limits.LEFT).toBeCloseTo(600 / 1144)
+    expect(level.directions.filter(d => d.tips).map(d => d.direction)).toEqual([LoadDirection.FORWARD, LoadDirection.BACKWARD])
+    expect(result.tippingMargin).toBeCloseTo(400 / 1144 / 0.8)
+    expect(result.needsSecuring).toBe(true)
+  })
+
+  it('un palet bajo no vuelca, pero desliza según el rozamiento del material', () => {
+    const wood = analyzeStackDynamics(stack('low', 600))
+    expect(wood.levels[0].directions.some(d => d.tips)).toBe(false)
+    expect(wood.levels[0].friction).toBe(0.45)
+    expect(wood.slidingMargin).toBeCloseTo(0.45 / 0.8)
+
+    const rubber = analyzeStackDynamics(stack('low', 600), { friction: { [PalletMaterial.WOOD]: 0.9 } })
+    expect(rubber.needsSecuring).toBe(false)
+  })
+
+  it('analiza la base de cada piso con el rozamiento de su palet', () => {
+    const upper = makeFloor({
+      level: 1,
+      pallet: makePallet({ weight: 0, material: PalletMaterial.PLASTIC }),
+      boxes: [makePlacedBox({ box: { dimensions: dims(1200, 600, 800), weight: 300 } })],
+    })
+    const base = makeFloor({
+      pallet: makePallet({ weight: 0 }),
+      boxes: [makePlacedBox({ box: { dimensions: dims(1200, 600, 800), weight: 500 } })],
+      separatorAbove: makeSeparator({ weight: 0 }),
+    })
+    const result = analyzeStackDynamics(makeStackedPallet({ floors: [base, upper] }))
+
+    expect(result.levels.map(l => [l.floorIndex, l.weight, l.friction])).toEqual([[0, 800, 0.45], [1, 300, 0.2]])
+    // Piso superior: base en 144 + 600 + 10, CoG 144 + 300 por encima
+    expect(result.levels[1].cogHeight).toBe(444)
+  })
+})
+
+describe('analyzeTruckDynamics', () => {
+  it('la pared frontal, las laterales y los palets vecinos bloquean; las puertas no', () => {
+    const truck = makeTruck({
+      pallets: [
+        placed('p1', 0, FRONT),
+        placed('p2', 1240, FRONT),
+        placed('p3', 0, FRONT - 1300),
+      ],
+    })
+    const blocked = analyzeTruckDynamics(truck).map(r => [
+      r.id,
+      r.levels[0].directions.filter(d => d.blocked).map(d => d.direction),
+    ])
+
+    expect(blocked).toEqual([
+      ['p1', [LoadDirection.FORWARD, LoadDirection.LEFT, LoadDirection.RIGHT]],
+      ['p2', [LoadDirection.FORWARD, LoadDirection.LEFT, LoadDirection.RIGHT]],
+      ['p3', [LoadDirection.RIGHT]],
+    ])
+  })
+
+  it('tiene en cuenta la rotación del palet', () => {
+    // Girado 90°: 800 de ancho en X y 1200 en Z
+    const [rotated] = analyzeTruckDynamics(makeTruck({ pallets: [placed('r', 600, 5000, 2000, 90)] }))
+    const left = rotated.levels[0].directions.find(d => d.direction === LoadDirection.LEFT)!
+    expect(left.tippingLimit).toBeCloseTo(400 / 1144)
+    expect(left.tips).toBe(true)
+  })
+})
+
+describe('validateDynamicStability', () => {
+  it('avisa de los palets que vuelcan o deslizan con la peor dirección', () => {
+    const truck = makeTruck({
+      pallets: [placed('p1', 0, FRONT), placed('tall', 1240, FRONT, 2000)],
+    })
+    const result = validateDynamicStability(truck)
+
+    expect(result.isValid).toBe(true)
+    expect(result.violations.map(v => [v.code, v.severity, v.involvedIds[0]])).toEqual([
+      ['BR-505', 'warning', 'p1'],
+      ['BR-504', 'warning', 'tall'],
+      ['BR-505', 'warning', 'tall'],
+    ])
+    expect(result.violations[0].message).toContain('hacia atrás')
+    expect(result.violations[1].message).toContain('hacia delante')
+  })
+
+  it('se registra en el motor de reglas y los perfiles ajustan las aceleraciones', () => {
+    const truck = makeTruck({ pallets: [placed('tall', 0, FRONT, 1200)] })
+
+    const codes = (profile?: string) => defaultValidationRegistry.validateTruck(truck, { profile }).violations
+      .filter(v => v.code === 'BR-504').length
+    expect(codes()).toBe(1)
+    expect(codes('internal-shuttle')).toBe(0)
+  })
+})
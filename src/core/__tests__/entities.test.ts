@@ -1,6 +1,7 @@
 /**
- * Tests — Entities: StackedPallet helpers
- * Cubre getStackedPalletTotalHeight, getStackedPalletTotalWeight, ensureUniqueBoxIds
+ * Tests — Entities: StackedPallet y Warehouse helpers
+ * Cubre getStackedPalletTotalHeight, getStackedPalletTotalWeight, ensureUniqueBoxIds,
+ * getRoomFloorPolygon, getRoomBounds, getWarehouseBounds
  */
 
 import { describe, it, expect } from 'vitest'
@@ -9,7 +10,9 @@ import {
   getStackedPalletTotalWeight,
   ensureUniqueBoxIds,
 } from '../entities/StackedPallet'
-import { makeBox, makeFloor, makePallet, makePlacedBox, makeSeparator, makeStackedPallet } from './helpers'
+import { getRoomBounds, getRoomFloorPolygon, getWarehouseBounds } from '../entities/Warehouse'
+import type { Warehouse } from '../entities/Warehouse'
+import { makeBox, makeFloor, makePallet, makePlacedBox, makeRoom, makeSeparator, makeStackedPallet } from './helpers'
 
 describe('getStackedPalletTotalHeight', () => {
   it('calcula la altura de un stack con un solo piso sin cajas', () => {
@@ -118,3 +121,26 @@ describe('ensureUniqueBoxIds', () => {
     expect(stack.floors[0].boxes[0].id).toBe('original-id')
   })
 })
+
+describe('Warehouse helpers', () => {
+  const warehouse: Warehouse = {
+    id: 'wh',
+    name: 'Central',
+    rooms: [
+      makeRoom(),
+      makeRoom({ id: 'room-2', position: { x: 12000, z: 2000 } }),
+    ],
+    metadata: {},
+  }
+
+  it('lleva el polígono de la estancia a la planta del almacén', () => {
+    expect(getRoomFloorPolygon(warehouse.rooms[0])).toEqual(warehouse.rooms[0].floorPolygon)
+    expect(getRoomFloorPolygon(warehouse.rooms[1])[2]).toEqual({ x: 22000, z: 10000 })
+    expect(getRoomBounds(warehouse.rooms[1])).toEqual({ minX: 12000, maxX: 22000, minZ: 2000, maxZ: 10000 })
+  })
+
+  it('calcula la envolvente de todas las estancias', () => {
+    expect(getWarehouseBounds(warehouse)).toEqual({ minX: 0, maxX: 22000, minZ: 0, maxZ: 10000 })
+    expect(getWarehouseBounds({ ...warehouse, rooms: [] })).toBeUndefined()
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Tests — ExtremePointStrategy
+ * Puntos extremos, seis orientaciones y soporte mínimo durante la colocación
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ExtremePointStrategy } from '../packing/ExtremePointStrategy'
+import { BinPacking3DStrategy } from '../packing/BinPacking3D'
+import { getBoxOrientations } from '../packing/orientations'
+import { BoxFactory } from '../factories/BoxFactory'
+import { PalletFactory } from '../factories/PalletFactory'
+import type { PackingResult } from '../packing/PackingStrategy'
+import { validateNoBoxCollisions } from '../validation/collision'
+import { validateAllBoxesInPalletBounds } from '../validation/bounds'
+import { validateSupport } from '../validation/gravity'
+import { validateBoxStackability } from '../validation/stacking'
+import type { Pallet } from '../entities/Pallet'
+import { makeBox } from './helpers'
+
+function expectValidPackingResult(result: PackingResult, pallet: Pallet, totalBoxes: number) {
+  expect(result.placements.length + result.unplacedBoxes.length).toBe(totalBoxes)
+  expect(result.metrics.volumeUtilization).toBeGreaterThanOrEqual(0)
+  expect(result.metrics.volumeUtilization).toBeLessThanOrEqual(1)
+  expect(validateNoBoxCollisions(result.placements).isValid).toBe(true)
+  expect(validateAllBoxesInPalletBounds(result.placements, pallet).isValid).toBe(true)
+  expect(validateSupport(result.placements).isValid).toBe(true)
+}
+
+/** Palet mixto: varios SKUs de medidas poco compatibles entre sí */
+function mixedBoxes() {
+  const specs: Array<[number, number, number, number]> = [
+    // [width, height, depth, cantidad]
+    [600, 400, 400, 6],
+    [500, 300, 350, 8],
+    [400, 250, 300, 10],
+    [300, 200, 250, 14],
+    [350, 450, 200, 6],
+  ]
+  return specs.flatMap(([w, h, d, qty], i) =>
+    Array.from({ length: qty }, () =>
+      BoxFactory.create({ width: w, height: h, depth: d }, { sku: `SKU-${i}`, weight: 8 }),
+    ),
+  )
+}
+
+describe('getBoxOrientations', () => {
+  it('devuelve 6 orientaciones para una caja con 3 medidas distintas', () => {
+    const orientations = getBoxOrientations(makeBox({ dimensions: { width: 400, height: 300, depth: 200 } }))
+    expect(orientations).toHaveLength(6)
+    const keys = orientations.map(o => `${o.dimensions.width}x${o.dimensions.height}x${o.dimensions.depth}`)
+    expect(new Set(keys).size).toBe(6)
+  })
+
+  it('elimina orientaciones duplicadas en cajas cúbicas', () => {
+    const orientations = getBoxOrientations(makeBox({ dimensions: { width: 300, height: 300, depth: 300 } }))
+    expect(orientations).toHaveLength(1)
+  })
+})
+
+describe('ExtremePointStrategy', () => {
+  const strategy = new ExtremePointStrategy()
+
+  it('tiene id y nombre correctos', () => {
+    expect(strategy.id).toBe('extreme-point')
+    expect(strategy.name).toBeTruthy()
+  })
+
+  it('maneja lista vacía', () => {
+    const result = strategy.pack([], PalletFactory.euro())
+    expect(result.placements).toHaveLength(0)
+    expect(result.unplacedBoxes).toHaveLength(0)
+    expect(result.metrics.volumeUtilization).toBe(0)
+  })
+
+  it('coloca un palet mixto sin colisiones, dentro de límites y con soporte', () => {
+    const pallet = PalletFactory.euro()
+    const boxes = mixedBoxes().slice(0, 30)
+    const result = strategy.pack(boxes, pallet)
+
+    expectValidPackingResult(result, pallet, boxes.length)
+    expect(result.unplacedBoxes).toHaveLength(0)
+  })
+
+  it('aprovecha mejor el volumen que BinPacking3D en palets mixtos', () => {
+    const pallet = PalletFactory.euro()
+    const boxes = mixedBoxes()
+
+    const ep = strategy.pack(boxes, pallet)
+    const ffd = new BinPacking3DStrategy().pack(boxes, pallet)
+
+    expectValidPackingResult(ep, pallet, boxes.length)
+    expect(ep.placements.length).toBeGreaterThan(ffd.placements.length)
+    expect(ep.metrics.volumeUtilization).toBeGreaterThan(ffd.metrics.volumeUtilization + 0.15)
+  })
+
+  it('tumba la caja si solo cabe en otra orientación', () => {
+    const pallet = PalletFactory.custom({ width: 1000, height: 144, depth: 800 }, { maxStackHeight: 300 })
+    // 500 de alto no cabe de pie; tumbada (alto 250) sí
+    const box = BoxFactory.create({ width: 250, height: 500, depth: 400 })
+    const result = strategy.pack([box], pallet)
+
+    expect(result.placements).toHaveLength(1)
+    const rotation = result.placements[0].rotation
+    expect(rotation.x !== 0 || rotation.z !== 0).toBe(true)
+    expectValidPackingResult(result, pallet, 1)
+  })
+
+  it('prefiere la orientación más baja para construir capas estables', () => {
+    const pallet = PalletFactory.euro()
+    const box = BoxFactory.create({ width: 300, height: 600, depth: 400 })
+    const result = strategy.pack([box], pallet)
+    const bb = result.placements[0]
+    const oriented = getBoxOrientations(box).find(o =>
+      o.rotation.x === bb.rotation.x && o.rotation.y === bb.rotation.y && o.rotation.z === bb.rotation.z,
+    )
+    expect(oriented?.dimensions.height).toBe(300)
+  })
+
+  it('no apila cajas sobre cajas no apilables', () => {
+    const pallet = PalletFactory.custom({ width: 400, height: 144, depth: 400 }, { maxStackHeight: 2000 })
+    const base = BoxFactory.create({ width: 400, height: 400, depth: 400 }, { stackable: false, weight: 50 })
+    const top = BoxFactory.create({ width: 400, height: 300, depth: 400 }, { weight: 5 })
+    const result = strategy.pack([base, top], pallet)
+
+    expect(result.placements).toHaveLength(1)
+    expect(result.unplacedBoxes).toHaveLength(1)
+    expect(validateBoxStackability(result.placements).isValid).toBe(true)
+  })
+
+  it('respeta el peso máximo del palet', () => {
+    const pallet = PalletFactory.euro({ maxWeight: 100 })
+    const boxes = Array.from({ length: 5 }, () =>
+      BoxFactory.create({ width: 400, height: 300, depth: 400 }, { weight: 30 }),
+    )
+    const result = strategy.pack(boxes, pallet)
+
+    expect(result.placements).toHaveLength(3)
+    expect(result.unplacedBoxes).toHaveLength(2)
+    expect(result.metrics.weightUtilization).toBeLessThanOrEqual(1)
+  })
+
+  it('reporta como no colocadas las cajas que no caben en ninguna orientación', () => {
+    const pallet = PalletFactory.custom({ width: 500, height: 144, depth: 500 }, { maxStackHeight: 500 })
+    const box = BoxFactory.create({ width: 600, height: 600, depth: 600 })
+    const result = strategy.pack([box], pallet)
+
+    expect(result.placements).toHaveLength(0)
+    expect(result.unplacedBoxes).toEqual([box])
+  })
+})
@@ -7,7 +7,8 @@ import { describe, it, expect } from 'vitest'
 import { PalletFactory } from '../factories/PalletFactory'
 import { BoxFactory } from '../factories/BoxFactory'
 import { TruckFactory } from '../factories/TruckFactory'
-import { PalletMaterial, TruckType } from '../types'
+import { isContainer, isReeferContainer } from '../entities/Truck'
+import { BoxAxis, PalletMaterial, TruckType } from '../types'
 
 // ─── PalletFactory ───────────────────────────────────────────────
 
@@ -101,6 +102,11 @@ describe('BoxFactory', () => {
     expect(b.stackable).toBe(false)
   })
 
+  it('crea caja que siempre va de pie', () => {
+    const b = BoxFactory.upright({ width: 400, height: 350, depth: 300 })
+    expect(b.allowedUpAxes).toEqual([BoxAxis.HEIGHT])
+  })
+
   it('permite metadatos extensibles', () => {
     const b = BoxFactory.create(
       { width: 400, height: 300, depth: 300 },
@@ -150,6 +156,30 @@ describe('TruckFactory', () => {
     expect(tl.maxWeight).toBe(24000)
   })
 
+  it('los presets incluyen geometría de ejes independiente por instancia', () => {
+    const t1 = TruckFactory.fromPreset(TruckType.BOX)
+    const t2 = TruckFactory.fromPreset(TruckType.BOX)
+    expect(t1.axles?.front.id).toBe('kingpin')
+    expect(t1.axles?.tractor?.steer.id).toBe('steer')
+    expect(t1.axles).not.toBe(t2.axles)
+    expect(t1.axles?.front).not.toBe(t2.axles?.front)
+  })
+
+  it('crea contenedores ISO con hueco de puerta, tara y sin ejes', () => {
+    const hc = TruckFactory.fromPreset(TruckType.CONTAINER_40_HC)
+    expect(hc.name).toBe('Contenedor CONTAINER_40_HC')
+    expect(hc.dimensions).toEqual({ width: 2352, height: 2698, depth: 12032 })
+    expect(hc.doorOpening).toEqual({ width: 2340, height: 2585 })
+    expect(hc.tareWeight).toBe(3900)
+    expect(hc.axles).toBeUndefined()
+    expect(isContainer(hc)).toBe(true)
+    expect(isReeferContainer(TruckFactory.fromPreset(TruckType.REEFER_40_HC))).toBe(true)
+    expect(isContainer(TruckFactory.fromPreset(TruckType.BOX))).toBe(false)
+
+    // El 45' pallet-wide admite dos palets EUR (1200) de ancho
+    expect(TruckFactory.fromPreset(TruckType.CONTAINER_45_PW).dimensions.width).toBeGreaterThanOrEqual(2400)
+  })
+
   it('genera IDs únicos', () => {
     const t1 = TruckFactory.fromPreset(TruckType.BOX)
     const t2 = TruckFactory.fromPreset(TruckType.BOX)
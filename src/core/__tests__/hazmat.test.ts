@@ -0,0 +1,116 @@
+/**
+ * Tests — Segregación de mercancías peligrosas (BR-701 a BR-704)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getSegregation,
+  validatePalletSegregation,
+  validateStackSegregation,
+  validateTruckSegregation,
+} from '../validation/hazmat'
+import { HazardClass, SegregationScope } from '../types'
+import type { HazmatSegregationTable } from '../types'
+import type { HazmatInfo } from '../entities/Box'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePlacedBox,
+  pos,
+} from './helpers'
+
+const FLAMMABLE: HazmatInfo = { unNumber: 'UN1203', hazardClass: HazardClass.FLAMMABLE_LIQUID }
+const OXIDIZER: HazmatInfo = { unNumber: 'UN1942', hazardClass: HazardClass.OXIDIZER }
+const INFECTIOUS: HazmatInfo = { unNumber: 'UN3373', hazardClass: HazardClass.INFECTIOUS }
+const CORROSIVE: HazmatInfo = { unNumber: 'UN1789', hazardClass: HazardClass.CORROSIVE }
+
+/** Caja peligrosa en la posición x del piso */
+function hazBox(id: string, hazmat: HazmatInfo | undefined, x = 0) {
+  return makePlacedBox({ id, position: pos(x, 0, 0), box: { hazmat } })
+}
+
+/** Palet de un piso con las cajas indicadas, colocado en z */
+function placed(id: string, z: number, ...boxes: ReturnType<typeof hazBox>[]) {
+  return makePlacedPallet({
+    id,
+    position: pos(0, 0, z),
+    stackedPallet: makeStackedPallet({ id: `${id}-stack`, floors: [makeFloor({ boxes })] }),
+  })
+}
+
+describe('getSegregation', () => {
+  it('consulta la tabla en los dos sentidos y se queda con la más exigente', () => {
+    expect(getSegregation([HazardClass.OXIDIZER], [HazardClass.FLAMMABLE_LIQUID]))
+      .toEqual({ mayNotShare: SegregationScope.STACK, minDistance: 6000 })
+    expect(getSegregation([HazardClass.FLAMMABLE_LIQUID], [HazardClass.MISCELLANEOUS])).toBeUndefined()
+    // Corrosivo con peligro secundario inflamable frente a una sustancia infecciosa
+    expect(getSegregation([HazardClass.CORROSIVE, HazardClass.FLAMMABLE_LIQUID], [HazardClass.INFECTIOUS]))
+      .toEqual({ mayNotShare: SegregationScope.TRUCK })
+  })
+})
+
+describe('BR-701: mismo piso de palet', () => {
+  it('detecta clases incompatibles en el mismo piso con los ids de las cajas', () => {
+    const result = validatePalletSegregation([
+      hazBox('gasolina', FLAMMABLE),
+      hazBox('agua', undefined, 400),
+      hazBox('nitrato', OXIDIZER, 800),
+    ])
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toMatchObject([{ code: 'BR-701', involvedIds: ['gasolina', 'nitrato'] }])
+  })
+
+  it('no segrega las cantidades limitadas ni las clases compatibles', () => {
+    expect(validatePalletSegregation([
+      hazBox('gasolina', { ...FLAMMABLE, limitedQuantity: true }),
+      hazBox('nitrato', OXIDIZER, 400),
+      hazBox('nitrato-2', OXIDIZER, 800),
+    ]).isValid).toBe(true)
+  })
+
+  it('admite una tabla propia', () => {
+    const table: HazmatSegregationTable = {
+      [HazardClass.FLAMMABLE_LIQUID]: { [HazardClass.CORROSIVE]: { mayNotShare: SegregationScope.PALLET } },
+    }
+    const boxes = [hazBox('a', FLAMMABLE), hazBox('b', CORROSIVE, 400)]
+    expect(validatePalletSegregation(boxes).isValid).toBe(true)
+    expect(validatePalletSegregation(boxes, table).violations).toHaveLength(1)
+  })
+})
+
+describe('BR-702: mismo palet apilado', () => {
+  it('detecta clases incompatibles en pisos distintos', () => {
+    const stack = makeStackedPallet({
+      id: 'stack',
+      floors: [makeFloor({ boxes: [hazBox('gasolina', FLAMMABLE)] }), makeFloor({ boxes: [hazBox('nitrato', OXIDIZER)] })],
+    })
+    const result = validateStackSegregation(stack)
+    expect(result.violations).toMatchObject([{ code: 'BR-702', involvedIds: ['gasolina', 'nitrato'] }])
+  })
+})
+
+describe('BR-703 / BR-704: mismo camión', () => {
+  it('exige la distancia mínima entre palets', () => {
+    const near = makeTruck({
+      pallets: [placed('p1', 0, hazBox('gasolina', FLAMMABLE)), placed('p2', 4000, hazBox('nitrato', OXIDIZER))],
+    })
+    const result = validateTruckSegregation(near)
+    expect(result.violations).toMatchObject([{ code: 'BR-704', involvedIds: ['gasolina', 'nitrato'] }])
+    expect(result.violations[0].message).toContain('3200 mm')
+
+    const far = makeTruck({
+      pallets: [placed('p1', 0, hazBox('gasolina', FLAMMABLE)), placed('p2', 6800, hazBox('nitrato', OXIDIZER))],
+    })
+    expect(validateTruckSegregation(far).isValid).toBe(true)
+  })
+
+  it('no deja cargar en el mismo camión las clases que exigen otro vehículo', () => {
+    const truck = makeTruck({
+      pallets: [placed('p1', 0, hazBox('gasolina', FLAMMABLE)), placed('p2', 12000, hazBox('muestras', INFECTIOUS))],
+    })
+    const result = validateTruckSegregation(truck)
+    expect(result.violations).toMatchObject([{ code: 'BR-703', involvedIds: ['gasolina', 'muestras'] }])
+  })
+})
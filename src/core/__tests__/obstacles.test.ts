@@ -0,0 +1,69 @@
+/**
+ * Tests — Obstáculos y zonas reservadas de una estancia (BR-411, BR-412)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getObstacleBoundingBox, getObstacleClearance, validateRoomObstacles } from '../validation/obstacles'
+import type { RoomObstacle } from '../entities/Room'
+import { RackFactory } from '../factories/RackFactory'
+import { placePalletInRack } from '../racking/placement'
+import { OBSTACLE_CLEARANCES } from '../constants'
+import { ObstacleType } from '../types'
+import { makeRoom, makePlacedPallet, makeStackedPallet, pos } from './helpers'
+
+const COLUMN: RoomObstacle = { id: 'pilar', type: ObstacleType.COLUMN, position: { x: 5000, z: 4000 }, width: 400, depth: 400 }
+const EXIT: RoomObstacle = { id: 'salida', type: ObstacleType.FIRE_EXIT, position: { x: 0, z: 3000 }, width: 100, depth: 1200, height: 2100 }
+const WALKWAY: RoomObstacle = { id: 'pasillo', type: ObstacleType.WALKWAY, position: { x: 0, z: 7000 }, width: 10000, depth: 1000 }
+
+describe('Obstáculos: geometría', () => {
+  it('usa la franja libre del obstáculo o la de su tipo', () => {
+    expect(getObstacleClearance(COLUMN)).toBe(0)
+    expect(getObstacleClearance(EXIT)).toBe(OBSTACLE_CLEARANCES.FIRE_EXIT)
+    expect(getObstacleClearance({ ...EXIT, clearance: 1500 })).toBe(1500)
+  })
+
+  it('llega hasta el techo salvo que tenga altura propia', () => {
+    const room = makeRoom()
+    expect(getObstacleBoundingBox(COLUMN, room)).toMatchObject({ minX: 5000, maxX: 5400, maxY: 5000 })
+    expect(getObstacleBoundingBox(EXIT, room, 1000)).toMatchObject({ minX: -1000, maxX: 1100, minZ: 2000, maxZ: 5200, maxY: 2100 })
+  })
+})
+
+describe('BR-411 / BR-412: obstáculos y franjas libres', () => {
+  it('acepta palets lejos de los obstáculos', () => {
+    const room = makeRoom({ obstacles: [COLUMN, EXIT, WALKWAY], pallets: [makePlacedPallet({ position: pos(2000, 0, 500) })] })
+    expect(validateRoomObstacles(room)).toEqual({ isValid: true, violations: [] })
+  })
+
+  it('detecta palets sobre un pilar o un pasillo y delante de una salida', () => {
+    const room = makeRoom({
+      obstacles: [COLUMN, EXIT, WALKWAY],
+      pallets: [
+        makePlacedPallet({ id: 'pilar-pp', position: pos(4500, 0, 3500) }),
+        makePlacedPallet({ id: 'salida-pp', position: pos(600, 0, 3200) }),
+        makePlacedPallet({ id: 'pasillo-pp', position: pos(2000, 0, 6500) }),
+      ],
+    })
+
+    const result = validateRoomObstacles(room)
+    expect(result.isValid).toBe(false)
+    expect(result.violations.map(v => [v.code, ...v.involvedIds])).toEqual([
+      ['BR-411', 'pilar-pp', 'pilar'],
+      ['BR-412', 'salida-pp', 'salida'],
+      ['BR-411', 'pasillo-pp', 'pasillo'],
+    ])
+  })
+
+  it('comprueba las estanterías y deja pasar palets por encima de una puerta', () => {
+    const door: RoomObstacle = { id: 'puerta', type: ObstacleType.DOOR, position: { x: 3000, z: 0 }, width: 1200, depth: 100, height: 2100, clearance: 0 }
+    const stackedPallet = makeStackedPallet({ id: 'alto' })
+    let rack = RackFactory.uniform(
+      { bays: 1, bayWidth: 2850, levelElevations: [0, 2500], slotsPerLevel: 3, beamMaxLoad: 2000, position: { x: 2500, y: 0, z: 0 } },
+      { id: 'rack' },
+    )
+    rack = placePalletInRack(rack, { bayIndex: 0, levelIndex: 1, slot: 1 }, { id: 'arriba', stackedPallet, yRotation: 90 })
+
+    const result = validateRoomObstacles(makeRoom({ obstacles: [door], racks: [rack] }))
+    expect(result.violations.map(v => v.involvedIds)).toEqual([['rack', 'puerta']])
+  })
+})
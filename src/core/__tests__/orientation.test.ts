@@ -0,0 +1,134 @@
+/**
+ * Tests — Orientation constraints (BR-005)
+ * getUpAxis, isOrientationAllowed, validateBoxOrientation y su uso en las estrategias
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getUpAxis, isOrientationAllowed, validateBoxOrientation } from '../validation/orientation'
+import { validateAllBoxesInPalletBounds } from '../validation/bounds'
+import { validateNoBoxCollisions } from '../validation/collision'
+import { getBoxOrientations, getRestingOrientations } from '../packing/orientations'
+import { defaultRegistry } from '../packing/registry'
+import { BoxFactory } from '../factories/BoxFactory'
+import { PalletFactory } from '../factories/PalletFactory'
+import { BoxAxis } from '../types'
+import { makeBox, makePlacedBox, dims, rot } from './helpers'
+
+// ─── getUpAxis ───────────────────────────────────────────────────
+
+describe('getUpAxis', () => {
+  it('sin rotación el alto queda en vertical', () => {
+    expect(getUpAxis(rot())).toEqual({ axis: BoxAxis.HEIGHT, inverted: false })
+  })
+
+  it('las rotaciones en Y no cambian el eje vertical', () => {
+    expect(getUpAxis(rot(0, 90, 0)).axis).toBe(BoxAxis.HEIGHT)
+    expect(getUpAxis(rot(0, 270, 0)).axis).toBe(BoxAxis.HEIGHT)
+  })
+
+  it('girar 90° en Z pone el ancho en vertical', () => {
+    expect(getUpAxis(rot(0, 0, 90)).axis).toBe(BoxAxis.WIDTH)
+    expect(getUpAxis(rot(0, 90, 90)).axis).toBe(BoxAxis.WIDTH)
+  })
+
+  it('girar 90° en X pone el fondo en vertical', () => {
+    expect(getUpAxis(rot(90, 0, 0)).axis).toBe(BoxAxis.DEPTH)
+    expect(getUpAxis(rot(90, 0, 90)).axis).toBe(BoxAxis.DEPTH)
+  })
+
+  it('detecta cajas boca abajo', () => {
+    expect(getUpAxis(rot(180, 0, 0))).toEqual({ axis: BoxAxis.HEIGHT, inverted: true })
+    expect(getUpAxis(rot(0, 0, 180))).toEqual({ axis: BoxAxis.HEIGHT, inverted: true })
+  })
+})
+
+// ─── isOrientationAllowed ────────────────────────────────────────
+
+describe('isOrientationAllowed', () => {
+  it('sin restricciones permite cualquier orientación', () => {
+    const box = makeBox()
+    expect(isOrientationAllowed(box, rot(90, 0, 0))).toBe(true)
+    expect(isOrientationAllowed(box, rot(180, 0, 0))).toBe(true)
+  })
+
+  it('una caja de pie solo admite giros en planta', () => {
+    const box = makeBox({ allowedUpAxes: [BoxAxis.HEIGHT] })
+    expect(isOrientationAllowed(box, rot(0, 90, 0))).toBe(true)
+    expect(isOrientationAllowed(box, rot(0, 0, 90))).toBe(false)
+    expect(isOrientationAllowed(box, rot(180, 0, 0))).toBe(false)
+  })
+
+  it('una caja sin ejes permitidos no admite ninguna orientación', () => {
+    const box = makeBox({ allowedUpAxes: [] })
+    expect(getBoxOrientations(box)).toHaveLength(0)
+    expect(getRestingOrientations(box)).toHaveLength(0)
+  })
+})
+
+// ─── BR-005: Orientación permitida ───────────────────────────────
+
+describe('BR-005: validateBoxOrientation', () => {
+  it('acepta cajas sin restricciones tumbadas', () => {
+    const result = validateBoxOrientation([makePlacedBox({ rotation: rot(90, 0, 0) })])
+    expect(result.isValid).toBe(true)
+  })
+
+  it('rechaza una caja "this side up" tumbada de lado', () => {
+    const pb = makePlacedBox({
+      id: 'liquido',
+      rotation: rot(0, 0, 90),
+      box: { allowedUpAxes: [BoxAxis.HEIGHT] },
+    })
+    const result = validateBoxOrientation([pb])
+    expect(result.isValid).toBe(false)
+    expect(result.violations[0].code).toBe('BR-005')
+    expect(result.violations[0].severity).toBe('error')
+    expect(result.violations[0].involvedIds).toEqual(['liquido'])
+  })
+
+  it('rechaza una caja boca abajo aunque pueda tumbarse', () => {
+    const pb = makePlacedBox({
+      rotation: rot(180, 0, 0),
+      box: { allowedUpAxes: [BoxAxis.HEIGHT, BoxAxis.WIDTH] },
+    })
+    expect(validateBoxOrientation([pb]).isValid).toBe(false)
+  })
+
+  it('acepta una caja tumbada en un eje permitido', () => {
+    const pb = makePlacedBox({
+      rotation: rot(90, 0, 0),
+      box: { allowedUpAxes: [BoxAxis.DEPTH] },
+    })
+    expect(validateBoxOrientation([pb]).isValid).toBe(true)
+  })
+})
+
+// ─── Estrategias ─────────────────────────────────────────────────
+
+describe('Estrategias integradas con restricciones de orientación', () => {
+  const pallet = PalletFactory.euro()
+
+  for (const strategy of defaultRegistry.list()) {
+    it(`${strategy.id}: nunca tumba cajas "this side up"`, () => {
+      const boxes = Array.from({ length: 12 }, () =>
+        BoxFactory.upright(dims(300, 500, 400), { type: 'liquido', sku: 'AGUA' }),
+      )
+      const result = strategy.pack(boxes, pallet)
+
+      expect(result.placements.length).toBeGreaterThan(0)
+      expect(validateBoxOrientation(result.placements).isValid).toBe(true)
+    })
+
+    it(`${strategy.id}: coloca tumbadas las cajas que no pueden ir de pie`, () => {
+      const boxes = Array.from({ length: 6 }, () =>
+        BoxFactory.create(dims(300, 600, 400), { type: 'rollo', allowedUpAxes: [BoxAxis.DEPTH] }),
+      )
+      const result = strategy.pack(boxes, pallet)
+
+      expect(result.placements.length).toBeGreaterThan(0)
+      expect(validateBoxOrientation(result.placements).isValid).toBe(true)
+      expect(validateAllBoxesInPalletBounds(result.placements, pallet).isValid).toBe(true)
+      expect(validateNoBoxCollisions(result.placements).isValid).toBe(true)
+    })
+  }
+})
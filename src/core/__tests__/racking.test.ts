@@ -0,0 +1,132 @@
+/**
+ * Tests — Estanterías de paletización (ubicaciones, BR-409, BR-410)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { RackFactory } from '../factories/RackFactory'
+import { getBayOffset, getLevelClearHeight, getRackLength } from '../entities/Rack'
+import type { Rack } from '../entities/Rack'
+import { findFreeSlot, getRackPlacedPallets, placePalletInRack } from '../racking/placement'
+import { validateRackLoad, validateRackSlots } from '../validation/racking'
+import { getPalletBoundingBox } from '../validation/collision'
+import {
+  makeStackedPallet,
+  makeFloor,
+  makePlacedBox,
+  dims,
+  pos,
+} from './helpers'
+
+/** Palet EUR con una caja de la altura y el peso indicados (total: +144 mm, +25 kg) */
+function stack(id: string, height = 1000, weight = 10) {
+  return makeStackedPallet({
+    id,
+    floors: [makeFloor({
+      boxes: [makePlacedBox({ id: `${id}-b`, box: { dimensions: dims(1200, height, 800), weight } })],
+    })],
+  })
+}
+
+/** Dos vanos de 2850 mm (3 EUR por el lado corto), suelo + vigas a 1500 y 3000 mm */
+function rack(overrides?: Partial<Rack>): Rack {
+  return RackFactory.uniform(
+    { bays: 2, bayWidth: 2850, levelElevations: [0, 1500, 3000], slotsPerLevel: 3, beamMaxLoad: 2000 },
+    { id: 'r1', ...overrides },
+  )
+}
+
+function place(r: Rack, levelIndex: number, slot: number, s = stack(`p${levelIndex}${slot}`), yRotation: 0 | 90 = 90, bayIndex = 0) {
+  return placePalletInRack(r, { bayIndex, levelIndex, slot }, { id: s.id, stackedPallet: s, yRotation })
+}
+
+describe('Rack: geometría', () => {
+  it('calcula la longitud, el inicio de cada vano y la altura libre de cada nivel', () => {
+    const r = rack()
+    expect(getRackLength(r)).toBe(6000)
+    expect(getBayOffset(r, 1)).toBe(3050)
+    expect(getLevelClearHeight(r, r.bays[0], 0)).toBe(1380)
+    expect(getLevelClearHeight(r, r.bays[0], 2)).toBe(1000)
+  })
+
+  it('sitúa cada palet centrado en su ubicación y sobre las vigas', () => {
+    const placed = getRackPlacedPallets(place(rack({ position: pos(1000, 0, 2000) }), 1, 1))
+    expect(placed).toHaveLength(1)
+    expect(placed[0]).toMatchObject({ rackId: 'r1', location: { bayIndex: 0, levelIndex: 1, slot: 1 }, yRotation: 90 })
+    expect(getPalletBoundingBox(placed[0])).toMatchObject({ minX: 2125, maxX: 2925, minY: 1500, minZ: 1950, maxZ: 3150 })
+
+    // Girado 90°, el eje de las vigas va hacia -z de la estancia
+    const [turned] = getRackPlacedPallets(place(rack({ yRotation: 90 }), 0, 0))
+    const bb = getPalletBoundingBox(turned)
+    expect(turned.yRotation).toBe(180)
+    expect((bb.minX + bb.maxX) / 2).toBeCloseTo(550)
+    expect((bb.minZ + bb.maxZ) / 2).toBeCloseTo(-575)
+  })
+})
+
+describe('placePalletInRack / findFreeSlot', () => {
+  it('coloca sin modificar el rack original y rechaza ubicaciones ocupadas o inexistentes', () => {
+    const r = rack()
+    const placed = place(r, 1, 0)
+    expect(r.bays[0].levels[1].pallets).toEqual([])
+    expect(placed.bays[0].levels[1].pallets).toMatchObject([{ id: 'p10', slot: 0 }])
+    expect(() => place(placed, 1, 0)).toThrow(/not available/)
+    expect(() => place(r, 5, 0)).toThrow(/no bay/)
+    expect(() => place(r, 1, 3)).toThrow(/not available/)
+  })
+
+  it('busca de abajo arriba la primera ubicación libre donde cabe el palet', () => {
+    let r = rack()
+    expect(findFreeSlot(r, stack('x'), 0)).toBeUndefined()
+    for (const slot of [0, 1, 2]) r = place(r, 0, slot)
+    expect(findFreeSlot(r, stack('x'), 90)).toEqual({ bayIndex: 1, levelIndex: 0, slot: 0 })
+    expect(findFreeSlot(r, stack('x', 1300), 90)).toBeUndefined()
+  })
+})
+
+describe('BR-409: holguras de la ubicación', () => {
+  it('acepta palets que dejan las holguras mínimas', () => {
+    expect(validateRackSlots(place(place(rack(), 0, 0), 2, 2, stack('alto', 700))).violations).toEqual([])
+  })
+
+  it('detecta palets demasiado altos o anchos para su ubicación', () => {
+    const r = place(place(rack(), 0, 0, stack('alto', 1200)), 1, 1, stack('ancho'), 0)
+    const result = validateRackSlots(r)
+    expect(result.isValid).toBe(false)
+    expect(result.violations.map(v => v.involvedIds)).toEqual([['alto', 'r1-b1-l1'], ['ancho', 'r1-b1-l2']])
+  })
+
+  it('detecta ubicaciones inexistentes o repetidas', () => {
+    const r = place(rack(), 1, 0)
+    const level = r.bays[0].levels[1]
+    level.pallets.push({ ...level.pallets[0], id: 'repe' }, { ...level.pallets[0], id: 'fuera', slot: 3 })
+    expect(validateRackSlots(r).violations.map(v => v.involvedIds[0])).toEqual(['repe', 'fuera'])
+  })
+})
+
+describe('BR-410: carga de vigas y vanos', () => {
+  it('da error si se supera la carga de las vigas y aviso cerca del límite', () => {
+    let r = place(place(rack(), 1, 0, stack('a', 1000, 1000)), 1, 1, stack('b', 1000, 1000))
+    r = place(place(r, 2, 0, stack('c', 700, 880)), 2, 1, stack('d', 700, 880))
+    const result = validateRackLoad(r)
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toMatchObject([
+      { code: 'BR-410', severity: 'error', involvedIds: ['r1-b1-l2', 'a', 'b'] },
+      { code: 'BR-410', severity: 'warning', involvedIds: ['r1-b1-l3', 'c', 'd'] },
+    ])
+  })
+
+  it('no cuenta el nivel de suelo ni en las vigas ni en el vano', () => {
+    let r = rack()
+    for (const slot of [0, 1, 2]) r = place(r, 0, slot, stack(`s${slot}`, 1000, 975))
+    r = { ...r, bays: r.bays.map(bay => ({ ...bay, maxLoad: 2500 })) }
+    expect(validateRackLoad(r).violations).toEqual([])
+  })
+
+  it('da error si los niveles de vigas superan la carga del vano', () => {
+    // 2 × 725 kg en cada nivel de vigas: 1450 kg por nivel, 2900 kg en el vano
+    let r = place(place(rack(), 1, 0, stack('a', 1000, 700)), 1, 1, stack('b', 1000, 700))
+    r = place(place(r, 2, 0, stack('c', 700, 700)), 2, 1, stack('d', 700, 700))
+    r = { ...r, bays: r.bays.map(bay => ({ ...bay, maxLoad: 2500 })) }
+    expect(validateRackLoad(r).violations).toMatchObject([{ code: 'BR-410', severity: 'error', involvedIds: ['r1-b1'] }])
+  })
+})
@@ -28,14 +28,15 @@ class DummyStrategy implements PackingStrategy {
 }
 
 describe('PackingRegistry', () => {
-  it('registra las 4 estrategias built-in por defecto', () => {
+  it('registra las 5 estrategias built-in por defecto', () => {
     const registry = new PackingRegistry()
     const ids = registry.listIds()
     expect(ids).toContain('column')
     expect(ids).toContain('bin-packing-3d')
     expect(ids).toContain('type-group')
     expect(ids).toContain('material-grouping')
-    expect(ids).toHaveLength(4)
+    expect(ids).toContain('extreme-point')
+    expect(ids).toHaveLength(5)
   })
 
   it('permite registrar una estrategia custom', () => {
@@ -59,7 +60,7 @@ describe('PackingRegistry', () => {
   it('list() devuelve todas las estrategias', () => {
     const registry = new PackingRegistry()
     const strategies = registry.list()
-    expect(strategies.length).toBe(4)
+    expect(strategies.length).toBe(5)
     expect(strategies.every(s => s.id && s.name)).toBe(true)
   })
 
@@ -91,5 +92,6 @@ describe('defaultRegistry (singleton)', () => {
     expect(defaultRegistry.has('bin-packing-3d')).toBe(true)
     expect(defaultRegistry.has('type-group')).toBe(true)
     expect(defaultRegistry.has('material-grouping')).toBe(true)
+    expect(defaultRegistry.has('extreme-point')).toBe(true)
   })
 })
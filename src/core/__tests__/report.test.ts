@@ -0,0 +1,176 @@
+/**
+ * Tests — Informe de montaje (capas SVG, lista de materiales, violaciones)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateLoadReport } from '../report/report'
+import { getPalletLayers } from '../report/layers'
+import { renderLayerSvg, escapeXml } from '../report/svg'
+import { renderLoadReportHtml } from '../report/html'
+import { ValidationRegistry } from '../validation/rules/registry'
+import {
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  makePlacedPallet,
+  makeSeparator,
+  makeStackedPallet,
+  makeTruck,
+  pos,
+  rot,
+} from './helpers'
+
+/** 2 pisos: 2 cajas en la base + 1 encima, y 1 caja tumbada en el segundo piso */
+function sampleStack() {
+  return makeStackedPallet({
+    id: 'stack-R',
+    floors: [
+      makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'a1', box: { id: 'A', sku: 'SKU-A', weight: 10 }, position: pos(0, 0, 0) }),
+          makePlacedBox({ id: 'a2', box: { id: 'A', sku: 'SKU-A', weight: 10 }, position: pos(400, 0, 0) }),
+          makePlacedBox({ id: 'b1', box: { id: 'B', sku: 'SKU-B', weight: 5, fragile: true }, position: pos(0, 300, 0) }),
+        ],
+        separatorAbove: makeSeparator(),
+      }),
+      makeFloor({
+        level: 1,
+        pallet: makePallet({ id: 'pallet-2' }),
+        boxes: [
+          makePlacedBox({ id: 'c1', box: { id: 'C', sku: 'SKU-<C>', weight: 8 }, position: pos(0, 0, 0), rotation: rot(0, 0, 90) }),
+        ],
+      }),
+    ],
+  })
+}
+
+describe('getPalletLayers', () => {
+  it('agrupa las cajas por piso y altura de apoyo', () => {
+    const layers = getPalletLayers(sampleStack())
+
+    expect(layers.map(l => [l.floorIndex, l.layerIndex, l.boxes.map(b => b.id)])).toEqual([
+      [0, 0, ['a1', 'a2']],
+      [0, 1, ['b1']],
+      [1, 0, ['c1']],
+    ])
+  })
+
+  it('calcula la altura absoluta de cada capa', () => {
+    const layers = getPalletLayers(sampleStack())
+    // Piso 0: tablero 144; caja superior a 300. Piso 1: 144 + 600 + 10 (separador) + 144
+    expect(layers.map(l => l.absoluteY)).toEqual([144, 444, 898])
+  })
+
+  it('indica el eje hacia arriba y las dimensiones orientadas', () => {
+    const [c1] = getPalletLayers(sampleStack())[2].boxes
+    expect(c1.upAxis).toBe('WIDTH')
+    expect(c1.dimensions).toEqual({ width: 300, height: 400, depth: 300 })
+  })
+})
+
+describe('renderLayerSvg', () => {
+  it('genera un SVG con un rectángulo y etiquetas por caja', () => {
+    const svg = renderLayerSvg(getPalletLayers(sampleStack())[0])
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+    expect(svg.match(/<g data-id=/g)).toHaveLength(2)
+    expect(svg).toContain('>a1<')
+    expect(svg).toContain('>SKU-A<')
+    expect(svg).toContain('H↑')
+  })
+
+  it('escapa los textos', () => {
+    const svg = renderLayerSvg(getPalletLayers(sampleStack())[2])
+    expect(svg).toContain('SKU-&lt;C&gt;')
+    expect(svg).not.toContain('SKU-<C>')
+    expect(escapeXml(`"a" & 'b'`)).toBe('&quot;a&quot; &amp; &#39;b&#39;')
+  })
+
+  it('permite ocultar ids y SKUs', () => {
+    const svg = renderLayerSvg(getPalletLayers(sampleStack())[0], { showIds: false, showSkus: false })
+    expect(svg).not.toContain('>a1<')
+    expect(svg).not.toContain('>SKU-A<')
+  })
+})
+
+describe('generateLoadReport', () => {
+  it('incluye capas, lista de materiales y pesos', () => {
+    const report = generateLoadReport(sampleStack())
+
+    expect(report.layers).toHaveLength(3)
+    expect(report.layers[0].svg).toContain('<svg')
+    expect(report.boxCount).toBe(4)
+    expect(report.billOfMaterials.map(l => [l.sku, l.quantity, l.totalWeight])).toEqual([
+      ['SKU-<C>', 1, 8],
+      ['SKU-A', 2, 20],
+      ['SKU-B', 1, 5],
+    ])
+    expect(report.weights).toEqual({ boxes: 33, pallets: 50, separators: 2, total: 85 })
+    expect(report.metrics.stabilityScore).toBeGreaterThan(0)
+  })
+
+  it('recoge las violaciones pendientes del palet', () => {
+    const stack = sampleStack()
+    // Caja flotando sin soporte (BR-004)
+    stack.floors[0].boxes.push(makePlacedBox({ id: 'float', position: pos(800, 500, 0) }))
+    const report = generateLoadReport(stack)
+
+    expect(report.violations.some(v => v.code === 'BR-004' && v.involvedIds.includes('float'))).toBe(true)
+  })
+
+  it('aplica el perfil y las reglas propias del registro indicado', () => {
+    const stack = sampleStack()
+    stack.floors[0].boxes.push(makePlacedBox({ id: 'float', position: pos(800, 500, 0) }))
+    const registry = new ValidationRegistry()
+    registry.register({
+      id: 'CUST-001', name: 'Sin cajas frágiles', scope: 'floor', defaultParams: {},
+      validate: floor => {
+        const violations = floor.boxes
+          .filter(pb => pb.box.fragile)
+          .map(pb => ({ code: 'CUST-001', severity: 'error' as const, message: 'Caja frágil', involvedIds: [pb.id] }))
+        return { isValid: violations.length === 0, violations }
+      },
+    })
+
+    const report = generateLoadReport(stack, {
+      registry,
+      profile: { id: 'p', name: 'P', rules: { 'BR-004': { enabled: false } } },
+    })
+    const codes = report.violations.map(v => v.code)
+
+    expect(codes).not.toContain('BR-004')
+    expect(codes).toContain('CUST-001')
+  })
+
+  it('añade la planta del camión y sus violaciones si se indica', () => {
+    const stack = sampleStack()
+    const truck = makeTruck({
+      name: 'Tráiler 1',
+      maxWeight: 50,
+      pallets: [makePlacedPallet({ id: 'pp-R', stackedPallet: stack })],
+    })
+    const report = generateLoadReport(stack, { truck })
+
+    expect(report.truck?.palletCount).toBe(1)
+    expect(report.truck?.svg).toContain('pp-R')
+    expect(report.truck?.totalWeight).toBe(85)
+    expect(report.truck?.securing.rows.map(r => r.palletIds)).toEqual([['pp-R']])
+    expect(report.violations.some(v => v.code === 'BR-102')).toBe(true)
+  })
+
+  it('es serializable a JSON', () => {
+    const report = generateLoadReport(sampleStack())
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report)
+  })
+})
+
+describe('renderLoadReportHtml', () => {
+  it('genera un documento imprimible con una página por capa', () => {
+    const html = renderLoadReportHtml(generateLoadReport(sampleStack()))
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true)
+    expect(html.match(/class="page"/g)).toHaveLength(3)
+    expect(html).toContain('Lista de materiales')
+    expect(html).toContain('SKU-&lt;C&gt;')
+  })
+})
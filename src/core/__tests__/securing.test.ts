@@ -0,0 +1,95 @@
+/**
+ * Tests — Cálculo de trincaje (EN 12195-1)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeLoadSecuring } from '../securing/lashing'
+import { LoadDirection, PalletMaterial } from '../types'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  dims,
+  pos,
+} from './helpers'
+
+/** Palet EUR sin peso con una caja de 1200×height×800 */
+function placed(
+  id: string,
+  x: number,
+  z: number,
+  { height = 600, weight = 500, material = PalletMaterial.WOOD, yRotation = 0 as PlacedPallet['yRotation'] } = {},
+) {
+  return makePlacedPallet({
+    id,
+    position: pos(x, 0, z),
+    yRotation,
+    stackedPallet: makeStackedPallet({
+      id: `${id}-stack`,
+      floors: [makeFloor({
+        pallet: makePallet({ weight: 0, material }),
+        boxes: [makePlacedBox({ box: { dimensions: dims(1200, height, 800), weight } })],
+      })],
+    }),
+  })
+}
+
+const FRONT = 13600 - 800
+
+describe('computeLoadSecuring', () => {
+  it('agrupa los palets en filas desde la cabina y descuenta las direcciones bloqueadas', () => {
+    const truck = makeTruck({
+      pallets: [placed('p3', 0, FRONT - 1300), placed('p1', 0, FRONT), placed('p2', 1240, FRONT)],
+    })
+    const plan = computeLoadSecuring(truck)
+
+    expect(plan.rows.map(r => r.palletIds)).toEqual([['p1', 'p2'], ['p3']])
+    expect(plan.rows[0].blocked).toEqual([LoadDirection.FORWARD, LoadDirection.LEFT, LoadDirection.RIGHT])
+    expect(plan.rows[0].bounds).toMatchObject({ minX: 0, maxX: 2440, minZ: FRONT, maxZ: 13600 })
+    expect(plan.rows[0].weight).toBe(1000)
+    // Madera (μ 0.45): solo falta retener la arrancada (0.5g), con una cincha
+    expect(plan.rows.map(r => r.topOverLashings)).toEqual([1, 1])
+    expect(plan.topOverLashings).toBe(2)
+    expect(plan.rows.every(r => !r.needsBlocking)).toBe(true)
+  })
+
+  it('pide bloqueo cuando los amarres por encima no bastan', () => {
+    // Plástico (μ 0.2) y 1000kg: hacia delante harían falta 6 cinchas de STF 350 daN
+    const truck = makeTruck({ pallets: [placed('p', 0, 5000, { weight: 1000, material: PalletMaterial.PLASTIC })] })
+
+    const [row] = computeLoadSecuring(truck).rows
+    expect(row.blockingDirections).toEqual([LoadDirection.FORWARD])
+    expect(row.needsBlocking).toBe(true)
+    expect(row.topOverLashings).toBe(3)
+    expect(row.directLashings).toBe(4)
+
+    const [strong] = computeLoadSecuring(truck, {
+      equipment: { lashingCapacity: 2500, standardTensionForce: 700 },
+    }).rows
+    expect(strong.needsBlocking).toBe(false)
+    expect(strong.topOverLashings).toBe(3)
+  })
+
+  it('tiene en cuenta el vuelco: lateral con cinchas, longitudinal con bloqueo', () => {
+    // Girado 90°: 800 de ancho en X y 1200 en Z, CoG a 1144
+    const tall = { height: 2000, yRotation: 90 as const }
+    const [loose] = computeLoadSecuring(makeTruck({ pallets: [placed('t', 600, 5000, tall)] })).rows
+    expect(loose.blockingDirections).toEqual([LoadDirection.FORWARD])
+
+    const [front] = computeLoadSecuring(makeTruck({ pallets: [placed('t', 600, 13600, tall)] })).rows
+    expect(front.blocked).toContain(LoadDirection.FORWARD)
+    expect(front.needsBlocking).toBe(false)
+    expect(front.topOverLashings).toBeGreaterThan(0)
+  })
+
+  it('rechaza un equipo sin capacidad', () => {
+    expect(() => computeLoadSecuring(makeTruck(), {
+      equipment: { lashingCapacity: 0, standardTensionForce: 350 },
+    })).toThrow('positive')
+    expect(computeLoadSecuring(makeTruck()).rows).toEqual([])
+  })
+})
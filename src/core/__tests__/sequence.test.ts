@@ -0,0 +1,131 @@
+/**
+ * Tests — Secuencia de montaje paso a paso
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  generateLoadingSequence,
+  generateTruckLoadingSequence,
+  getBoxSequenceKey,
+} from '../sequence/loading'
+import {
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeTruck,
+  pos,
+} from './helpers'
+
+describe('generateLoadingSequence', () => {
+  it('coloca cada caja después de las que la soportan', () => {
+    // Orden de entrada invertido: primero la caja de arriba
+    const stack = makeStackedPallet({
+      floors: [makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'top', position: pos(200, 300, 0) }),
+          makePlacedBox({ id: 'right', position: pos(400, 0, 0) }),
+          makePlacedBox({ id: 'left', position: pos(0, 0, 0) }),
+        ],
+      })],
+    })
+    const { steps, unsupportedIds } = generateLoadingSequence(stack)
+
+    expect(steps.map(s => s.placedBox.id)).toEqual(['left', 'right', 'top'])
+    expect(steps.map(s => s.step)).toEqual([0, 1, 2])
+    expect(steps[2].dependsOn.sort()).toEqual(['left', 'right'])
+    expect(steps[2].key).toBe(getBoxSequenceKey(0, 0))
+    expect(unsupportedIds).toEqual([])
+  })
+
+  it('usa supportedBy cuando está informado', () => {
+    // Ambas cajas de la base están en el mismo plano; `top` declara solo a `b`
+    const stack = makeStackedPallet({
+      floors: [makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'top', position: pos(0, 300, 0), supportedBy: ['b'] }),
+          makePlacedBox({ id: 'a', position: pos(0, 0, 0) }),
+          makePlacedBox({ id: 'b', position: pos(0, 0, 300) }),
+        ],
+      })],
+    })
+    const { steps } = generateLoadingSequence(stack)
+
+    expect(steps.map(s => s.placedBox.id)).toEqual(['a', 'b', 'top'])
+    expect(steps[2].dependsOn).toEqual(['b'])
+  })
+
+  it('monta de abajo arriba y de fondo a frente, piso a piso', () => {
+    const stack = makeStackedPallet({
+      floors: [
+        makeFloor({
+          boxes: [
+            makePlacedBox({ id: 'front', position: pos(0, 0, 400) }),
+            makePlacedBox({ id: 'back', position: pos(0, 0, 0) }),
+          ],
+        }),
+        makeFloor({
+          level: 1,
+          pallet: makePallet({ id: 'pallet-2' }),
+          boxes: [makePlacedBox({ id: 'upper', position: pos(0, 0, 0) })],
+        }),
+      ],
+    })
+    const { steps } = generateLoadingSequence(stack)
+
+    expect(steps.map(s => [s.floorIndex, s.placedBox.id])).toEqual([
+      [0, 'back'],
+      [0, 'front'],
+      [1, 'upper'],
+    ])
+    expect(steps[2].key).toBe('f1:b0')
+  })
+
+  it('deja al final de su piso las cajas flotantes y las señala', () => {
+    const stack = makeStackedPallet({
+      floors: [makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'float', position: pos(800, 500, 0) }),
+          makePlacedBox({ id: 'base', position: pos(0, 0, 0) }),
+        ],
+      })],
+    })
+    const { steps, unsupportedIds } = generateLoadingSequence(stack)
+
+    expect(steps.map(s => s.placedBox.id)).toEqual(['base', 'float'])
+    expect(unsupportedIds).toEqual(['float'])
+  })
+
+  it('no se bloquea ante dependencias circulares', () => {
+    const stack = makeStackedPallet({
+      floors: [makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'a', position: pos(0, 300, 0), supportedBy: ['b'] }),
+          makePlacedBox({ id: 'b', position: pos(0, 300, 300), supportedBy: ['a'] }),
+        ],
+      })],
+    })
+    const { steps, unsupportedIds } = generateLoadingSequence(stack)
+
+    expect(steps).toHaveLength(2)
+    expect(unsupportedIds.sort()).toEqual(['a', 'b'])
+  })
+})
+
+describe('generateTruckLoadingSequence', () => {
+  it('carga desde la cabina hacia las puertas, con los remontados después de su base', () => {
+    const truck = makeTruck({
+      pallets: [
+        makePlacedPallet({ id: 'doors', position: pos(0, 0, 0) }),
+        makePlacedPallet({ id: 'stacked', position: pos(0, 144, 12800) }),
+        makePlacedPallet({ id: 'cab', position: pos(0, 0, 12800) }),
+        makePlacedPallet({ id: 'middle', position: pos(0, 0, 6000) }),
+      ],
+    })
+    const steps = generateTruckLoadingSequence(truck)
+
+    expect(steps.map(s => s.placedPallet.id)).toEqual(['cab', 'stacked', 'middle', 'doors'])
+    expect(steps[1].dependsOn).toEqual(['cab'])
+  })
+})
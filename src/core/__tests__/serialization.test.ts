@@ -0,0 +1,233 @@
+/**
+ * Tests — Serialización versionada (serialize / deserialize / migraciones)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { serialize, deserialize } from '../serialization/serialize'
+import { SCHEMA_VERSION, SerializationError } from '../serialization/schema'
+import type { Warehouse } from '../entities/Warehouse'
+import { TruckFactory } from '../factories/TruckFactory'
+import { RackFactory } from '../factories/RackFactory'
+import { placePalletInRack } from '../racking/placement'
+import { ObstacleType, TruckType } from '../types'
+import {
+  makeBox,
+  makePlacedBox,
+  makeFloor,
+  makeSeparator,
+  makeStackedPallet,
+  makePlacedPallet,
+  makeRoom,
+  makeTruck,
+  pos,
+  rot,
+} from './helpers'
+
+const boxA = makeBox({
+  id: 'A',
+  sku: 'SKU-A',
+  allowedUpAxes: ['HEIGHT'],
+  temperatureRange: { min: 0, max: 4 },
+  hazmat: { unNumber: 'UN1203', hazardClass: '3', packingGroup: 'II' },
+})
+const boxB = makeBox({ id: 'B', weight: 20 })
+
+function sampleStack(id = 'stack-1') {
+  return makeStackedPallet({
+    id,
+    deliveryStop: 2,
+    floors: [
+      makeFloor({
+        boxes: [
+          { ...makePlacedBox({ id: `${id}-pb1`, position: pos(0, 0, 0) }), box: boxA },
+          { ...makePlacedBox({ id: `${id}-pb2`, position: pos(400, 0, 0), rotation: rot(0, 90, 0) }), box: boxA },
+          { ...makePlacedBox({ id: `${id}-pb3`, position: pos(800, 0, 0) }), box: boxB },
+        ],
+        separatorAbove: makeSeparator(),
+      }),
+      makeFloor({ level: 1 }),
+    ],
+  })
+}
+
+describe('serialize', () => {
+  it('envuelve la entidad con versión y tipo', () => {
+    const doc = serialize('stackedPallet', sampleStack())
+    expect(doc.version).toBe(SCHEMA_VERSION)
+    expect(doc.kind).toBe('stackedPallet')
+  })
+
+  it('deduplica las cajas por id y las referencia con boxId', () => {
+    const doc = serialize('truck', makeTruck({
+      pallets: [
+        makePlacedPallet({ id: 'pp1', stackedPallet: sampleStack('s1') }),
+        makePlacedPallet({ id: 'pp2', stackedPallet: sampleStack('s2') }),
+      ],
+    }))
+
+    expect(doc.boxes.map(b => b.id)).toEqual(['A', 'B'])
+    const placed = doc.data.pallets[0].stackedPallet.floors[0].boxes[0]
+    expect(placed.boxId).toBe('A')
+    expect(placed).not.toHaveProperty('box')
+  })
+
+  it('lanza error si dos cajas distintas comparten id', () => {
+    const stack = makeStackedPallet({
+      floors: [makeFloor({
+        boxes: [
+          makePlacedBox({ id: 'pb1', box: { id: 'X', weight: 10 } }),
+          makePlacedBox({ id: 'pb2', box: { id: 'X', weight: 99 } }),
+        ],
+      })],
+    })
+    expect(() => serialize('stackedPallet', stack)).toThrow(SerializationError)
+  })
+
+  it('produce un documento independiente de la entidad original', () => {
+    const stack = sampleStack()
+    const doc = serialize('stackedPallet', stack)
+    doc.data.floors[0].pallet.dimensions.width = 1
+    expect(stack.floors[0].pallet.dimensions.width).toBe(1200)
+  })
+})
+
+describe('deserialize', () => {
+  it('reconstruye un StackedPallet idéntico al original', () => {
+    const stack = sampleStack()
+    const loaded = deserialize(JSON.stringify(serialize('stackedPallet', stack)), 'stackedPallet')
+    expect(loaded).toEqual(stack)
+  })
+
+  it('comparte el mismo objeto Box entre las PlacedBox que lo referencian', () => {
+    const loaded = deserialize(serialize('stackedPallet', sampleStack()), 'stackedPallet')
+    const [pb1, pb2] = loaded.floors[0].boxes
+    expect(pb1.box).toBe(pb2.box)
+  })
+
+  it('hace el ida y vuelta de camiones con ejes, estancias y almacenes', () => {
+    const truck = { ...TruckFactory.fromPreset(TruckType.BOX), pallets: [makePlacedPallet({ stackedPallet: sampleStack() })] }
+    expect(deserialize(serialize('truck', truck), 'truck')).toEqual(truck)
+
+    const container = TruckFactory.fromPreset(TruckType.REEFER_20)
+    expect(deserialize(serialize('truck', container), 'truck')).toEqual(container)
+
+    const tautliner = TruckFactory.fromPreset(TruckType.TAUTLINER)
+    expect(deserialize(serialize('truck', tautliner), 'truck')).toEqual(tautliner)
+
+    const multiTemp = TruckFactory.fromPreset(TruckType.REFRIGERATED, {
+      temperatureZones: [{ id: 'frio', startZ: 0, endZ: 13100, setpoint: 2 }],
+    })
+    expect(deserialize(serialize('truck', multiTemp), 'truck')).toEqual(multiTemp)
+
+    const warehouse: Warehouse = {
+      id: 'wh',
+      name: 'Central',
+      rooms: [
+        makeRoom({ pallets: [makePlacedPallet({ position: pos(100, 0, 100), yRotation: 90 })] }),
+        makeRoom({ id: 'room-2', position: { x: 12000, z: 0 } }),
+      ],
+      metadata: { site: 'MAD' },
+    }
+    expect(deserialize(serialize('warehouse', warehouse), 'warehouse')).toEqual(warehouse)
+
+    const rack = placePalletInRack(
+      RackFactory.uniform({ bays: 1, bayWidth: 2700, levelElevations: [0, 1500], slotsPerLevel: 3, beamMaxLoad: 3000 }),
+      { bayIndex: 0, levelIndex: 1, slot: 2 },
+      { id: 'sp-1', stackedPallet: sampleStack(), yRotation: 90 },
+    )
+    const racked = makeRoom({
+      racks: [rack],
+      obstacles: [{ id: 'pilar', type: ObstacleType.COLUMN, position: { x: 4000, z: 4000 }, width: 400, depth: 400, clearance: 200 }],
+    })
+    expect(deserialize(serialize('room', racked), 'room')).toEqual(racked)
+  })
+
+  it('rechaza un documento de otro tipo', () => {
+    const doc = serialize('room', makeRoom())
+    expect(() => deserialize(doc, 'truck')).toThrow('expected kind "truck", got "room"')
+  })
+
+  it('rechaza JSON inválido', () => {
+    expect(() => deserialize('{ not json', 'truck')).toThrow(SerializationError)
+  })
+
+  it('indica la ruta del campo mal formado', () => {
+    const doc = serialize('stackedPallet', sampleStack())
+    ;(doc.data.floors[0].boxes[1].position as unknown as Record<string, unknown>).x = '400'
+
+    try {
+      deserialize(doc, 'stackedPallet')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(SerializationError)
+      expect((error as SerializationError).path).toBe('data.floors[0].boxes[1].position.x')
+    }
+  })
+
+  it('rechaza referencias a cajas inexistentes', () => {
+    const doc = serialize('stackedPallet', sampleStack())
+    doc.boxes = doc.boxes.filter(b => b.id !== 'B')
+    expect(() => deserialize(doc, 'stackedPallet')).toThrow('unknown box "B"')
+  })
+
+  it('rechaza valores fuera de los enums y rotaciones no discretas', () => {
+    const doc = serialize('stackedPallet', sampleStack())
+    ;(doc.data.floors[0].pallet as unknown as Record<string, unknown>).material = 'GLASS'
+    expect(() => deserialize(doc, 'stackedPallet')).toThrow('data.floors[0].pallet.material')
+
+    const doc2 = serialize('placedPallet', makePlacedPallet())
+    ;(doc2.data as unknown as Record<string, unknown>).yRotation = 45
+    expect(() => deserialize(doc2, 'placedPallet')).toThrow('data.yRotation')
+  })
+
+  it('rechaza documentos de una versión más nueva', () => {
+    const doc = { ...serialize('room', makeRoom()), version: SCHEMA_VERSION + 1 }
+    expect(() => deserialize(doc, 'room')).toThrow('newer than supported')
+  })
+})
+
+describe('migraciones', () => {
+  it('carga entidades sin envolver (versión 0) con las cajas embebidas', () => {
+    const stack = sampleStack()
+    const legacy = JSON.parse(JSON.stringify(stack))
+    const loaded = deserialize(legacy, 'stackedPallet')
+
+    expect(loaded).toEqual(stack)
+    expect(loaded.floors[0].boxes[0].box).toBe(loaded.floors[0].boxes[1].box)
+  })
+
+  it('carga estancias y almacenes de versión 0 con palets en estanterías', () => {
+    const rack = placePalletInRack(
+      RackFactory.uniform({ bays: 1, bayWidth: 2700, levelElevations: [0, 1500], slotsPerLevel: 3, beamMaxLoad: 3000 }),
+      { bayIndex: 0, levelIndex: 1, slot: 0 },
+      { id: 'sp-1', stackedPallet: sampleStack(), yRotation: 90 },
+    )
+    const room = makeRoom({ racks: [rack], pallets: [makePlacedPallet({ stackedPallet: sampleStack() })] })
+    expect(deserialize(JSON.parse(JSON.stringify(room)), 'room')).toEqual(room)
+
+    const warehouse: Warehouse = { id: 'wh', name: 'Central', rooms: [room], metadata: {} }
+    expect(deserialize(JSON.parse(JSON.stringify(warehouse)), 'warehouse')).toEqual(warehouse)
+  })
+
+  it('aplica migraciones adicionales en cadena', () => {
+    const current = serialize('room', makeRoom({ name: 'Nave' }))
+    const fromFuture = { ...current, version: SCHEMA_VERSION + 1 }
+    // Documento "antiguo" en la versión actual - 1 sin el campo `name`
+    const unnamed: Record<string, unknown> = { ...current.data }
+    delete unnamed.name
+    const old = { ...current, version: SCHEMA_VERSION - 1, data: unnamed }
+
+    const loaded = deserialize(old, 'room', {
+      migrations: {
+        [SCHEMA_VERSION - 1]: doc => ({ ...doc, version: SCHEMA_VERSION, data: { ...(doc.data as object), name: 'Sin nombre' } }),
+      },
+    })
+    expect(loaded.name).toBe('Sin nombre')
+    expect(() => deserialize(fromFuture, 'room')).toThrow(SerializationError)
+  })
+
+  it('rechaza migraciones que no avanzan la versión', () => {
+    const doc = { ...serialize('room', makeRoom()), version: SCHEMA_VERSION - 1 }
+    expect(() => deserialize(doc, 'room', { migrations: { [SCHEMA_VERSION - 1]: d => d } })).toThrow('must produce version')
+  })
+})
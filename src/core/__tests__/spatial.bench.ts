@@ -0,0 +1,97 @@
+/**
+ * Benchmarks — Validación de cargas grandes con y sin índice espacial
+ *
+ * pnpm bench
+ */
+
+import { bench, describe } from 'vitest'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { BoundingBox } from '../types'
+import {
+  aabbIntersects,
+  getBoxBoundingBox,
+  getPalletBoundingBox,
+  validateNoBoxCollisions,
+  validateNoPalletCollisions,
+} from '../validation/collision'
+import { validateSupport } from '../validation/gravity'
+import { ExtremePointStrategy } from '../packing/ExtremePointStrategy'
+import { BoxFactory } from '../factories/BoxFactory'
+import { makePallet, makePlacedBox, makePlacedPallet, pos } from './helpers'
+
+/** Bloque de `nx × ny × nz` cajas de 400×300×300 apiladas sin huecos */
+function boxBlock(nx: number, ny: number, nz: number): PlacedBox[] {
+  const boxes: PlacedBox[] = []
+  for (let x = 0; x < nx; x++) {
+    for (let y = 0; y < ny; y++) {
+      for (let z = 0; z < nz; z++) {
+        boxes.push(makePlacedBox({ id: `b-${x}-${y}-${z}`, position: pos(x * 400, y * 300, z * 300) }))
+      }
+    }
+  }
+  return boxes
+}
+
+/** Nave con `count` palets EUR en filas, separados 100 mm */
+function palletRows(count: number): PlacedPallet[] {
+  const perRow = 50
+  return Array.from({ length: count }, (_, i) =>
+    makePlacedPallet({ id: `pp-${i}`, position: pos((i % perRow) * 1300, 0, Math.floor(i / perRow) * 900) }),
+  )
+}
+
+/** Implementaciones O(n²) previas, como referencia */
+function naivePairs<T>(items: T[], getBounds: (item: T) => BoundingBox): number {
+  let count = 0
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (aabbIntersects(getBounds(items[i]), getBounds(items[j]))) count++
+    }
+  }
+  return count
+}
+
+function naiveSupport(boxes: PlacedBox[]): number {
+  let unsupported = 0
+  for (const pb of boxes) {
+    const bb = getBoxBoundingBox(pb)
+    if (bb.minY <= 1) continue
+    let area = 0
+    for (const other of boxes) {
+      if (other.id === pb.id) continue
+      const obb = getBoxBoundingBox(other)
+      if (Math.abs(obb.maxY - bb.minY) > 2) continue
+      area += Math.max(0, Math.min(bb.maxX, obb.maxX) - Math.max(bb.minX, obb.minX)) *
+        Math.max(0, Math.min(bb.maxZ, obb.maxZ) - Math.max(bb.minZ, obb.minZ))
+    }
+    if (area / ((bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)) < 0.6) unsupported++
+  }
+  return unsupported
+}
+
+const boxes5k = boxBlock(25, 8, 25)     // 5.000 cajas
+const pallets2k = palletRows(2000)      // 2.000 palets en una nave
+
+describe('BR-002 colisiones entre cajas (5.000)', () => {
+  bench('SpatialGrid', () => { validateNoBoxCollisions(boxes5k) })
+  bench('O(n²)', () => { naivePairs(boxes5k, getBoxBoundingBox) }, { iterations: 2 })
+})
+
+describe('BR-004 soporte (5.000 cajas)', () => {
+  bench('SpatialGrid', () => { validateSupport(boxes5k) })
+  bench('O(n²)', () => { naiveSupport(boxes5k) }, { iterations: 2 })
+})
+
+describe('BR-003 colisiones entre palets (2.000)', () => {
+  bench('SpatialGrid', () => { validateNoPalletCollisions(pallets2k) })
+  bench('O(n²)', () => { naivePairs(pallets2k, getPalletBoundingBox) }, { iterations: 2 })
+})
+
+describe('ExtremePointStrategy (1.000 cajas pequeñas)', () => {
+  const pallet = makePallet({ maxWeight: 100000, maxStackHeight: 2200 })
+  const small = Array.from({ length: 1000 }, (_, i) =>
+    BoxFactory.create({ width: 200, height: 150, depth: 100 }, { id: `s-${i}`, weight: 1 }),
+  )
+  bench('pack', () => { new ExtremePointStrategy().pack(small, pallet) }, { iterations: 2 })
+})
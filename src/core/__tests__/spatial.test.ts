@@ -0,0 +1,107 @@
+/**
+ * Tests — SpatialGrid (índice espacial para colisiones y soporte)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SpatialGrid, suggestCellSize } from '../spatial/SpatialGrid'
+import { aabbIntersects, findIntersectingPairs } from '../validation/collision'
+import type { BoundingBox } from '../types'
+
+function bb(minX: number, minY: number, minZ: number, w: number, h: number, d: number): BoundingBox {
+  return { minX, maxX: minX + w, minY, maxY: minY + h, minZ, maxZ: minZ + d }
+}
+
+/** AABB pseudoaleatorios reproducibles (LCG) */
+function randomBounds(count: number, seed = 42): BoundingBox[] {
+  let state = seed
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32
+    return state / 2 ** 32
+  }
+  return Array.from({ length: count }, () =>
+    bb(next() * 5000 - 1000, next() * 2000, next() * 5000, 50 + next() * 600, 50 + next() * 600, 50 + next() * 600),
+  )
+}
+
+describe('SpatialGrid', () => {
+  it('devuelve los elementos que tocan la región, sin duplicados y en orden de inserción', () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.insert('big', bb(0, 0, 0, 1000, 1000, 1000))
+    grid.insert('far', bb(5000, 0, 5000, 100, 100, 100))
+    grid.insert('touching', bb(1000, 0, 0, 100, 100, 100))
+
+    expect(grid.query(bb(900, 50, 50, 100, 10, 10))).toEqual(['big', 'touching'])
+    expect(grid.size).toBe(3)
+  })
+
+  it('coincide con la búsqueda exhaustiva, también con coordenadas negativas', () => {
+    const bounds = randomBounds(300)
+    const grid = SpatialGrid.from(bounds.map((_, i) => i), i => bounds[i])
+
+    for (const region of randomBounds(50, 7)) {
+      const expected = bounds
+        .map((b, i) => ({ b, i }))
+        .filter(({ b }) =>
+          b.minX <= region.maxX && b.maxX >= region.minX &&
+          b.minY <= region.maxY && b.maxY >= region.minY &&
+          b.minZ <= region.maxZ && b.maxZ >= region.minZ,
+        )
+        .map(({ i }) => i)
+      expect(grid.queryIndices(region)).toEqual(expected)
+    }
+  })
+
+  it('permite quitar y reubicar elementos, y consultar regiones ilimitadas', () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.insert('a', bb(0, 0, 0, 100, 100, 100))
+    grid.insert('b', bb(0, 100, 0, 100, 100, 100))
+    grid.insert('c', bb(500, 0, 500, 100, 100, 100))
+
+    const column = { ...bb(0, 0, 0, 100, 0, 100), minY: 50, maxY: Infinity }
+    expect(grid.query(column)).toEqual(['a', 'b'])
+
+    grid.insert('a', bb(500, 200, 500, 100, 100, 100))
+    expect(grid.query(column)).toEqual(['b'])
+    expect(grid.remove('b')).toBe(true)
+    expect(grid.remove('b')).toBe(false)
+    expect(grid.query({ ...column, minY: -Infinity })).toEqual([])
+    expect(grid.query(bb(500, 0, 500, 100, 1000, 100))).toEqual(['c', 'a'])
+    expect(grid.size).toBe(2)
+  })
+
+  it('no crece al reubicar los mismos elementos muchas veces', () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.insert('a', bb(0, 0, 0, 100, 100, 100))
+    grid.insert('b', bb(200, 0, 0, 100, 100, 100))
+    for (let i = 0; i < 1000; i++) grid.insert(i % 2 ? 'a' : 'b', bb((i % 5) * 100, 0, 0, 100, 100, 100))
+
+    const all = bb(-1000, -1000, -1000, 3000, 3000, 3000)
+    expect(grid.query(all)).toEqual(['b', 'a'])
+    expect(Math.max(...grid.queryIndices(all))).toBeLessThan(4)
+    expect(grid.size).toBe(2)
+  })
+
+  it('rechaza un tamaño de celda no positivo', () => {
+    expect(() => new SpatialGrid(0)).toThrow('positive')
+  })
+
+  it('sugiere la arista mayor media como tamaño de celda', () => {
+    expect(suggestCellSize([bb(0, 0, 0, 400, 300, 300), bb(0, 0, 0, 200, 600, 100)])).toBe(500)
+    expect(suggestCellSize([])).toBeGreaterThan(0)
+  })
+})
+
+describe('findIntersectingPairs', () => {
+  it('encuentra los mismos pares que el doble bucle', () => {
+    const bounds = randomBounds(400)
+    const naive: [number, number][] = []
+    for (let i = 0; i < bounds.length; i++) {
+      for (let j = i + 1; j < bounds.length; j++) {
+        if (aabbIntersects(bounds[i], bounds[j])) naive.push([i, j])
+      }
+    }
+
+    expect(naive.length).toBeGreaterThan(0)
+    expect(findIntersectingPairs(bounds)).toEqual(naive)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Tests — Grafo de soportes (supportedBy/supporting, áreas de contacto, caminos de carga)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeSupportGraph, applySupportGraph, getLoadPath } from '../support/graph'
+import { defaultRegistry } from '../packing/registry'
+import { BoxFactory } from '../factories/BoxFactory'
+import { PalletFactory } from '../factories/PalletFactory'
+import { dims, makePlacedBox, pos } from './helpers'
+
+/** Dos cajas en la base, un puente de 40kg sobre ambas y una caja de 10kg encima del puente */
+function bridge() {
+  return [
+    makePlacedBox({ id: 'left', position: pos(0, 0, 0), box: { weight: 20 } }),
+    makePlacedBox({ id: 'right', position: pos(400, 0, 0), box: { weight: 20 } }),
+    makePlacedBox({ id: 'bridge', position: pos(100, 300, 0), box: { weight: 40, dimensions: dims(400, 300, 300) } }),
+    makePlacedBox({ id: 'top', position: pos(100, 600, 0), box: { weight: 10, dimensions: dims(200, 300, 300) } }),
+  ]
+}
+
+describe('computeSupportGraph', () => {
+  it('enlaza cada caja con las que la sostienen y calcula las áreas de contacto', () => {
+    const graph = computeSupportGraph(bridge())
+
+    expect(graph.nodes.get('bridge')?.supportedBy).toEqual(['left', 'right'])
+    expect(graph.nodes.get('left')?.supporting).toEqual(['bridge'])
+    expect(graph.nodes.get('left')?.onPallet).toBe(true)
+    expect(graph.contacts.map(c => [c.supporterId, c.supportedId, c.area])).toEqual([
+      ['left', 'bridge', 300 * 300],
+      ['right', 'bridge', 100 * 300],
+      ['bridge', 'top', 200 * 300],
+    ])
+    expect(graph.nodes.get('top')?.supportRatio).toBe(1)
+  })
+
+  it('reparte la carga por área de contacto hasta el palet', () => {
+    const graph = computeSupportGraph(bridge())
+
+    expect(graph.nodes.get('bridge')?.loadAbove).toBe(10)
+    // 50kg (puente + caja) repartidos 3:1
+    expect(graph.nodes.get('left')?.loadAbove).toBeCloseTo(37.5)
+    expect(graph.nodes.get('right')?.loadAbove).toBeCloseTo(12.5)
+    expect(graph.palletLoad).toBeCloseTo(90)
+    expect(getLoadPath(graph, 'top')).toEqual(['bridge', 'left', 'right'])
+  })
+
+  it('una caja flotante no tiene soportes ni transmite carga', () => {
+    const boxes = [...bridge(), makePlacedBox({ id: 'float', position: pos(800, 500, 0), box: { weight: 7 } })]
+    const graph = computeSupportGraph(boxes)
+
+    expect(graph.nodes.get('float')?.supportedBy).toEqual([])
+    expect(graph.nodes.get('float')?.supportRatio).toBe(0)
+    expect(graph.palletLoad).toBeCloseTo(90)
+  })
+
+  it('applySupportGraph rellena supportedBy y supporting sin mutar la entrada', () => {
+    const boxes = bridge()
+    const linked = applySupportGraph(boxes)
+
+    expect(linked.find(pb => pb.id === 'bridge')?.supporting).toEqual(['top'])
+    expect(linked.find(pb => pb.id === 'top')?.supportedBy).toEqual(['bridge'])
+    expect(boxes[2].supporting).toEqual([])
+  })
+})
+
+describe('Estrategias de empaquetado', () => {
+  const boxes = Array.from({ length: 40 }, () =>
+    BoxFactory.create({ width: 400, height: 300, depth: 300 }, { weight: 5 }),
+  )
+
+  for (const strategy of defaultRegistry.list()) {
+    it(`${strategy.id} rellena el grafo de soportes`, () => {
+      const { placements } = strategy.pack(boxes, PalletFactory.euro())
+      const stacked = placements.filter(pb => pb.position.y > 0)
+
+      expect(stacked.length).toBeGreaterThan(0)
+      expect(stacked.every(pb => pb.supportedBy.length > 0)).toBe(true)
+      for (const pb of placements) {
+        for (const id of pb.supportedBy) {
+          expect(placements.find(other => other.id === id)?.supporting).toContain(pb.id)
+        }
+      }
+    })
+  }
+})
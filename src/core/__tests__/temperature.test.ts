@@ -0,0 +1,119 @@
+/**
+ * Tests — Compartimentos de temperatura (BR-601, BR-602, BR-603)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getStackTemperatureRange,
+  validateReeferAirflow,
+  validateStackTemperature,
+  validateTemperatureZones,
+} from '../validation/temperature'
+import { TruckLoadPlanner } from '../packing/TruckLoadPlanner'
+import { getBulkheads } from '../entities/Truck'
+import type { TemperatureZone } from '../entities/Truck'
+import type { TemperatureRange } from '../types'
+import { REEFER_AIRFLOW_GAP, TEMPERATURE_RANGES } from '../constants'
+import { TruckType } from '../types'
+import { getPalletBoundingBox } from '../validation/collision'
+import {
+  makeTruck,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeFloor,
+  makePlacedBox,
+  dims,
+  pos,
+} from './helpers'
+
+/** Palet EUR con una caja por cada rango indicado */
+function stack(id: string, ...ranges: TemperatureRange[]) {
+  return makeStackedPallet({
+    id,
+    floors: [makeFloor({
+      boxes: ranges.map((temperatureRange, i) => makePlacedBox({
+        id: `${id}-b${i}`,
+        position: pos(i * 400, 0, 0),
+        box: { dimensions: dims(400, 1000, 800), temperatureRange },
+      })),
+    })],
+  })
+}
+
+/** Congelado al frontal (-20 °C) y refrigerado junto a las puertas (2 °C) */
+const ZONES: TemperatureZone[] = [
+  { id: 'congelado', startZ: 6800, endZ: 13600, setpoint: -20 },
+  { id: 'refrigerado', startZ: 0, endZ: 6800, setpoint: 2 },
+]
+
+describe('BR-601: temperatura común en el palet', () => {
+  it('intersecta los rangos del palet y de sus cajas', () => {
+    expect(getStackTemperatureRange(stack('s'))).toBeUndefined()
+    const chilled = { ...stack('s', { min: 0, max: 6 }, { min: 2, max: 8 }), temperatureRange: { min: -5, max: 4 } }
+    expect(getStackTemperatureRange(chilled)).toEqual({ min: 2, max: 4 })
+    expect(validateStackTemperature(chilled).isValid).toBe(true)
+  })
+
+  it('detecta congelado y refrigerado en el mismo palet', () => {
+    const result = validateStackTemperature(stack('mixto', TEMPERATURE_RANGES.FROZEN, TEMPERATURE_RANGES.CHILLED))
+    expect(result.isValid).toBe(false)
+    expect(result.violations[0]).toMatchObject({ code: 'BR-601', involvedIds: ['mixto', 'mixto-b1', 'mixto-b0'] })
+  })
+})
+
+describe('BR-602: compartimento de temperatura', () => {
+  it('sitúa los mamparos entre compartimentos', () => {
+    expect(getBulkheads(makeTruck({ temperatureZones: ZONES }))).toEqual([6800])
+    expect(getBulkheads(makeTruck())).toEqual([])
+  })
+
+  it('comprueba la consigna del compartimento de cada palet', () => {
+    const truck = makeTruck({
+      truckType: TruckType.REFRIGERATED,
+      temperatureZones: ZONES,
+      pallets: [
+        makePlacedPallet({ id: 'ok', stackedPallet: stack('a', TEMPERATURE_RANGES.FROZEN), position: pos(0, 0, 12000) }),
+        makePlacedPallet({ id: 'caliente', stackedPallet: stack('b', TEMPERATURE_RANGES.FROZEN), position: pos(0, 0, 1000) }),
+        makePlacedPallet({ id: 'mamparo', stackedPallet: stack('c'), position: pos(0, 0, 6500) }),
+      ],
+    })
+
+    const result = validateTemperatureZones(truck)
+    expect(result.isValid).toBe(false)
+    expect(result.violations.map(v => v.involvedIds)).toEqual([['caliente', 'refrigerado'], ['mamparo']])
+    expect(validateTemperatureZones({ ...truck, temperatureZones: undefined }).violations).toEqual([])
+  })
+})
+
+describe('BR-603: retorno de aire del equipo de frío', () => {
+  it('avisa de los palets pegados a la pared frontal de un frigorífico', () => {
+    const pallets = [
+      makePlacedPallet({ id: 'pegado', position: pos(0, 0, 12800) }),
+      makePlacedPallet({ id: 'separado', position: pos(1200, 0, 12800 - REEFER_AIRFLOW_GAP) }),
+    ]
+
+    const result = validateReeferAirflow(makeTruck({ truckType: TruckType.REFRIGERATED, pallets }))
+    expect(result.isValid).toBe(true)
+    expect(result.violations).toMatchObject([{ code: 'BR-603', severity: 'warning', involvedIds: ['pegado'] }])
+    expect(validateReeferAirflow(makeTruck({ pallets })).violations).toEqual([])
+  })
+})
+
+describe('TruckLoadPlanner con compartimentos', () => {
+  it('coloca cada palet en su compartimento y deja libre el retorno de aire', () => {
+    const truck = makeTruck({ truckType: TruckType.REFRIGERATED, temperatureZones: ZONES })
+    const frozen = Array.from({ length: 4 }, (_, i) => stack(`f${i}`, TEMPERATURE_RANGES.FROZEN))
+    const chilled = Array.from({ length: 4 }, (_, i) => stack(`c${i}`, TEMPERATURE_RANGES.CHILLED))
+
+    const result = TruckLoadPlanner.plan({ truck, pallets: [...chilled, ...frozen] })
+    expect(result.unfitPallets).toEqual([])
+    expect(result.validation.isValid).toBe(true)
+    expect(validateReeferAirflow(result.truck).violations).toEqual([])
+
+    for (const pp of result.truck.pallets) {
+      const bb = getPalletBoundingBox(pp)
+      if (pp.stackedPallet.id.startsWith('f')) expect(bb.minZ).toBeGreaterThanOrEqual(6800)
+      else expect(bb.maxZ).toBeLessThanOrEqual(6800)
+    }
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Tests — TruckLoadPlanner
+ * Carga automática de StackedPallets en camión (BR-003, BR-102, BR-402, BR-404)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { TruckLoadPlanner } from '../packing/TruckLoadPlanner'
+import { validateNoPalletCollisions } from '../validation/collision'
+import { validatePalletInTruck } from '../validation/bounds'
+import { validateTruckWeight } from '../validation/weight'
+import { validateDeliveryOrder } from '../validation/delivery'
+import { getPalletBoundingBox } from '../validation/collision'
+import type { StackedPallet } from '../entities/StackedPallet'
+import {
+  makeStackedPallet,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  makePlacedPallet,
+  makeTruck,
+  dims,
+  pos,
+} from './helpers'
+
+/** EUR (1200×800) con una caja de 1000mm de alto y el peso indicado */
+function euroStack(id: string, boxWeight = 300): StackedPallet {
+  return makeStackedPallet({
+    id,
+    floors: [makeFloor({
+      pallet: makePallet({ id: `${id}-base` }),
+      boxes: [makePlacedBox({ box: { dimensions: dims(1200, 1000, 800), weight: boxWeight } })],
+    })],
+  })
+}
+
+const euroStacks = (count: number, boxWeight?: number) =>
+  Array.from({ length: count }, (_, i) => euroStack(`eur-${i}`, boxWeight))
+
+/** Palets EUR repartidos cíclicamente entre `stops` paradas */
+const routeStacks = (count: number, stops: number) =>
+  Array.from({ length: count }, (_, i) => ({ ...euroStack(`eur-${i}`, 100), deliveryStop: (i % stops) + 1 }))
+
+describe('TruckLoadPlanner', () => {
+  it('coloca palets válidos dentro del camión', () => {
+    const truck = makeTruck()
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(10) })
+
+    expect(result.placedPallets).toHaveLength(10)
+    expect(result.unfitPallets).toHaveLength(0)
+    expect(result.validation.isValid).toBe(true)
+    expect(result.truck.pallets).toHaveLength(10)
+    for (const pp of result.truck.pallets) {
+      expect(validatePalletInTruck(pp, result.truck).isValid).toBe(true)
+    }
+    expect(validateNoPalletCollisions(result.truck.pallets).isValid).toBe(true)
+  })
+
+  it('carga desde el frontal (lado cabina) hacia las puertas', () => {
+    const truck = makeTruck()
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(2) })
+    const maxZ = Math.max(...result.placedPallets.map(pp => getPalletBoundingBox(pp).maxZ))
+    expect(maxZ).toBe(truck.dimensions.depth)
+  })
+
+  it('llena un tráiler de 13,6m con 33 EUR o más', () => {
+    const result = TruckLoadPlanner.plan({ truck: makeTruck(), pallets: euroStacks(36, 100) })
+    expect(result.placedPallets.length).toBeGreaterThanOrEqual(33)
+    expect(result.validation.isValid).toBe(true)
+  })
+
+  it('coloca EUR 3 en ancho girados 90°', () => {
+    const result = TruckLoadPlanner.plan({
+      truck: makeTruck(),
+      pallets: euroStacks(36, 100),
+      allowedRotations: [90],
+    })
+
+    expect(result.placedPallets).toHaveLength(33)
+    expect(result.placedPallets.every(pp => pp.yRotation === 90)).toBe(true)
+    // Primera fila: 3 palets de 800 en los 2480mm de ancho
+    const firstRow = result.placedPallets.filter(pp => getPalletBoundingBox(pp).maxZ === 13600)
+    expect(firstRow).toHaveLength(3)
+    expect(validateNoPalletCollisions(result.truck.pallets).isValid).toBe(true)
+  })
+
+  it('devuelve los palets que no caben por espacio', () => {
+    const truck = makeTruck({ dimensions: dims(2480, 2700, 2400) })
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(8, 100) })
+
+    expect(result.placedPallets).toHaveLength(6)
+    expect(result.unfitPallets).toHaveLength(2)
+  })
+
+  it('no supera el peso máximo del camión (BR-102)', () => {
+    const truck = makeTruck({ maxWeight: 2000 })
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(5, 600) })
+
+    // 625kg por palet (600 + 25 de base) → caben 3
+    expect(result.placedPallets).toHaveLength(3)
+    expect(result.unfitPallets).toHaveLength(2)
+    expect(validateTruckWeight(result.truck).isValid).toBe(true)
+  })
+
+  it('descarta palets más altos que el camión (BR-404)', () => {
+    const truck = makeTruck({ dimensions: dims(2480, 1000, 13600) })
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(2) })
+
+    expect(result.placedPallets).toHaveLength(0)
+    expect(result.unfitPallets).toHaveLength(2)
+  })
+
+  it('respeta los palets ya cargados en el camión', () => {
+    const existing = makePlacedPallet({ id: 'fijo', stackedPallet: euroStack('fijo'), position: pos(0, 0, 12800) })
+    const truck = makeTruck({ pallets: [existing] })
+    const result = TruckLoadPlanner.plan({ truck, pallets: euroStacks(4) })
+
+    expect(result.truck.pallets).toHaveLength(5)
+    expect(result.truck.pallets[0]).toBe(existing)
+    expect(validateNoPalletCollisions(result.truck.pallets).isValid).toBe(true)
+  })
+
+  it('deja la holgura indicada entre palets', () => {
+    const result = TruckLoadPlanner.plan({
+      truck: makeTruck(),
+      pallets: euroStacks(2),
+      allowedRotations: [0],
+      gap: 50,
+    })
+    const [a, b] = result.placedPallets.map(getPalletBoundingBox)
+    expect(Math.abs(b.minX - a.maxX)).toBeGreaterThanOrEqual(50)
+  })
+
+  it('con loadOrder delivery carga la última parada al frontal (BR-407)', () => {
+    const result = TruckLoadPlanner.plan({
+      truck: makeTruck(),
+      pallets: routeStacks(24, 3),
+      loadOrder: 'delivery',
+    })
+
+    expect(result.placedPallets).toHaveLength(24)
+    expect(validateDeliveryOrder(result.truck).isValid).toBe(true)
+    expect(result.validation.isValid).toBe(true)
+
+    const front = result.placedPallets.find(pp => getPalletBoundingBox(pp).maxZ === 13600)!
+    const doors = result.placedPallets.reduce((a, b) =>
+      getPalletBoundingBox(a).minZ <= getPalletBoundingBox(b).minZ ? a : b,
+    )
+    expect(front.stackedPallet.deliveryStop).toBe(3)
+    expect(doors.stackedPallet.deliveryStop).toBe(1)
+  })
+
+  it('sin loadOrder delivery puede dejar palets bloqueados', () => {
+    const result = TruckLoadPlanner.plan({ truck: makeTruck(), pallets: routeStacks(24, 3) })
+    expect(validateDeliveryOrder(result.truck).isValid).toBe(false)
+    expect(result.validation.violations.some(v => v.code === 'BR-407')).toBe(true)
+  })
+
+  it('no bloquea palets ya cargados de paradas anteriores', () => {
+    const existing = makePlacedPallet({
+      id: 'fijo',
+      stackedPallet: { ...euroStack('fijo'), deliveryStop: 1 },
+      position: pos(0, 0, 12800),
+    })
+    const result = TruckLoadPlanner.plan({
+      truck: makeTruck({ pallets: [existing] }),
+      pallets: routeStacks(4, 1).map(s => ({ ...s, deliveryStop: 2 })),
+      allowedRotations: [0],
+      loadOrder: 'delivery',
+    })
+
+    expect(result.placedPallets).toHaveLength(4)
+    expect(validateDeliveryOrder(result.truck).isValid).toBe(true)
+    // Ninguno en la franja del palet fijo (x ∈ [0, 1200])
+    for (const pp of result.placedPallets) {
+      expect(getPalletBoundingBox(pp).minX).toBeGreaterThanOrEqual(1200)
+    }
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Tests — ValidationRegistry (reglas configurables y perfiles)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ValidationRegistry, defaultValidationRegistry } from '../validation/rules/registry'
+import type { ValidationRule } from '../validation/rules/types'
+import {
+  dims,
+  makeFloor,
+  makePallet,
+  makePlacedBox,
+  makePlacedPallet,
+  makeStackedPallet,
+  makeTruck,
+  pos,
+} from './helpers'
+
+/** Caja apoyada sobre el 75% de otra: vale con el 60% por defecto, no con el 80% */
+function partiallySupportedFloor() {
+  return makeFloor({
+    boxes: [
+      makePlacedBox({ id: 'base', position: pos(400, 0, 250), box: { dimensions: dims(400, 300, 300) } }),
+      makePlacedBox({ id: 'top', position: pos(500, 300, 250), box: { dimensions: dims(400, 300, 300) } }),
+    ],
+  })
+}
+
+/** Carga toda en una esquina: BR-104 (warning) */
+function offCenterFloor() {
+  return makeFloor({
+    boxes: [makePlacedBox({ id: 'corner', position: pos(0, 0, 0) })],
+  })
+}
+
+describe('ValidationRegistry', () => {
+  it('registra las reglas BR del sistema por ámbito', () => {
+    const registry = new ValidationRegistry()
+
+    expect(registry.has('BR-004')).toBe(true)
+    expect(registry.list('floor').map(r => r.id)).toContain('BR-501')
+    expect(registry.list('stack').map(r => r.id)).toEqual(['BR-202-STACK', 'BR-301', 'BR-302', 'BR-303', 'BR-304', 'BR-601', 'BR-702'])
+    expect(registry.list('truck').map(r => r.id)).toContain('BR-407')
+    expect(registry.listProfiles().map(p => p.id)).toEqual(['default', 'strict-export', 'internal-shuttle'])
+  })
+
+  it('lanza error con el id de una regla o perfil inexistente', () => {
+    expect(() => defaultValidationRegistry.get('BR-999')).toThrow('not found')
+    expect(() => defaultValidationRegistry.getProfile('nope')).toThrow('not found')
+  })
+
+  it('el perfil por defecto da el mismo resultado que los validadores sueltos', () => {
+    const result = defaultValidationRegistry.validateFloor(offCenterFloor())
+
+    expect(result.isValid).toBe(true)
+    expect(result.violations.map(v => [v.code, v.severity])).toContainEqual(['BR-104', 'warning'])
+  })
+
+  it('aplica los parámetros del perfil', () => {
+    const floor = partiallySupportedFloor()
+
+    expect(defaultValidationRegistry.validateFloor(floor).violations.some(v => v.code === 'BR-004')).toBe(false)
+
+    const strict = defaultValidationRegistry.validateFloor(floor, { profile: 'strict-export' })
+    const br004 = strict.violations.find(v => v.code === 'BR-004')
+    expect(br004?.message).toContain('< 80%')
+    expect(strict.isValid).toBe(false)
+  })
+
+  it('fuerza la severidad y desactiva reglas según el perfil', () => {
+    const floor = offCenterFloor()
+
+    const strict = defaultValidationRegistry.validateFloor(floor, { profile: 'strict-export' })
+    expect(strict.violations.find(v => v.code === 'BR-104')?.severity).toBe('error')
+    expect(strict.isValid).toBe(false)
+
+    const shuttle = defaultValidationRegistry.validateFloor(floor, { profile: 'internal-shuttle' })
+    expect(shuttle.violations.some(v => v.code === 'BR-104')).toBe(false)
+  })
+
+  it('permite perfiles que heredan de otro', () => {
+    const registry = new ValidationRegistry()
+    registry.registerProfile({
+      id: 'customer-x',
+      name: 'Cliente X',
+      extends: 'strict-export',
+      rules: { 'BR-004': { params: { minSupportRatio: 0.7 } } },
+    })
+
+    const result = registry.validateFloor(partiallySupportedFloor(), { profile: 'customer-x' })
+    expect(result.violations.some(v => v.code === 'BR-004')).toBe(false)
+    // Heredado de strict-export
+    expect(registry.validateFloor(offCenterFloor(), { profile: 'customer-x' }).isValid).toBe(false)
+  })
+
+  it('rechaza parámetros desconocidos, reglas inexistentes y herencias circulares', () => {
+    const registry = new ValidationRegistry()
+    const floor = offCenterFloor()
+
+    expect(() => registry.validateFloor(floor, {
+      profile: { id: 'p', name: 'P', rules: { 'BR-004': { params: { minSuport: 0.7 } } } },
+    })).toThrow('Unknown parameter "minSuport"')
+    expect(() => registry.validateFloor(floor, {
+      profile: { id: 'p', name: 'P', rules: { 'BR-999': { enabled: false } } },
+    })).toThrow('"BR-999" not found')
+
+    registry.registerProfile({ id: 'a', name: 'A', extends: 'b', rules: {} })
+    registry.registerProfile({ id: 'b', name: 'B', extends: 'a', rules: {} })
+    expect(() => registry.resolve('a')).toThrow('Circular')
+  })
+
+  it('registra reglas custom del cliente', () => {
+    const registry = new ValidationRegistry()
+    const maxBoxes: ValidationRule<'floor', { max: number }> = {
+      id: 'CUST-001',
+      name: 'Máximo de cajas por piso',
+      scope: 'floor',
+      defaultParams: { max: 1 },
+      validate: (floor, { max }) => {
+        const violations = floor.boxes.length > max
+          ? [{ code: 'CUST-001', severity: 'error' as const, message: 'Demasiadas cajas', involvedIds: [floor.pallet.id] }]
+          : []
+        return { isValid: violations.length === 0, violations }
+      },
+    }
+    registry.register(maxBoxes)
+
+    const floor = partiallySupportedFloor()
+    expect(registry.validateFloor(floor).violations.map(v => v.code)).toContain('CUST-001')
+    expect(registry.validateFloor(floor, {
+      profile: { id: 'p', name: 'P', rules: { 'CUST-001': { params: { max: 5 } } } },
+    }).violations.map(v => v.code)).not.toContain('CUST-001')
+  })
+
+  it('valida stacks (BR-303 solo con altura de contenedor) y camiones', () => {
+    const stack = makeStackedPallet({
+      floors: [
+        makeFloor({ boxes: [makePlacedBox({ position: pos(400, 0, 250) })] }),
+        makeFloor({ level: 1, pallet: makePallet({ id: 'pallet-2' }) }),
+      ],
+    })
+
+    const noContainer = defaultValidationRegistry.validateStack(stack)
+    expect(noContainer.violations.map(v => v.code)).toEqual(['BR-302'])
+
+    const inTruck = defaultValidationRegistry.validateStack(stack, { containerHeight: 500 })
+    expect(inTruck.violations.map(v => v.code)).toEqual(['BR-302', 'BR-303'])
+
+    const shuttle = defaultValidationRegistry.validateStack(stack, { profile: 'internal-shuttle' })
+    expect(shuttle.violations.map(v => v.severity)).toEqual(['warning'])
+    expect(shuttle.isValid).toBe(true)
+
+    const truck = makeTruck({ maxWeight: 10, pallets: [makePlacedPallet()] })
+    expect(defaultValidationRegistry.validateTruck(truck).violations.map(v => v.code)).toEqual(['BR-102', 'BR-505'])
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Tests — FloorValidationSession (validación incremental)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { FloorValidationSession } from '../validation/rules/session'
+import { defaultValidationRegistry } from '../validation/rules/registry'
+import type { PalletFloor } from '../entities/PalletFloor'
+import { makeFloor, makePlacedBox, pos, rot } from './helpers'
+
+/** Base de 3×2 cajas, una frágil y una no apilable, con dos cajas encima */
+function sampleFloor(): PalletFloor {
+  const base = [0, 400, 800].flatMap((x, i) => [0, 300].map((z, j) => makePlacedBox({
+    id: `b${i}${j}`,
+    position: pos(x, 0, z),
+    box: {
+      weight: 10 + i * 5,
+      fragile: i === 1 && j === 0,
+      fragilityMaxWeight: 15,
+      stackable: !(i === 2 && j === 1),
+    },
+  })))
+
+  return makeFloor({
+    boxes: [
+      ...base,
+      makePlacedBox({ id: 't1', position: pos(0, 300, 0), box: { weight: 20 } }),
+      makePlacedBox({ id: 't2', position: pos(400, 300, 300), box: { weight: 8 } }),
+    ],
+  })
+}
+
+function fullValidation(session: FloorValidationSession) {
+  return defaultValidationRegistry.validateFloor(session.toFloor()).violations
+}
+
+describe('FloorValidationSession', () => {
+  it('parte del mismo resultado que validateFloor', () => {
+    const floor = sampleFloor()
+    const session = new FloorValidationSession(floor)
+
+    expect(session.violations).toEqual(defaultValidationRegistry.validateFloor(floor).violations)
+  })
+
+  it('devuelve solo las violaciones que cambian', () => {
+    const session = new FloorValidationSession(sampleFloor())
+
+    // t1 sobre la frágil b10: 20kg > 15kg (BR-103)
+    const onFragile = session.move('t1', pos(400, 300, 0))
+    expect(onFragile.added.map(v => [v.code, v.involvedIds[0]])).toEqual([['BR-103', 'b10']])
+    expect(onFragile.removed).toEqual([])
+    expect(onFragile.isValid).toBe(false)
+
+    const back = session.move('t1', pos(0, 300, 0))
+    expect(back.added).toEqual([])
+    expect(back.removed.map(v => v.code)).toEqual(['BR-103'])
+    expect(back.isValid).toBe(true)
+  })
+
+  it('coincide con la validación completa tras una serie de cambios', () => {
+    const session = new FloorValidationSession(sampleFloor())
+    const spots = [
+      pos(0, 300, 0), pos(400, 300, 0), pos(800, 300, 300), pos(200, 300, 150),
+      pos(900, 0, 600), pos(1000, 300, 0), pos(400, 600, 0), pos(100, 0, 100),
+    ]
+    let seed = 7
+    const next = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return seed % n
+    }
+
+    for (let i = 0; i < 60; i++) {
+      const ids = session.getBoxes().map(pb => pb.id)
+      const id = ids[next(ids.length)]
+      const kind = next(6)
+
+      if (kind === 0 && ids.length > 4) session.remove(id)
+      else if (kind === 1) session.add(makePlacedBox({ id: `n${i}`, position: spots[next(spots.length)] }))
+      else session.move(id, spots[next(spots.length)], kind === 2 ? rot(0, 90, 0) : undefined)
+
+      expect(session.violations).toEqual(fullValidation(session))
+    }
+  })
+
+  it('mantiene la cache de soportes y peso encima', () => {
+    const session = new FloorValidationSession(sampleFloor())
+
+    expect(session.getSupportedBy('t2')).toEqual(['b11'])
+    expect(session.getWeightAbove('b11')).toBe(8)
+
+    // Puente entre b01 y b11
+    session.move('t2', pos(200, 300, 300))
+    expect(session.getSupportedBy('t2')).toEqual(['b01', 'b11'])
+    expect(session.getWeightAbove('b01')).toBe(8)
+
+    session.remove('t2')
+    expect(session.getWeightAbove('b11')).toBe(0)
+    expect(session.getSupportedBy('b00')).toEqual([])
+  })
+
+  it('aplica el perfil y rechaza cambios inválidos sin aplicar ninguno', () => {
+    const session = new FloorValidationSession(sampleFloor(), { profile: 'strict-export' })
+    session.move('t2', pos(800, 300, 300))
+    expect(session.violations).toEqual(
+      defaultValidationRegistry.validateFloor(session.toFloor(), { profile: 'strict-export' }).violations,
+    )
+
+    const before = session.getBoxes()
+    expect(() => session.apply([
+      { type: 'move', id: 't1', position: pos(800, 300, 0) },
+      { type: 'remove', id: 'missing' },
+    ])).toThrow('not found')
+    expect(() => session.add(makePlacedBox({ id: 'b00' }))).toThrow('already exists')
+    expect(session.getBoxes()).toEqual(before)
+  })
+})
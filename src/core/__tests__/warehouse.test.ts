@@ -0,0 +1,24 @@
+/**
+ * Tests — Almacén con varias estancias (BR-414)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validateUniqueRoomIds } from '../validation/warehouse'
+import { makeRoom } from './helpers'
+
+const rooms = (ids: string[]) => ids.map(id => makeRoom({ id }))
+
+describe('BR-414: validateUniqueRoomIds', () => {
+  it('acepta estancias con ids distintos', () => {
+    expect(validateUniqueRoomIds(rooms(['picking', 'frio']))).toEqual({ isValid: true, violations: [] })
+  })
+
+  it('da un error por cada id repetido', () => {
+    const result = validateUniqueRoomIds(rooms(['picking', 'frio', 'picking', 'frio', 'picking', 'muelle']))
+    expect(result.isValid).toBe(false)
+    expect(result.violations).toMatchObject([
+      { code: 'BR-414', severity: 'error', involvedIds: ['picking'], message: expect.stringContaining('3 estancias') },
+      { code: 'BR-414', severity: 'error', involvedIds: ['frio'] },
+    ])
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * Accessibility analysis — Acceso de la carretilla a los palets de una estancia
+ * BR-413: Palet al que la carretilla no llega desde las entradas sin mover otros
+ *
+ * Sobre la rejilla de ocupación:
+ * 1. Bloquean el paso los pilares, cuadros y zonas reservadas, la estructura de las
+ *    estanterías y los palets. Puertas, salidas y pasillos peatonales se pueden cruzar.
+ * 2. La carretilla cabe en una celda si no hay nada bloqueado a menos de medio ancho.
+ * 3. Desde las entradas (puertas de la estancia por las que cabe la carretilla, o los
+ *    puntos indicados) se recorren las celdas donde cabe. Una estancia sin puertas
+ *    se recorre desde todo su perímetro.
+ * 4. Un palet es accesible si delante de alguna de sus caras hay un pasillo libre para
+ *    girar 90° y entrar (radio de giro + largo de la carga + margen, VDI 2198) y la
+ *    carretilla llega a él. Los palets del suelo se cogen por cualquier cara; los de
+ *    estantería, solo por la cara del pasillo.
+ */
+
+import type { BoundingBox, Forklift, Point2D, ValidationResult, Violation } from '../types'
+import type { Room } from '../entities/Room'
+import { ObstacleType } from '../types'
+import { AISLE_SAFETY_MARGIN, FORKLIFT_PRESETS, OCCUPANCY_CELL_SIZE } from '../constants'
+import { getPalletBoundingBox } from '../validation/collision'
+import { getObstacleBoundingBox } from '../validation/obstacles'
+import { getRackBoundingBox, getRackPlacedPallets } from '../racking/placement'
+import type { OccupancyGrid } from './grid'
+import { AccessCell, createRoomGrid, getCellCenter, getCellsInBounds } from './grid'
+
+export interface AccessibilityOptions {
+  /** Carretilla (por defecto: contrapesada) */
+  forklift?: Forklift
+  /** Lado de cada celda de la rejilla (mm) */
+  cellSize?: number
+  /**
+   * Puntos de entrada; por defecto, las puertas (`ObstacleType.DOOR`) de la estancia,
+   * o todo su perímetro si no tiene ninguna
+   */
+  entrances?: Point2D[]
+}
+
+/** Cara de un palet, por la dirección hacia la que mira */
+export type PalletFace = '-x' | '+x' | '-z' | '+z'
+
+export interface PalletAccess {
+  palletId: string
+  /** Estantería en la que está el palet (`undefined` si está en el suelo) */
+  rackId?: string
+  accessible: boolean
+  /** Caras por las que la carretilla puede coger el palet */
+  faces: PalletFace[]
+}
+
+export interface RoomAccessibility {
+  grid: OccupancyGrid
+  pallets: PalletAccess[]
+  accessibleIds: string[]
+  blockedIds: string[]
+  validation: ValidationResult
+}
+
+/** Ancho de pasillo (mm) para girar 90° y entrar a por una carga de `loadLength` mm */
+export function getRequiredAisleWidth(forklift: Forklift, loadLength: number): number {
+  return forklift.turningRadius + loadLength + AISLE_SAFETY_MARGIN
+}
+
+/** Obstáculos que la carretilla no puede cruzar */
+const BLOCKING_OBSTACLES: ObstacleType[] = [ObstacleType.COLUMN, ObstacleType.ELECTRICAL_PANEL, ObstacleType.NO_GO_ZONE]
+
+/** Cara del pasillo de una estantería según su rotación (la cara z = 0 del rack) */
+const RACK_FRONT: Record<0 | 90 | 180 | 270, PalletFace> = { 0: '-z', 90: '-x', 180: '+z', 270: '+x' }
+
+const ALL_FACES: PalletFace[] = ['-x', '+x', '-z', '+z']
+
+// ─── Análisis ────────────────────────────────────────────────────
+
+export function analyzeRoomAccessibility(room: Room, options: AccessibilityOptions = {}): RoomAccessibility {
+  const forklift = options.forklift ?? FORKLIFT_PRESETS.COUNTERBALANCE
+  const grid = createRoomGrid(room, options.cellSize ?? OCCUPANCY_CELL_SIZE)
+
+  // 1. Ocupación: obstáculos, estructura de estanterías y palets (con su dueño por celda)
+  for (const obstacle of room.obstacles ?? []) {
+    if (!BLOCKING_OBSTACLES.includes(obstacle.type)) continue
+    fill(grid, getCellsInBounds(grid, getObstacleBoundingBox(obstacle, room)), AccessCell.OBSTACLE)
+  }
+  for (const rack of room.racks ?? []) {
+    fill(grid, getCellsInBounds(grid, getRackBoundingBox(rack)), AccessCell.OBSTACLE)
+  }
+
+  const loads = [
+    ...room.pallets.map(pp => {
+      const bb = getPalletBoundingBox(pp)
+      return { id: pp.id, rackId: undefined, bb, front: bb, faces: ALL_FACES }
+    }),
+    ...(room.racks ?? []).flatMap(rack => {
+      const rackBB = getRackBoundingBox(rack)
+      return getRackPlacedPallets(rack).map(pp => {
+        const bb = getPalletBoundingBox(pp)
+        // El pasillo empieza en la cara del rack aunque el palet quede metido dentro
+        const front = {
+          ...bb,
+          minX: Math.min(bb.minX, rackBB.minX),
+          maxX: Math.max(bb.maxX, rackBB.maxX),
+          minZ: Math.min(bb.minZ, rackBB.minZ),
+          maxZ: Math.max(bb.maxZ, rackBB.maxZ),
+        }
+        return { id: pp.id, rackId: rack.id, bb, front, faces: [RACK_FRONT[rack.yRotation]] }
+      })
+    }),
+  ]
+  const owner = new Int32Array(grid.cells.length).fill(-1)
+  loads.forEach((load, i) => {
+    for (const index of getCellsInBounds(grid, load.bb)) {
+      if (grid.cells[index] === AccessCell.OUTSIDE) continue
+      grid.cells[index] = AccessCell.PALLET
+      owner[index] = i
+    }
+  })
+
+  // 2–3. Celdas donde cabe la carretilla y recorrido desde las entradas
+  const fits = getForkliftCells(grid, forklift.width / 2)
+  const reachable = floodFill(grid, fits, getEntranceCells(room, grid, fits, forklift, options.entrances))
+  reachable.forEach((isReachable, index) => {
+    if (isReachable) grid.cells[index] = AccessCell.REACHABLE
+  })
+
+  // 4. Pasillo libre delante de alguna cara al que llegue la carretilla
+  const pallets: PalletAccess[] = loads.map(load => {
+    const faces = load.faces.filter(face => {
+      const zone = getApproachZone(load.bb, load.front, face, forklift, grid.cellSize)
+      if (!isInsideGrid(grid, zone)) return false
+      const cells = getCellsInBounds(grid, zone, true)
+      return cells.every(index => grid.cells[index] === AccessCell.FREE || grid.cells[index] === AccessCell.REACHABLE)
+        && cells.some(index => reachable[index])
+    })
+    return { palletId: load.id, ...(load.rackId ? { rackId: load.rackId } : {}), accessible: faces.length > 0, faces }
+  })
+
+  owner.forEach((i, index) => {
+    if (i >= 0 && !pallets[i].accessible) grid.cells[index] = AccessCell.BLOCKED_PALLET
+  })
+
+  const violations: Violation[] = pallets
+    .filter(p => !p.accessible)
+    .map(p => ({
+      code: 'BR-413',
+      severity: 'warning' as const,
+      message: `Palet ${p.palletId} inaccesible: la carretilla no llega a ninguna de sus caras sin mover otros palets`,
+      involvedIds: [p.palletId],
+    }))
+
+  return {
+    grid,
+    pallets,
+    accessibleIds: pallets.filter(p => p.accessible).map(p => p.palletId),
+    blockedIds: pallets.filter(p => !p.accessible).map(p => p.palletId),
+    validation: { isValid: true, violations },
+  }
+}
+
+// ─── BR-413: Acceso de la carretilla ─────────────────────────────
+
+export function validateForkliftAccess(room: Room, options?: AccessibilityOptions): ValidationResult {
+  return analyzeRoomAccessibility(room, options).validation
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+function fill(grid: OccupancyGrid, indices: number[], state: AccessCell): void {
+  for (const index of indices) {
+    if (grid.cells[index] !== AccessCell.OUTSIDE) grid.cells[index] = state
+  }
+}
+
+/** Celdas libres sin nada bloqueado a menos de `radius` mm (fuera de la rejilla cuenta como bloqueado) */
+function getForkliftCells(grid: OccupancyGrid, radius: number): boolean[] {
+  const { columns, rows, cellSize, cells } = grid
+  const reach = Math.ceil(radius / cellSize)
+  const offsets: [number, number][] = []
+  for (let dr = -reach; dr <= reach; dr++) {
+    for (let dc = -reach; dc <= reach; dc++) {
+      if ((dr * dr + dc * dc) * cellSize * cellSize <= radius * radius) offsets.push([dc, dr])
+    }
+  }
+
+  const fits: boolean[] = new Array(cells.length).fill(false)
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      if (cells[row * columns + column] !== AccessCell.FREE) continue
+      fits[row * columns + column] = offsets.every(([dc, dr]) => {
+        const c = column + dc
+        const r = row + dr
+        return c >= 0 && r >= 0 && c < columns && r < rows && cells[r * columns + c] === AccessCell.FREE
+      })
+    }
+  }
+  return fits
+}
+
+/**
+ * Celdas donde cabe la carretilla junto a cada entrada. Sin `entrances` y sin ninguna
+ * puerta en la estancia, no se sabe por dónde entra: vale cualquier punto del perímetro.
+ * Si hay puertas pero la carretilla no cabe por ninguna, no hay entradas.
+ */
+function getEntranceCells(
+  room: Room,
+  grid: OccupancyGrid,
+  fits: boolean[],
+  forklift: Forklift,
+  entrances?: Point2D[],
+): number[] {
+  const doors = (room.obstacles ?? []).filter(o => o.type === ObstacleType.DOOR)
+  const distanceTo: ((point: Point2D) => number)[] = entrances
+    ? entrances.map(e => (point: Point2D) => Math.hypot(point.x - e.x, point.z - e.z))
+    : doors.length > 0
+      ? doors
+          .filter(o => Math.max(o.width, o.depth) >= forklift.width)
+          .map(o => {
+            const a = getObstacleBoundingBox(o, room)
+            return (point: Point2D) => Math.hypot(
+              Math.max(0, a.minX - point.x, point.x - a.maxX),
+              Math.max(0, a.minZ - point.z, point.z - a.maxZ),
+            )
+          })
+      : room.floorPolygon.map((a, i) => {
+          const b = room.floorPolygon[(i + 1) % room.floorPolygon.length]
+          return (point: Point2D) => distanceToSegment(point, a, b)
+        })
+
+  // Las celdas donde cabe quedan a medio ancho de la pared en la que está la puerta
+  const margin = forklift.width / 2 + grid.cellSize * 1.5
+  const seeds: number[] = []
+  fits.forEach((fit, index) => {
+    if (!fit) return
+    const center = getCellCenter(grid, index % grid.columns, Math.floor(index / grid.columns))
+    if (distanceTo.some(distance => distance(center) <= margin)) seeds.push(index)
+  })
+  return seeds
+}
+
+function distanceToSegment(point: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x
+  const dz = b.z - a.z
+  const lengthSq = dx * dx + dz * dz
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.z - a.z) * dz) / lengthSq))
+    : 0
+  return Math.hypot(point.x - (a.x + t * dx), point.z - (a.z + t * dz))
+}
+
+/** Recorrido en anchura por las celdas donde cabe la carretilla (vecindad 4) */
+function floodFill(grid: OccupancyGrid, fits: boolean[], seeds: number[]): boolean[] {
+  const { columns, rows } = grid
+  const visited: boolean[] = new Array(fits.length).fill(false)
+  const queue = [...seeds]
+  for (const seed of seeds) visited[seed] = true
+
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head]
+    const column = index % columns
+    const row = Math.floor(index / columns)
+    const neighbours = [
+      column > 0 ? index - 1 : -1,
+      column < columns - 1 ? index + 1 : -1,
+      row > 0 ? index - columns : -1,
+      row < rows - 1 ? index + columns : -1,
+    ]
+    for (const next of neighbours) {
+      if (next < 0 || visited[next] || !fits[next]) continue
+      visited[next] = true
+      queue.push(next)
+    }
+  }
+  return visited
+}
+
+/**
+ * Pasillo que hace falta delante de una cara: tan ancho como la cara (o la carretilla)
+ * y tan largo como el pasillo de trabajo a 90° para la carga `bb`. Arranca en la cara
+ * de `front` y una celda más allá, para no contar la celda que comparte con el propio
+ * palet o con sus vecinos alineados.
+ */
+function getApproachZone(
+  bb: BoundingBox,
+  front: BoundingBox,
+  face: PalletFace,
+  forklift: Forklift,
+  cellSize: number,
+): Pick<BoundingBox, 'minX' | 'maxX' | 'minZ' | 'maxZ'> {
+  const alongX = face === '-x' || face === '+x'
+  const loadLength = alongX ? bb.maxX - bb.minX : bb.maxZ - bb.minZ
+  const aisle = getRequiredAisleWidth(forklift, loadLength)
+
+  const [lateralMin, lateralMax] = alongX ? [bb.minZ, bb.maxZ] : [bb.minX, bb.maxX]
+  const halfWidth = Math.max(lateralMax - lateralMin, forklift.width) / 2
+  const center = (lateralMin + lateralMax) / 2
+  const lateral = { min: center - halfWidth, max: center + halfWidth }
+
+  const [min, max] = {
+    '-x': [front.minX - aisle, front.minX - cellSize],
+    '+x': [front.maxX + cellSize, front.maxX + aisle],
+    '-z': [front.minZ - aisle, front.minZ - cellSize],
+    '+z': [front.maxZ + cellSize, front.maxZ + aisle],
+  }[face]
+
+  return alongX
+    ? { minX: min, maxX: max, minZ: lateral.min, maxZ: lateral.max }
+    : { minX: lateral.min, maxX: lateral.max, minZ: min, maxZ: max }
+}
+
+function isInsideGrid(grid: OccupancyGrid, zone: Pick<BoundingBox, 'minX' | 'maxX' | 'minZ' | 'maxZ'>): boolean {
+  return zone.minX >= grid.origin.x
+    && zone.minZ >= grid.origin.z
+    && zone.maxX <= grid.origin.x + grid.columns * grid.cellSize
+    && zone.maxZ <= grid.origin.z + grid.rows * grid.cellSize
+}
@@ -0,0 +1,106 @@
+/**
+ * OccupancyGrid — Rejilla 2D de ocupación de una estancia
+ *
+ * Cubre la envolvente del polígono del suelo con celdas cuadradas de `cellSize` mm.
+ * Las celdas se guardan por filas (z) en un Uint8Array: `cells[row * columns + column]`.
+ */
+
+import type { BoundingBox, Point2D } from '../types'
+import type { Room } from '../entities/Room'
+import { pointInPolygon } from '../validation/polygon'
+
+/** Margen (en celdas) para que un borde justo en una línea de la rejilla no ocupe la celda de al lado */
+const EPSILON = 1e-6
+
+/** Estado de una celda de la rejilla */
+export const AccessCell = {
+  /** Fuera del polígono de la estancia */
+  OUTSIDE: 0,
+  /** Libre, pero la carretilla no llega (o no cabe) */
+  FREE: 1,
+  /** Libre y alcanzable por la carretilla desde una entrada */
+  REACHABLE: 2,
+  /** Pilar, cuadro, zona reservada o estructura de estantería */
+  OBSTACLE: 3,
+  /** Palet accesible */
+  PALLET: 4,
+  /** Palet al que la carretilla no puede llegar */
+  BLOCKED_PALLET: 5,
+} as const
+export type AccessCell = (typeof AccessCell)[keyof typeof AccessCell]
+
+export interface OccupancyGrid {
+  /** Esquina de la rejilla con x y z mínimas (mm) */
+  origin: Point2D
+  /** Lado de cada celda (mm) */
+  cellSize: number
+  columns: number
+  rows: number
+  cells: Uint8Array
+}
+
+/** Rejilla de la estancia con cada celda OUTSIDE o FREE según su centro */
+export function createRoomGrid(room: Room, cellSize: number): OccupancyGrid {
+  if (!Number.isFinite(cellSize) || cellSize <= 0) {
+    throw new Error(`Occupancy grid cell size must be a positive finite number, got ${cellSize}`)
+  }
+  const xs = room.floorPolygon.map(p => p.x)
+  const zs = room.floorPolygon.map(p => p.z)
+  const origin = { x: Math.min(...xs), z: Math.min(...zs) }
+  const columns = Math.ceil((Math.max(...xs) - origin.x) / cellSize)
+  const rows = Math.ceil((Math.max(...zs) - origin.z) / cellSize)
+  const grid: OccupancyGrid = { origin, cellSize, columns, rows, cells: new Uint8Array(columns * rows) }
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      if (pointInPolygon(getCellCenter(grid, column, row), room.floorPolygon)) {
+        grid.cells[row * columns + column] = AccessCell.FREE
+      }
+    }
+  }
+  return grid
+}
+
+/** Centro de una celda (mm) */
+export function getCellCenter(grid: OccupancyGrid, column: number, row: number): Point2D {
+  return {
+    x: grid.origin.x + (column + 0.5) * grid.cellSize,
+    z: grid.origin.z + (row + 0.5) * grid.cellSize,
+  }
+}
+
+/** Estado de la celda que contiene el punto (OUTSIDE si cae fuera de la rejilla) */
+export function getCellAt(grid: OccupancyGrid, point: Point2D): AccessCell {
+  const column = Math.floor((point.x - grid.origin.x) / grid.cellSize)
+  const row = Math.floor((point.z - grid.origin.z) / grid.cellSize)
+  if (column < 0 || row < 0 || column >= grid.columns || row >= grid.rows) return AccessCell.OUTSIDE
+  return grid.cells[row * grid.columns + column] as AccessCell
+}
+
+/**
+ * Índices de las celdas que solapan la huella en planta de una envolvente.
+ * Una huella más estrecha que una celda ocupa igualmente la celda en la que cae.
+ * Con `centers`, solo las celdas cuyo centro cae dentro de la huella.
+ */
+export function getCellsInBounds(
+  grid: OccupancyGrid,
+  bb: Pick<BoundingBox, 'minX' | 'maxX' | 'minZ' | 'maxZ'>,
+  centers = false,
+): number[] {
+  const { origin, cellSize, columns, rows } = grid
+  const range = (min: number, max: number, count: number): [number, number] => {
+    const a = min / cellSize
+    const b = max / cellSize
+    return centers
+      ? [Math.max(0, Math.ceil(a - 0.5 - EPSILON)), Math.min(count - 1, Math.floor(b - 0.5 + EPSILON))]
+      : [Math.max(0, Math.floor(a + EPSILON)), Math.min(count - 1, Math.ceil(b - EPSILON) - 1)]
+  }
+  const [c0, c1] = range(bb.minX - origin.x, bb.maxX - origin.x, columns)
+  const [r0, r1] = range(bb.minZ - origin.z, bb.maxZ - origin.z, rows)
+
+  const indices: number[] = []
+  for (let row = r0; row <= r1; row++) {
+    for (let column = c0; column <= c1; column++) indices.push(row * columns + column)
+  }
+  return indices
+}
@@ -0,0 +1,8 @@
+/**
+ * Accessibility barrel export
+ */
+
+export { AccessCell, createRoomGrid, getCellAt, getCellCenter, getCellsInBounds } from './grid'
+export type { OccupancyGrid } from './grid'
+export { analyzeRoomAccessibility, validateForkliftAccess, getRequiredAisleWidth } from './analysis'
+export type { AccessibilityOptions, PalletAccess, PalletFace, RoomAccessibility } from './analysis'
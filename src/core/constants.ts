@@ -2,8 +2,18 @@
  * Constantes del sistema — presets de palets y camiones estándar
  */
 
-import { PalletMaterial, TruckType } from './types'
-import type { PalletPreset, TruckPreset } from './types'
+import { DoorSide, HazardClass, ObstacleType, PalletMaterial, SegregationScope, TruckType } from './types'
+import type {
+  AccelerationFactors,
+  Forklift,
+  HazmatSegregation,
+  HazmatSegregationTable,
+  LashingEquipment,
+  PalletPreset,
+  TemperatureRange,
+  TruckPreset,
+} from './types'
+import type { TruckAxles } from './entities/Truck'
 
 // ─── Palet Presets ───────────────────────────────────────────────
 /**
@@ -101,22 +111,89 @@ export const AMERICAN_PALLET = STANDARD_PALLETS.GMA
 
 // ─── Truck Presets ───────────────────────────────────────────────
 
+/**
+ * Ejes típicos de tractora 4×2 + semirremolque tri-eje (UE, 40 t):
+ * kingpin a 1,3 m de la pared frontal, grupo tri-eje 7,7 m detrás del kingpin,
+ * quinta rueda 0,5 m por delante del eje motriz y batalla de 3,7 m.
+ */
+function semiTrailerAxles(depth: number): TruckAxles {
+  const kingpin = depth - 1300
+  return {
+    front: { id: 'kingpin', position: kingpin, maxLoad: 12000, tareLoad: 2500 },
+    rear: { id: 'trailer-axles', position: kingpin - 7700, maxLoad: 24000, tareLoad: 4500 },
+    tractor: {
+      steer: { id: 'steer', position: kingpin + 3200, maxLoad: 7500, tareLoad: 5000 },
+      drive: { id: 'drive', position: kingpin - 500, maxLoad: 11500, tareLoad: 2500 },
+    },
+  }
+}
+
 export const TRUCK_PRESETS: Record<Exclude<TruckType, 'CUSTOM'>, TruckPreset> = {
   [TruckType.BOX]: {
     dimensions: { width: 2480, height: 2700, depth: 13600 },
     maxWeight: 24000,
+    axles: semiTrailerAxles(13600),
   },
   [TruckType.REFRIGERATED]: {
     dimensions: { width: 2440, height: 2590, depth: 13100 },
     maxWeight: 22000,
+    axles: semiTrailerAxles(13100),
   },
   [TruckType.FLATBED]: {
     dimensions: { width: 2480, height: 2700, depth: 13600 },
     maxWeight: 25000,
+    axles: semiTrailerAxles(13600),
   },
   [TruckType.TAUTLINER]: {
     dimensions: { width: 2480, height: 2700, depth: 13600 },
     maxWeight: 24000,
+    axles: semiTrailerAxles(13600),
+    // Lonas laterales correderas: carga por detrás y por ambos lados en toda la longitud
+    doors: [
+      { id: 'rear', side: DoorSide.REAR, offset: 0, width: 2480, height: 2700 },
+      { id: 'left', side: DoorSide.LEFT, offset: 0, width: 13600, height: 2700 },
+      { id: 'right', side: DoorSide.RIGHT, offset: 0, width: 13600, height: 2700 },
+    ],
+  },
+
+  // Contenedores ISO: medidas interiores, hueco de puerta, tara y carga útil típicos.
+  // Sin ejes: dependen del chasis portacontenedores o del barco.
+  [TruckType.CONTAINER_20]: {
+    dimensions: { width: 2352, height: 2393, depth: 5898 },
+    maxWeight: 28180,
+    tareWeight: 2300,
+    doorOpening: { width: 2340, height: 2280 },
+  },
+  [TruckType.CONTAINER_40]: {
+    dimensions: { width: 2352, height: 2393, depth: 12032 },
+    maxWeight: 26730,
+    tareWeight: 3750,
+    doorOpening: { width: 2340, height: 2280 },
+  },
+  [TruckType.CONTAINER_40_HC]: {
+    dimensions: { width: 2352, height: 2698, depth: 12032 },
+    maxWeight: 26580,
+    tareWeight: 3900,
+    doorOpening: { width: 2340, height: 2585 },
+  },
+  [TruckType.CONTAINER_45_PW]: {
+    dimensions: { width: 2444, height: 2698, depth: 13556 },
+    maxWeight: 27700,
+    tareWeight: 4800,
+    doorOpening: { width: 2432, height: 2585 },
+  },
+  // Frigoríficos: medidas hasta la línea de carga, descontando el equipo de frío
+  [TruckType.REEFER_20]: {
+    dimensions: { width: 2294, height: 2159, depth: 5444 },
+    maxWeight: 27400,
+    tareWeight: 3080,
+    doorOpening: { width: 2290, height: 2264 },
+  },
+  [TruckType.REEFER_40_HC]: {
+    dimensions: { width: 2294, height: 2440, depth: 11583 },
+    maxWeight: 29520,
+    tareWeight: 4480,
+    doorOpening: { width: 2290, height: 2569 },
   },
 } as const
 
@@ -144,3 +221,189 @@ export const MIN_SUPPORT_PERCENTAGE = 0.6
 
 /** Factor de seguridad de peso (warning a partir de este %) */
 export const WEIGHT_WARNING_THRESHOLD = 0.9
+
+/** Fracción mínima del peso total que debe soportar el eje direccional */
+export const MIN_STEER_AXLE_LOAD_RATIO = 0.15
+
+// ─── Compresión de cajas (BCT) ───────────────────────────────────
+
+/**
+ * Factores de reducción del BCT por humedad relativa ambiente
+ * (valores habituales para cartón ondulado; 50 % HR = condiciones de laboratorio)
+ */
+export const HUMIDITY_SAFETY_FACTORS = {
+  RH_50: 1,
+  RH_60: 0.9,
+  RH_70: 0.8,
+  RH_80: 0.68,
+  RH_90: 0.5,
+} as const
+
+/**
+ * Factores de reducción del BCT por tiempo bajo carga (fluencia del cartón)
+ */
+export const DURATION_SAFETY_FACTORS = {
+  DAYS_1: 0.7,
+  DAYS_10: 0.63,
+  DAYS_30: 0.59,
+  DAYS_90: 0.54,
+  DAYS_180: 0.5,
+} as const
+
+/** Factor de humedad por defecto para BR-202 (transporte, ~70 % HR) */
+export const DEFAULT_HUMIDITY_FACTOR = HUMIDITY_SAFETY_FACTORS.RH_70
+
+/** Factor de duración por defecto para BR-202 (tránsito de unos 10 días) */
+export const DEFAULT_DURATION_FACTOR = DURATION_SAFETY_FACTORS.DAYS_10
+
+// ─── Dinámica de transporte ──────────────────────────────────────
+
+/** Aceleraciones de diseño para transporte por carretera (EN 12195-1) */
+export const EN_12195_1_ROAD_ACCELERATIONS: AccelerationFactors = {
+  forward: 0.8,
+  backward: 0.5,
+  sideways: 0.5,
+}
+
+/**
+ * Coeficiente de rozamiento del palet con el suelo del camión (o con el separador
+ * de debajo), según el material del palet
+ */
+export const PALLET_FRICTION_COEFFICIENTS: Record<PalletMaterial, number> = {
+  [PalletMaterial.WOOD]: 0.45,
+  [PalletMaterial.PLASTIC]: 0.2,
+  [PalletMaterial.METAL]: 0.3,
+  [PalletMaterial.COMPOSITE]: 0.3,
+}
+
+/** Holgura máxima (mm) con la pared u otro palet para considerar un palet bloqueado */
+export const DEFAULT_BLOCKING_GAP = 80
+
+/** Cincha de 50 mm con carraca estándar: LC 2500 daN, STF 350 daN */
+export const DEFAULT_LASHING_EQUIPMENT: LashingEquipment = {
+  lashingCapacity: 2500,
+  standardTensionForce: 350,
+}
+
+// ─── Temperatura ─────────────────────────────────────────────────
+
+/** Rangos de temperatura habituales en la cadena de frío (°C) */
+export const TEMPERATURE_RANGES: Record<'FROZEN' | 'CHILLED' | 'FRESH' | 'AMBIENT', TemperatureRange> = {
+  FROZEN: { min: -25, max: -18 },
+  CHILLED: { min: 0, max: 4 },
+  FRESH: { min: 8, max: 12 },
+  AMBIENT: { min: 15, max: 25 },
+}
+
+/** Hueco libre (mm) que hay que dejar delante del equipo de frío para el retorno del aire */
+export const REEFER_AIRFLOW_GAP = 100
+
+// ─── Estanterías ─────────────────────────────────────────────────
+
+/** Holgura vertical mínima (mm) entre lo alto de la carga y las vigas del nivel superior (EN 15620, clase 400) */
+export const RACK_VERTICAL_CLEARANCE = 100
+
+/** Holgura lateral mínima (mm) entre la carga y el puntal o la carga vecina (EN 15620, clase 400) */
+export const RACK_SIDE_CLEARANCE = 75
+
+// ─── Obstáculos de estancia ──────────────────────────────────────
+
+/**
+ * Franja libre (mm) que hay que dejar alrededor de cada tipo de obstáculo.
+ * Puertas y salidas: paso mínimo de evacuación (CTE DB-SI); cuadros eléctricos:
+ * espacio de trabajo delante del cuadro.
+ */
+export const OBSTACLE_CLEARANCES: Record<ObstacleType, number> = {
+  [ObstacleType.COLUMN]: 0,
+  [ObstacleType.DOOR]: 1000,
+  [ObstacleType.FIRE_EXIT]: 1000,
+  [ObstacleType.ELECTRICAL_PANEL]: 1000,
+  [ObstacleType.WALKWAY]: 0,
+  [ObstacleType.NO_GO_ZONE]: 0,
+}
+
+// ─── Carretillas y pasillos ──────────────────────────────────────
+
+/** Carretillas habituales (medidas de catálogo redondeadas) */
+export const FORKLIFT_PRESETS: Record<'COUNTERBALANCE' | 'REACH_TRUCK' | 'PALLET_STACKER', Forklift> = {
+  COUNTERBALANCE: { width: 1150, turningRadius: 2000 },
+  REACH_TRUCK: { width: 1270, turningRadius: 1650 },
+  PALLET_STACKER: { width: 800, turningRadius: 1450 },
+}
+
+/** Margen de seguridad (mm) que se suma al pasillo de trabajo a 90° (VDI 2198) */
+export const AISLE_SAFETY_MARGIN = 200
+
+/** Tamaño de celda (mm) de la rejilla de ocupación de una estancia */
+export const OCCUPANCY_CELL_SIZE = 100
+
+// ─── Mercancías peligrosas ───────────────────────────────────────
+
+/** IMDG "away from": en palets distintos y a 3 m como mínimo */
+const AWAY_FROM: HazmatSegregation = { mayNotShare: SegregationScope.STACK, minDistance: 3000 }
+/** IMDG "separated from": en palets distintos y a 6 m como mínimo */
+const SEPARATED_FROM: HazmatSegregation = { mayNotShare: SegregationScope.STACK, minDistance: 6000 }
+/** IMDG "separated by a complete compartment" o más: en vehículos distintos */
+const SEPARATE_VEHICLE: HazmatSegregation = { mayNotShare: SegregationScope.TRUCK }
+
+const { EXPLOSIVE, FLAMMABLE_GAS, NON_FLAMMABLE_GAS, TOXIC_GAS, FLAMMABLE_LIQUID, FLAMMABLE_SOLID,
+  SPONTANEOUSLY_COMBUSTIBLE, DANGEROUS_WHEN_WET, OXIDIZER, ORGANIC_PEROXIDE, TOXIC, INFECTIOUS,
+  RADIOACTIVE, CORROSIVE } = HazardClass
+
+/**
+ * Tabla de segregación por defecto, simplificada de la tabla de IMDG 7.2.4.
+ * Cada par aparece una sola vez (se consulta en los dos sentidos); los pares que
+ * no aparecen pueden ir juntos. Los explosivos (clase 1) van solos salvo con la clase 9.
+ */
+export const HAZMAT_SEGREGATION_TABLE: HazmatSegregationTable = {
+  [EXPLOSIVE]: Object.fromEntries(
+    Object.values(HazardClass)
+      .filter(c => c !== EXPLOSIVE && c !== HazardClass.MISCELLANEOUS)
+      .map(c => [c, SEPARATE_VEHICLE]),
+  ),
+  [FLAMMABLE_GAS]: {
+    [FLAMMABLE_LIQUID]: SEPARATED_FROM, [FLAMMABLE_SOLID]: AWAY_FROM, [SPONTANEOUSLY_COMBUSTIBLE]: SEPARATED_FROM,
+    [OXIDIZER]: SEPARATED_FROM, [ORGANIC_PEROXIDE]: SEPARATED_FROM, [INFECTIOUS]: SEPARATE_VEHICLE,
+    [RADIOACTIVE]: SEPARATED_FROM, [CORROSIVE]: AWAY_FROM,
+  },
+  [NON_FLAMMABLE_GAS]: {
+    [FLAMMABLE_LIQUID]: AWAY_FROM, [SPONTANEOUSLY_COMBUSTIBLE]: AWAY_FROM, [ORGANIC_PEROXIDE]: AWAY_FROM,
+    [INFECTIOUS]: SEPARATED_FROM, [RADIOACTIVE]: AWAY_FROM,
+  },
+  [TOXIC_GAS]: {
+    [FLAMMABLE_LIQUID]: SEPARATED_FROM, [SPONTANEOUSLY_COMBUSTIBLE]: SEPARATED_FROM, [ORGANIC_PEROXIDE]: SEPARATED_FROM,
+    [INFECTIOUS]: SEPARATED_FROM, [RADIOACTIVE]: AWAY_FROM,
+  },
+  [FLAMMABLE_LIQUID]: {
+    [SPONTANEOUSLY_COMBUSTIBLE]: SEPARATED_FROM, [DANGEROUS_WHEN_WET]: AWAY_FROM, [OXIDIZER]: SEPARATED_FROM,
+    [ORGANIC_PEROXIDE]: SEPARATED_FROM, [INFECTIOUS]: SEPARATE_VEHICLE, [RADIOACTIVE]: SEPARATED_FROM,
+  },
+  [FLAMMABLE_SOLID]: {
+    [SPONTANEOUSLY_COMBUSTIBLE]: AWAY_FROM, [OXIDIZER]: AWAY_FROM, [ORGANIC_PEROXIDE]: SEPARATED_FROM,
+    [INFECTIOUS]: SEPARATE_VEHICLE, [RADIOACTIVE]: SEPARATED_FROM, [CORROSIVE]: AWAY_FROM,
+  },
+  [SPONTANEOUSLY_COMBUSTIBLE]: {
+    [DANGEROUS_WHEN_WET]: AWAY_FROM, [OXIDIZER]: SEPARATED_FROM, [ORGANIC_PEROXIDE]: SEPARATED_FROM,
+    [TOXIC]: AWAY_FROM, [INFECTIOUS]: SEPARATE_VEHICLE, [RADIOACTIVE]: SEPARATED_FROM, [CORROSIVE]: AWAY_FROM,
+  },
+  [DANGEROUS_WHEN_WET]: {
+    [OXIDIZER]: SEPARATED_FROM, [ORGANIC_PEROXIDE]: SEPARATED_FROM, [INFECTIOUS]: SEPARATED_FROM,
+    [RADIOACTIVE]: SEPARATED_FROM, [CORROSIVE]: AWAY_FROM,
+  },
+  [OXIDIZER]: {
+    [ORGANIC_PEROXIDE]: SEPARATED_FROM, [TOXIC]: AWAY_FROM, [INFECTIOUS]: SEPARATE_VEHICLE,
+    [RADIOACTIVE]: AWAY_FROM, [CORROSIVE]: SEPARATED_FROM,
+  },
+  [ORGANIC_PEROXIDE]: {
+    [TOXIC]: AWAY_FROM, [INFECTIOUS]: SEPARATE_VEHICLE, [RADIOACTIVE]: SEPARATED_FROM, [CORROSIVE]: SEPARATED_FROM,
+  },
+  [TOXIC]: {
+    [INFECTIOUS]: AWAY_FROM,
+  },
+  [INFECTIOUS]: {
+    [RADIOACTIVE]: SEPARATE_VEHICLE, [CORROSIVE]: SEPARATE_VEHICLE,
+  },
+  [RADIOACTIVE]: {
+    [CORROSIVE]: SEPARATED_FROM,
+  },
+}
@@ -5,7 +5,47 @@
  * and content information used by packing algorithms.
  */
 
-import type { Dimensions3D } from '../types'
+import type { BoxAxis, Dimensions3D, HazardClass, PackingGroup, TemperatureRange } from '../types'
+
+/**
+ * Box compression rating
+ *
+ * The allowed load on top is `bct × humidityFactor × durationFactor`.
+ */
+export interface BoxCompression {
+  /** Box compression test value (kg): top-to-bottom load the empty box withstands in lab conditions */
+  bct: number
+
+  /** BCT reduction factor (0-1] for the ambient humidity (see HUMIDITY_SAFETY_FACTORS) */
+  humidityFactor?: number
+
+  /** BCT reduction factor (0-1] for the time under load (see DURATION_SAFETY_FACTORS) */
+  durationFactor?: number
+}
+
+/**
+ * Dangerous goods data (ADR road / IMDG sea)
+ *
+ * Used by the segregation checks (BR-701 to BR-704).
+ */
+export interface HazmatInfo {
+  /** UN number, e.g. 'UN1203' */
+  unNumber: string
+
+  /** Primary hazard class or division */
+  hazardClass: HazardClass
+
+  /** Subsidiary hazards; they are segregated like the primary class */
+  subsidiaryClasses?: HazardClass[]
+
+  packingGroup?: PackingGroup
+
+  /** Packed in limited quantities (ADR/IMDG chapter 3.4): exempt from segregation */
+  limitedQuantity?: boolean
+
+  /** Proper shipping name, e.g. 'GASOLINE' */
+  properShippingName?: string
+}
 
 export interface Box {
   /** Unique identifier */
@@ -65,6 +105,54 @@ export interface Box {
   /** Whether this box can be stacked (have other boxes on top) */
   stackable: boolean
 
+  /**
+   * Compression rating used by the crush check (BR-202)
+   *
+   * When omitted, the box is not checked for crushing.
+   *
+   * @example
+   * compression: { bct: 450 }                                // Humidity/duration from the rule
+   * compression: { bct: 450, humidityFactor: 0.5 }           // Cold store, ~90% RH
+   */
+  compression?: BoxCompression
+
+  /**
+   * Box axes that may point up once the box is placed
+   *
+   * - `HEIGHT`: standing upright ("this side up"); never placed upside down
+   * - `WIDTH`: lying on its side
+   * - `DEPTH`: lying flat on its front/back face
+   *
+   * When omitted, every orientation is allowed.
+   *
+   * @example
+   * allowedUpAxes: [BoxAxis.HEIGHT]                              // Liquids, appliances
+   * allowedUpAxes: [BoxAxis.HEIGHT, BoxAxis.WIDTH, BoxAxis.DEPTH] // Textiles
+   */
+  allowedUpAxes?: BoxAxis[]
+
+  /**
+   * Temperature range (°C) the product must be kept in during transport
+   *
+   * Checked against the temperature zone of the truck (BR-602). Boxes on the same
+   * pallet must share a common range (BR-601).
+   *
+   * @example
+   * temperatureRange: TEMPERATURE_RANGES.FROZEN   // { min: -25, max: -18 }
+   * temperatureRange: { min: 2, max: 6 }
+   */
+  temperatureRange?: TemperatureRange
+
+  /**
+   * Dangerous goods classification
+   *
+   * When omitted, the box is not dangerous goods.
+   *
+   * @example
+   * hazmat: { unNumber: 'UN1203', hazardClass: HazardClass.FLAMMABLE_LIQUID, packingGroup: PackingGroup.II }
+   */
+  hazmat?: HazmatInfo
+
   /** Visual color for 3D rendering (CSS color or hex) */
   color?: string
 
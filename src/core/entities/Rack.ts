@@ -0,0 +1,92 @@
+/**
+ * Rack — Estantería de paletización convencional dentro de una Room
+ *
+ * Sistema local del rack (mm): x a lo largo de las vigas desde la cara exterior del
+ * primer puntal, z en el fondo de los bastidores (0 = cara del pasillo), y hacia arriba.
+ * `position` y `yRotation` lo llevan a la estancia con la misma convención que PlacedPallet.
+ */
+
+import type { Position3D } from '../types'
+import type { StackedPallet } from './StackedPallet'
+
+/** Palet almacenado en una ubicación de un nivel de vigas */
+export interface SlottedPallet {
+  id: string
+  /** Índice de la ubicación dentro del nivel (0 = junto al primer puntal del vano) */
+  slot: number
+  stackedPallet: StackedPallet
+  /** Rotación respecto al rack: 0 = el ancho del palet a lo largo de las vigas */
+  yRotation: 0 | 90
+}
+
+/** Par de vigas de un vano a una altura: las ubicaciones de palet de ese nivel */
+export interface BeamLevel {
+  id: string
+  /** Altura de la cara superior de las vigas (mm); 0 = nivel de suelo, sin vigas */
+  elevation: number
+  /** Canto de las vigas (mm) */
+  beamHeight: number
+  /** Carga máxima del par de vigas (kg), uniformemente repartida */
+  maxLoad: number
+  /** Número de ubicaciones de palet del nivel */
+  slotCount: number
+  pallets: SlottedPallet[]
+}
+
+/** Vano: hueco entre dos bastidores con sus niveles de vigas */
+export interface Bay {
+  id: string
+  /** Luz libre entre puntales (mm) */
+  width: number
+  /** Carga máxima del vano, sumando sus niveles de vigas (kg); el de suelo no carga los bastidores */
+  maxLoad?: number
+  /** Niveles de abajo arriba */
+  levels: BeamLevel[]
+}
+
+export interface Rack {
+  id: string
+  name?: string
+  /** Esquina del rack en la estancia (cara del pasillo, primer puntal, suelo) */
+  position: Position3D
+  yRotation: 0 | 90 | 180 | 270
+  /** Fondo de los bastidores (mm) */
+  depth: number
+  /** Altura de los puntales (mm) */
+  height: number
+  /** Ancho de cada puntal (mm) */
+  uprightWidth: number
+  /** Vanos, en orden a lo largo de x */
+  bays: Bay[]
+  metadata: Record<string, unknown>
+}
+
+// ─── Helpers puros ───────────────────────────────────────────────
+
+/** Longitud total del rack a lo largo de las vigas (mm) */
+export function getRackLength(rack: Rack): number {
+  return rack.bays.reduce((sum, bay) => sum + bay.width, 0) + (rack.bays.length + 1) * rack.uprightWidth
+}
+
+/** Coordenada x local donde empieza la luz libre del vano */
+export function getBayOffset(rack: Rack, bayIndex: number): number {
+  let x = rack.uprightWidth
+  for (let i = 0; i < bayIndex; i++) x += rack.bays[i].width + rack.uprightWidth
+  return x
+}
+
+/** Ancho de cada ubicación del nivel (mm) */
+export function getSlotWidth(bay: Bay, level: BeamLevel): number {
+  return bay.width / level.slotCount
+}
+
+/**
+ * Altura libre sobre las vigas del nivel (mm): hasta la cara inferior de las vigas
+ * del nivel superior, o hasta lo alto de los puntales en el último nivel
+ */
+export function getLevelClearHeight(rack: Rack, bay: Bay, levelIndex: number): number {
+  const level = bay.levels[levelIndex]
+  const above = bay.levels[levelIndex + 1]
+  const top = above ? above.elevation - above.beamHeight : rack.height
+  return top - level.elevation
+}
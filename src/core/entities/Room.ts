@@ -2,14 +2,38 @@
  * Room — Estancia dentro de un almacén
  */
 
-import type { Point2D } from '../types'
+import type { ObstacleType, Point2D } from '../types'
 import type { PlacedPallet } from './PlacedPallet'
+import type { Rack } from './Rack'
 
 export interface Room {
   id: string
   name: string
+  /** Origen de la estancia en la planta del almacén (mm); por defecto (0, 0). Todo lo demás se mide desde aquí */
+  position?: Point2D
   floorPolygon: Point2D[]
   ceilingHeight: number  // mm
   pallets: PlacedPallet[]
+  /** Estanterías de paletización; sus palets no están en `pallets` */
+  racks?: Rack[]
+  /** Pilares, puertas, salidas, cuadros y zonas donde no se puede dejar carga */
+  obstacles?: RoomObstacle[]
   metadata: Record<string, unknown>
 }
+
+/** Obstáculo o zona reservada: rectángulo alineado con los ejes de la estancia */
+export interface RoomObstacle {
+  id: string
+  type: ObstacleType
+  name?: string
+  /** Esquina de la huella con x y z mínimas (mm) */
+  position: Point2D
+  /** Tamaño en x (mm) */
+  width: number
+  /** Tamaño en z (mm) */
+  depth: number
+  /** Altura desde el suelo (mm); por defecto hasta el techo */
+  height?: number
+  /** Franja libre alrededor (mm); por defecto la de OBSTACLE_CLEARANCES para su tipo */
+  clearance?: number
+}
@@ -2,12 +2,18 @@
  * StackedPallet — Composición vertical de pisos de palet con separadores
  */
 
+import type { TemperatureRange } from '../types'
 import type { PalletFloor } from './PalletFloor'
 import type { PlacedBox } from './PlacedBox'
+import { getOrientedDimensions } from '../validation/collision'
 
 export interface StackedPallet {
   id: string
   floors: PalletFloor[]  // al menos 1
+  /** Parada de reparto (1 = primera descarga). Sin valor, el palet no participa en BR-407 */
+  deliveryStop?: number
+  /** Rango de temperatura del palet completo (°C); se suma al de sus cajas */
+  temperatureRange?: TemperatureRange
   metadata: Record<string, unknown>
 }
 
@@ -18,9 +24,9 @@ export function getStackedPalletTotalHeight(stack: StackedPallet): number {
   let height = 0
   for (const floor of stack.floors) {
     height += floor.pallet.dimensions.height
-    // Altura máxima de cajas en este piso
+    // Altura máxima de cajas en este piso (según su orientación)
     const maxBoxTop = floor.boxes.reduce((max, pb) => {
-      const boxTop = pb.position.y + pb.box.dimensions.height
+      const boxTop = pb.position.y + getOrientedDimensions(pb.box.dimensions, pb.rotation).height
       return Math.max(max, boxTop)
     }, 0)
     height += maxBoxTop
@@ -2,9 +2,66 @@
  * Truck — Espacio de carga de un vehículo
  */
 
-import type { Dimensions3D, TruckType } from '../types'
+import type { Dimensions3D } from '../types'
+import { DoorSide, TruckType } from '../types'
 import type { PlacedPallet } from './PlacedPallet'
 
+/**
+ * Eje (o grupo de ejes) que apoya en el suelo, o kingpin de un semirremolque.
+ * `position` es la coordenada Z en el sistema del espacio de carga
+ * (z = 0 puertas traseras, z = depth pared frontal); puede quedar fuera de [0, depth].
+ */
+export interface Axle {
+  id: string
+  position: number  // mm (Z)
+  maxLoad: number   // kg — carga máxima legal/técnica
+  tareLoad?: number // kg — carga en vacío que soporta este eje
+}
+
+/**
+ * Geometría de ejes de un camión.
+ * - Rígido: `front` = eje direccional, `rear` = eje motriz.
+ * - Semirremolque: `front` = kingpin, `rear` = grupo de ejes del remolque, y la carga
+ *   del kingpin se reparte entre los ejes de la cabeza tractora (`tractor`).
+ */
+export interface TruckAxles {
+  front: Axle
+  rear: Axle
+  tractor?: {
+    steer: Axle
+    drive: Axle
+  }
+}
+
+/** Hueco libre de la puerta trasera (z = 0), centrado en el ancho del espacio de carga */
+export interface DoorOpening {
+  width: number   // mm
+  height: number  // mm
+}
+
+/** Puerta del espacio de carga por la que se pueden meter palets */
+export interface TruckDoor {
+  id: string
+  side: DoorSide
+  /** Inicio del hueco a lo largo de su pared (mm): X en la trasera, Z en los laterales */
+  offset: number
+  /** Ancho libre del hueco (mm) */
+  width: number
+  /** Alto libre del hueco (mm) */
+  height: number
+}
+
+/**
+ * Compartimento de temperatura entre mamparos móviles.
+ * Ocupa todo el ancho y el alto del espacio de carga entre `startZ` y `endZ`.
+ */
+export interface TemperatureZone {
+  id: string
+  startZ: number    // mm
+  endZ: number      // mm
+  setpoint: number  // °C — temperatura de consigna
+}
+
 export interface Truck {
   id: string
   name: string
@@ -12,6 +69,60 @@ export interface Truck {
   dimensions: Dimensions3D
   maxWeight: number  // kg
   pallets: PlacedPallet[]
+  /** Geometría y límites de ejes (opcional; sin ella no se validan cargas por eje) */
+  axles?: TruckAxles
+  /** Tara del vehículo o contenedor vacío (kg) */
+  tareWeight?: number
+  /** Hueco de la puerta trasera (sin él se asume del tamaño del interior) */
+  doorOpening?: DoorOpening
+  /** Puertas del espacio de carga; si se indican, sustituyen a `doorOpening` */
+  doors?: TruckDoor[]
+  /** Compartimentos de temperatura (frigoríficos multitemperatura); sin ellos no se valida BR-602 */
+  temperatureZones?: TemperatureZone[]
   licensePlate?: string
   metadata: Record<string, unknown>
 }
+
+// ─── Helpers puros ───────────────────────────────────────────────
+
+const CONTAINER_TYPES: ReadonlySet<TruckType> = new Set<TruckType>([
+  TruckType.CONTAINER_20,
+  TruckType.CONTAINER_40,
+  TruckType.CONTAINER_40_HC,
+  TruckType.CONTAINER_45_PW,
+  TruckType.REEFER_20,
+  TruckType.REEFER_40_HC,
+])
+
+/** El espacio de carga es un contenedor ISO (se dibuja como contenedor, sin cabina ni chasis) */
+export function isContainer(truck: Pick<Truck, 'truckType'>): boolean {
+  return CONTAINER_TYPES.has(truck.truckType)
+}
+
+/** Contenedor frigorífico (con equipo de frío en la pared frontal) */
+export function isReeferContainer(truck: Pick<Truck, 'truckType'>): boolean {
+  return truck.truckType === TruckType.REEFER_20 || truck.truckType === TruckType.REEFER_40_HC
+}
+
+/** Lleva equipo de frío en la pared frontal (z = depth) */
+export function isRefrigerated(truck: Truck): boolean {
+  return truck.truckType === TruckType.REFRIGERATED || isReeferContainer(truck) || (truck.temperatureZones?.length ?? 0) > 0
+}
+
+/** Posiciones Z de los mamparos: los bordes de los compartimentos que no son puertas ni pared frontal */
+export function getBulkheads(truck: Truck): number[] {
+  const edges = (truck.temperatureZones ?? []).flatMap(zone => [zone.startZ, zone.endZ])
+  return [...new Set(edges)]
+    .filter(z => z > 0 && z < truck.dimensions.depth)
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Puertas por las que se puede cargar: `doors` si se indican; si no, una puerta
+ * trasera centrada con el hueco de `doorOpening` (o del tamaño del interior)
+ */
+export function getTruckDoors(truck: Truck): TruckDoor[] {
+  if (truck.doors) return truck.doors
+  const { width, height } = truck.doorOpening ?? truck.dimensions
+  return [{ id: 'rear', side: DoorSide.REAR, offset: (truck.dimensions.width - width) / 2, width, height }]
+}
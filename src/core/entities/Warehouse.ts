@@ -1,7 +1,11 @@
 /**
  * Warehouse — Almacén con estancias
+ *
+ * Cada estancia usa su propio sistema (polígono, palets, estanterías y obstáculos);
+ * `room.position` la coloca en la planta del almacén.
  */
 
+import type { Point2D } from '../types'
 import type { Room } from './Room'
 
 export interface Warehouse {
@@ -10,3 +14,48 @@ export interface Warehouse {
   rooms: Room[]
   metadata: Record<string, unknown>
 }
+
+/** Rectángulo en planta alineado con los ejes (mm) */
+export interface FloorBounds {
+  minX: number
+  maxX: number
+  minZ: number
+  maxZ: number
+}
+
+// ─── Helpers puros ───────────────────────────────────────────────
+
+/** Origen de la estancia en la planta del almacén */
+export function getRoomOrigin(room: Room): Point2D {
+  return room.position ?? { x: 0, z: 0 }
+}
+
+/** Polígono de la estancia en coordenadas del almacén */
+export function getRoomFloorPolygon(room: Room): Point2D[] {
+  const origin = getRoomOrigin(room)
+  return room.floorPolygon.map(p => ({ x: origin.x + p.x, z: origin.z + p.z }))
+}
+
+/** Envolvente en planta de la estancia, en coordenadas del almacén */
+export function getRoomBounds(room: Room): FloorBounds {
+  return getPolygonBounds(getRoomFloorPolygon(room))
+}
+
+/** Envolvente en planta de todas las estancias; `undefined` si no hay ninguna */
+export function getWarehouseBounds(warehouse: Warehouse): FloorBounds | undefined {
+  if (warehouse.rooms.length === 0) return undefined
+  return getPolygonBounds(warehouse.rooms.flatMap(getRoomFloorPolygon))
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+function getPolygonBounds(points: Point2D[]): FloorBounds {
+  const bounds = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity }
+  for (const p of points) {
+    bounds.minX = Math.min(bounds.minX, p.x)
+    bounds.maxX = Math.max(bounds.maxX, p.x)
+    bounds.minZ = Math.min(bounds.minZ, p.z)
+    bounds.maxZ = Math.max(bounds.maxZ, p.z)
+  }
+  return bounds
+}
@@ -2,7 +2,7 @@
  * Barrel export — Entidades del dominio
  */
 
-export type { Box } from './Box'
+export type { Box, BoxCompression, HazmatInfo } from './Box'
 export type { PlacedBox } from './PlacedBox'
 export type { Pallet } from './Pallet'
 export type { Separator } from './Separator'
@@ -10,6 +10,10 @@ export type { PalletFloor } from './PalletFloor'
 export type { StackedPallet } from './StackedPallet'
 export { getStackedPalletTotalHeight, getStackedPalletTotalWeight } from './StackedPallet'
 export type { PlacedPallet } from './PlacedPallet'
-export type { Room } from './Room'
-export type { Warehouse } from './Warehouse'
-export type { Truck } from './Truck'
+export type { Room, RoomObstacle } from './Room'
+export type { Rack, Bay, BeamLevel, SlottedPallet } from './Rack'
+export { getRackLength, getBayOffset, getSlotWidth, getLevelClearHeight } from './Rack'
+export type { Warehouse, FloorBounds } from './Warehouse'
+export { getRoomOrigin, getRoomFloorPolygon, getRoomBounds, getWarehouseBounds } from './Warehouse'
+export type { Truck, TruckAxles, Axle, DoorOpening, TruckDoor, TemperatureZone } from './Truck'
+export { isContainer, isReeferContainer, isRefrigerated, getBulkheads, getTruckDoors } from './Truck'
@@ -6,6 +6,7 @@
 
 import type { Box } from '../entities/Box'
 import type { Dimensions3D } from '../types'
+import { BoxAxis } from '../types'
 
 let _boxCounter = 0
 
@@ -87,4 +88,24 @@ export class BoxFactory {
       ...opts,
     })
   }
+
+  /**
+   * Creates a box that must always stand upright ("this side up")
+   *
+   * @param dims - Box dimensions in millimeters
+   * @param opts - Optional overrides
+   * @returns A Box that strategies will never tip over or lay down
+   *
+   * @example
+   * const liquids = BoxFactory.upright(
+   *   { width: 400, height: 350, depth: 300 },
+   *   { weight: 18, product: 'PROD-WATER' }
+   * )
+   */
+  static upright(dims: Dimensions3D, opts?: Partial<Box>): Box {
+    return BoxFactory.create(dims, {
+      allowedUpAxes: [BoxAxis.HEIGHT],
+      ...opts,
+    })
+  }
 }
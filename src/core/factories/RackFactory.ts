@@ -0,0 +1,65 @@
+/**
+ * RackFactory — Factory para crear estanterías de paletización con vanos iguales
+ */
+
+import type { Rack } from '../entities/Rack'
+import type { Position3D } from '../types'
+
+let _rackCounter = 0
+
+function nextRackId(): string {
+  return `rack-${++_rackCounter}`
+}
+
+export interface UniformRackOptions {
+  /** Número de vanos */
+  bays: number
+  /** Luz libre de cada vano (mm) */
+  bayWidth: number
+  /** Altura de la cara superior de las vigas de cada nivel, de abajo arriba (mm; 0 = suelo) */
+  levelElevations: number[]
+  /** Ubicaciones de palet por nivel */
+  slotsPerLevel: number
+  /** Carga máxima de cada par de vigas (kg) */
+  beamMaxLoad: number
+  /** Fondo de los bastidores (mm) */
+  depth?: number
+  /** Altura de los puntales (mm); por defecto 1 m sobre el último nivel */
+  height?: number
+  /** Canto de las vigas (mm) */
+  beamHeight?: number
+  /** Ancho de los puntales (mm) */
+  uprightWidth?: number
+  position?: Position3D
+  yRotation?: Rack['yRotation']
+}
+
+export class RackFactory {
+  /** Crea un rack con todos los vanos iguales y los mismos niveles en cada vano */
+  static uniform(options: UniformRackOptions, overrides?: Partial<Rack>): Rack {
+    const id = overrides?.id ?? nextRackId()
+    const top = Math.max(0, ...options.levelElevations)
+    return {
+      id,
+      position: { ...(options.position ?? { x: 0, y: 0, z: 0 }) },
+      yRotation: options.yRotation ?? 0,
+      depth: options.depth ?? 1100,
+      height: options.height ?? top + 1000,
+      uprightWidth: options.uprightWidth ?? 100,
+      bays: Array.from({ length: options.bays }, (_, b) => ({
+        id: `${id}-b${b + 1}`,
+        width: options.bayWidth,
+        levels: options.levelElevations.map((elevation, l) => ({
+          id: `${id}-b${b + 1}-l${l + 1}`,
+          elevation,
+          beamHeight: elevation === 0 ? 0 : options.beamHeight ?? 120,
+          maxLoad: options.beamMaxLoad,
+          slotCount: options.slotsPerLevel,
+          pallets: [],
+        })),
+      })),
+      metadata: {},
+      ...overrides,
+    }
+  }
+}
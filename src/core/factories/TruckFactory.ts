@@ -2,7 +2,8 @@
  * TruckFactory — Factories para crear camiones por preset o custom
  */
 
-import type { Truck } from '../entities/Truck'
+import type { Truck, TruckAxles } from '../entities/Truck'
+import { isContainer } from '../entities/Truck'
 import type { Dimensions3D } from '../types'
 import { TruckType } from '../types'
 import { TRUCK_PRESETS } from '../constants'
@@ -13,17 +14,31 @@ function nextTruckId(): string {
   return `truck-${++_truckCounter}`
 }
 
+function cloneAxles(axles: TruckAxles): TruckAxles {
+  return {
+    front: { ...axles.front },
+    rear: { ...axles.rear },
+    ...(axles.tractor
+      ? { tractor: { steer: { ...axles.tractor.steer }, drive: { ...axles.tractor.drive } } }
+      : {}),
+  }
+}
+
 export class TruckFactory {
-  /** Crea un camión a partir de un preset de tipo */
+  /** Crea un camión (o contenedor ISO) a partir de un preset de tipo */
   static fromPreset(type: Exclude<TruckType, 'CUSTOM'>, overrides?: Partial<Truck>): Truck {
     const preset = TRUCK_PRESETS[type]
     return {
       id: nextTruckId(),
-      name: `Camión ${type}`,
+      name: `${isContainer({ truckType: type }) ? 'Contenedor' : 'Camión'} ${type}`,
       truckType: type,
       dimensions: { ...preset.dimensions },
       maxWeight: preset.maxWeight,
       pallets: [],
+      ...(preset.axles ? { axles: cloneAxles(preset.axles) } : {}),
+      ...(preset.tareWeight !== undefined ? { tareWeight: preset.tareWeight } : {}),
+      ...(preset.doorOpening ? { doorOpening: { ...preset.doorOpening } } : {}),
+      ...(preset.doors ? { doors: preset.doors.map(d => ({ ...d })) } : {}),
       metadata: {},
       ...overrides,
     }
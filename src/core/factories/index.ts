@@ -5,3 +5,5 @@
 export { PalletFactory } from './PalletFactory'
 export { TruckFactory } from './TruckFactory'
 export { BoxFactory } from './BoxFactory'
+export { RackFactory } from './RackFactory'
+export type { UniformRackOptions } from './RackFactory'
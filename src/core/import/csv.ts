@@ -0,0 +1,385 @@
+/**
+ * CSV import — Conversión de listas de carga (packing lists) en cajas
+ *
+ * Lee un CSV exportado del ERP, asocia columnas a campos de `Box` (por alias o
+ * por un mapeo explícito), convierte unidades a mm/kg y expande las cantidades
+ * en cajas individuales creadas con `BoxFactory`. Las líneas inválidas no
+ * interrumpen la importación: se devuelven como errores con su número de línea.
+ */
+
+import type { Box, HazmatInfo } from '../entities/Box'
+import { BoxFactory } from '../factories/BoxFactory'
+import { HazardClass, PackingGroup } from '../types'
+
+// ─── Unidades ────────────────────────────────────────────────────
+
+export const LengthUnit = {
+  MM: 'mm',
+  CM: 'cm',
+  M: 'm',
+  IN: 'in',
+} as const
+export type LengthUnit = (typeof LengthUnit)[keyof typeof LengthUnit]
+
+export const WeightUnit = {
+  KG: 'kg',
+  G: 'g',
+  LB: 'lb',
+} as const
+export type WeightUnit = (typeof WeightUnit)[keyof typeof WeightUnit]
+
+/** Factor de conversión a mm */
+const LENGTH_TO_MM: Record<LengthUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4 }
+
+/** Factor de conversión a kg */
+const WEIGHT_TO_KG: Record<WeightUnit, number> = { kg: 1, g: 0.001, lb: 0.45359237 }
+
+// ─── Columnas ────────────────────────────────────────────────────
+
+/** Campos que se pueden leer del CSV */
+export type CsvField =
+  | 'sku'
+  | 'quantity'
+  | 'width'
+  | 'height'
+  | 'depth'
+  | 'weight'
+  | 'fragile'
+  | 'fragilityMaxWeight'
+  | 'bct'
+  | 'stackable'
+  | 'product'
+  | 'type'
+  | 'materialWeight'
+  | 'color'
+  | 'unNumber'
+  | 'hazardClass'
+  | 'packingGroup'
+  | 'limitedQuantity'
+
+/** Mapeo campo → nombre de cabecera en el CSV */
+export type CsvColumnMapping = Partial<Record<CsvField, string>>
+
+const REQUIRED_FIELDS: CsvField[] = ['width', 'height', 'depth', 'weight']
+
+/** Cabeceras reconocidas automáticamente (comparación sin mayúsculas ni acentos) */
+export const DEFAULT_CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  sku: ['sku', 'ref', 'reference', 'referencia', 'item'],
+  quantity: ['quantity', 'qty', 'cantidad', 'uds', 'units', 'unidades'],
+  width: ['width', 'ancho', 'w'],
+  height: ['height', 'alto', 'altura', 'h'],
+  depth: ['depth', 'length', 'largo', 'fondo', 'profundidad', 'd', 'l'],
+  weight: ['weight', 'peso', 'kg'],
+  fragile: ['fragile', 'fragil'],
+  fragilityMaxWeight: ['fragilitymaxweight', 'maxweightontop', 'pesomaximoencima'],
+  bct: ['bct', 'compression', 'compresion', 'compressionstrength'],
+  stackable: ['stackable', 'apilable'],
+  product: ['product', 'producto'],
+  type: ['type', 'tipo'],
+  materialWeight: ['materialweight', 'resistencia'],
+  color: ['color'],
+  // Sin `class` ni `un`: muchas listas tienen una columna "Class" de producto o de flete
+  unNumber: ['unnumber', 'onu', 'numeroonu'],
+  hazardClass: ['hazardclass', 'adrclass', 'imdgclass', 'claseadr'],
+  packingGroup: ['packinggroup', 'pg', 'grupoembalaje'],
+  limitedQuantity: ['limitedquantity', 'lq', 'cantidadlimitada'],
+}
+
+// ─── Opciones y resultado ────────────────────────────────────────
+
+export interface CsvImportOptions {
+  /** Cabeceras a usar para cada campo; tienen prioridad sobre los alias por defecto */
+  mapping?: CsvColumnMapping
+  /** Separador de columnas. Por defecto se detecta entre `,`, `;` y tabulador */
+  delimiter?: string
+  /** Separador decimal de los números (por defecto `.`) */
+  decimalSeparator?: '.' | ','
+  /** Unidad de las dimensiones del CSV (por defecto mm) */
+  lengthUnit?: LengthUnit
+  /** Unidad del peso del CSV (por defecto kg) */
+  weightUnit?: WeightUnit
+  /** Cantidad máxima por línea, para evitar expansiones accidentales (por defecto 10000) */
+  maxQuantity?: number
+}
+
+export interface CsvRowError {
+  /** Línea del fichero (1 = cabecera) */
+  row: number
+  /** Campo afectado, si el error es de una columna concreta */
+  field?: CsvField
+  message: string
+}
+
+export interface CsvImportResult {
+  /** Cajas individuales (una por unidad de cantidad) */
+  boxes: Box[]
+  errors: CsvRowError[]
+  /** Líneas de datos procesadas (sin contar cabecera ni líneas vacías) */
+  rowCount: number
+}
+
+// ─── Importación ─────────────────────────────────────────────────
+
+/**
+ * Importa una lista de carga CSV como cajas.
+ *
+ * @param csv Contenido del fichero
+ * @param options Mapeo de columnas, separadores y unidades
+ * @returns Cajas importadas y errores por línea
+ *
+ * @example
+ * const { boxes, errors } = importBoxesFromCsv(text, {
+ *   lengthUnit: LengthUnit.CM,
+ *   mapping: { sku: 'Artículo', quantity: 'Bultos' },
+ * })
+ */
+export function importBoxesFromCsv(csv: string, options: CsvImportOptions = {}): CsvImportResult {
+  const {
+    decimalSeparator = '.',
+    lengthUnit = LengthUnit.MM,
+    weightUnit = WeightUnit.KG,
+    maxQuantity = 10000,
+  } = options
+  const delimiter = options.delimiter ?? detectDelimiter(csv)
+  const records = parseCsv(csv, delimiter).filter(r => r.cells.some(c => c.trim() !== ''))
+
+  const result: CsvImportResult = { boxes: [], errors: [], rowCount: 0 }
+  const [header, ...rows] = records
+  if (!header) return result
+
+  const columns = resolveColumns(header.cells, options.mapping ?? {})
+  const missing = REQUIRED_FIELDS.filter(f => columns[f] === undefined)
+  if (missing.length > 0) {
+    result.errors.push(...missing.map(field => ({
+      row: header.line,
+      field,
+      message: `Falta la columna para "${field}"`,
+    })))
+    return result
+  }
+
+  const toMm = LENGTH_TO_MM[lengthUnit]
+  const toKg = WEIGHT_TO_KG[weightUnit]
+
+  for (const { line, cells } of rows) {
+    result.rowCount++
+    const rowErrors: CsvRowError[] = []
+    const cell = (field: CsvField) => {
+      const index = columns[field]
+      return index === undefined ? '' : (cells[index] ?? '').trim()
+    }
+    const fail = (field: CsvField, message: string) => {
+      rowErrors.push({ row: line, field, message })
+      return undefined
+    }
+    const number = (field: CsvField, { required = false, positive = false } = {}) => {
+      const raw = cell(field)
+      if (raw === '') return required ? fail(field, `"${field}" es obligatorio`) : undefined
+      const value = parseNumber(raw, decimalSeparator)
+      if (value === undefined) return fail(field, `"${raw}" no es un número`)
+      if (positive ? value <= 0 : value < 0) return fail(field, `"${field}" debe ser ${positive ? 'mayor que 0' : '≥ 0'}`)
+      return value
+    }
+    const flag = (field: CsvField) => {
+      const raw = cell(field)
+      if (raw === '') return undefined
+      const value = parseBoolean(raw)
+      return value === undefined ? fail(field, `"${raw}" no es un valor sí/no`) : value
+    }
+
+    const width = number('width', { required: true, positive: true })
+    const height = number('height', { required: true, positive: true })
+    const depth = number('depth', { required: true, positive: true })
+    const weight = number('weight', { required: true })
+    const quantity = number('quantity') ?? 1
+    const fragile = flag('fragile') ?? false
+    const stackable = flag('stackable')
+    const fragilityMaxWeight = number('fragilityMaxWeight')
+    const bct = number('bct', { positive: true })
+    const materialWeight = number('materialWeight')
+    const hazmat = readHazmat(cell, flag, fail)
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      fail('quantity', `La cantidad debe ser un entero positivo (${quantity})`)
+    } else if (quantity > maxQuantity) {
+      fail('quantity', `La cantidad ${quantity} supera el máximo de ${maxQuantity}`)
+    }
+    if (materialWeight !== undefined && materialWeight > 10) {
+      fail('materialWeight', `"materialWeight" debe estar entre 0 y 10`)
+    }
+
+    if (rowErrors.length > 0 || width === undefined || height === undefined || depth === undefined || weight === undefined) {
+      result.errors.push(...rowErrors)
+      continue
+    }
+
+    const dims = { width: width * toMm, height: height * toMm, depth: depth * toMm }
+    // Objetos anidados nuevos para cada caja: las de una misma línea no los comparten
+    const boxOptions = (): Partial<Box> => ({
+      weight: weight * toKg,
+      metadata: { csvRow: line },
+      ...optionalText('sku', cell('sku')),
+      ...optionalText('product', cell('product')),
+      ...optionalText('type', cell('type')),
+      ...optionalText('color', cell('color')),
+      ...(stackable !== undefined ? { stackable } : {}),
+      ...(materialWeight !== undefined ? { materialWeight } : {}),
+      ...(bct !== undefined ? { compression: { bct: bct * toKg } } : {}),
+      ...(hazmat ? { hazmat: { ...hazmat } } : {}),
+    })
+
+    for (let i = 0; i < quantity; i++) {
+      result.boxes.push(fragile
+        ? BoxFactory.fragile(dims, (fragilityMaxWeight ?? 0) * toKg, boxOptions())
+        : BoxFactory.create(dims, boxOptions()))
+    }
+  }
+
+  return result
+}
+
+/** Datos ADR/IMDG de la fila: se exigen la clase y el número ONU si hay alguna columna de peligrosas */
+function readHazmat(
+  cell: (field: CsvField) => string,
+  flag: (field: CsvField) => boolean | undefined,
+  fail: (field: CsvField, message: string) => undefined,
+): HazmatInfo | undefined {
+  const unNumber = cell('unNumber')
+  const hazardClass = cell('hazardClass')
+  const packingGroup = cell('packingGroup').toUpperCase()
+  if (unNumber === '' && hazardClass === '') return undefined
+
+  const classes: string[] = Object.values(HazardClass)
+  const groups: string[] = Object.values(PackingGroup)
+  if (!classes.includes(hazardClass)) return fail('hazardClass', `"${hazardClass}" no es una clase ADR/IMDG`)
+  if (unNumber === '') return fail('unNumber', '"unNumber" es obligatorio en mercancías peligrosas')
+  if (packingGroup !== '' && !groups.includes(packingGroup)) {
+    return fail('packingGroup', `"${packingGroup}" no es un grupo de embalaje (I, II o III)`)
+  }
+
+  const limitedQuantity = flag('limitedQuantity')
+  return {
+    unNumber,
+    hazardClass: hazardClass as HazardClass,
+    ...(packingGroup !== '' ? { packingGroup: packingGroup as PackingGroup } : {}),
+    ...(limitedQuantity !== undefined ? { limitedQuantity } : {}),
+  }
+}
+
+// ─── Parser CSV ──────────────────────────────────────────────────
+
+export interface CsvRecord {
+  /** Línea del fichero donde empieza el registro (1-based) */
+  line: number
+  cells: string[]
+}
+
+/**
+ * Divide un CSV en registros (RFC 4180): campos entre comillas pueden contener
+ * el separador, saltos de línea y comillas escapadas como `""`.
+ */
+export function parseCsv(text: string, delimiter = ','): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let cells: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"' && field === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      cells.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      cells.push(field)
+      records.push({ line: recordLine, cells })
+      cells = []
+      field = ''
+      line++
+      recordLine = line
+    } else {
+      field += ch
+    }
+  }
+
+  if (field !== '' || cells.length > 0) {
+    cells.push(field)
+    records.push({ line: recordLine, cells })
+  }
+
+  return records
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/** Elige el separador más frecuente en la primera línea */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const candidates = [',', ';', '\t']
+  const counts = candidates.map(d => firstLine.split(d).length - 1)
+  return candidates[counts.indexOf(Math.max(...counts))]
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+}
+
+/** Índice de columna de cada campo: primero el mapeo explícito, después los alias */
+function resolveColumns(headers: string[], mapping: CsvColumnMapping): Partial<Record<CsvField, number>> {
+  const normalized = headers.map(normalizeHeader)
+  const columns: Partial<Record<CsvField, number>> = {}
+
+  for (const field of Object.keys(DEFAULT_CSV_HEADER_ALIASES) as CsvField[]) {
+    const explicit = mapping[field]
+    const candidates = explicit !== undefined ? [explicit] : DEFAULT_CSV_HEADER_ALIASES[field]
+    const index = normalized.findIndex(h => candidates.some(c => normalizeHeader(c) === h))
+    if (index !== -1) columns[field] = index
+  }
+
+  return columns
+}
+
+function parseNumber(raw: string, decimalSeparator: '.' | ','): number | undefined {
+  if (raw.includes(decimalSeparator === '.' ? ',' : '.')) return undefined
+  const text = decimalSeparator === ',' ? raw.replace(',', '.') : raw
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return undefined
+  return Number(text)
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', 'si', 's', '1', 'x']
+const FALSE_VALUES = ['false', 'no', 'n', '0']
+
+function parseBoolean(raw: string): boolean | undefined {
+  const value = normalizeHeader(raw)
+  if (TRUE_VALUES.includes(value)) return true
+  if (FALSE_VALUES.includes(value)) return false
+  return undefined
+}
+
+function optionalText(key: 'sku' | 'product' | 'type' | 'color', value: string): Partial<Box> {
+  return value === '' ? {} : { [key]: value }
+}
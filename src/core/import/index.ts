@@ -0,0 +1,19 @@
+/**
+ * Import barrel export
+ */
+
+export {
+  importBoxesFromCsv,
+  parseCsv,
+  LengthUnit,
+  WeightUnit,
+  DEFAULT_CSV_HEADER_ALIASES,
+} from './csv'
+export type {
+  CsvField,
+  CsvColumnMapping,
+  CsvImportOptions,
+  CsvImportResult,
+  CsvRowError,
+  CsvRecord,
+} from './csv'
@@ -19,3 +19,30 @@ export * from './packing'
 
 // Factories
 export * from './factories'
+
+// Serialization
+export * from './serialization'
+
+// Import
+export * from './import'
+
+// Report
+export * from './report'
+
+// Sequence
+export * from './sequence'
+
+// Spatial index
+export * from './spatial'
+
+// Support graph
+export * from './support'
+
+// Load securing
+export * from './securing'
+
+// Racking
+export * from './racking'
+
+// Accessibility
+export * from './accessibility'
@@ -5,9 +5,12 @@
 import type { Box } from '../entities/Box'
 import type { Pallet } from '../entities/Pallet'
 import type { PlacedBox } from '../entities/PlacedBox'
-import type { PackingStrategy, PackingResult } from './PackingStrategy'
+import type { PackingStrategy, PackingResult, PackingOptions } from './PackingStrategy'
 import { calculateCenterOfGravity, calculateStabilityScore } from '../validation/stability'
 import { getBoxBoundingBox, aabbIntersects } from '../validation/collision'
+import { SpatialGrid } from '../spatial/SpatialGrid'
+import { getRestingOrientations } from './orientations'
+import { applySupportGraph } from '../support/graph'
 
 interface Space {
   x: number
@@ -22,7 +25,7 @@ export class BinPacking3DStrategy implements PackingStrategy {
   readonly id = 'bin-packing-3d'
   readonly name = 'Bin Packing 3D (FFD Height)'
 
-  pack(boxes: Box[], pallet: Pallet): PackingResult {
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult {
     const placements: PlacedBox[] = []
     const unplacedBoxes: Box[] = []
 
@@ -46,16 +49,21 @@ export class BinPacking3DStrategy implements PackingStrategy {
     ]
 
     let placementId = 0
+    const placedIndex = new SpatialGrid<PlacedBox>()
 
-    for (const box of sorted) {
+    for (const [i, box] of sorted.entries()) {
+      options?.signal?.throwIfAborted()
+      options?.onProgress?.({ processed: i, total: sorted.length })
       let placed = false
 
       // Intentar colocar en cada espacio libre
-      // Probar orientaciones: normal y rotada 90° en Y
-      const orientations = [
-        { w: box.dimensions.width, h: box.dimensions.height, d: box.dimensions.depth, rot: 0 as const },
-        { w: box.dimensions.depth, h: box.dimensions.height, d: box.dimensions.width, rot: 90 as const },
-      ]
+      // Probar orientaciones: normal y rotada 90° en planta (respetando las permitidas)
+      const orientations = getRestingOrientations(box).map(o => ({
+        w: o.dimensions.width,
+        h: o.dimensions.height,
+        d: o.dimensions.depth,
+        rotation: o.rotation,
+      }))
 
       for (let si = 0; si < spaces.length && !placed; si++) {
         const space = spaces[si]
@@ -66,19 +74,18 @@ export class BinPacking3DStrategy implements PackingStrategy {
               id: `placed-${++placementId}`,
               box,
               position: { x: space.x, y: space.y, z: space.z },
-              rotation: { x: 0, y: ori.rot, z: 0 },
+              rotation: { ...ori.rotation },
               supportedBy: [],
               supporting: [],
             }
 
             // Verificar colisiones con colocaciones existentes
             const newBB = getBoxBoundingBox(newPlacement)
-            const collides = placements.some(existing =>
-              aabbIntersects(getBoxBoundingBox(existing), newBB),
-            )
+            const collides = placedIndex.some(newBB, (_, bb) => aabbIntersects(bb, newBB))
 
             if (!collides) {
               placements.push(newPlacement)
+              placedIndex.insert(newPlacement, newBB)
               placed = true
 
               // Subdividir espacio restante (3 nuevos espacios)
@@ -131,6 +138,8 @@ export class BinPacking3DStrategy implements PackingStrategy {
       }
     }
 
+    options?.onProgress?.({ processed: sorted.length, total: sorted.length })
+
     // Métricas
     const palletVolume = pallet.dimensions.width * pallet.maxStackHeight * pallet.dimensions.depth
     const usedVolume = placements.reduce((s, pb) => {
@@ -140,7 +149,7 @@ export class BinPacking3DStrategy implements PackingStrategy {
     const totalWeight = placements.reduce((s, pb) => s + pb.box.weight, 0)
 
     return {
-      placements,
+      placements: applySupportGraph(placements),
       metrics: {
         volumeUtilization: palletVolume > 0 ? usedVolume / palletVolume : 0,
         weightUtilization: pallet.maxWeight > 0 ? totalWeight / pallet.maxWeight : 0,
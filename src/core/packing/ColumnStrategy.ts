@@ -5,14 +5,17 @@
 import type { Box } from '../entities/Box'
 import type { Pallet } from '../entities/Pallet'
 import type { PlacedBox } from '../entities/PlacedBox'
-import type { PackingStrategy, PackingResult } from './PackingStrategy'
+import type { PackingStrategy, PackingResult, PackingOptions } from './PackingStrategy'
 import { calculateCenterOfGravity, calculateStabilityScore } from '../validation/stability'
+import { isOrientationAllowed } from '../validation/orientation'
+import { getRestingOrientations } from './orientations'
+import { applySupportGraph } from '../support/graph'
 
 export class ColumnStrategy implements PackingStrategy {
   readonly id = 'column'
   readonly name = 'Columnas por tipo'
 
-  pack(boxes: Box[], pallet: Pallet): PackingResult {
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult {
     const placements: PlacedBox[] = []
     const unplacedBoxes: Box[] = []
 
@@ -28,11 +31,18 @@ export class ColumnStrategy implements PackingStrategy {
     let placementId = 0
 
     for (const [, groupBoxes] of groups) {
+      options?.signal?.throwIfAborted()
+      options?.onProgress?.({ processed: placements.length + unplacedBoxes.length, total: boxes.length })
       if (groupBoxes.length === 0) continue
       const refBox = groupBoxes[0]
-      const colWidth = refBox.dimensions.width
-      const colDepth = refBox.dimensions.depth
-      const boxHeight = refBox.dimensions.height
+      const [orientation] = getRestingOrientations(refBox)
+      if (!orientation) {
+        unplacedBoxes.push(...groupBoxes)
+        continue
+      }
+      const colWidth = orientation.dimensions.width
+      const colDepth = orientation.dimensions.depth
+      const boxHeight = orientation.dimensions.height
 
       // ¿Cabe una nueva columna en X?
       if (cursorX + colWidth > pallet.dimensions.width) {
@@ -47,6 +57,13 @@ export class ColumnStrategy implements PackingStrategy {
       while (boxIdx < groupBoxes.length) {
         const box = groupBoxes[boxIdx]
 
+        // Todas las cajas de la columna comparten la orientación de la primera
+        if (!isOrientationAllowed(box, orientation.rotation)) {
+          unplacedBoxes.push(box)
+          boxIdx++
+          continue
+        }
+
         // ¿Cabe en Z?
         if (cursorZ + colDepth > pallet.dimensions.depth) {
           // Nueva capa vertical
@@ -64,7 +81,7 @@ export class ColumnStrategy implements PackingStrategy {
           id: `placed-${++placementId}`,
           box,
           position: { x: cursorX, y: cursorY, z: cursorZ },
-          rotation: { x: 0, y: 0, z: 0 },
+          rotation: { ...orientation.rotation },
           supportedBy: [],
           supporting: [],
         })
@@ -76,6 +93,8 @@ export class ColumnStrategy implements PackingStrategy {
       cursorX += colWidth
     }
 
+    options?.onProgress?.({ processed: boxes.length, total: boxes.length })
+
     // Métricas
     const palletVolume = pallet.dimensions.width * pallet.maxStackHeight * pallet.dimensions.depth
     const usedVolume = placements.reduce((s, pb) => {
@@ -88,7 +107,7 @@ export class ColumnStrategy implements PackingStrategy {
     const stability = calculateStabilityScore(pallet, placements)
 
     return {
-      placements,
+      placements: applySupportGraph(placements),
       metrics: {
         volumeUtilization: palletVolume > 0 ? usedVolume / palletVolume : 0,
         weightUtilization: pallet.maxWeight > 0 ? totalWeight / pallet.maxWeight : 0,
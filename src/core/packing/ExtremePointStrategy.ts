@@ -0,0 +1,344 @@
+/**
+ * ExtremePointStrategy — Empaquetado 3D por puntos extremos con función de mérito
+ *
+ * Pensada para palets mixtos (muchos SKUs de tamaños distintos), donde la subdivisión
+ * en tres espacios de BinPacking3D deja huecos grandes:
+ *
+ * - Los candidatos de colocación son "puntos extremos" (Crainic, Perboli & Tadei, 2008):
+ *   las esquinas de cada caja colocada y sus proyecciones sobre las cajas ya colocadas o
+ *   sobre los límites del palet. Así los huecos entre cajas de distinta medida siguen
+ *   siendo aprovechables.
+ * - Se prueban las seis orientaciones ortogonales de cada caja.
+ * - Una posición solo es válida si al menos MIN_SUPPORT_PERCENTAGE de la base queda apoyada
+ *   (BR-004), no apoya sobre cajas no apilables (BR-201) y no supera el peso máximo del palet.
+ * - Entre las posiciones válidas se elige la de menor mérito, comparando en orden:
+ *   1. Altura resultante (techo de la caja) — construye capas bajas y estables
+ *   2. Superficie de contacto con paredes y cajas vecinas (mayor es mejor)
+ *   3. Cercanía al origen (fondo-izquierda)
+ */
+
+import type { Box } from '../entities/Box'
+import type { Pallet } from '../entities/Pallet'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { BoundingBox } from '../types'
+import type { PackingStrategy, PackingResult, PackingOptions } from './PackingStrategy'
+import type { BoxOrientation } from './orientations'
+import { getBoxOrientations } from './orientations'
+import { calculateCenterOfGravity, calculateStabilityScore } from '../validation/stability'
+import { getBoxBoundingBox, aabbIntersects } from '../validation/collision'
+import { MIN_SUPPORT_PERCENTAGE } from '../constants'
+import { SpatialGrid, expandBounds } from '../spatial/SpatialGrid'
+import { applySupportGraph } from '../support/graph'
+
+interface ExtremePoint {
+  x: number
+  y: number
+  z: number
+}
+
+interface Candidate {
+  point: ExtremePoint
+  orientation: BoxOrientation
+  /** [altura resultante, -contacto, z, x] — se compara lexicográficamente */
+  merit: number[]
+}
+
+/** Tolerancia (mm) para considerar que dos caras están en contacto */
+const CONTACT_TOLERANCE = 1
+
+export class ExtremePointStrategy implements PackingStrategy {
+  readonly id = 'extreme-point'
+  readonly name = 'Extreme Points 3D (6 orientaciones)'
+
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult {
+    const placements: PlacedBox[] = []
+    const bounds: BoundingBox[] = []
+    /** Índice espacial de `bounds` (cada elemento es su posición en el array) */
+    const index = new SpatialGrid<number>()
+    const unplacedBoxes: Box[] = []
+    let points: ExtremePoint[] = [{ x: 0, y: 0, z: 0 }]
+    let totalWeight = 0
+    let placementId = 0
+
+    // Volumen descendente, luego base y peso: las cajas grandes y pesadas forman la base
+    const sorted = [...boxes].sort((a, b) => {
+      const va = a.dimensions.width * a.dimensions.height * a.dimensions.depth
+      const vb = b.dimensions.width * b.dimensions.height * b.dimensions.depth
+      if (va !== vb) return vb - va
+      const aa = a.dimensions.width * a.dimensions.depth
+      const ab = b.dimensions.width * b.dimensions.depth
+      if (aa !== ab) return ab - aa
+      return b.weight - a.weight
+    })
+
+    for (const [i, box] of sorted.entries()) {
+      options?.signal?.throwIfAborted()
+      options?.onProgress?.({ processed: i, total: sorted.length })
+      if (totalWeight + box.weight > pallet.maxWeight) {
+        unplacedBoxes.push(box)
+        continue
+      }
+
+      const best = this.findBestCandidate(box, points, placements, bounds, index, pallet)
+      if (!best) {
+        unplacedBoxes.push(box)
+        continue
+      }
+
+      const placement: PlacedBox = {
+        id: `placed-${++placementId}`,
+        box,
+        position: { x: best.point.x, y: best.point.y, z: best.point.z },
+        rotation: best.orientation.rotation,
+        supportedBy: [],
+        supporting: [],
+      }
+      const bb = getBoxBoundingBox(placement)
+
+      placements.push(placement)
+      bounds.push(bb)
+      index.insert(bounds.length - 1, bb)
+      totalWeight += box.weight
+      points = this.updateExtremePoints(points, bb, bounds, index, pallet)
+    }
+
+    options?.onProgress?.({ processed: sorted.length, total: sorted.length })
+
+    // Métricas
+    const palletVolume = pallet.dimensions.width * pallet.maxStackHeight * pallet.dimensions.depth
+    const usedVolume = placements.reduce((s, pb) => {
+      const d = pb.box.dimensions
+      return s + d.width * d.height * d.depth
+    }, 0)
+
+    return {
+      placements: applySupportGraph(placements),
+      metrics: {
+        volumeUtilization: palletVolume > 0 ? usedVolume / palletVolume : 0,
+        weightUtilization: pallet.maxWeight > 0 ? totalWeight / pallet.maxWeight : 0,
+        centerOfGravity: calculateCenterOfGravity(placements),
+        stabilityScore: calculateStabilityScore(pallet, placements),
+      },
+      unplacedBoxes,
+    }
+  }
+
+  // ─── Selección de posición ─────────────────────────────────────
+
+  /** Evalúa todos los pares (punto extremo, orientación) y devuelve el de menor mérito */
+  private findBestCandidate(
+    box: Box,
+    points: ExtremePoint[],
+    placements: PlacedBox[],
+    bounds: BoundingBox[],
+    index: SpatialGrid<number>,
+    pallet: Pallet,
+  ): Candidate | null {
+    const orientations = getBoxOrientations(box)
+    const minHeight = Math.min(...orientations.map(o => o.dimensions.height))
+    let best: Candidate | null = null
+
+    // Los puntos están ordenados por Y: en cuanto ni la orientación más baja puede
+    // mejorar la altura del mejor candidato, el resto tampoco puede
+    for (const point of points) {
+      if (best && point.y + minHeight > best.merit[0]) break
+
+      for (const orientation of orientations) {
+        const { width: w, height: h, depth: d } = orientation.dimensions
+        if (
+          point.x + w > pallet.dimensions.width ||
+          point.y + h > pallet.maxStackHeight ||
+          point.z + d > pallet.dimensions.depth
+        ) {
+          continue
+        }
+        if (best && point.y + h > best.merit[0]) continue
+
+        const bb: BoundingBox = {
+          minX: point.x, maxX: point.x + w,
+          minY: point.y, maxY: point.y + h,
+          minZ: point.z, maxZ: point.z + d,
+        }
+
+        if (index.some(bb, (_, other) => aabbIntersects(other, bb))) continue
+        if (!this.isSupported(bb, placements, bounds, index)) continue
+
+        const merit = [bb.maxY, -this.contactArea(bb, bounds, index, pallet), bb.minZ, bb.minX]
+        if (!best || compareMerit(merit, best.merit) < 0) {
+          best = { point, orientation, merit }
+        }
+      }
+    }
+
+    return best
+  }
+
+  /** BR-004 + BR-201: soporte suficiente y solo sobre cajas apilables */
+  private isSupported(
+    bb: BoundingBox,
+    placements: PlacedBox[],
+    bounds: BoundingBox[],
+    index: SpatialGrid<number>,
+  ): boolean {
+    if (bb.minY <= CONTACT_TOLERANCE) return true
+
+    const baseArea = (bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)
+    let supportedArea = 0
+
+    for (const i of index.query({ ...bb, minY: bb.minY - CONTACT_TOLERANCE, maxY: bb.minY + CONTACT_TOLERANCE })) {
+      const below = bounds[i]
+      if (Math.abs(below.maxY - bb.minY) > CONTACT_TOLERANCE) continue
+
+      const overlap = overlapLength(bb.minX, bb.maxX, below.minX, below.maxX) *
+        overlapLength(bb.minZ, bb.maxZ, below.minZ, below.maxZ)
+      if (overlap <= 0) continue
+      if (!placements[i].box.stackable) return false
+      supportedArea += overlap
+    }
+
+    return baseArea > 0 && supportedArea / baseArea >= MIN_SUPPORT_PERCENTAGE
+  }
+
+  /** Superficie (mm²) de las caras de la caja que tocan el palet, sus bordes o cajas vecinas */
+  private contactArea(bb: BoundingBox, bounds: BoundingBox[], index: SpatialGrid<number>, pallet: Pallet): number {
+    const w = bb.maxX - bb.minX
+    const h = bb.maxY - bb.minY
+    const d = bb.maxZ - bb.minZ
+    let area = 0
+
+    // Suelo del palet y bordes (los bordes actúan como guía de alineación)
+    if (bb.minY <= CONTACT_TOLERANCE) area += w * d
+    if (bb.minX <= CONTACT_TOLERANCE) area += h * d
+    if (bb.maxX >= pallet.dimensions.width - CONTACT_TOLERANCE) area += h * d
+    if (bb.minZ <= CONTACT_TOLERANCE) area += h * w
+    if (bb.maxZ >= pallet.dimensions.depth - CONTACT_TOLERANCE) area += h * w
+
+    for (const i of index.query(expandBounds(bb, CONTACT_TOLERANCE))) {
+      const other = bounds[i]
+      const ox = overlapLength(bb.minX, bb.maxX, other.minX, other.maxX)
+      const oy = overlapLength(bb.minY, bb.maxY, other.minY, other.maxY)
+      const oz = overlapLength(bb.minZ, bb.maxZ, other.minZ, other.maxZ)
+
+      if (touches(bb.minX, bb.maxX, other.minX, other.maxX)) area += oy * oz
+      if (touches(bb.minY, bb.maxY, other.minY, other.maxY)) area += ox * oz
+      if (touches(bb.minZ, bb.maxZ, other.minZ, other.maxZ)) area += ox * oy
+    }
+
+    return area
+  }
+
+  // ─── Puntos extremos ───────────────────────────────────────────
+
+  /**
+   * Genera los nuevos puntos extremos tras colocar una caja y elimina los que han
+   * quedado dentro de ella. Por cada esquina (derecha, arriba, detrás) se añade la propia
+   * esquina y sus proyecciones sobre los dos ejes restantes.
+   */
+  private updateExtremePoints(
+    points: ExtremePoint[],
+    placed: BoundingBox,
+    bounds: BoundingBox[],
+    index: SpatialGrid<number>,
+    pallet: Pallet,
+  ): ExtremePoint[] {
+    const right = { x: placed.maxX, y: placed.minY, z: placed.minZ }
+    const top = { x: placed.minX, y: placed.maxY, z: placed.minZ }
+    const behind = { x: placed.minX, y: placed.minY, z: placed.maxZ }
+
+    const generated: ExtremePoint[] = [
+      right,
+      { ...right, y: projectDown(right, bounds) },
+      { ...right, z: projectBack(right, bounds) },
+      top,
+      { ...top, x: projectLeft(top, bounds) },
+      { ...top, z: projectBack(top, bounds) },
+      behind,
+      { ...behind, x: projectLeft(behind, bounds) },
+      { ...behind, y: projectDown(behind, bounds) },
+    ]
+
+    const seen = new Set<string>()
+    const result: ExtremePoint[] = []
+
+    for (const p of [...points, ...generated]) {
+      if (
+        p.x >= pallet.dimensions.width ||
+        p.y >= pallet.maxStackHeight ||
+        p.z >= pallet.dimensions.depth
+      ) {
+        continue
+      }
+      const at = { minX: p.x, maxX: p.x, minY: p.y, maxY: p.y, minZ: p.z, maxZ: p.z }
+      if (index.some(at, (_, bb) => containsPoint(bb, p))) continue
+
+      const key = `${p.x},${p.y},${p.z}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      result.push(p)
+    }
+
+    return result.sort((a, b) => a.y - b.y || a.z - b.z || a.x - b.x)
+  }
+}
+
+// ─── Helpers geométricos ─────────────────────────────────────────
+
+function compareMerit(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+function overlapLength(minA: number, maxA: number, minB: number, maxB: number): number {
+  return Math.max(0, Math.min(maxA, maxB) - Math.max(minA, minB))
+}
+
+/** Las caras perpendiculares a un eje están en contacto (una termina donde empieza la otra) */
+function touches(minA: number, maxA: number, minB: number, maxB: number): boolean {
+  return Math.abs(minA - maxB) <= CONTACT_TOLERANCE || Math.abs(maxA - minB) <= CONTACT_TOLERANCE
+}
+
+function containsPoint(bb: BoundingBox, p: ExtremePoint): boolean {
+  return (
+    p.x >= bb.minX && p.x < bb.maxX &&
+    p.y >= bb.minY && p.y < bb.maxY &&
+    p.z >= bb.minZ && p.z < bb.maxZ
+  )
+}
+
+/** Desplaza el punto en -Y hasta la primera cara superior que encuentre (o el suelo) */
+function projectDown(p: ExtremePoint, bounds: BoundingBox[]): number {
+  let y = 0
+  for (const bb of bounds) {
+    if (bb.maxY <= p.y && bb.maxY > y &&
+      p.x >= bb.minX && p.x < bb.maxX && p.z >= bb.minZ && p.z < bb.maxZ) {
+      y = bb.maxY
+    }
+  }
+  return y
+}
+
+/** Desplaza el punto en -X hasta la primera cara lateral que encuentre (o el borde) */
+function projectLeft(p: ExtremePoint, bounds: BoundingBox[]): number {
+  let x = 0
+  for (const bb of bounds) {
+    if (bb.maxX <= p.x && bb.maxX > x &&
+      p.y >= bb.minY && p.y < bb.maxY && p.z >= bb.minZ && p.z < bb.maxZ) {
+      x = bb.maxX
+    }
+  }
+  return x
+}
+
+/** Desplaza el punto en -Z hasta la primera cara frontal que encuentre (o el borde) */
+function projectBack(p: ExtremePoint, bounds: BoundingBox[]): number {
+  let z = 0
+  for (const bb of bounds) {
+    if (bb.maxZ <= p.z && bb.maxZ > z &&
+      p.x >= bb.minX && p.x < bb.maxX && p.y >= bb.minY && p.y < bb.maxY) {
+      z = bb.maxZ
+    }
+  }
+  return z
+}
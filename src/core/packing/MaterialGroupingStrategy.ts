@@ -51,11 +51,18 @@
 import type { Box } from "../entities/Box";
 import type { Pallet } from "../entities/Pallet";
 import type { PlacedBox } from "../entities/PlacedBox";
-import type { PackingStrategy, PackingResult } from "./PackingStrategy";
+import type {
+  PackingStrategy,
+  PackingResult,
+  PackingOptions,
+} from "./PackingStrategy";
 import {
   calculateCenterOfGravity,
   calculateStabilityScore,
 } from "../validation/stability";
+import { getRestingOrientations } from "./orientations";
+import { applySupportGraph } from "../support/graph";
+import type { BoxOrientation } from "./orientations";
 
 // ─── Auxiliary Interfaces ────────────────────────────────────────────
 
@@ -111,34 +118,52 @@ export class MaterialGroupingStrategy implements PackingStrategy {
    *
    * @param boxes - Boxes to pack
    * @param pallet - Target pallet
+   * @param options - Progress callback and abort signal (checked between layers)
    * @returns Packing result with placements and metrics
    */
-  pack(boxes: Box[], pallet: Pallet): PackingResult {
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult {
     if (boxes.length === 0) {
       return this.emptyResult();
     }
 
+    // Boxes that may not stand upright are packed using their resting dimensions
+    const resting = new Map<string, { box: Box; orientations: BoxOrientation[] }>();
+    const packableBoxes: Box[] = [];
+    for (const box of boxes) {
+      const orientations = getRestingOrientations(box);
+      if (orientations.length === 0) continue;
+      resting.set(box.id, { box, orientations });
+      packableBoxes.push({ ...box, dimensions: orientations[0].dimensions });
+    }
+
     // Phase 1: Sort boxes by material weight, product, and dimensions
-    const sortedBoxes = this.sortBoxes(boxes);
+    const sortedBoxes = this.sortBoxes(packableBoxes);
 
     // Phase 2: Group by material weight
     const materialGroups = this.groupByMaterialWeight(sortedBoxes);
 
     // Phase 3: Build layers from bottom to top
-    const layers = this.buildLayers(materialGroups, pallet);
+    const layers = this.buildLayers(materialGroups, pallet, {
+      ...options,
+      total: boxes.length,
+    });
 
-    // Phase 4: Convert layers to placements
-    const placements = layers.flatMap((layer) => layer.placements);
+    // Phase 4: Convert layers to placements (restoring the original box and rotation)
+    const placements = layers
+      .flatMap((layer) => layer.placements)
+      .map((p) => this.restoreOrientation(p, resting));
 
     // Phase 5: Calculate metrics
     const unplacedBoxes = boxes.filter(
       (box) => !placements.some((p) => p.box.id === box.id),
     );
 
+    options?.onProgress?.({ processed: boxes.length, total: boxes.length });
+
     const metrics = this.calculateMetrics(placements, pallet);
 
     return {
-      placements,
+      placements: applySupportGraph(placements),
       metrics,
       unplacedBoxes,
     };
@@ -212,11 +237,13 @@ export class MaterialGroupingStrategy implements PackingStrategy {
    *
    * @param materialGroups - Boxes grouped by material weight
    * @param pallet - Target pallet
+   * @param options - Progress reporting (relative to `total` boxes) and abort signal
    * @returns Array of layers
    */
   private buildLayers(
     materialGroups: Map<number, Box[]>,
     pallet: Pallet,
+    options: PackingOptions & { total: number },
   ): Layer[] {
     const layers: Layer[] = [];
     const occupiedColumns = new Map<string, string>(); // "x,z" → product
@@ -229,6 +256,7 @@ export class MaterialGroupingStrategy implements PackingStrategy {
 
       // Build layers until all boxes of this material are placed
       while (remainingBoxes.length > 0) {
+        options.signal?.throwIfAborted();
         const layer = this.buildNextLayer(
           remainingBoxes,
           pallet,
@@ -244,6 +272,10 @@ export class MaterialGroupingStrategy implements PackingStrategy {
 
         layers.push(layer);
         allPlacements.push(...layer.placements); // Add new placements to history
+        options.onProgress?.({
+          processed: allPlacements.length,
+          total: options.total,
+        });
         currentY += layer.height;
 
         // Remove placed boxes from remaining
@@ -986,6 +1018,24 @@ export class MaterialGroupingStrategy implements PackingStrategy {
     };
   }
 
+  /**
+   * Maps a placement of a resting-dimension box back to the original box,
+   * turning its plan rotation into the matching full orientation
+   *
+   * @param placement - Placement computed with resting dimensions
+   * @param resting - Original boxes and their resting orientations by id
+   * @returns Placement referencing the original box
+   */
+  private restoreOrientation(
+    placement: PlacedBox,
+    resting: Map<string, { box: Box; orientations: BoxOrientation[] }>,
+  ): PlacedBox {
+    const { box, orientations } = resting.get(placement.box.id)!;
+    const orientation =
+      placement.rotation.y === 90 ? orientations[1] : orientations[0];
+    return { ...placement, box, rotation: { ...orientation.rotation } };
+  }
+
   /**
    * Creates an empty packing result
    */
@@ -13,8 +13,22 @@ export interface PackingResult {
   unplacedBoxes: Box[]
 }
 
+/** Avance del empaquetado: cajas procesadas (colocadas o descartadas) sobre el total */
+export interface PackingProgress {
+  processed: number
+  total: number
+}
+
+/** Opciones de ejecución comunes a todas las estrategias */
+export interface PackingOptions {
+  /** Se invoca a medida que la estrategia procesa cajas */
+  onProgress?: (progress: PackingProgress) => void
+  /** Cancela el empaquetado; se comprueba entre cajas y lanza `signal.reason` */
+  signal?: AbortSignal
+}
+
 export interface PackingStrategy {
   readonly id: string
   readonly name: string
-  pack(boxes: Box[], pallet: Pallet): PackingResult
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult
 }
@@ -0,0 +1,310 @@
+/**
+ * TruckLoadPlanner — Carga automática de StackedPallets en un camión
+ *
+ * Coloca los palets sobre el suelo del camión empezando por el frontal (lado cabina,
+ * z = depth) hacia las puertas (z = 0). Usa puntos extremos en planta y prueba las
+ * rotaciones Y permitidas, de modo que un EUR puede ir 2 en ancho (0°) o 3 en ancho (90°).
+ * Cada posición respeta BR-402/BR-404 (dentro del camión), BR-003 (sin colisiones),
+ * BR-102 (peso máximo del camión) y BR-408 (entra por alguna puerta).
+ *
+ * En frigoríficos deja libre el retorno de aire del equipo de frío (BR-603) y, si hay
+ * compartimentos, coloca cada palet entero en uno cuya consigna admita (BR-602).
+ *
+ * Con `loadOrder: 'delivery'` los palets se cargan por parada de reparto descendente
+ * (la última parada va al frontal) y no se aceptan posiciones que dejen un palet
+ * bloqueado por otro de una parada posterior (BR-407).
+ */
+
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Truck } from '../entities/Truck'
+import type { BoundingBox, ValidationResult } from '../types'
+import { getStackedPalletTotalWeight } from '../entities/StackedPallet'
+import { aabbIntersects, getPalletBoundingBox, validateNoPalletCollisions } from '../validation/collision'
+import { validatePalletInTruck } from '../validation/bounds'
+import { validateTruckWeight } from '../validation/weight'
+import { isBlockingUnload, validateDeliveryOrder } from '../validation/delivery'
+import { findLoadingDoors, validateDoorAccess } from '../validation/doors'
+import {
+  blocksReeferAirflow,
+  findTemperatureZone,
+  getStackTemperatureRange,
+  isTemperatureCompatible,
+  validateTemperatureZones,
+} from '../validation/temperature'
+import { isRefrigerated } from '../entities/Truck'
+import { REEFER_AIRFLOW_GAP } from '../constants'
+
+/**
+ * Orden en que se cargan los palets:
+ * - `footprint`: huella descendente (máximo aprovechamiento del suelo)
+ * - `delivery`: parada de reparto descendente, para descargar en orden LIFO por las puertas
+ */
+export type TruckLoadOrder = 'footprint' | 'delivery'
+
+export interface TruckLoadOptions {
+  truck: Truck
+  pallets: StackedPallet[]
+  /** Rotaciones Y que puede probar el planificador (por defecto 0° y 90°) */
+  allowedRotations?: PlacedPallet['yRotation'][]
+  /** Holgura (mm) entre palets contiguos */
+  gap?: number
+  /** Orden de carga (por defecto `footprint`) */
+  loadOrder?: TruckLoadOrder
+}
+
+export interface TruckLoadResult {
+  /** Camión con los palets ya existentes más los colocados */
+  truck: Truck
+  /** Palets colocados por el planificador */
+  placedPallets: PlacedPallet[]
+  /** Palets que no caben (espacio, altura o peso) */
+  unfitPallets: StackedPallet[]
+  /** BR-402/404, BR-003, BR-102, BR-407, BR-408 y BR-602 sobre el camión resultante */
+  validation: ValidationResult
+}
+
+/** Punto candidato en planta: x = ancho, u = distancia desde el frontal */
+interface FloorPoint {
+  x: number
+  u: number
+}
+
+interface Candidate {
+  placed: PlacedPallet
+  bb: BoundingBox
+  /** [fondo ocupado desde el frontal, x] — se compara lexicográficamente */
+  merit: [number, number]
+}
+
+/** Palets colocados de paradas posteriores (no pueden bloquear al nuevo) y anteriores (no pueden quedar bloqueados) */
+interface StopBounds {
+  later: BoundingBox[]
+  earlier: BoundingBox[]
+}
+
+const NO_STOPS: StopBounds = { later: [], earlier: [] }
+
+export class TruckLoadPlanner {
+  /**
+   * Planifica la carga de palets en un camión.
+   * Los palets se ordenan según `loadOrder`; los que ya estaban en
+   * `truck.pallets` se respetan como obstáculos.
+   *
+   * @param options Opciones de planificación
+   * @returns Camión cargado, palets colocados y palets que no caben
+   */
+  static plan(options: TruckLoadOptions): TruckLoadResult {
+    const { truck, pallets, allowedRotations = [0, 90], gap = 0, loadOrder = 'footprint' } = options
+
+    const placedPallets: PlacedPallet[] = []
+    const unfitPallets: StackedPallet[] = []
+    const bounds = truck.pallets.map(getPalletBoundingBox)
+    const stops = truck.pallets.map(pp => pp.stackedPallet.deliveryStop)
+    let totalWeight = truck.pallets.reduce(
+      (sum, pp) => sum + getStackedPalletTotalWeight(pp.stackedPallet),
+      0,
+    )
+    let points = TruckLoadPlanner.initialPoints(truck)
+    for (const bb of bounds) points = TruckLoadPlanner.addPoints(points, bb, bounds, truck, gap)
+
+    const sorted = [...pallets].sort((a, b) =>
+      (loadOrder === 'delivery' ? loadingRank(b) - loadingRank(a) : 0) || footprintArea(b) - footprintArea(a),
+    )
+
+    for (const stack of sorted) {
+      const weight = getStackedPalletTotalWeight(stack)
+      if (totalWeight + weight > truck.maxWeight) {
+        unfitPallets.push(stack)
+        continue
+      }
+
+      const id = `${truck.id}:p${truck.pallets.length + placedPallets.length}`
+      const stopBounds = loadOrder === 'delivery' ? TruckLoadPlanner.splitByStop(stack, bounds, stops) : NO_STOPS
+      const best = TruckLoadPlanner.findBestCandidate(id, stack, points, bounds, truck, allowedRotations, stopBounds)
+      if (!best) {
+        unfitPallets.push(stack)
+        continue
+      }
+
+      placedPallets.push(best.placed)
+      bounds.push(best.bb)
+      stops.push(stack.deliveryStop)
+      totalWeight += weight
+      points = TruckLoadPlanner.addPoints(points, best.bb, bounds, truck, gap)
+    }
+
+    const loadedTruck: Truck = { ...truck, pallets: [...truck.pallets, ...placedPallets] }
+    const violations = [
+      ...loadedTruck.pallets.flatMap(pp => validatePalletInTruck(pp, loadedTruck).violations),
+      ...validateNoPalletCollisions(loadedTruck.pallets).violations,
+      ...validateTruckWeight(loadedTruck).violations,
+      ...validateDeliveryOrder(loadedTruck).violations,
+      ...validateDoorAccess(loadedTruck).violations,
+      ...validateTemperatureZones(loadedTruck).violations,
+    ]
+
+    return {
+      truck: loadedTruck,
+      placedPallets,
+      unfitPallets,
+      validation: {
+        isValid: violations.every(v => v.severity !== 'error'),
+        violations,
+      },
+    }
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────────────
+
+  private static findBestCandidate(
+    id: string,
+    stack: StackedPallet,
+    points: FloorPoint[],
+    bounds: BoundingBox[],
+    truck: Truck,
+    rotations: PlacedPallet['yRotation'][],
+    stopBounds: StopBounds,
+  ): Candidate | null {
+    let best: Candidate | null = null
+    const temperature = getStackTemperatureRange(stack)
+
+    for (const yRotation of rotations) {
+      // Huella con la rotación aplicada, para convertir esquina deseada → position
+      const origin = getPalletBoundingBox({ id, stackedPallet: stack, position: { x: 0, y: 0, z: 0 }, yRotation })
+      const footprintDepth = origin.maxZ - origin.minZ
+
+      for (const point of points) {
+        const minZ = truck.dimensions.depth - point.u - footprintDepth
+        const placed: PlacedPallet = {
+          id,
+          stackedPallet: stack,
+          position: {
+            x: roundMm(point.x - origin.minX),
+            y: 0,
+            z: roundMm(minZ - origin.minZ),
+          },
+          yRotation,
+        }
+
+        if (!validatePalletInTruck(placed, truck).isValid) continue
+        if (findLoadingDoors(placed, truck).length === 0) continue
+        if (blocksReeferAirflow(placed, truck)) continue
+        if (truck.temperatureZones?.length) {
+          const zone = findTemperatureZone(placed, truck)
+          if (!zone || (temperature && !isTemperatureCompatible(temperature, zone.setpoint))) continue
+        }
+        const bb = getPalletBoundingBox(placed)
+        if (bounds.some(other => aabbIntersects(bb, other))) continue
+        if (stopBounds.later.some(other => isBlockingUnload(other, bb))) continue
+        if (stopBounds.earlier.some(other => isBlockingUnload(bb, other))) continue
+
+        const merit: [number, number] = [truck.dimensions.depth - bb.minZ, bb.minX]
+        if (!best || merit[0] < best.merit[0] || (merit[0] === best.merit[0] && merit[1] < best.merit[1])) {
+          best = { placed, bb, merit }
+        }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Puntos de partida: el frontal (o el borde del retorno de aire del equipo de frío)
+   * y el frontal de cada compartimento de temperatura
+   */
+  private static initialPoints(truck: Truck): FloorPoint[] {
+    const front = isRefrigerated(truck) ? REEFER_AIRFLOW_GAP : 0
+    const zoneFronts = (truck.temperatureZones ?? []).map(zone => truck.dimensions.depth - zone.endZ)
+    const us = [...new Set([0, ...zoneFronts].map(u => Math.max(u, front)))]
+    return us.sort((a, b) => a - b).map(u => ({ x: 0, u }))
+  }
+
+  /** Separa los palets ya colocados en paradas posteriores y anteriores a la de `stack` */
+  private static splitByStop(
+    stack: StackedPallet,
+    bounds: BoundingBox[],
+    stops: (number | undefined)[],
+  ): StopBounds {
+    const stop = stack.deliveryStop
+    if (stop === undefined) return NO_STOPS
+    return {
+      later: bounds.filter((_, i) => stops[i] !== undefined && stops[i]! > stop),
+      earlier: bounds.filter((_, i) => stops[i] !== undefined && stops[i]! < stop),
+    }
+  }
+
+  /** Añade las esquinas del nuevo palet (y sus proyecciones) como puntos candidatos */
+  private static addPoints(
+    points: FloorPoint[],
+    bb: BoundingBox,
+    bounds: BoundingBox[],
+    truck: Truck,
+    gap: number,
+  ): FloorPoint[] {
+    const depth = truck.dimensions.depth
+    const u0 = depth - bb.maxZ
+    const u1 = depth - bb.minZ
+
+    const next = [
+      ...points,
+      { x: bb.maxX + gap, u: u0 },
+      { x: bb.minX, u: u1 + gap },
+      // Proyecciones hacia el lateral izquierdo y hacia el frontal
+      { x: projectLeft(bb.minX, u1 + gap, bounds, depth, gap), u: u1 + gap },
+      { x: bb.maxX + gap, u: projectFront(bb.maxX + gap, u0, bounds, depth, gap) },
+    ]
+
+    const seen = new Set<string>()
+    return next
+      .filter(p => {
+        if (p.x >= truck.dimensions.width || p.u >= depth) return false
+        const key = `${p.x},${p.u}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        // Descartar puntos que caen dentro de un palet colocado
+        return !bounds.some(b =>
+          p.x >= b.minX && p.x < b.maxX && p.u >= depth - b.maxZ && p.u < depth - b.minZ,
+        )
+      })
+      .sort((a, b) => a.u - b.u || a.x - b.x)
+  }
+}
+
+// ─── Funciones auxiliares ────────────────────────────────────────
+
+function footprintArea(stack: StackedPallet): number {
+  const base = stack.floors[0].pallet.dimensions
+  return base.width * base.depth
+}
+
+/** Parada de reparto para ordenar la carga; sin parada se carga primero (al frontal) */
+function loadingRank(stack: StackedPallet): number {
+  return stack.deliveryStop ?? Infinity
+}
+
+/** Redondea a milésimas de mm para eliminar el ruido de sin/cos */
+function roundMm(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/** Desplaza un punto hacia x = 0 hasta tocar el palet más cercano en su franja */
+function projectLeft(x: number, u: number, bounds: BoundingBox[], depth: number, gap: number): number {
+  let limit = 0
+  for (const b of bounds) {
+    const inBand = u >= depth - b.maxZ && u < depth - b.minZ
+    if (inBand && b.maxX <= x) limit = Math.max(limit, b.maxX + gap)
+  }
+  return Math.min(limit, x)
+}
+
+/** Desplaza un punto hacia el frontal (u = 0) hasta tocar el palet más cercano en su franja */
+function projectFront(x: number, u: number, bounds: BoundingBox[], depth: number, gap: number): number {
+  let limit = 0
+  for (const b of bounds) {
+    const inBand = x >= b.minX && x < b.maxX
+    const bu1 = depth - b.minZ
+    if (inBand && bu1 <= u) limit = Math.max(limit, bu1 + gap)
+  }
+  return Math.min(limit, u)
+}
@@ -5,14 +5,16 @@
 import type { Box } from '../entities/Box'
 import type { Pallet } from '../entities/Pallet'
 import type { PlacedBox } from '../entities/PlacedBox'
-import type { PackingStrategy, PackingResult } from './PackingStrategy'
+import type { PackingStrategy, PackingResult, PackingOptions } from './PackingStrategy'
 import { calculateCenterOfGravity, calculateStabilityScore } from '../validation/stability'
+import { getRestingOrientations } from './orientations'
+import { applySupportGraph } from '../support/graph'
 
 export class TypeGroupStrategy implements PackingStrategy {
   readonly id = 'type-group'
   readonly name = 'Agrupación por tipo'
 
-  pack(boxes: Box[], pallet: Pallet): PackingResult {
+  pack(boxes: Box[], pallet: Pallet, options?: PackingOptions): PackingResult {
     const placements: PlacedBox[] = []
     const unplacedBoxes: Box[] = []
 
@@ -32,10 +34,17 @@ export class TypeGroupStrategy implements PackingStrategy {
     let layerMaxHeight = 0
     let placementId = 0
 
-    for (const box of sorted) {
-      const w = box.dimensions.width
-      const h = box.dimensions.height
-      const d = box.dimensions.depth
+    for (const [i, box] of sorted.entries()) {
+      options?.signal?.throwIfAborted()
+      options?.onProgress?.({ processed: i, total: sorted.length })
+      const [orientation] = getRestingOrientations(box)
+      if (!orientation) {
+        unplacedBoxes.push(box)
+        continue
+      }
+      const w = orientation.dimensions.width
+      const h = orientation.dimensions.height
+      const d = orientation.dimensions.depth
 
       // ¿Cabe en X?
       if (cursorX + w > pallet.dimensions.width) {
@@ -74,7 +83,7 @@ export class TypeGroupStrategy implements PackingStrategy {
         id: `placed-${++placementId}`,
         box,
         position: { x: cursorX, y: cursorY, z: cursorZ },
-        rotation: { x: 0, y: 0, z: 0 },
+        rotation: { ...orientation.rotation },
         supportedBy: [],
         supporting: [],
       })
@@ -83,6 +92,8 @@ export class TypeGroupStrategy implements PackingStrategy {
       layerMaxHeight = Math.max(layerMaxHeight, h)
     }
 
+    options?.onProgress?.({ processed: sorted.length, total: sorted.length })
+
     // Métricas
     const palletVolume = pallet.dimensions.width * pallet.maxStackHeight * pallet.dimensions.depth
     const usedVolume = placements.reduce((s, pb) => {
@@ -92,7 +103,7 @@ export class TypeGroupStrategy implements PackingStrategy {
     const totalWeight = placements.reduce((s, pb) => s + pb.box.weight, 0)
 
     return {
-      placements,
+      placements: applySupportGraph(placements),
       metrics: {
         volumeUtilization: palletVolume > 0 ? usedVolume / palletVolume : 0,
         weightUtilization: pallet.maxWeight > 0 ? totalWeight / pallet.maxWeight : 0,
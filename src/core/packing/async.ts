@@ -0,0 +1,179 @@
+/**
+ * packAsync — Empaquetado asíncrono en un Web Worker con progreso y cancelación
+ *
+ * Ejecuta cualquier estrategia registrada fuera del hilo principal para no bloquear
+ * el canvas. Si no hay soporte de Web Workers (SSR, tests) o se usa un registro propio
+ * sin `createWorker`, la estrategia se ejecuta en el hilo principal con la misma API.
+ */
+
+import type { Box } from '../entities/Box'
+import type { Pallet } from '../entities/Pallet'
+import type { PackingOptions, PackingResult } from './PackingStrategy'
+import type { PackingWorkerRequest, PackingWorkerResponse } from './worker'
+import type { PackingRegistry } from './registry'
+import { defaultRegistry } from './registry'
+
+export interface PackAsyncOptions extends PackingOptions {
+  /** Registro donde buscar la estrategia (por defecto `defaultRegistry`) */
+  registry?: PackingRegistry
+  /**
+   * Crea el worker que ejecutará la estrategia.
+   * Por defecto se usa el worker integrado cuando hay soporte de Web Workers y el registro
+   * es `defaultRegistry`; `null` fuerza la ejecución en el hilo principal.
+   */
+  createWorker?: (() => Worker) | null
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL('./packing.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Empaqueta de forma asíncrona.
+ * La promesa se rechaza con `signal.reason` si se cancela, o con un `Error` si la estrategia falla.
+ *
+ * @example
+ * const controller = new AbortController()
+ * const result = await packAsync('extreme-point', boxes, pallet, {
+ *   signal: controller.signal,
+ *   onProgress: ({ processed, total }) => setProgress(processed / total),
+ * })
+ */
+export function packAsync(
+  strategyId: string,
+  boxes: Box[],
+  pallet: Pallet,
+  options: PackAsyncOptions = {},
+): Promise<PackingResult> {
+  const { registry = defaultRegistry, signal, onProgress } = options
+
+  if (signal?.aborted) return Promise.reject(signal.reason)
+
+  const createWorker = options.createWorker !== undefined
+    ? options.createWorker
+    : registry === defaultRegistry && typeof Worker !== 'undefined'
+      ? createDefaultWorker
+      : null
+
+  if (!createWorker) {
+    return packOnMainThread(registry, strategyId, boxes, pallet, { signal, onProgress })
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = createWorker()
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.onmessage = (event: MessageEvent<PackingWorkerResponse>) => {
+      const message = event.data
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ processed: message.processed, total: message.total })
+          break
+        case 'result':
+          finish()
+          resolve(restoreBoxReferences(message.result, boxes))
+          break
+        case 'error':
+          finish()
+          reject(new Error(message.message))
+          break
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || `Packing worker failed running "${strategyId}"`))
+    }
+
+    const request: PackingWorkerRequest = { type: 'pack', strategyId, boxes, pallet }
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Lanza empaquetados de uno en uno: cada `run` cancela el anterior si seguía en curso.
+ * Las llamadas canceladas (por otra más nueva o con `cancel`) se resuelven con `null`
+ * en lugar de rechazarse; los errores de la estrategia sí se rechazan.
+ *
+ * @example
+ * const runner = new LatestPackingRunner()
+ * const result = await runner.run('extreme-point', boxes, pallet)
+ * if (result) setPlacements(result.placements)
+ */
+export class LatestPackingRunner {
+  private controller: AbortController | null = null
+
+  /** Hay un empaquetado en curso */
+  get isRunning(): boolean {
+    return this.controller !== null
+  }
+
+  async run(
+    strategyId: string,
+    boxes: Box[],
+    pallet: Pallet,
+    options: Omit<PackAsyncOptions, 'signal'> = {},
+  ): Promise<PackingResult | null> {
+    this.controller?.abort()
+    const controller = new AbortController()
+    this.controller = controller
+
+    try {
+      return await packAsync(strategyId, boxes, pallet, {
+        ...options,
+        signal: controller.signal,
+        onProgress: progress => {
+          if (this.controller === controller) options.onProgress?.(progress)
+        },
+      })
+    } catch (error) {
+      if (controller.signal.aborted) return null
+      throw error
+    } finally {
+      if (this.controller === controller) this.controller = null
+    }
+  }
+
+  /** Cancela el empaquetado en curso (no hace nada si no hay ninguno) */
+  cancel(): void {
+    this.controller?.abort()
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+async function packOnMainThread(
+  registry: PackingRegistry,
+  strategyId: string,
+  boxes: Box[],
+  pallet: Pallet,
+  options: PackingOptions,
+): Promise<PackingResult> {
+  // Ceder el turno para que la UI pueda pintar el estado "empaquetando"
+  await new Promise(resolve => setTimeout(resolve, 0))
+  options.signal?.throwIfAborted()
+  return registry.get(strategyId).pack(boxes, pallet, options)
+}
+
+/**
+ * El worker devuelve copias (structured clone) de las cajas;
+ * se sustituyen por las instancias originales para conservar la identidad.
+ */
+function restoreBoxReferences(result: PackingResult, boxes: Box[]): PackingResult {
+  const byId = new Map(boxes.map(box => [box.id, box]))
+  const restore = (box: Box) => byId.get(box.id) ?? box
+
+  return {
+    ...result,
+    placements: result.placements.map(pb => ({ ...pb, box: restore(pb.box) })),
+    unplacedBoxes: result.unplacedBoxes.map(restore),
+  }
+}
@@ -2,9 +2,31 @@
  * Packing barrel export
  */
 
-export type { PackingStrategy, PackingResult } from "./PackingStrategy";
+export type {
+  PackingStrategy,
+  PackingResult,
+  PackingOptions,
+  PackingProgress,
+} from "./PackingStrategy";
 export { ColumnStrategy } from "./ColumnStrategy";
 export { BinPacking3DStrategy } from "./BinPacking3D";
 export { MaterialGroupingStrategy } from "./MaterialGroupingStrategy";
+export { ExtremePointStrategy } from "./ExtremePointStrategy";
+export type { BoxOrientation } from "./orientations";
+export {
+  AXIS_ALIGNED_ROTATIONS,
+  getBoxOrientations,
+  getRestingOrientations,
+} from "./orientations";
 export { MultiPalletBuilder } from "./MultiPalletBuilder";
+export { TruckLoadPlanner } from "./TruckLoadPlanner";
+export type { TruckLoadOptions, TruckLoadOrder, TruckLoadResult } from "./TruckLoadPlanner";
 export { PackingRegistry, defaultRegistry } from "./registry";
+export { packAsync, LatestPackingRunner } from "./async";
+export type { PackAsyncOptions } from "./async";
+export { handlePackingMessages } from "./worker";
+export type {
+  PackingWorkerRequest,
+  PackingWorkerResponse,
+  PackingWorkerScope,
+} from "./worker";
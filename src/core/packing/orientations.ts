@@ -0,0 +1,66 @@
+/**
+ * Orientaciones — Las seis orientaciones ortogonales de una caja
+ */
+
+import type { Box } from '../entities/Box'
+import type { Dimensions3D, DiscreteRotation } from '../types'
+import { getOrientedDimensions } from '../validation/collision'
+import { isOrientationAllowed } from '../validation/orientation'
+
+export interface BoxOrientation {
+  /** Dimensiones efectivas (X/Y/Z del mundo) tras rotar */
+  dimensions: Dimensions3D
+  rotation: DiscreteRotation
+}
+
+/**
+ * Rotaciones que generan las 6 permutaciones de (ancho, alto, fondo).
+ * Van por parejas según el eje que queda en vertical (alto, ancho, fondo);
+ * dentro de cada pareja la segunda es la primera girada 90° en planta.
+ */
+export const AXIS_ALIGNED_ROTATIONS: readonly DiscreteRotation[] = [
+  { x: 0, y: 0, z: 0 },    // (w, h, d)
+  { x: 0, y: 90, z: 0 },   // (d, h, w)
+  { x: 0, y: 0, z: 90 },   // (h, w, d)
+  { x: 0, y: 90, z: 90 },  // (d, w, h)
+  { x: 90, y: 0, z: 0 },   // (w, d, h)
+  { x: 90, y: 0, z: 90 },  // (h, d, w)
+]
+
+/**
+ * Devuelve las orientaciones distintas permitidas para una caja (ver `Box.allowedUpAxes`).
+ * Las rotaciones que producen las mismas dimensiones efectivas (p.ej. en cajas cúbicas)
+ * se descartan para no repetir trabajo en los algoritmos de empaquetado.
+ */
+export function getBoxOrientations(box: Box): BoxOrientation[] {
+  const seen = new Set<string>()
+  const orientations: BoxOrientation[] = []
+
+  for (const rotation of AXIS_ALIGNED_ROTATIONS) {
+    if (!isOrientationAllowed(box, rotation)) continue
+    const dimensions = getOrientedDimensions(box.dimensions, rotation)
+    const key = `${dimensions.width}x${dimensions.height}x${dimensions.depth}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    orientations.push({ dimensions, rotation: { ...rotation } })
+  }
+
+  return orientations
+}
+
+/**
+ * Orientaciones de apoyo para estrategias que solo giran en planta.
+ * Devuelve la pareja [sin giro, girada 90° en planta] del primer eje vertical permitido
+ * (de pie si se puede), o un array vacío si la caja no admite ninguna orientación.
+ */
+export function getRestingOrientations(box: Box): BoxOrientation[] {
+  for (let i = 0; i < AXIS_ALIGNED_ROTATIONS.length; i += 2) {
+    const pair = AXIS_ALIGNED_ROTATIONS.slice(i, i + 2)
+    if (!isOrientationAllowed(box, pair[0])) continue
+    return pair.map(rotation => ({
+      dimensions: getOrientedDimensions(box.dimensions, rotation),
+      rotation: { ...rotation },
+    }))
+  }
+  return []
+}
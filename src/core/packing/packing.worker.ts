@@ -0,0 +1,9 @@
+/**
+ * Entry point del Web Worker de empaquetado (estrategias de `defaultRegistry`)
+ */
+
+import { defaultRegistry } from './registry'
+import { handlePackingMessages } from './worker'
+import type { PackingWorkerScope } from './worker'
+
+handlePackingMessages(self as unknown as PackingWorkerScope, defaultRegistry)
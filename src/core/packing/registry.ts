@@ -10,6 +10,7 @@ import { ColumnStrategy } from './ColumnStrategy'
 import { BinPacking3DStrategy } from './BinPacking3D'
 import { TypeGroupStrategy } from './TypeGroupStrategy'
 import { MaterialGroupingStrategy } from './MaterialGroupingStrategy'
+import { ExtremePointStrategy } from './ExtremePointStrategy'
 
 export class PackingRegistry {
   private strategies = new Map<string, PackingStrategy>()
@@ -20,6 +21,7 @@ export class PackingRegistry {
     this.register(new BinPacking3DStrategy())
     this.register(new TypeGroupStrategy())
     this.register(new MaterialGroupingStrategy())
+    this.register(new ExtremePointStrategy())
   }
 
   register(strategy: PackingStrategy): void {
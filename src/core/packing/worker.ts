@@ -0,0 +1,59 @@
+/**
+ * Packing worker protocol — Mensajes entre el hilo principal y el Web Worker de empaquetado
+ *
+ * El worker por defecto (`packing.worker.ts`) usa `defaultRegistry`. Para ejecutar
+ * estrategias propias en un worker, crea tu propio entry point:
+ *
+ * ```ts
+ * // my-packing.worker.ts
+ * const registry = new PackingRegistry()
+ * registry.register(new MyStrategy())
+ * handlePackingMessages(self, registry)
+ * ```
+ *
+ * y pásalo a `packAsync` con `createWorker`.
+ */
+
+import type { Box } from '../entities/Box'
+import type { Pallet } from '../entities/Pallet'
+import type { PackingProgress, PackingResult } from './PackingStrategy'
+import type { PackingRegistry } from './registry'
+
+export interface PackingWorkerRequest {
+  type: 'pack'
+  strategyId: string
+  boxes: Box[]
+  pallet: Pallet
+}
+
+export type PackingWorkerResponse =
+  | ({ type: 'progress' } & PackingProgress)
+  | { type: 'result'; result: PackingResult }
+  | { type: 'error'; message: string }
+
+/** Subconjunto del ámbito global de un worker que necesita el handler */
+export interface PackingWorkerScope {
+  onmessage: ((event: MessageEvent<PackingWorkerRequest>) => void) | null
+  postMessage(message: PackingWorkerResponse): void
+}
+
+/**
+ * Atiende peticiones de empaquetado dentro de un worker.
+ * Cada petición ejecuta la estrategia indicada y responde con progreso y resultado (o error).
+ */
+export function handlePackingMessages(scope: PackingWorkerScope, registry: PackingRegistry): void {
+  scope.onmessage = (event) => {
+    const { strategyId, boxes, pallet } = event.data
+    try {
+      const result = registry.get(strategyId).pack(boxes, pallet, {
+        onProgress: progress => scope.postMessage({ type: 'progress', ...progress }),
+      })
+      scope.postMessage({ type: 'result', result })
+    } catch (error) {
+      scope.postMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+}
@@ -6,6 +6,8 @@
  * El consumidor puede usar un preset tal cual, extenderlo o crear el suyo propio.
  */
 
+import type { ObstacleType } from '../types'
+
 // ─── Tipos ───────────────────────────────────────────────────────
 
 export interface BoxStyle {
@@ -60,6 +62,12 @@ export interface WarehouseStyle {
   gridColor: string
   /** Color secundario del grid */
   gridSecondaryColor: string
+  /** Color de los puntales de las estanterías (por defecto: azul) */
+  rackUprightColor?: string
+  /** Color de las vigas de las estanterías (por defecto: naranja) */
+  rackBeamColor?: string
+  /** Color de cada tipo de obstáculo de la estancia (por defecto: los de RoomObstacleComponent) */
+  obstacleColors?: Partial<Record<ObstacleType, string>>
 }
 
 export interface TruckStyle {
@@ -81,6 +89,10 @@ export interface TruckStyle {
   chassisColor: string
   /** Color de las ruedas */
   wheelColor: string
+  /** Color del casco de los contenedores ISO (por defecto: wallColor) */
+  containerColor?: string
+  /** Color de los mamparos entre compartimentos de temperatura (por defecto: azul hielo) */
+  bulkheadColor?: string
 }
 
 export interface ScenePreset {
@@ -149,6 +161,7 @@ export const PRESET_UNSTYLED: ScenePreset = {
     cabColor: '#3a5f8a',
     chassisColor: '#2a2a2a',
     wheelColor: '#1a1a1a',
+    containerColor: '#a0a0a0',
   },
 }
 
@@ -202,6 +215,7 @@ export const PRESET_INDUSTRIAL: ScenePreset = {
     cabColor: '#2e4a6b',
     chassisColor: '#1e1e1e',
     wheelColor: '#111111',
+    containerColor: '#b5502e',
   },
 }
 
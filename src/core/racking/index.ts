@@ -0,0 +1,13 @@
+/**
+ * Racking barrel export
+ */
+
+export {
+  getRackBoundingBox,
+  getRackPlacedPallets,
+  isSlotFree,
+  findFreeSlot,
+  placePalletInRack,
+  removePalletFromRack,
+} from './placement'
+export type { RackLocation, RackPlacedPallet } from './placement'
@@ -0,0 +1,166 @@
+/**
+ * Rack placement — Ubicación de palets en estanterías
+ *
+ * Convierte las ubicaciones de un rack en PlacedPallet de la estancia (para validar
+ * colisiones y pintarlos con el resto) y coloca palets en ubicaciones libres.
+ * Cada palet va centrado en su ubicación y en el fondo del rack, apoyado sobre las vigas.
+ */
+
+import type { BoundingBox } from '../types'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Rack, SlottedPallet } from '../entities/Rack'
+import type { StackedPallet } from '../entities/StackedPallet'
+import { getBayOffset, getRackLength, getSlotWidth } from '../entities/Rack'
+import { getPalletBoundingBox } from '../validation/collision'
+import { fitsInSlot } from '../validation/racking'
+
+/** Ubicación dentro de un rack */
+export interface RackLocation {
+  bayIndex: number
+  levelIndex: number
+  slot: number
+}
+
+/** Palet de un rack en coordenadas de la estancia, con su ubicación */
+export interface RackPlacedPallet extends PlacedPallet {
+  rackId: string
+  location: RackLocation
+}
+
+/** Envolvente de la estructura del rack (puntales y vigas) en la estancia */
+export function getRackBoundingBox(rack: Rack): BoundingBox {
+  const rad = (rack.yRotation * Math.PI) / 180
+  const cos = Math.cos(rad)
+  const sin = Math.sin(rad)
+  const length = getRackLength(rack)
+  const corners = [
+    { x: 0, z: 0 },
+    { x: length, z: 0 },
+    { x: length, z: rack.depth },
+    { x: 0, z: rack.depth },
+  ].map(c => ({
+    x: rack.position.x + c.x * cos + c.z * sin,
+    z: rack.position.z - c.x * sin + c.z * cos,
+  }))
+
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    minY: rack.position.y,
+    maxY: rack.position.y + rack.height,
+    minZ: Math.min(...corners.map(c => c.z)),
+    maxZ: Math.max(...corners.map(c => c.z)),
+  }
+}
+
+/** Palets de todas las ubicaciones del rack en coordenadas de la estancia */
+export function getRackPlacedPallets(rack: Rack): RackPlacedPallet[] {
+  const rad = (rack.yRotation * Math.PI) / 180
+  const cos = Math.cos(rad)
+  const sin = Math.sin(rad)
+
+  return rack.bays.flatMap((bay, bayIndex) => {
+    const bayOffset = getBayOffset(rack, bayIndex)
+    return bay.levels.flatMap((level, levelIndex) => {
+      const slotWidth = getSlotWidth(bay, level)
+      return level.pallets.map((sp): RackPlacedPallet => {
+        // Centro de la ubicación en el sistema del rack y después en la estancia (R_y)
+        const cx = bayOffset + slotWidth * (sp.slot + 0.5)
+        const cz = rack.depth / 2
+        const center = {
+          x: rack.position.x + cx * cos + cz * sin,
+          z: rack.position.z - cx * sin + cz * cos,
+        }
+
+        // Origen del palet tal que el centro de su huella caiga en el centro de la ubicación
+        const yRotation = ((rack.yRotation + sp.yRotation) % 360) as PlacedPallet['yRotation']
+        const bb = getPalletBoundingBox({ id: sp.id, stackedPallet: sp.stackedPallet, position: { x: 0, y: 0, z: 0 }, yRotation })
+        return {
+          id: sp.id,
+          stackedPallet: sp.stackedPallet,
+          position: {
+            x: center.x - (bb.minX + bb.maxX) / 2,
+            y: rack.position.y + level.elevation,
+            z: center.z - (bb.minZ + bb.maxZ) / 2,
+          },
+          yRotation,
+          rackId: rack.id,
+          location: { bayIndex, levelIndex, slot: sp.slot },
+        }
+      })
+    })
+  })
+}
+
+/** Indica si la ubicación existe y está libre */
+export function isSlotFree(rack: Rack, location: RackLocation): boolean {
+  const level = rack.bays[location.bayIndex]?.levels[location.levelIndex]
+  if (!level || location.slot < 0 || location.slot >= level.slotCount) return false
+  return !level.pallets.some(sp => sp.slot === location.slot)
+}
+
+/**
+ * Primera ubicación libre donde cabe el palet con las holguras mínimas,
+ * recorriendo de abajo arriba y de un extremo al otro (`undefined` si no hay)
+ */
+export function findFreeSlot(
+  rack: Rack,
+  stack: StackedPallet,
+  yRotation: SlottedPallet['yRotation'] = 0,
+): RackLocation | undefined {
+  const levelCount = Math.max(0, ...rack.bays.map(bay => bay.levels.length))
+  for (let levelIndex = 0; levelIndex < levelCount; levelIndex++) {
+    for (let bayIndex = 0; bayIndex < rack.bays.length; bayIndex++) {
+      const level = rack.bays[bayIndex].levels[levelIndex]
+      if (!level || !fitsInSlot(rack, bayIndex, levelIndex, stack, yRotation)) continue
+      for (let slot = 0; slot < level.slotCount; slot++) {
+        if (isSlotFree(rack, { bayIndex, levelIndex, slot })) return { bayIndex, levelIndex, slot }
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Devuelve una copia del rack con el palet en la ubicación indicada.
+ * No comprueba holguras ni carga (eso es BR-409 / BR-410); falla si la ubicación
+ * no existe o ya está ocupada.
+ */
+export function placePalletInRack(
+  rack: Rack,
+  location: RackLocation,
+  pallet: Omit<SlottedPallet, 'slot'>,
+): Rack {
+  const { bayIndex, levelIndex, slot } = location
+  if (!rack.bays[bayIndex]?.levels[levelIndex]) {
+    throw new Error(`Rack "${rack.id}" has no bay ${bayIndex} / level ${levelIndex}`)
+  }
+  if (!isSlotFree(rack, location)) {
+    throw new Error(`Slot ${slot} of rack "${rack.id}" (bay ${bayIndex}, level ${levelIndex}) is not available`)
+  }
+
+  return {
+    ...rack,
+    bays: rack.bays.map((bay, b) => b !== bayIndex ? bay : {
+      ...bay,
+      levels: bay.levels.map((level, l) => l !== levelIndex ? level : {
+        ...level,
+        pallets: [...level.pallets, { ...pallet, slot }],
+      }),
+    }),
+  }
+}
+
+/** Devuelve una copia del rack sin el palet indicado */
+export function removePalletFromRack(rack: Rack, palletId: string): Rack {
+  return {
+    ...rack,
+    bays: rack.bays.map(bay => ({
+      ...bay,
+      levels: bay.levels.map(level => ({
+        ...level,
+        pallets: level.pallets.filter(sp => sp.id !== palletId),
+      })),
+    })),
+  }
+}
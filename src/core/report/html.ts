@@ -0,0 +1,147 @@
+/**
+ * Report HTML — Documento imprimible (listo para PDF) a partir de un LoadReport
+ *
+ * Genera una página HTML autocontenida: cada capa empieza en una página nueva
+ * al imprimir, de modo que se puede convertir a PDF con el navegador o con
+ * un motor headless en servidor.
+ */
+
+import type { LoadDirection, Violation } from '../types'
+import type { LoadReport } from './report'
+import { escapeXml } from './svg'
+
+const DIRECTION_LABELS: Record<LoadDirection, string> = {
+  FORWARD: 'delante',
+  BACKWARD: 'detrás',
+  LEFT: 'izquierda',
+  RIGHT: 'derecha',
+}
+
+const STYLES = `
+  body { font-family: sans-serif; margin: 24px; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  h2 { font-size: 16px; margin: 20px 0 8px; }
+  table { border-collapse: collapse; margin-bottom: 12px; }
+  th, td { border: 1px solid #999; padding: 3px 8px; font-size: 12px; text-align: left; }
+  td.num { text-align: right; }
+  .error { color: #b71c1c; }
+  .warning { color: #e65100; }
+  .page { page-break-before: always; }
+  svg { max-width: 100%; height: auto; }
+`
+
+/**
+ * Convierte un informe en un documento HTML imprimible.
+ *
+ * @param report Informe generado con `generateLoadReport`
+ * @param title Título del documento (por defecto, el id del palet)
+ */
+export function renderLoadReportHtml(report: LoadReport, title = `Palet ${report.stackedPalletId}`): string {
+  const { weights, metrics } = report
+
+  const summary = table(['Concepto', 'Valor'], [
+    ['Cajas', String(report.boxCount)],
+    ['Altura total', `${Math.round(report.totalHeight)} mm`],
+    ['Peso cajas', kg(weights.boxes)],
+    ['Peso palets', kg(weights.pallets)],
+    ['Peso separadores', kg(weights.separators)],
+    ['Peso total', kg(weights.total)],
+    ['Ocupación volumen', pct(metrics.volumeUtilization)],
+    ['Ocupación peso', pct(metrics.weightUtilization)],
+    ['Estabilidad', `${metrics.stabilityScore}/100`],
+  ], [false, true])
+
+  const bom = table(['SKU', 'Producto', 'Dimensiones (mm)', 'Uds', 'Peso ud', 'Peso total'],
+    report.billOfMaterials.map(line => [
+      line.sku ?? '—',
+      line.product ?? '—',
+      `${line.dimensions.width} × ${line.dimensions.height} × ${line.dimensions.depth}`,
+      String(line.quantity),
+      kg(line.unitWeight),
+      kg(line.totalWeight),
+    ]), [false, false, false, true, true, true])
+
+  const layers = report.layers.map(layer => [
+    `<section class="page">`,
+    layer.svg,
+    table(['Id', 'SKU', 'Posición (x, z)', 'Arriba'], layer.boxes.map(lb => [
+      lb.id,
+      lb.sku ?? '—',
+      `${Math.round(lb.position.x)}, ${Math.round(lb.position.z)}`,
+      `${lb.upAxis}${lb.inverted ? ' (invertida)' : ''}`,
+    ])),
+    `</section>`,
+  ].join('\n'))
+
+  const truck = report.truck
+    ? [
+        `<section class="page">`,
+        `<h2>${escapeXml(report.truck.name)} — ${report.truck.palletCount} palets, ${kg(report.truck.totalWeight)}</h2>`,
+        report.truck.svg,
+        report.truck.axleLoads.length > 0
+          ? table(['Eje', 'Carga', 'Máximo', 'Uso'], report.truck.axleLoads.map(al => [
+              al.axleId, kg(al.load), kg(al.maxLoad), pct(al.utilization),
+            ]), [false, true, true, true])
+          : '',
+        report.truck.securing.rows.length > 0
+          ? table(['Fila', 'Palets', 'Peso', 'Amarres por encima', 'Amarres directos', 'Bloqueo'],
+              report.truck.securing.rows.map(row => [
+                String(row.index + 1),
+                row.palletIds.join(', '),
+                kg(row.weight),
+                String(row.topOverLashings),
+                String(row.directLashings),
+                row.blockingDirections.map(d => DIRECTION_LABELS[d]).join(', ') || '—',
+              ]), [false, false, true, true, true, false])
+          : '',
+        `</section>`,
+      ].join('\n')
+    : ''
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="es">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeXml(title)}</h1>`,
+    summary,
+    '<h2>Lista de materiales</h2>',
+    bom,
+    '<h2>Incidencias</h2>',
+    violationList(report.violations),
+    ...layers,
+    truck,
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function table(headers: string[], rows: string[][], numeric: boolean[] = []): string {
+  const head = `<tr>${headers.map(h => `<th>${escapeXml(h)}</th>`).join('')}</tr>`
+  const body = rows.map(row =>
+    `<tr>${row.map((cell, i) => `<td${numeric[i] ? ' class="num"' : ''}>${escapeXml(cell)}</td>`).join('')}</tr>`,
+  )
+  return `<table>${[head, ...body].join('')}</table>`
+}
+
+function violationList(violations: Violation[]): string {
+  if (violations.length === 0) return '<p>Sin incidencias.</p>'
+  const items = violations.map(v =>
+    `<li class="${v.severity}"><strong>${escapeXml(v.code)}</strong> ${escapeXml(v.message)}</li>`,
+  )
+  return `<ul>${items.join('')}</ul>`
+}
+
+function kg(value: number): string {
+  return `${value.toFixed(1)} kg`
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)} %`
+}
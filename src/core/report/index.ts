@@ -0,0 +1,18 @@
+/**
+ * Report barrel export
+ */
+
+export { generateLoadReport } from './report'
+export type {
+  LoadReport,
+  LoadReportOptions,
+  LayerDiagram,
+  BomLine,
+  ReportWeights,
+  TruckReport,
+} from './report'
+export { getPalletLayers } from './layers'
+export type { PalletLayer, LayerBox } from './layers'
+export { renderLayerSvg, renderTruckPlanSvg, escapeXml } from './svg'
+export type { SvgRenderOptions } from './svg'
+export { renderLoadReportHtml } from './html'
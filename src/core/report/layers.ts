@@ -0,0 +1,95 @@
+/**
+ * Report layers — Descomposición de un StackedPallet en capas horizontales
+ *
+ * Una capa es el conjunto de cajas de un piso que apoyan a la misma altura.
+ * Las cajas altas solo aparecen en la capa donde empiezan.
+ */
+
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { BoxAxis, Dimensions3D, DiscreteRotation, Position3D } from '../types'
+import { getBoxBoundingBox, getOrientedDimensions } from '../validation/collision'
+import { getUpAxis } from '../validation/orientation'
+
+export interface LayerBox {
+  /** Id de la PlacedBox */
+  id: string
+  boxId: string
+  sku?: string
+  product?: string
+  /** Esquina mínima en coordenadas del piso (mm) */
+  position: Position3D
+  rotation: DiscreteRotation
+  /** Dimensiones ya orientadas (mm) */
+  dimensions: Dimensions3D
+  /** Eje propio de la caja que queda hacia arriba */
+  upAxis: BoxAxis
+  /** La caja está boca abajo */
+  inverted: boolean
+  weight: number
+  fragile: boolean
+  color?: string
+}
+
+export interface PalletLayer {
+  /** Índice del piso dentro del StackedPallet */
+  floorIndex: number
+  /** Índice de la capa dentro del piso (0 = la más baja) */
+  layerIndex: number
+  /** Altura de apoyo de la capa sobre el tablero del palet del piso (mm) */
+  y: number
+  /** Altura de apoyo de la capa desde el suelo (mm) */
+  absoluteY: number
+  /** Planta del palet del piso (mm) */
+  footprint: { width: number; depth: number }
+  boxes: LayerBox[]
+}
+
+/** Agrupa las cajas de cada piso por altura de apoyo, de abajo arriba */
+export function getPalletLayers(stack: StackedPallet): PalletLayer[] {
+  const layers: PalletLayer[] = []
+  let floorBaseY = 0
+
+  stack.floors.forEach((floor, floorIndex) => {
+    const palletHeight = floor.pallet.dimensions.height
+    const byY = new Map<number, LayerBox[]>()
+    let maxTop = 0
+
+    for (const pb of floor.boxes) {
+      const bb = getBoxBoundingBox(pb)
+      const y = Math.round(bb.minY)
+      const { axis, inverted } = getUpAxis(pb.rotation)
+      const entry: LayerBox = {
+        id: pb.id,
+        boxId: pb.box.id,
+        position: { x: bb.minX, y: bb.minY, z: bb.minZ },
+        rotation: pb.rotation,
+        dimensions: getOrientedDimensions(pb.box.dimensions, pb.rotation),
+        upAxis: axis,
+        inverted,
+        weight: pb.box.weight,
+        fragile: pb.box.fragile,
+        ...(pb.box.sku !== undefined ? { sku: pb.box.sku } : {}),
+        ...(pb.box.product !== undefined ? { product: pb.box.product } : {}),
+        ...(pb.box.color !== undefined ? { color: pb.box.color } : {}),
+      }
+      byY.set(y, [...(byY.get(y) ?? []), entry])
+      maxTop = Math.max(maxTop, bb.maxY)
+    }
+
+    const heights = [...byY.keys()].sort((a, b) => a - b)
+    heights.forEach((y, layerIndex) => {
+      layers.push({
+        floorIndex,
+        layerIndex,
+        y,
+        absoluteY: floorBaseY + palletHeight + y,
+        footprint: { width: floor.pallet.dimensions.width, depth: floor.pallet.dimensions.depth },
+        boxes: byY.get(y)!,
+      })
+    })
+
+    floorBaseY += palletHeight + maxTop + (floor.separatorAbove?.dimensions.height ?? 0)
+  })
+
+  return layers
+}
@@ -0,0 +1,180 @@
+/**
+ * Load report — Informe de montaje de un palet (y opcionalmente de su camión)
+ *
+ * Reúne en un objeto serializable lo que el personal de almacén necesita en papel:
+ * diagramas SVG por capa, lista de materiales, pesos, métricas y violaciones pendientes.
+ */
+
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { Truck } from '../entities/Truck'
+import type { Dimensions3D, PackingMetrics, Violation } from '../types'
+import { getStackedPalletTotalHeight, getStackedPalletTotalWeight } from '../entities/StackedPallet'
+import { calculatePackingMetrics } from '../validation/stability'
+import { calculateAxleLoads } from '../validation/axles'
+import type { AxleLoad } from '../validation/axles'
+import type { ValidationProfile } from '../validation/rules/types'
+import type { ValidationRegistry, ValidationRunOptions } from '../validation/rules/registry'
+import { defaultValidationRegistry } from '../validation/rules/registry'
+import { computeLoadSecuring } from '../securing/lashing'
+import type { LoadSecuringPlan } from '../securing/lashing'
+import type { PalletLayer } from './layers'
+import { getPalletLayers } from './layers'
+import type { SvgRenderOptions } from './svg'
+import { renderLayerSvg, renderTruckPlanSvg } from './svg'
+
+export interface LoadReportOptions {
+  /** Camión en el que viaja el palet: añade su planta, cargas por eje y violaciones */
+  truck?: Truck
+  svg?: SvgRenderOptions
+  /** Perfil de validación con el que se calculan las violaciones (por defecto: 'default') */
+  profile?: string | ValidationProfile
+  /** Registro de reglas (por defecto: defaultValidationRegistry) */
+  registry?: ValidationRegistry
+}
+
+export interface LayerDiagram extends PalletLayer {
+  svg: string
+}
+
+/** Línea de la lista de materiales: cajas iguales (SKU, dimensiones y peso) */
+export interface BomLine {
+  sku?: string
+  product?: string
+  dimensions: Dimensions3D
+  unitWeight: number    // kg
+  quantity: number
+  totalWeight: number   // kg
+  /** Ids de las PlacedBox de esta línea */
+  placedBoxIds: string[]
+}
+
+export interface ReportWeights {
+  boxes: number       // kg
+  pallets: number     // kg
+  separators: number  // kg
+  total: number       // kg
+}
+
+export interface TruckReport {
+  truckId: string
+  name: string
+  svg: string
+  palletCount: number
+  totalWeight: number  // kg
+  axleLoads: AxleLoad[]
+  /** Trincaje por filas con el equipo por defecto */
+  securing: LoadSecuringPlan
+  violations: Violation[]
+}
+
+export interface LoadReport {
+  stackedPalletId: string
+  totalHeight: number  // mm
+  boxCount: number
+  layers: LayerDiagram[]
+  billOfMaterials: BomLine[]
+  weights: ReportWeights
+  metrics: PackingMetrics
+  /** Violaciones pendientes del palet (y del camión, si se indica) */
+  violations: Violation[]
+  truck?: TruckReport
+}
+
+/**
+ * Genera el informe de montaje de un StackedPallet.
+ * Función pura: no depende de React, Three.js ni del DOM.
+ *
+ * @param stack Palet a documentar
+ * @param options Camión opcional y opciones de dibujo
+ */
+export function generateLoadReport(stack: StackedPallet, options: LoadReportOptions = {}): LoadReport {
+  const { truck, svg, profile, registry = defaultValidationRegistry } = options
+
+  const layers = getPalletLayers(stack).map(layer => ({ ...layer, svg: renderLayerSvg(layer, svg) }))
+  const truckReport = truck ? buildTruckReport(truck, registry, { profile }, svg) : undefined
+
+  return {
+    stackedPalletId: stack.id,
+    totalHeight: getStackedPalletTotalHeight(stack),
+    boxCount: stack.floors.reduce((n, f) => n + f.boxes.length, 0),
+    layers,
+    billOfMaterials: buildBillOfMaterials(stack),
+    weights: calculateReportWeights(stack),
+    metrics: calculatePackingMetrics(stack),
+    violations: [
+      ...collectStackViolations(stack, registry, { profile, containerHeight: truck?.dimensions.height }),
+      ...(truckReport?.violations ?? []),
+    ],
+    ...(truckReport ? { truck: truckReport } : {}),
+  }
+}
+
+// ─── Secciones ───────────────────────────────────────────────────
+
+function buildBillOfMaterials(stack: StackedPallet): BomLine[] {
+  const lines = new Map<string, BomLine>()
+
+  for (const pb of stack.floors.flatMap(f => f.boxes)) {
+    const { sku, product, dimensions: d, weight } = pb.box
+    const key = `${sku ?? ''}|${product ?? ''}|${d.width}x${d.height}x${d.depth}|${weight}`
+    const line = lines.get(key)
+    if (line) {
+      line.quantity++
+      line.totalWeight += weight
+      line.placedBoxIds.push(pb.id)
+    } else {
+      lines.set(key, {
+        ...(sku !== undefined ? { sku } : {}),
+        ...(product !== undefined ? { product } : {}),
+        dimensions: { ...d },
+        unitWeight: weight,
+        quantity: 1,
+        totalWeight: weight,
+        placedBoxIds: [pb.id],
+      })
+    }
+  }
+
+  return [...lines.values()].sort((a, b) =>
+    (a.sku ?? '').localeCompare(b.sku ?? '') || b.quantity - a.quantity,
+  )
+}
+
+function calculateReportWeights(stack: StackedPallet): ReportWeights {
+  const boxes = stack.floors.reduce((s, f) => s + f.boxes.reduce((w, pb) => w + pb.box.weight, 0), 0)
+  const pallets = stack.floors.reduce((s, f) => s + f.pallet.weight, 0)
+  const separators = stack.floors.reduce((s, f) => s + (f.separatorAbove?.weight ?? 0), 0)
+  return { boxes, pallets, separators, total: getStackedPalletTotalWeight(stack) }
+}
+
+/** Violaciones de cada piso y del stack, con las reglas activas del perfil */
+function collectStackViolations(
+  stack: StackedPallet,
+  registry: ValidationRegistry,
+  options: ValidationRunOptions,
+): Violation[] {
+  return [
+    ...stack.floors.flatMap(floor => registry.validateFloor(floor, options).violations),
+    ...registry.validateStack(stack, options).violations,
+  ]
+}
+
+function buildTruckReport(
+  truck: Truck,
+  registry: ValidationRegistry,
+  options: ValidationRunOptions,
+  svg?: SvgRenderOptions,
+): TruckReport {
+  const { violations } = registry.validateTruck(truck, options)
+
+  return {
+    truckId: truck.id,
+    name: truck.name,
+    svg: renderTruckPlanSvg(truck, svg),
+    palletCount: truck.pallets.length,
+    totalWeight: truck.pallets.reduce((s, pp) => s + getStackedPalletTotalWeight(pp.stackedPallet), 0),
+    axleLoads: calculateAxleLoads(truck),
+    securing: computeLoadSecuring(truck),
+    violations,
+  }
+}
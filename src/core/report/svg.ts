@@ -0,0 +1,152 @@
+/**
+ * Report SVG — Diagramas en planta como cadenas SVG
+ *
+ * Sin dependencias de DOM ni Three.js: se pueden generar en servidor.
+ * Las coordenadas del SVG están en mm; `scale` solo fija el tamaño en píxeles.
+ */
+
+import type { Truck } from '../entities/Truck'
+import type { PalletLayer, LayerBox } from './layers'
+import { getPalletBoundingBox } from '../validation/collision'
+
+export interface SvgRenderOptions {
+  /** Píxeles por mm del SVG resultante (por defecto 0.4) */
+  scale?: number
+  /** Mostrar el id de cada caja/palet (por defecto true) */
+  showIds?: boolean
+  /** Mostrar el SKU de cada caja (por defecto true) */
+  showSkus?: boolean
+}
+
+const MARGIN = 40       // mm
+const HEADER = 90       // mm
+const STROKE = '#333333'
+
+// ─── Capa de palet ───────────────────────────────────────────────
+
+/**
+ * Dibuja una capa vista desde arriba: X hacia la derecha, Z hacia abajo.
+ * Cada caja muestra su id, SKU y el eje que queda hacia arriba (p. ej. `H↑`).
+ */
+export function renderLayerSvg(layer: PalletLayer, options: SvgRenderOptions = {}): string {
+  const { scale = 0.4, showIds = true, showSkus = true } = options
+  const { width, depth } = layer.footprint
+  const viewW = width + MARGIN * 2
+  const viewH = depth + MARGIN * 2 + HEADER
+  const title = `Piso ${layer.floorIndex + 1} · Capa ${layer.layerIndex + 1} · ${Math.round(layer.absoluteY)} mm`
+
+  const boxes = layer.boxes.map(lb => {
+    const x = MARGIN + lb.position.x
+    const y = HEADER + MARGIN + lb.position.z
+    const lines = [
+      showIds ? lb.id : null,
+      showSkus && lb.sku ? lb.sku : null,
+      orientationLabel(lb),
+    ].filter((l): l is string => l !== null)
+
+    return [
+      `<g data-id="${escapeXml(lb.id)}">`,
+      `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(lb.dimensions.width)}" height="${fmt(lb.dimensions.depth)}"`
+        + ` fill="${escapeXml(lb.color ?? colorFor(lb.sku ?? lb.product ?? lb.boxId))}" stroke="${lb.fragile ? '#c62828' : STROKE}"`
+        + ` stroke-width="${lb.fragile ? 6 : 3}"${lb.fragile ? ' stroke-dasharray="18 10"' : ''}/>`,
+      textBlock(lines, x + lb.dimensions.width / 2, y + lb.dimensions.depth / 2, labelSize(lb.dimensions.width, lb.dimensions.depth)),
+      '</g>',
+    ].join('')
+  })
+
+  return svgDocument(viewW, viewH, scale, [
+    `<text x="${MARGIN}" y="${HEADER * 0.6}" font-size="48" font-weight="bold">${escapeXml(title)}</text>`,
+    `<rect x="${MARGIN}" y="${HEADER + MARGIN}" width="${fmt(width)}" height="${fmt(depth)}" fill="#d7b889" stroke="${STROKE}" stroke-width="4"/>`,
+    ...boxes,
+  ])
+}
+
+// ─── Planta del camión ───────────────────────────────────────────
+
+/**
+ * Dibuja la planta del camión con la cabina arriba y las puertas abajo.
+ * Cada palet muestra su id y, si la tiene, su parada de reparto.
+ */
+export function renderTruckPlanSvg(truck: Truck, options: SvgRenderOptions = {}): string {
+  const { scale = 0.05, showIds = true } = options
+  const { width, depth } = truck.dimensions
+  const margin = MARGIN * 4
+  const header = HEADER * 3
+  const viewW = width + margin * 2
+  const viewH = depth + margin * 2 + header * 2
+
+  const pallets = truck.pallets.map(pp => {
+    const bb = getPalletBoundingBox(pp)
+    const w = bb.maxX - bb.minX
+    const d = bb.maxZ - bb.minZ
+    const x = margin + bb.minX
+    const y = header + margin + (depth - bb.maxZ)
+    const stop = pp.stackedPallet.deliveryStop
+    const lines = [showIds ? pp.id : null, stop !== undefined ? `Parada ${stop}` : null]
+      .filter((l): l is string => l !== null)
+
+    return [
+      `<g data-id="${escapeXml(pp.id)}">`,
+      `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(d)}"`
+        + ` fill="${colorFor(stop !== undefined ? `stop-${stop}` : pp.stackedPallet.id)}" stroke="${STROKE}" stroke-width="12"/>`,
+      textBlock(lines, x + w / 2, y + d / 2, labelSize(w, d)),
+      '</g>',
+    ].join('')
+  })
+
+  return svgDocument(viewW, viewH, scale, [
+    `<text x="${margin}" y="${header * 0.6}" font-size="160" font-weight="bold">${escapeXml(`${truck.name} · Cabina`)}</text>`,
+    `<rect x="${margin}" y="${header + margin}" width="${fmt(width)}" height="${fmt(depth)}" fill="#eeeeee" stroke="${STROKE}" stroke-width="24"/>`,
+    ...pallets,
+    `<text x="${margin}" y="${fmt(viewH - header * 0.4)}" font-size="160" font-weight="bold">Puertas</text>`,
+  ])
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/** Escapa texto para incluirlo en SVG/HTML */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function svgDocument(viewW: number, viewH: number, scale: number, children: string[]): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${fmt(viewW)} ${fmt(viewH)}"`
+      + ` width="${fmt(viewW * scale)}" height="${fmt(viewH * scale)}" font-family="sans-serif">`,
+    ...children,
+    '</svg>',
+  ].join('\n')
+}
+
+function textBlock(lines: string[], cx: number, cy: number, size: number): string {
+  const top = cy - ((lines.length - 1) * size * 1.15) / 2
+  const spans = lines.map((line, i) =>
+    `<tspan x="${fmt(cx)}" y="${fmt(top + i * size * 1.15)}">${escapeXml(line)}</tspan>`,
+  )
+  return `<text font-size="${fmt(size)}" text-anchor="middle" dominant-baseline="middle">${spans.join('')}</text>`
+}
+
+/** Eje propio de la caja hacia arriba: W/H/D con flecha (↓ si está boca abajo) */
+function orientationLabel(lb: LayerBox): string {
+  return `${lb.upAxis[0]}${lb.inverted ? '↓' : '↑'}`
+}
+
+function labelSize(w: number, d: number): number {
+  return Math.min(Math.max(Math.min(w, d) / 6, 16), 120)
+}
+
+/** Color pastel estable para una clave (SKU, producto, parada) */
+function colorFor(key: string): string {
+  let hash = 0
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0
+  return `hsl(${Math.abs(hash) % 360}, 55%, 78%)`
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 10) / 10)
+}
@@ -0,0 +1,6 @@
+/**
+ * Securing barrel export
+ */
+
+export { computeLoadSecuring } from './lashing'
+export type { LashingRow, LoadSecuringOptions, LoadSecuringPlan } from './lashing'
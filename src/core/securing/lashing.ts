@@ -0,0 +1,239 @@
+/**
+ * Load securing — Cálculo de trincaje por filas de palets (EN 12195-1)
+ *
+ * Agrupa los palets del camión en filas transversales (de la cabina a las puertas)
+ * y calcula, para cada fila:
+ *
+ * - Amarres por encima (top-over): cinchas que cruzan la fila de lado a lado y
+ *   aprietan la carga contra el suelo. Cada cincha cruza todos los palets de la
+ *   fila, así que manda el palet más exigente.
+ *   - Deslizamiento: n ≥ fs · (c − μ) · m · g / (2 · μ · sin α · STF)
+ *   - Vuelco lateral: n ≥ m · g · (c · h − b) / (STF · sin α · w)
+ * - Amarres directos (diagonales): una cincha por esquina hacia los puntos de
+ *   amarre del camión; se suman los de todos los palets de la fila.
+ *   - n ≥ m · g · (c − μ) / (LC · (cos α · cos β + μ · sin α)), con β el ángulo en
+ *     planta respecto a la dirección de la aceleración
+ *
+ * Las direcciones en las que la fila ya está bloqueada (pared o palets vecinos,
+ * ver analyzeTruckDynamics) no necesitan amarre contra el deslizamiento. Si los
+ * amarres por encima no bastan, o la fila vuelca hacia delante o hacia atrás,
+ * la fila necesita bloqueo en esa dirección.
+ */
+
+import type { BoundingBox, LashingEquipment } from '../types'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Truck } from '../entities/Truck'
+import { LoadDirection } from '../types'
+import { DEFAULT_LASHING_EQUIPMENT } from '../constants'
+import { getPalletBoundingBox } from '../validation/collision'
+import { analyzeTruckDynamics } from '../validation/dynamics'
+import type { DirectionalMargins, DynamicStabilityOptions, LevelDynamics } from '../validation/dynamics'
+
+export interface LoadSecuringOptions extends DynamicStabilityOptions {
+  /** Equipo de trincaje (por defecto DEFAULT_LASHING_EQUIPMENT) */
+  equipment?: LashingEquipment
+  /** Ángulo vertical de los amarres por encima, en grados (por defecto 60) */
+  topOverAngle?: number
+  /** Ángulo vertical de los amarres directos, en grados (por defecto 45) */
+  directAngle?: number
+  /** Ángulo en planta de los amarres directos respecto al eje del camión, en grados (por defecto 30) */
+  directHorizontalAngle?: number
+  /** Máximo de amarres por encima que admite una fila antes de pedir bloqueo (por defecto 4) */
+  maxTopOverLashings?: number
+}
+
+export interface LashingRow {
+  /** Posición de la fila (0 = junto a la cabina) */
+  index: number
+  palletIds: string[]
+  /** Envolvente de los palets de la fila en coordenadas del camión */
+  bounds: BoundingBox
+  /** Peso de la fila (kg) */
+  weight: number
+  /** Menor rozamiento de los palets de la fila */
+  friction: number
+  /** Direcciones en las que la fila ya está bloqueada por paredes o palets */
+  blocked: LoadDirection[]
+  /** Amarres por encima necesarios (0 si basta el rozamiento) */
+  topOverLashings: number
+  /** Amarres directos necesarios, sumando todos los palets de la fila */
+  directLashings: number
+  /** Direcciones en las que los amarres por encima no bastan y hace falta bloqueo */
+  blockingDirections: LoadDirection[]
+  needsBlocking: boolean
+}
+
+export interface LoadSecuringPlan {
+  rows: LashingRow[]
+  equipment: LashingEquipment
+  /** Suma de amarres por encima de todas las filas */
+  topOverLashings: number
+  /** Suma de amarres directos de todas las filas */
+  directLashings: number
+}
+
+/** Aceleración de la gravedad (m/s²) */
+const GRAVITY = 9.81
+/** daN → N */
+const DAN = 10
+/** Factor de seguridad de los amarres por encima (EN 12195-1): longitudinal 1.1, transversal 1.0 */
+const SAFETY_FACTORS: Record<LoadDirection, number> = {
+  FORWARD: 1.1,
+  BACKWARD: 1.1,
+  LEFT: 1,
+  RIGHT: 1,
+}
+/** Solape mínimo en Z (mm) para que dos palets formen parte de la misma fila */
+const ROW_TOLERANCE = 1
+
+const DIRECTIONS: LoadDirection[] = [LoadDirection.FORWARD, LoadDirection.BACKWARD, LoadDirection.LEFT, LoadDirection.RIGHT]
+
+const isLongitudinal = (direction: LoadDirection) =>
+  direction === LoadDirection.FORWARD || direction === LoadDirection.BACKWARD
+
+/**
+ * Calcula el trincaje de un camión cargado.
+ * Función pura: el resultado se puede incluir en informes o dibujar en TruckScene.
+ *
+ * @param truck Camión con sus palets colocados
+ * @param options Aceleraciones, rozamiento, holgura de bloqueo y equipo de trincaje
+ */
+export function computeLoadSecuring(truck: Truck, options: LoadSecuringOptions = {}): LoadSecuringPlan {
+  const equipment = options.equipment ?? DEFAULT_LASHING_EQUIPMENT
+  if (equipment.lashingCapacity <= 0 || equipment.standardTensionForce <= 0) {
+    throw new Error('Lashing capacity and standard tension force must be positive')
+  }
+
+  const topOverSin = Math.sin(toRadians(options.topOverAngle ?? 60))
+  const directAngle = toRadians(options.directAngle ?? 45)
+  const directHorizontal = toRadians(options.directHorizontalAngle ?? 30)
+  const maxTopOver = options.maxTopOverLashings ?? 4
+  const stf = equipment.standardTensionForce * DAN
+  const lc = equipment.lashingCapacity * DAN
+
+  const dynamics = new Map(analyzeTruckDynamics(truck, options).map(d => [d.id, d.levels[0]]))
+
+  const rows = groupRows(truck.pallets).map((pallets, index): LashingRow => {
+    const bounds = pallets.map(getPalletBoundingBox)
+    // Los palets sin peso no necesitan trincaje
+    const entries = pallets
+      .map((pp, i) => ({ bb: bounds[i], level: dynamics.get(pp.id) }))
+      .filter((e): e is { bb: BoundingBox; level: LevelDynamics } => e.level !== undefined)
+
+    const blocked = DIRECTIONS.filter(d => entries.length > 0 && entries.every(e => margins(e.level, d).blocked))
+    const blockingDirections: LoadDirection[] = []
+    let topOverLashings = 0
+    let directLashings = 0
+
+    for (const direction of DIRECTIONS) {
+      let required = 0
+      let tipsLongitudinally = false
+
+      for (const { bb, level } of entries) {
+        const m = margins(level, direction)
+        const force = level.weight * GRAVITY
+        const mu = level.friction
+
+        if (!m.blocked && m.acceleration > mu) {
+          required = Math.max(required, mu > 0
+            ? Math.ceil(SAFETY_FACTORS[direction] * (m.acceleration - mu) * force / (2 * mu * topOverSin * stf))
+            : Infinity)
+        }
+        if (m.tips) {
+          if (isLongitudinal(direction)) {
+            tipsLongitudinally = true
+          } else {
+            const lever = m.tippingLimit * level.cogHeight
+            const width = bb.maxX - bb.minX
+            required = Math.max(required, Math.ceil(force * (m.acceleration * level.cogHeight - lever) / (stf * topOverSin * width)))
+          }
+        }
+      }
+
+      // Los amarres por encima no impiden el vuelco longitudinal: solo el bloqueo
+      const needsBlocking = required > maxTopOver || (tipsLongitudinally && !blocked.includes(direction))
+      if (needsBlocking) blockingDirections.push(direction)
+      else topOverLashings = Math.max(topOverLashings, required)
+    }
+
+    for (const { level } of entries) {
+      directLashings += directLashingsFor(level, lc, directAngle, directHorizontal)
+    }
+
+    return {
+      index,
+      palletIds: pallets.map(pp => pp.id),
+      bounds: bounds.reduce(union),
+      weight: entries.reduce((s, e) => s + e.level.weight, 0),
+      friction: entries.length > 0 ? Math.min(...entries.map(e => e.level.friction)) : 0,
+      blocked,
+      topOverLashings,
+      directLashings,
+      blockingDirections,
+      needsBlocking: blockingDirections.length > 0,
+    }
+  })
+
+  return {
+    rows,
+    equipment,
+    topOverLashings: rows.reduce((s, r) => s + r.topOverLashings, 0),
+    directLashings: rows.reduce((s, r) => s + r.directLashings, 0),
+  }
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+/** Filas transversales, de la cabina (z = depth) a las puertas */
+function groupRows(pallets: PlacedPallet[]): PlacedPallet[][] {
+  const sorted = pallets
+    .map(pp => ({ pp, bb: getPalletBoundingBox(pp) }))
+    .sort((a, b) => b.bb.maxZ - a.bb.maxZ)
+
+  const rows: PlacedPallet[][] = []
+  let rowMinZ = Infinity
+  for (const { pp, bb } of sorted) {
+    if (rows.length === 0 || bb.maxZ <= rowMinZ + ROW_TOLERANCE) {
+      rows.push([])
+      rowMinZ = bb.minZ
+    }
+    rows[rows.length - 1].push(pp)
+    rowMinZ = Math.min(rowMinZ, bb.minZ)
+  }
+  return rows
+}
+
+/**
+ * Amarres directos de un palet: una cincha por esquina, de modo que cada dirección
+ * la retienen las dos cinchas del lado contrario
+ */
+function directLashingsFor(level: LevelDynamics, lc: number, alpha: number, beta: number): number {
+  const force = level.weight * GRAVITY
+  const mu = level.friction
+  let perSide = 0
+
+  for (const m of level.directions) {
+    if (m.blocked || m.acceleration <= mu) continue
+    const horizontal = isLongitudinal(m.direction) ? Math.cos(beta) : Math.sin(beta)
+    const needed = Math.ceil(force * (m.acceleration - mu) / (lc * (Math.cos(alpha) * horizontal + mu * Math.sin(alpha))))
+    perSide = Math.max(perSide, Math.ceil(needed / 2))
+  }
+
+  return perSide * 4
+}
+
+function margins(level: LevelDynamics, direction: LoadDirection): DirectionalMargins {
+  return level.directions.find(d => d.direction === direction)!
+}
+
+function union(a: BoundingBox, b: BoundingBox): BoundingBox {
+  return {
+    minX: Math.min(a.minX, b.minX), maxX: Math.max(a.maxX, b.maxX),
+    minY: Math.min(a.minY, b.minY), maxY: Math.max(a.maxY, b.maxY),
+    minZ: Math.min(a.minZ, b.minZ), maxZ: Math.max(a.maxZ, b.maxZ),
+  }
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
@@ -0,0 +1,10 @@
+/**
+ * Sequence barrel export
+ */
+
+export {
+  generateLoadingSequence,
+  generateTruckLoadingSequence,
+  getBoxSequenceKey,
+} from './loading'
+export type { LoadingStep, LoadingSequence, TruckLoadingStep } from './loading'
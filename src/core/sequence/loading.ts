@@ -0,0 +1,179 @@
+/**
+ * Loading sequence — Orden de montaje paso a paso
+ *
+ * Ordena las cajas de un StackedPallet (o los palets de un camión) de forma que
+ * cada elemento se coloca después de todos los que lo soportan. Los soportes se
+ * toman de `supportedBy` cuando está informado; si no, se deducen de la geometría
+ * (elementos cuyo techo coincide con la base y solapan en planta).
+ */
+
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { Truck } from '../entities/Truck'
+import type { BoundingBox } from '../types'
+import { COLLISION_TOLERANCE } from '../constants'
+import { getBoxBoundingBox, getPalletBoundingBox } from '../validation/collision'
+
+export interface LoadingStep {
+  /** Posición en la secuencia (0-based) */
+  step: number
+  floorIndex: number
+  /** Índice de la caja dentro de `floor.boxes` */
+  boxIndex: number
+  /** Clave estable de la caja en el palet (ver `getBoxSequenceKey`) */
+  key: string
+  placedBox: PlacedBox
+  /** Ids de las cajas del mismo piso sobre las que apoya */
+  dependsOn: string[]
+}
+
+export interface LoadingSequence {
+  steps: LoadingStep[]
+  /** Cajas elevadas sin soporte (o con dependencias circulares); van al final de su piso */
+  unsupportedIds: string[]
+}
+
+export interface TruckLoadingStep {
+  step: number
+  placedPallet: PlacedPallet
+  /** Ids de los palets sobre los que apoya */
+  dependsOn: string[]
+}
+
+/** Altura (mm) por debajo de la cual un elemento se considera apoyado en la base */
+const GROUND_TOLERANCE = 1
+
+/** Diferencia (mm) admitida entre la base de un elemento y el techo de su soporte */
+const CONTACT_TOLERANCE = 2
+
+/**
+ * Clave de una caja por su posición en el palet (`f{piso}:b{índice}`).
+ * Los ids de `PlacedBox` pueden repetirse entre pisos; esta clave no.
+ */
+export function getBoxSequenceKey(floorIndex: number, boxIndex: number): string {
+  return `f${floorIndex}:b${boxIndex}`
+}
+
+// ─── Palet ───────────────────────────────────────────────────────
+
+/**
+ * Genera la secuencia de montaje de un palet: piso a piso y, dentro de cada piso,
+ * de abajo arriba y de fondo (z = 0) a frente, respetando los soportes.
+ */
+export function generateLoadingSequence(stack: StackedPallet): LoadingSequence {
+  const steps: LoadingStep[] = []
+  const unsupportedIds: string[] = []
+
+  stack.floors.forEach((floor, floorIndex) => {
+    const items = floor.boxes.map((pb, boxIndex) => ({ id: pb.id, boxIndex, pb, bb: getBoxBoundingBox(pb) }))
+    const ordered = orderBySupport(items, item => explicitSupports(item.pb, floor.boxes))
+
+    for (const { item, dependsOn, supported } of ordered) {
+      if (!supported) unsupportedIds.push(item.id)
+      steps.push({
+        step: steps.length,
+        floorIndex,
+        boxIndex: item.boxIndex,
+        key: getBoxSequenceKey(floorIndex, item.boxIndex),
+        placedBox: item.pb,
+        dependsOn,
+      })
+    }
+  })
+
+  return { steps, unsupportedIds }
+}
+
+// ─── Camión ──────────────────────────────────────────────────────
+
+/**
+ * Genera el orden de carga de un camión: del frontal (z = depth) hacia las
+ * puertas, y cada palet remontado después del palet que lo soporta.
+ */
+export function generateTruckLoadingSequence(truck: Truck): TruckLoadingStep[] {
+  const items = truck.pallets.map(pp => ({ id: pp.id, pp, bb: getPalletBoundingBox(pp) }))
+  const ordered = orderBySupport(items, () => undefined, (a, b) =>
+    b.bb.maxZ - a.bb.maxZ || a.bb.minY - b.bb.minY || a.bb.minX - b.bb.minX,
+  )
+
+  return ordered.map(({ item, dependsOn }, step) => ({ step, placedPallet: item.pp, dependsOn }))
+}
+
+// ─── Orden topológico ────────────────────────────────────────────
+
+interface SequenceItem {
+  id: string
+  bb: BoundingBox
+}
+
+interface OrderedItem<T> {
+  item: T
+  dependsOn: string[]
+  /** false si estaba elevado sin soporte o en un ciclo */
+  supported: boolean
+}
+
+/** Orden por defecto: de abajo arriba, de fondo a frente, de izquierda a derecha */
+function defaultPriority(a: SequenceItem, b: SequenceItem): number {
+  return a.bb.minY - b.bb.minY || a.bb.minZ - b.bb.minZ || a.bb.minX - b.bb.minX
+}
+
+/**
+ * Kahn con prioridad: en cada paso coloca el elemento listo (todos sus soportes
+ * colocados) con mayor prioridad. Los que nunca quedan listos se añaden al final.
+ */
+function orderBySupport<T extends SequenceItem>(
+  items: T[],
+  getExplicit: (item: T) => string[] | undefined,
+  priority: (a: T, b: T) => number = defaultPriority,
+): OrderedItem<T>[] {
+  const ids = new Set(items.map(i => i.id))
+  const deps = new Map<T, string[]>()
+  const floating = new Set<T>()
+
+  for (const item of items) {
+    const explicit = getExplicit(item)?.filter(id => ids.has(id) && id !== item.id)
+    const supports = explicit && explicit.length > 0 ? explicit : geometricSupports(item, items)
+    deps.set(item, supports)
+    if (item.bb.minY > GROUND_TOLERANCE && supports.length === 0) floating.add(item)
+  }
+
+  const placed = new Set<string>()
+  const pending = [...items].sort(priority)
+  const result: OrderedItem<T>[] = []
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(item => !floating.has(item) && deps.get(item)!.every(id => placed.has(id)))
+    if (index === -1) break
+    const [item] = pending.splice(index, 1)
+    placed.add(item.id)
+    result.push({ item, dependsOn: deps.get(item)!, supported: true })
+  }
+
+  for (const item of pending) {
+    result.push({ item, dependsOn: deps.get(item)!, supported: false })
+  }
+
+  return result
+}
+
+function explicitSupports(pb: PlacedBox, floorBoxes: PlacedBox[]): string[] | undefined {
+  return pb.supportedBy.length > 0 && floorBoxes.some(other => pb.supportedBy.includes(other.id))
+    ? pb.supportedBy
+    : undefined
+}
+
+function geometricSupports<T extends SequenceItem>(item: T, items: T[]): string[] {
+  if (item.bb.minY <= GROUND_TOLERANCE) return []
+  return items
+    .filter(other =>
+      other !== item
+      && Math.abs(other.bb.maxY - item.bb.minY) <= CONTACT_TOLERANCE
+      && other.bb.minX < item.bb.maxX - COLLISION_TOLERANCE
+      && other.bb.maxX > item.bb.minX + COLLISION_TOLERANCE
+      && other.bb.minZ < item.bb.maxZ - COLLISION_TOLERANCE
+      && other.bb.maxZ > item.bb.minZ + COLLISION_TOLERANCE,
+    )
+    .map(other => other.id)
+}
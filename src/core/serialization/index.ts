@@ -0,0 +1,24 @@
+/**
+ * Serialization barrel export
+ */
+
+export { serialize, deserialize } from './serialize'
+export type { DeserializeOptions } from './serialize'
+export { SCHEMA_VERSION, SerializationError } from './schema'
+export type {
+  SerializableEntities,
+  SerializableKind,
+  SerializedDocument,
+  SerializedEntities,
+  SerializedPlacedBox,
+  SerializedPalletFloor,
+  SerializedStackedPallet,
+  SerializedPlacedPallet,
+  SerializedTruck,
+  SerializedSlottedPallet,
+  SerializedRack,
+  SerializedRoom,
+  SerializedWarehouse,
+} from './schema'
+export { LEGACY_SCHEMA_VERSION, MIGRATIONS, migrateDocument } from './migrations'
+export type { Migration, MigrationMap, RawDocument } from './migrations'
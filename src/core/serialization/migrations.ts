@@ -0,0 +1,111 @@
+/**
+ * Serialization migrations — Conversión de documentos antiguos a la versión actual
+ *
+ * Cada migración recibe un documento en la versión `n` (todavía sin validar) y
+ * devuelve el equivalente en la versión `n + 1`. `deserialize` las encadena hasta
+ * llegar a `SCHEMA_VERSION`.
+ */
+
+import type { SerializableKind } from './schema'
+import { SCHEMA_VERSION, SerializationError } from './schema'
+
+export type RawDocument = Record<string, unknown>
+
+/** Migra un documento de la versión `n` (clave del mapa) a la `n + 1` */
+export type Migration = (doc: RawDocument) => RawDocument
+
+export type MigrationMap = Record<number, Migration>
+
+/**
+ * Versión 0: la entidad tal cual (`JSON.stringify` de los objetos del dominio),
+ * con la `Box` completa embebida en cada `PlacedBox`.
+ */
+export const LEGACY_SCHEMA_VERSION = 0
+
+export const MIGRATIONS: MigrationMap = {
+  [LEGACY_SCHEMA_VERSION]: migrateEmbeddedBoxes,
+}
+
+/**
+ * Aplica las migraciones necesarias hasta `SCHEMA_VERSION`.
+ * Las migraciones de `extra` tienen prioridad sobre las incluidas en la librería.
+ */
+export function migrateDocument(doc: RawDocument, extra: MigrationMap = {}): RawDocument {
+  const migrations = { ...MIGRATIONS, ...extra }
+  let current = doc
+
+  for (;;) {
+    const version = current.version
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      throw new SerializationError(`expected schema version, got ${JSON.stringify(version)}`, 'version')
+    }
+    if (version === SCHEMA_VERSION) return current
+    if (version > SCHEMA_VERSION) {
+      throw new SerializationError(`document version ${version} is newer than supported version ${SCHEMA_VERSION}`, 'version')
+    }
+
+    const migrate = migrations[version]
+    if (!migrate) throw new SerializationError(`no migration from version ${version}`, 'version')
+    current = migrate(current)
+    if (current.version !== version + 1) {
+      throw new SerializationError(`migration from version ${version} must produce version ${version + 1}`, 'version')
+    }
+  }
+}
+
+// ─── v0 → v1 ─────────────────────────────────────────────────────
+
+/** Extrae las cajas embebidas a un catálogo y las sustituye por `boxId` */
+function migrateEmbeddedBoxes(doc: RawDocument): RawDocument {
+  const boxes = new Map<string, unknown>()
+  const data = structuredClone(doc.data)
+
+  for (const stack of stackedPalletsOf(doc.kind as SerializableKind, data)) {
+    for (const floor of arrayOf(stack.floors)) {
+      for (const pb of arrayOf(floor.boxes)) {
+        const box = pb.box as { id?: unknown } | undefined
+        if (typeof box !== 'object' || box === null || typeof box.id !== 'string') continue
+        if (!boxes.has(box.id)) boxes.set(box.id, box)
+        pb.boxId = box.id
+        delete pb.box
+      }
+    }
+  }
+
+  return { ...doc, version: 1, boxes: [...boxes.values()], data }
+}
+
+/** Devuelve los StackedPallet de un documento; tolera datos mal formados (se validan después) */
+function stackedPalletsOf(kind: SerializableKind, data: unknown): RawDocument[] {
+  const stacksOf = (placed: unknown) => arrayOf(placed).map(pp => pp.stackedPallet).filter(isObject)
+  // Palets del suelo y de las ubicaciones de sus estanterías
+  const roomStacks = (room: RawDocument) => [
+    ...stacksOf(room.pallets),
+    ...arrayOf(room.racks).flatMap(rack =>
+      arrayOf(rack.bays).flatMap(bay => arrayOf(bay.levels).flatMap(level => stacksOf(level.pallets))),
+    ),
+  ]
+
+  switch (kind) {
+    case 'stackedPallet':
+      return isObject(data) ? [data] : []
+    case 'placedPallet':
+      return isObject(data) ? stacksOf([data]) : []
+    case 'truck':
+      return isObject(data) ? stacksOf(data.pallets) : []
+    case 'room':
+      return isObject(data) ? roomStacks(data) : []
+    case 'warehouse':
+      return isObject(data) ? arrayOf(data.rooms).flatMap(roomStacks) : []
+    default:
+      return []
+  }
+}
+
+function arrayOf(value: unknown): RawDocument[] {
+  return Array.isArray(value) ? value.filter(isObject) : []
+}
+
+function isObject(value: unknown): value is RawDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
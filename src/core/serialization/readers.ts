@@ -0,0 +1,459 @@
+/**
+ * Serialization readers — Validación estructural de documentos al cargar
+ *
+ * Cada lector comprueba el tipo de los campos conocidos y devuelve una copia;
+ * los campos desconocidos se conservan. Ante cualquier error lanza
+ * `SerializationError` con la ruta del valor erróneo.
+ */
+
+import type { Box, BoxCompression, HazmatInfo } from '../entities/Box'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { Pallet } from '../entities/Pallet'
+import type { Separator } from '../entities/Separator'
+import type { PalletFloor } from '../entities/PalletFloor'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Axle, TemperatureZone, Truck, TruckAxles, TruckDoor } from '../entities/Truck'
+import type { Room, RoomObstacle } from '../entities/Room'
+import type { Bay, BeamLevel, Rack, SlottedPallet } from '../entities/Rack'
+import type { Warehouse } from '../entities/Warehouse'
+import type { Dimensions3D, DiscreteRotation, Point2D, Position3D, TemperatureRange } from '../types'
+import { BoxAxis, DoorSide, HazardClass, ObstacleType, PackingGroup, PalletMaterial, SeparatorMaterial, TruckType } from '../types'
+import { SerializationError } from './schema'
+
+type Json = Record<string, unknown>
+
+const RIGHT_ANGLES = [0, 90, 180, 270] as const
+
+// ─── Primitivas ──────────────────────────────────────────────────
+
+export function readObject(value: unknown, path: string): Json {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SerializationError(`expected object, got ${describe(value)}`, path)
+  }
+  return value as Json
+}
+
+export function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new SerializationError(`expected array, got ${describe(value)}`, path)
+  return value
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SerializationError(`expected finite number, got ${describe(value)}`, path)
+  }
+  return value
+}
+
+export function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new SerializationError(`expected string, got ${describe(value)}`, path)
+  return value
+}
+
+function readBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new SerializationError(`expected boolean, got ${describe(value)}`, path)
+  return value
+}
+
+function readEnum<T extends string>(value: unknown, allowed: Record<string, T>, path: string): T {
+  const values = Object.values(allowed)
+  if (!values.includes(value as T)) {
+    throw new SerializationError(`expected one of ${values.join(', ')}, got ${describe(value)}`, path)
+  }
+  return value as T
+}
+
+function readAngle(value: unknown, path: string): 0 | 90 | 180 | 270 {
+  if (!RIGHT_ANGLES.includes(value as 0)) {
+    throw new SerializationError(`expected 0, 90, 180 or 270, got ${describe(value)}`, path)
+  }
+  return value as 0 | 90 | 180 | 270
+}
+
+function readOptional<T>(obj: Json, key: string, path: string, read: (v: unknown, p: string) => T): T | undefined {
+  return obj[key] === undefined ? undefined : read(obj[key], `${path}.${key}`)
+}
+
+function readStringList(value: unknown, path: string): string[] {
+  return readArray(value, path).map((v, i) => readString(v, `${path}[${i}]`))
+}
+
+function readMetadata(value: unknown, path: string): Record<string, unknown> {
+  return value === undefined ? {} : { ...readObject(value, path) }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value === 'string' ? `"${value}"` : typeof value
+}
+
+// ─── Value objects ───────────────────────────────────────────────
+
+function readDimensions(value: unknown, path: string): Dimensions3D {
+  const obj = readObject(value, path)
+  return {
+    width: readNumber(obj.width, `${path}.width`),
+    height: readNumber(obj.height, `${path}.height`),
+    depth: readNumber(obj.depth, `${path}.depth`),
+  }
+}
+
+function readPosition(value: unknown, path: string): Position3D {
+  const obj = readObject(value, path)
+  return {
+    x: readNumber(obj.x, `${path}.x`),
+    y: readNumber(obj.y, `${path}.y`),
+    z: readNumber(obj.z, `${path}.z`),
+  }
+}
+
+function readRotation(value: unknown, path: string): DiscreteRotation {
+  const obj = readObject(value, path)
+  return {
+    x: readAngle(obj.x, `${path}.x`),
+    y: readAngle(obj.y, `${path}.y`),
+    z: readAngle(obj.z, `${path}.z`),
+  }
+}
+
+function readPoint2D(value: unknown, path: string): Point2D {
+  const obj = readObject(value, path)
+  return { x: readNumber(obj.x, `${path}.x`), z: readNumber(obj.z, `${path}.z`) }
+}
+
+function readCompression(value: unknown, path: string): BoxCompression {
+  const obj = readObject(value, path)
+  const compression: BoxCompression = { ...obj, bct: readNumber(obj.bct, `${path}.bct`) }
+  readOptional(obj, 'humidityFactor', path, readNumber)
+  readOptional(obj, 'durationFactor', path, readNumber)
+  return compression
+}
+
+function readHazmat(value: unknown, path: string): HazmatInfo {
+  const obj = readObject(value, path)
+  const hazmat: HazmatInfo = {
+    ...obj,
+    unNumber: readString(obj.unNumber, `${path}.unNumber`),
+    hazardClass: readEnum(obj.hazardClass, HazardClass, `${path}.hazardClass`),
+  }
+  const subsidiary = readOptional(obj, 'subsidiaryClasses', path, (v, p) =>
+    readArray(v, p).map((c, i) => readEnum(c, HazardClass, `${p}[${i}]`)),
+  )
+  if (subsidiary) hazmat.subsidiaryClasses = subsidiary
+  const packingGroup = readOptional(obj, 'packingGroup', path, (v, p) => readEnum(v, PackingGroup, p))
+  if (packingGroup) hazmat.packingGroup = packingGroup
+  readOptional(obj, 'limitedQuantity', path, readBoolean)
+  readOptional(obj, 'properShippingName', path, readString)
+  return hazmat
+}
+
+function readTemperatureRange(value: unknown, path: string): TemperatureRange {
+  const obj = readObject(value, path)
+  return { min: readNumber(obj.min, `${path}.min`), max: readNumber(obj.max, `${path}.max`) }
+}
+
+// ─── Entidades ───────────────────────────────────────────────────
+
+export function readBox(value: unknown, path: string): Box {
+  const obj = readObject(value, path)
+  const box: Box = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    dimensions: readDimensions(obj.dimensions, `${path}.dimensions`),
+    weight: readNumber(obj.weight, `${path}.weight`),
+    fragile: readBoolean(obj.fragile, `${path}.fragile`),
+    stackable: readBoolean(obj.stackable, `${path}.stackable`),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+
+  readOptional(obj, 'sku', path, readString)
+  readOptional(obj, 'type', path, readString)
+  readOptional(obj, 'product', path, readString)
+  readOptional(obj, 'materialWeight', path, readNumber)
+  readOptional(obj, 'fragilityMaxWeight', path, readNumber)
+  readOptional(obj, 'color', path, readString)
+  readOptional(obj, 'texture', path, readString)
+  readOptional(obj, 'modelUrl', path, readString)
+  const upAxes = readOptional(obj, 'allowedUpAxes', path, (v, p) =>
+    readArray(v, p).map((axis, i) => readEnum(axis, BoxAxis, `${p}[${i}]`)),
+  )
+  if (upAxes) box.allowedUpAxes = upAxes
+  const compression = readOptional(obj, 'compression', path, readCompression)
+  if (compression) box.compression = compression
+  const temperatureRange = readOptional(obj, 'temperatureRange', path, readTemperatureRange)
+  if (temperatureRange) box.temperatureRange = temperatureRange
+  const hazmat = readOptional(obj, 'hazmat', path, readHazmat)
+  if (hazmat) box.hazmat = hazmat
+
+  return box
+}
+
+/** Lee un `SerializedPlacedBox` y resuelve su `boxId` contra el catálogo */
+function readPlacedBox(value: unknown, path: string, boxes: Map<string, Box>): PlacedBox {
+  const obj = readObject(value, path)
+  const boxId = readString(obj.boxId, `${path}.boxId`)
+  const box = boxes.get(boxId)
+  if (!box) throw new SerializationError(`unknown box "${boxId}"`, `${path}.boxId`)
+
+  const rest = { ...obj }
+  delete rest.boxId
+  return {
+    ...rest,
+    id: readString(obj.id, `${path}.id`),
+    box,
+    position: readPosition(obj.position, `${path}.position`),
+    rotation: readRotation(obj.rotation, `${path}.rotation`),
+    supportedBy: obj.supportedBy === undefined ? [] : readStringList(obj.supportedBy, `${path}.supportedBy`),
+    supporting: obj.supporting === undefined ? [] : readStringList(obj.supporting, `${path}.supporting`),
+  }
+}
+
+function readPallet(value: unknown, path: string): Pallet {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    dimensions: readDimensions(obj.dimensions, `${path}.dimensions`),
+    material: readEnum(obj.material, PalletMaterial, `${path}.material`),
+    maxWeight: readNumber(obj.maxWeight, `${path}.maxWeight`),
+    maxStackHeight: readNumber(obj.maxStackHeight, `${path}.maxStackHeight`),
+    weight: readNumber(obj.weight, `${path}.weight`),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+}
+
+function readSeparator(value: unknown, path: string): Separator {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    dimensions: readDimensions(obj.dimensions, `${path}.dimensions`),
+    material: readEnum(obj.material, SeparatorMaterial, `${path}.material`),
+    weight: readNumber(obj.weight, `${path}.weight`),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+}
+
+function readFloor(value: unknown, path: string, boxes: Map<string, Box>): PalletFloor {
+  const obj = readObject(value, path)
+  const floor: PalletFloor = {
+    ...obj,
+    level: readNumber(obj.level, `${path}.level`),
+    pallet: readPallet(obj.pallet, `${path}.pallet`),
+    boxes: readArray(obj.boxes, `${path}.boxes`).map((pb, i) => readPlacedBox(pb, `${path}.boxes[${i}]`, boxes)),
+  }
+  const separator = readOptional(obj, 'separatorAbove', path, readSeparator)
+  if (separator) floor.separatorAbove = separator
+  return floor
+}
+
+export function readStackedPallet(value: unknown, path: string, boxes: Map<string, Box>): StackedPallet {
+  const obj = readObject(value, path)
+  const floors = readArray(obj.floors, `${path}.floors`)
+  if (floors.length === 0) throw new SerializationError('expected at least one floor', `${path}.floors`)
+
+  const stack: StackedPallet = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    floors: floors.map((f, i) => readFloor(f, `${path}.floors[${i}]`, boxes)),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+  readOptional(obj, 'deliveryStop', path, readNumber)
+  const temperatureRange = readOptional(obj, 'temperatureRange', path, readTemperatureRange)
+  if (temperatureRange) stack.temperatureRange = temperatureRange
+  return stack
+}
+
+export function readPlacedPallet(value: unknown, path: string, boxes: Map<string, Box>): PlacedPallet {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    stackedPallet: readStackedPallet(obj.stackedPallet, `${path}.stackedPallet`, boxes),
+    position: readPosition(obj.position, `${path}.position`),
+    yRotation: readAngle(obj.yRotation, `${path}.yRotation`),
+  }
+}
+
+function readAxle(value: unknown, path: string): Axle {
+  const obj = readObject(value, path)
+  const axle: Axle = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    position: readNumber(obj.position, `${path}.position`),
+    maxLoad: readNumber(obj.maxLoad, `${path}.maxLoad`),
+  }
+  readOptional(obj, 'tareLoad', path, readNumber)
+  return axle
+}
+
+function readAxles(value: unknown, path: string): TruckAxles {
+  const obj = readObject(value, path)
+  const axles: TruckAxles = {
+    front: readAxle(obj.front, `${path}.front`),
+    rear: readAxle(obj.rear, `${path}.rear`),
+  }
+  const tractor = readOptional(obj, 'tractor', path, (v, p) => {
+    const t = readObject(v, p)
+    return { steer: readAxle(t.steer, `${p}.steer`), drive: readAxle(t.drive, `${p}.drive`) }
+  })
+  if (tractor) axles.tractor = tractor
+  return axles
+}
+
+function readDoor(value: unknown, path: string): TruckDoor {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    side: readEnum(obj.side, DoorSide, `${path}.side`),
+    offset: readNumber(obj.offset, `${path}.offset`),
+    width: readNumber(obj.width, `${path}.width`),
+    height: readNumber(obj.height, `${path}.height`),
+  }
+}
+
+function readTemperatureZone(value: unknown, path: string): TemperatureZone {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    startZ: readNumber(obj.startZ, `${path}.startZ`),
+    endZ: readNumber(obj.endZ, `${path}.endZ`),
+    setpoint: readNumber(obj.setpoint, `${path}.setpoint`),
+  }
+}
+
+export function readTruck(value: unknown, path: string, boxes: Map<string, Box>): Truck {
+  const obj = readObject(value, path)
+  const truck: Truck = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    name: readString(obj.name, `${path}.name`),
+    truckType: readEnum(obj.truckType, TruckType, `${path}.truckType`),
+    dimensions: readDimensions(obj.dimensions, `${path}.dimensions`),
+    maxWeight: readNumber(obj.maxWeight, `${path}.maxWeight`),
+    pallets: readArray(obj.pallets, `${path}.pallets`).map((pp, i) => readPlacedPallet(pp, `${path}.pallets[${i}]`, boxes)),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+  const axles = readOptional(obj, 'axles', path, readAxles)
+  if (axles) truck.axles = axles
+  readOptional(obj, 'tareWeight', path, readNumber)
+  const doorOpening = readOptional(obj, 'doorOpening', path, (v, p) => {
+    const d = readObject(v, p)
+    return { width: readNumber(d.width, `${p}.width`), height: readNumber(d.height, `${p}.height`) }
+  })
+  if (doorOpening) truck.doorOpening = doorOpening
+  const doors = readOptional(obj, 'doors', path, (v, p) => readArray(v, p).map((d, i) => readDoor(d, `${p}[${i}]`)))
+  if (doors) truck.doors = doors
+  const zones = readOptional(obj, 'temperatureZones', path, (v, p) =>
+    readArray(v, p).map((z, i) => readTemperatureZone(z, `${p}[${i}]`)),
+  )
+  if (zones) truck.temperatureZones = zones
+  readOptional(obj, 'licensePlate', path, readString)
+  return truck
+}
+
+function readSlottedPallet(value: unknown, path: string, boxes: Map<string, Box>): SlottedPallet {
+  const obj = readObject(value, path)
+  if (obj.yRotation !== 0 && obj.yRotation !== 90) {
+    throw new SerializationError(`expected 0 or 90, got ${describe(obj.yRotation)}`, `${path}.yRotation`)
+  }
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    slot: readNumber(obj.slot, `${path}.slot`),
+    stackedPallet: readStackedPallet(obj.stackedPallet, `${path}.stackedPallet`, boxes),
+    yRotation: obj.yRotation,
+  }
+}
+
+function readBeamLevel(value: unknown, path: string, boxes: Map<string, Box>): BeamLevel {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    elevation: readNumber(obj.elevation, `${path}.elevation`),
+    beamHeight: readNumber(obj.beamHeight, `${path}.beamHeight`),
+    maxLoad: readNumber(obj.maxLoad, `${path}.maxLoad`),
+    slotCount: readNumber(obj.slotCount, `${path}.slotCount`),
+    pallets: readArray(obj.pallets, `${path}.pallets`).map((sp, i) => readSlottedPallet(sp, `${path}.pallets[${i}]`, boxes)),
+  }
+}
+
+function readBay(value: unknown, path: string, boxes: Map<string, Box>): Bay {
+  const obj = readObject(value, path)
+  const bay: Bay = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    width: readNumber(obj.width, `${path}.width`),
+    levels: readArray(obj.levels, `${path}.levels`).map((l, i) => readBeamLevel(l, `${path}.levels[${i}]`, boxes)),
+  }
+  readOptional(obj, 'maxLoad', path, readNumber)
+  return bay
+}
+
+export function readRack(value: unknown, path: string, boxes: Map<string, Box>): Rack {
+  const obj = readObject(value, path)
+  const rack: Rack = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    position: readPosition(obj.position, `${path}.position`),
+    yRotation: readAngle(obj.yRotation, `${path}.yRotation`),
+    depth: readNumber(obj.depth, `${path}.depth`),
+    height: readNumber(obj.height, `${path}.height`),
+    uprightWidth: readNumber(obj.uprightWidth, `${path}.uprightWidth`),
+    bays: readArray(obj.bays, `${path}.bays`).map((b, i) => readBay(b, `${path}.bays[${i}]`, boxes)),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+  readOptional(obj, 'name', path, readString)
+  return rack
+}
+
+function readObstacle(value: unknown, path: string): RoomObstacle {
+  const obj = readObject(value, path)
+  const obstacle: RoomObstacle = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    type: readEnum(obj.type, ObstacleType, `${path}.type`),
+    position: readPoint2D(obj.position, `${path}.position`),
+    width: readNumber(obj.width, `${path}.width`),
+    depth: readNumber(obj.depth, `${path}.depth`),
+  }
+  readOptional(obj, 'name', path, readString)
+  readOptional(obj, 'height', path, readNumber)
+  readOptional(obj, 'clearance', path, readNumber)
+  return obstacle
+}
+
+export function readRoom(value: unknown, path: string, boxes: Map<string, Box>): Room {
+  const obj = readObject(value, path)
+  const room: Room = {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    name: readString(obj.name, `${path}.name`),
+    floorPolygon: readArray(obj.floorPolygon, `${path}.floorPolygon`).map((p, i) => readPoint2D(p, `${path}.floorPolygon[${i}]`)),
+    ceilingHeight: readNumber(obj.ceilingHeight, `${path}.ceilingHeight`),
+    pallets: readArray(obj.pallets, `${path}.pallets`).map((pp, i) => readPlacedPallet(pp, `${path}.pallets[${i}]`, boxes)),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+  readOptional(obj, 'position', path, readPoint2D)
+  const racks = readOptional(obj, 'racks', path, (v, p) => readArray(v, p).map((r, i) => readRack(r, `${p}[${i}]`, boxes)))
+  if (racks) room.racks = racks
+  const obstacles = readOptional(obj, 'obstacles', path, (v, p) => readArray(v, p).map((o, i) => readObstacle(o, `${p}[${i}]`)))
+  if (obstacles) room.obstacles = obstacles
+  return room
+}
+
+export function readWarehouse(value: unknown, path: string, boxes: Map<string, Box>): Warehouse {
+  const obj = readObject(value, path)
+  return {
+    ...obj,
+    id: readString(obj.id, `${path}.id`),
+    name: readString(obj.name, `${path}.name`),
+    rooms: readArray(obj.rooms, `${path}.rooms`).map((r, i) => readRoom(r, `${path}.rooms[${i}]`, boxes)),
+    metadata: readMetadata(obj.metadata, `${path}.metadata`),
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Serialization schema — Formato versionado de guardado/carga
+ *
+ * Un documento envuelve una entidad raíz (`kind`) junto con la versión del esquema.
+ * Las cajas se guardan una sola vez en `boxes` y cada `PlacedBox` las referencia por `boxId`.
+ */
+
+import type { Box } from '../entities/Box'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { PalletFloor } from '../entities/PalletFloor'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Truck } from '../entities/Truck'
+import type { Room } from '../entities/Room'
+import type { Bay, BeamLevel, Rack, SlottedPallet } from '../entities/Rack'
+import type { Warehouse } from '../entities/Warehouse'
+
+/** Versión actual del esquema. Incrementar al cambiar el formato y añadir su migración */
+export const SCHEMA_VERSION = 1
+
+/** Entidades raíz que se pueden serializar */
+export interface SerializableEntities {
+  stackedPallet: StackedPallet
+  placedPallet: PlacedPallet
+  truck: Truck
+  room: Room
+  warehouse: Warehouse
+}
+
+export type SerializableKind = keyof SerializableEntities
+
+// ─── Formas serializadas ─────────────────────────────────────────
+
+export interface SerializedPlacedBox extends Omit<PlacedBox, 'box'> {
+  boxId: string
+}
+
+export interface SerializedPalletFloor extends Omit<PalletFloor, 'boxes'> {
+  boxes: SerializedPlacedBox[]
+}
+
+export interface SerializedStackedPallet extends Omit<StackedPallet, 'floors'> {
+  floors: SerializedPalletFloor[]
+}
+
+export interface SerializedPlacedPallet extends Omit<PlacedPallet, 'stackedPallet'> {
+  stackedPallet: SerializedStackedPallet
+}
+
+export interface SerializedTruck extends Omit<Truck, 'pallets'> {
+  pallets: SerializedPlacedPallet[]
+}
+
+export interface SerializedSlottedPallet extends Omit<SlottedPallet, 'stackedPallet'> {
+  stackedPallet: SerializedStackedPallet
+}
+
+export interface SerializedRack extends Omit<Rack, 'bays'> {
+  bays: (Omit<Bay, 'levels'> & { levels: (Omit<BeamLevel, 'pallets'> & { pallets: SerializedSlottedPallet[] })[] })[]
+}
+
+export interface SerializedRoom extends Omit<Room, 'pallets' | 'racks'> {
+  pallets: SerializedPlacedPallet[]
+  racks?: SerializedRack[]
+}
+
+export interface SerializedWarehouse extends Omit<Warehouse, 'rooms'> {
+  rooms: SerializedRoom[]
+}
+
+export interface SerializedEntities {
+  stackedPallet: SerializedStackedPallet
+  placedPallet: SerializedPlacedPallet
+  truck: SerializedTruck
+  room: SerializedRoom
+  warehouse: SerializedWarehouse
+}
+
+/** Documento serializado en la versión actual */
+export interface SerializedDocument<K extends SerializableKind = SerializableKind> {
+  version: number
+  kind: K
+  /** Catálogo de cajas deduplicado por id */
+  boxes: Box[]
+  data: SerializedEntities[K]
+}
+
+// ─── Errores ─────────────────────────────────────────────────────
+
+/** Error de carga: documento mal formado, versión no soportada o tipo inesperado */
+export class SerializationError extends Error {
+  /** Ruta del valor erróneo dentro del documento (p. ej. `data.floors[0].boxes[2].boxId`) */
+  readonly path: string
+
+  constructor(message: string, path = '') {
+    super(path ? `${path}: ${message}` : message)
+    this.name = 'SerializationError'
+    this.path = path
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * serialize / deserialize — Guardado y carga versionados de entidades
+ */
+
+import type { Box } from '../entities/Box'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Room } from '../entities/Room'
+import type { Rack } from '../entities/Rack'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type {
+  SerializableEntities,
+  SerializableKind,
+  SerializedDocument,
+  SerializedEntities,
+  SerializedPlacedPallet,
+  SerializedRack,
+  SerializedRoom,
+  SerializedStackedPallet,
+} from './schema'
+import { SCHEMA_VERSION, SerializationError } from './schema'
+import type { MigrationMap, RawDocument } from './migrations'
+import { LEGACY_SCHEMA_VERSION, migrateDocument } from './migrations'
+import {
+  readArray,
+  readBox,
+  readObject,
+  readPlacedPallet,
+  readRoom,
+  readStackedPallet,
+  readString,
+  readTruck,
+  readWarehouse,
+} from './readers'
+
+export interface DeserializeOptions {
+  /** Migraciones adicionales (o que sustituyen a las de la librería), por versión de origen */
+  migrations?: MigrationMap
+}
+
+const KINDS: SerializableKind[] = ['stackedPallet', 'placedPallet', 'truck', 'room', 'warehouse']
+
+// ─── Serialización ───────────────────────────────────────────────
+
+/**
+ * Convierte una entidad en un documento JSON versionado.
+ * Las cajas se deduplican por id; dos cajas distintas con el mismo id son un error.
+ *
+ * @param kind Tipo de la entidad raíz
+ * @param entity Entidad a guardar
+ * @returns Documento listo para `JSON.stringify`
+ */
+export function serialize<K extends SerializableKind>(kind: K, entity: SerializableEntities[K]): SerializedDocument<K> {
+  const boxes = new Map<string, Box>()
+  const data = serializeEntity(kind, entity, boxes) as SerializedEntities[K]
+  return structuredClone({ version: SCHEMA_VERSION, kind, boxes: [...boxes.values()], data })
+}
+
+function serializeEntity(kind: SerializableKind, entity: unknown, boxes: Map<string, Box>): unknown {
+  switch (kind) {
+    case 'stackedPallet':
+      return serializeStack(entity as StackedPallet, boxes)
+    case 'placedPallet':
+      return serializePlaced(entity as PlacedPallet, boxes)
+    case 'truck': {
+      const truck = entity as SerializableEntities['truck']
+      return { ...truck, pallets: truck.pallets.map(pp => serializePlaced(pp, boxes)) }
+    }
+    case 'room':
+      return serializeRoom(entity as Room, boxes)
+    case 'warehouse': {
+      const warehouse = entity as SerializableEntities['warehouse']
+      return { ...warehouse, rooms: warehouse.rooms.map(room => serializeRoom(room, boxes)) }
+    }
+  }
+}
+
+function serializeRoom(room: Room, boxes: Map<string, Box>): SerializedRoom {
+  const { racks, ...rest } = room
+  return {
+    ...rest,
+    pallets: room.pallets.map(pp => serializePlaced(pp, boxes)),
+    ...(racks ? { racks: racks.map(rack => serializeRack(rack, boxes)) } : {}),
+  }
+}
+
+function serializeRack(rack: Rack, boxes: Map<string, Box>): SerializedRack {
+  return {
+    ...rack,
+    bays: rack.bays.map(bay => ({
+      ...bay,
+      levels: bay.levels.map(level => ({
+        ...level,
+        pallets: level.pallets.map(sp => ({ ...sp, stackedPallet: serializeStack(sp.stackedPallet, boxes) })),
+      })),
+    })),
+  }
+}
+
+function serializePlaced(pp: PlacedPallet, boxes: Map<string, Box>): SerializedPlacedPallet {
+  return { ...pp, stackedPallet: serializeStack(pp.stackedPallet, boxes) }
+}
+
+function serializeStack(stack: StackedPallet, boxes: Map<string, Box>): SerializedStackedPallet {
+  return {
+    ...stack,
+    floors: stack.floors.map(floor => ({
+      ...floor,
+      boxes: floor.boxes.map(({ box, ...placed }) => {
+        registerBox(box, boxes)
+        return { ...placed, boxId: box.id }
+      }),
+    })),
+  }
+}
+
+function registerBox(box: Box, boxes: Map<string, Box>): void {
+  const known = boxes.get(box.id)
+  if (!known) {
+    boxes.set(box.id, box)
+  } else if (known !== box && JSON.stringify(known) !== JSON.stringify(box)) {
+    throw new SerializationError(`conflicting definitions for box "${box.id}"`)
+  }
+}
+
+// ─── Deserialización ─────────────────────────────────────────────
+
+/**
+ * Carga un documento (objeto o cadena JSON), lo migra a la versión actual y lo valida.
+ * Un objeto sin `version` se interpreta como la entidad sin envolver (versión 0).
+ * Las `PlacedBox` que referencian la misma caja comparten el mismo objeto `Box`.
+ *
+ * @param input Documento serializado
+ * @param kind Tipo de entidad raíz esperado
+ * @throws SerializationError si el documento está mal formado o no es del tipo esperado
+ */
+export function deserialize<K extends SerializableKind>(
+  input: unknown,
+  kind: K,
+  options: DeserializeOptions = {},
+): SerializableEntities[K] {
+  let raw = readObject(parse(input), '')
+  if (raw.version === undefined) {
+    raw = { version: LEGACY_SCHEMA_VERSION, kind, data: raw }
+  }
+
+  const doc: RawDocument = migrateDocument(raw, options.migrations)
+  const docKind = readString(doc.kind, 'kind')
+  if (!KINDS.includes(docKind as SerializableKind)) {
+    throw new SerializationError(`unknown kind "${docKind}"`, 'kind')
+  }
+  if (docKind !== kind) throw new SerializationError(`expected kind "${kind}", got "${docKind}"`, 'kind')
+
+  const boxes = new Map<string, Box>()
+  readArray(doc.boxes, 'boxes').forEach((value, i) => {
+    const box = readBox(value, `boxes[${i}]`)
+    if (boxes.has(box.id)) throw new SerializationError(`duplicate box "${box.id}"`, `boxes[${i}].id`)
+    boxes.set(box.id, box)
+  })
+
+  return readEntity(kind, doc.data, boxes) as SerializableEntities[K]
+}
+
+function readEntity(kind: SerializableKind, data: unknown, boxes: Map<string, Box>): unknown {
+  switch (kind) {
+    case 'stackedPallet':
+      return readStackedPallet(data, 'data', boxes)
+    case 'placedPallet':
+      return readPlacedPallet(data, 'data', boxes)
+    case 'truck':
+      return readTruck(data, 'data', boxes)
+    case 'room':
+      return readRoom(data, 'data', boxes)
+    case 'warehouse':
+      return readWarehouse(data, 'data', boxes)
+  }
+}
+
+function parse(input: unknown): unknown {
+  if (typeof input !== 'string') return input
+  try {
+    return JSON.parse(input)
+  } catch (error) {
+    throw new SerializationError(`invalid JSON (${(error as Error).message})`)
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * SpatialGrid — Índice espacial de rejilla uniforme sobre BoundingBox
+ *
+ * Cada elemento se registra en todas las celdas que toca su AABB. Una consulta
+ * solo recorre las celdas de la región pedida, así que las comprobaciones por
+ * pares (colisiones, soporte, contactos) pasan de O(n²) a ~O(n·k), con k el
+ * número de vecinos reales de cada elemento.
+ *
+ * La consulta devuelve candidatos cuyo AABB toca la región (bordes incluidos);
+ * el llamador aplica después su predicado exacto (tolerancias, áreas…).
+ */
+
+import type { BoundingBox } from '../types'
+
+/** Tamaño de celda por defecto (mm): del orden de una caja típica */
+export const DEFAULT_SPATIAL_CELL_SIZE = 500
+
+interface GridEntry<T> {
+  item: T
+  bounds: BoundingBox
+}
+
+interface CellRange {
+  x0: number, x1: number
+  y0: number, y1: number
+  z0: number, z1: number
+}
+
+export class SpatialGrid<T> {
+  readonly cellSize: number
+  private cells = new Map<string, number[]>()
+  /** Entradas por orden de inserción; `undefined` si se eliminó */
+  private entries: (GridEntry<T> | undefined)[] = []
+  /** Entradas eliminadas que siguen ocupando hueco en `entries` y `marks` */
+  private holes = 0
+  private positions = new Map<T, number>()
+  /** Marca de la última consulta que vio cada entrada (evita duplicados) */
+  private marks: number[] = []
+  private queryStamp = 0
+  /** Celdas ocupadas alguna vez: las consultas no recorren fuera de este rango */
+  private extent: CellRange | null = null
+
+  constructor(cellSize: number = DEFAULT_SPATIAL_CELL_SIZE) {
+    if (!(cellSize > 0)) {
+      throw new Error(`SpatialGrid cell size must be positive, got ${cellSize}`)
+    }
+    this.cellSize = cellSize
+  }
+
+  /**
+   * Crea un índice con los elementos dados. Sin `cellSize`, usa la arista
+   * mayor media de los AABB (ver `suggestCellSize`).
+   */
+  static from<T>(items: readonly T[], getBounds: (item: T) => BoundingBox, cellSize?: number): SpatialGrid<T> {
+    const bounds = items.map(getBounds)
+    const grid = new SpatialGrid<T>(cellSize ?? suggestCellSize(bounds))
+    items.forEach((item, i) => grid.insert(item, bounds[i]))
+    return grid
+  }
+
+  get size(): number {
+    return this.positions.size
+  }
+
+  /** Añade un elemento. Si ya estaba, lo reubica (queda el último en orden de inserción) */
+  insert(item: T, bounds: BoundingBox): void {
+    this.remove(item)
+
+    const index = this.entries.length
+    this.entries.push({ item, bounds })
+    this.marks.push(0)
+    this.positions.set(item, index)
+
+    const range = this.cellRange(bounds)
+    this.extent = this.extent
+      ? {
+          x0: Math.min(this.extent.x0, range.x0), x1: Math.max(this.extent.x1, range.x1),
+          y0: Math.min(this.extent.y0, range.y0), y1: Math.max(this.extent.y1, range.y1),
+          z0: Math.min(this.extent.z0, range.z0), z1: Math.max(this.extent.z1, range.z1),
+        }
+      : range
+
+    this.forEachCell(range, key => {
+      const bucket = this.cells.get(key)
+      if (bucket) bucket.push(index)
+      else this.cells.set(key, [index])
+    })
+  }
+
+  /** Quita un elemento. Devuelve false si no estaba */
+  remove(item: T): boolean {
+    const index = this.positions.get(item)
+    if (index === undefined) return false
+
+    this.forEachCell(this.cellRange(this.entries[index]!.bounds), key => {
+      const bucket = this.cells.get(key)!
+      bucket.splice(bucket.indexOf(index), 1)
+      if (bucket.length === 0) this.cells.delete(key)
+    })
+    this.entries[index] = undefined
+    this.positions.delete(item)
+
+    // Reubicar deja un hueco por cada `insert`: se compacta cuando son más de la mitad
+    this.holes++
+    if (this.holes * 2 > this.entries.length) this.compact()
+    return true
+  }
+
+  has(item: T): boolean {
+    return this.positions.has(item)
+  }
+
+  /**
+   * Elementos cuyo AABB toca la región (bordes incluidos), en orden de inserción.
+   * La región puede ser ilimitada (±Infinity) en cualquier eje.
+   */
+  query(region: BoundingBox): T[] {
+    return this.queryIndices(region).map(i => this.entries[i]!.item)
+  }
+
+  /**
+   * Como `query`, pero devuelve el orden de inserción de cada elemento.
+   * Tras quitar elementos, los índices se pueden renumerar (se conserva el orden)
+   */
+  queryIndices(region: BoundingBox): number[] {
+    const stamp = ++this.queryStamp
+    const found: number[] = []
+    if (!this.extent) return found
+
+    const range = this.cellRange(region)
+    const clamped: CellRange = {
+      x0: Math.max(range.x0, this.extent.x0), x1: Math.min(range.x1, this.extent.x1),
+      y0: Math.max(range.y0, this.extent.y0), y1: Math.min(range.y1, this.extent.y1),
+      z0: Math.max(range.z0, this.extent.z0), z1: Math.min(range.z1, this.extent.z1),
+    }
+
+    this.forEachCell(clamped, key => {
+      const bucket = this.cells.get(key)
+      if (!bucket) return
+      for (const index of bucket) {
+        if (this.marks[index] === stamp) continue
+        this.marks[index] = stamp
+        if (touchesRegion(this.entries[index]!.bounds, region)) found.push(index)
+      }
+    })
+
+    return found.sort((a, b) => a - b)
+  }
+
+  /** ¿Algún elemento cuyo AABB toca la región cumple el predicado? */
+  some(region: BoundingBox, predicate: (item: T, bounds: BoundingBox) => boolean): boolean {
+    return this.queryIndices(region).some(i => predicate(this.entries[i]!.item, this.entries[i]!.bounds))
+  }
+
+  clear(): void {
+    this.cells.clear()
+    this.entries = []
+    this.positions.clear()
+    this.marks = []
+    this.holes = 0
+    this.extent = null
+  }
+
+  /** Vuelve a insertar los elementos vivos, en el mismo orden y sin huecos */
+  private compact(): void {
+    const live = this.entries.filter((entry): entry is GridEntry<T> => entry !== undefined)
+    this.clear()
+    for (const { item, bounds } of live) this.insert(item, bounds)
+  }
+
+  private cellRange(bounds: BoundingBox): CellRange {
+    const s = this.cellSize
+    return {
+      x0: Math.floor(bounds.minX / s), x1: Math.floor(bounds.maxX / s),
+      y0: Math.floor(bounds.minY / s), y1: Math.floor(bounds.maxY / s),
+      z0: Math.floor(bounds.minZ / s), z1: Math.floor(bounds.maxZ / s),
+    }
+  }
+
+  private forEachCell(range: CellRange, fn: (key: string) => void): void {
+    for (let x = range.x0; x <= range.x1; x++) {
+      for (let y = range.y0; y <= range.y1; y++) {
+        for (let z = range.z0; z <= range.z1; z++) fn(`${x},${y},${z}`)
+      }
+    }
+  }
+}
+
+/**
+ * Tamaño de celda razonable para un conjunto de AABB: la media de su arista
+ * mayor (así cada elemento ocupa pocas celdas y cada celda tiene pocos elementos).
+ */
+export function suggestCellSize(bounds: readonly BoundingBox[]): number {
+  if (bounds.length === 0) return DEFAULT_SPATIAL_CELL_SIZE
+  const total = bounds.reduce((sum, bb) =>
+    sum + Math.max(bb.maxX - bb.minX, bb.maxY - bb.minY, bb.maxZ - bb.minZ), 0)
+  return Math.max(total / bounds.length, 1)
+}
+
+/** Región alrededor de un AABB, ampliada `margin` mm por cada lado */
+export function expandBounds(bb: BoundingBox, margin: number): BoundingBox {
+  return {
+    minX: bb.minX - margin, maxX: bb.maxX + margin,
+    minY: bb.minY - margin, maxY: bb.maxY + margin,
+    minZ: bb.minZ - margin, maxZ: bb.maxZ + margin,
+  }
+}
+
+function touchesRegion(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.minX <= b.maxX && a.maxX >= b.minX &&
+    a.minY <= b.maxY && a.maxY >= b.minY &&
+    a.minZ <= b.maxZ && a.maxZ >= b.minZ
+  )
+}
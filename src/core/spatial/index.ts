@@ -0,0 +1,10 @@
+/**
+ * Spatial barrel export
+ */
+
+export {
+  SpatialGrid,
+  DEFAULT_SPATIAL_CELL_SIZE,
+  suggestCellSize,
+  expandBounds,
+} from './SpatialGrid'
@@ -0,0 +1,165 @@
+/**
+ * Support graph — Quién se apoya en quién dentro de un piso de palet
+ *
+ * Se deduce de la geometría: una caja se apoya en otra cuando su base está a la
+ * altura del techo de la otra (±2 mm) y se solapan en planta. Con las áreas de
+ * contacto se reparte el peso de cada caja entre sus soportes, de arriba abajo,
+ * para obtener la carga que recibe cada caja (caminos de carga).
+ */
+
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { BoundingBox } from '../types'
+import { getBoxBoundingBox } from '../validation/collision'
+import { SpatialGrid } from '../spatial/SpatialGrid'
+
+/** Diferencia máxima (mm) entre la base de una caja y el techo de su soporte (como BR-004) */
+export const SUPPORT_CONTACT_TOLERANCE = 2
+
+/** Altura máxima (mm) de la base de una caja para considerarla sobre el palet */
+const GROUND_TOLERANCE = 1
+
+/** Contacto entre una caja y la caja sobre la que se apoya */
+export interface SupportContact {
+  /** Caja de abajo */
+  supporterId: string
+  /** Caja de arriba */
+  supportedId: string
+  /** Área de contacto en planta (mm²) */
+  area: number
+  /** Carga que transmite este contacto (kg) */
+  load: number
+}
+
+export interface SupportNode {
+  id: string
+  /** Cajas sobre las que se apoya, en el orden de entrada */
+  supportedBy: string[]
+  /** Cajas apoyadas sobre ella, en el orden de entrada */
+  supporting: string[]
+  /** La caja descansa directamente sobre el palet */
+  onPallet: boolean
+  /** Área de la base (mm²) */
+  baseArea: number
+  /** Fracción de la base apoyada (0-1). 1 si descansa sobre el palet */
+  supportRatio: number
+  /** Carga que recibe de las cajas de encima (kg), repartida por área de contacto */
+  loadAbove: number
+}
+
+export interface SupportGraph {
+  nodes: Map<string, SupportNode>
+  /** Contactos ordenados por caja de arriba (orden de entrada) y, dentro, por soporte */
+  contacts: SupportContact[]
+  /** Carga total que llega al palet (kg). Menor que el peso total si hay cajas sin soporte */
+  palletLoad: number
+}
+
+/**
+ * Calcula el grafo de soportes de un conjunto de cajas (un piso de palet).
+ *
+ * El peso de cada caja, más la carga que recibe, se reparte entre sus soportes
+ * en proporción al área de contacto. Una caja sin soportes ni palet debajo no
+ * transmite su carga.
+ *
+ * @param externalLoads Carga (kg) que recibe cada caja desde fuera del piso, por id
+ *   (p. ej. el piso de encima a través del separador). Se reparte igual que el resto
+ */
+export function computeSupportGraph(
+  boxes: PlacedBox[],
+  externalLoads?: ReadonlyMap<string, number>,
+): SupportGraph {
+  const bounds = boxes.map(getBoxBoundingBox)
+  const grid = SpatialGrid.from(boxes.map((_, i) => i), i => bounds[i])
+  const nodes = new Map<string, SupportNode>()
+  const below: SupportContact[][] = boxes.map(() => [])
+
+  boxes.forEach((pb, i) => {
+    const bb = bounds[i]
+    const baseArea = (bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)
+    const onPallet = bb.minY <= GROUND_TOLERANCE
+
+    if (!onPallet) {
+      const slab = { ...bb, minY: bb.minY - SUPPORT_CONTACT_TOLERANCE, maxY: bb.minY + SUPPORT_CONTACT_TOLERANCE }
+      for (const j of grid.queryIndices(slab)) {
+        if (j === i || Math.abs(bounds[j].maxY - bb.minY) > SUPPORT_CONTACT_TOLERANCE) continue
+        const area = overlapArea(bb, bounds[j])
+        if (area > 0) below[i].push({ supporterId: boxes[j].id, supportedId: pb.id, area, load: 0 })
+      }
+    }
+
+    const contactArea = below[i].reduce((sum, c) => sum + c.area, 0)
+    nodes.set(pb.id, {
+      id: pb.id,
+      supportedBy: below[i].map(c => c.supporterId),
+      supporting: [],
+      onPallet,
+      baseArea,
+      supportRatio: onPallet ? 1 : baseArea > 0 ? Math.min(contactArea / baseArea, 1) : 0,
+      loadAbove: externalLoads?.get(pb.id) ?? 0,
+    })
+  })
+
+  for (const contacts of below) {
+    for (const c of contacts) nodes.get(c.supporterId)!.supporting.push(c.supportedId)
+  }
+
+  // Reparto de cargas de arriba abajo: los soportes siempre están más bajos
+  let palletLoad = 0
+  const topDown = boxes.map((_, i) => i).sort((a, b) => bounds[b].minY - bounds[a].minY)
+  for (const i of topDown) {
+    const node = nodes.get(boxes[i].id)!
+    const total = boxes[i].box.weight + node.loadAbove
+
+    if (node.onPallet) {
+      palletLoad += total
+      continue
+    }
+    const contactArea = below[i].reduce((sum, c) => sum + c.area, 0)
+    for (const c of below[i]) {
+      c.load = total * (c.area / contactArea)
+      nodes.get(c.supporterId)!.loadAbove += c.load
+    }
+  }
+
+  return { nodes, contacts: below.flat(), palletLoad }
+}
+
+/**
+ * Devuelve copias de las cajas con `supportedBy` y `supporting` rellenos
+ * a partir del grafo de soportes.
+ */
+export function applySupportGraph(boxes: PlacedBox[], graph: SupportGraph = computeSupportGraph(boxes)): PlacedBox[] {
+  return boxes.map(pb => {
+    const node = graph.nodes.get(pb.id)
+    return node ? { ...pb, supportedBy: [...node.supportedBy], supporting: [...node.supporting] } : pb
+  })
+}
+
+/**
+ * Camino de carga de una caja: todas las cajas que sostienen su peso, directa
+ * o indirectamente, de la más cercana a la más baja (recorrido en anchura).
+ */
+export function getLoadPath(graph: SupportGraph, id: string): string[] {
+  const path: string[] = []
+  const seen = new Set([id])
+  let frontier = graph.nodes.get(id)?.supportedBy ?? []
+
+  while (frontier.length > 0) {
+    const next: string[] = []
+    for (const supporter of frontier) {
+      if (seen.has(supporter)) continue
+      seen.add(supporter)
+      path.push(supporter)
+      next.push(...(graph.nodes.get(supporter)?.supportedBy ?? []))
+    }
+    frontier = next
+  }
+
+  return path
+}
+
+function overlapArea(a: BoundingBox, b: BoundingBox): number {
+  const x = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX)
+  const z = Math.min(a.maxZ, b.maxZ) - Math.max(a.minZ, b.minZ)
+  return x > 0 && z > 0 ? x * z : 0
+}
@@ -0,0 +1,11 @@
+/**
+ * Support graph barrel export
+ */
+
+export {
+  computeSupportGraph,
+  applySupportGraph,
+  getLoadPath,
+  SUPPORT_CONTACT_TOLERANCE,
+} from './graph'
+export type { SupportGraph, SupportNode, SupportContact } from './graph'
@@ -3,6 +3,8 @@
  * TypeScript puro, sin dependencias de React ni Three.js
  */
 
+import type { DoorOpening, TruckAxles, TruckDoor } from './entities/Truck'
+
 // ─── Value Objects ───────────────────────────────────────────────
 
 /** Dimensiones 3D en milímetros */
@@ -73,15 +75,71 @@ export const SeparatorMaterial = {
 } as const
 export type SeparatorMaterial = (typeof SeparatorMaterial)[keyof typeof SeparatorMaterial]
 
+/** Ejes propios de una caja (antes de rotarla) */
+export const BoxAxis = {
+  WIDTH: 'WIDTH',
+  HEIGHT: 'HEIGHT',
+  DEPTH: 'DEPTH',
+} as const
+export type BoxAxis = (typeof BoxAxis)[keyof typeof BoxAxis]
+
 export const TruckType = {
   BOX: 'BOX',
   REFRIGERATED: 'REFRIGERATED',
   FLATBED: 'FLATBED',
   TAUTLINER: 'TAUTLINER',
+  /** Contenedor ISO 20' estándar (dry van) */
+  CONTAINER_20: 'CONTAINER_20',
+  /** Contenedor ISO 40' estándar */
+  CONTAINER_40: 'CONTAINER_40',
+  /** Contenedor ISO 40' high cube */
+  CONTAINER_40_HC: 'CONTAINER_40_HC',
+  /** Contenedor 45' pallet-wide high cube (dos palets EUR de ancho) */
+  CONTAINER_45_PW: 'CONTAINER_45_PW',
+  /** Contenedor frigorífico 20' */
+  REEFER_20: 'REEFER_20',
+  /** Contenedor frigorífico 40' high cube */
+  REEFER_40_HC: 'REEFER_40_HC',
   CUSTOM: 'CUSTOM',
 } as const
 export type TruckType = (typeof TruckType)[keyof typeof TruckType]
 
+/** Pared del espacio de carga en la que está una puerta */
+export const DoorSide = {
+  /** Puertas traseras (z = 0) */
+  REAR: 'REAR',
+  /** Lateral en x = width (a la izquierda mirando hacia la cabina) */
+  LEFT: 'LEFT',
+  /** Lateral en x = 0 */
+  RIGHT: 'RIGHT',
+} as const
+export type DoorSide = (typeof DoorSide)[keyof typeof DoorSide]
+
+/** Tipo de obstáculo o zona reservada dentro de una estancia */
+export const ObstacleType = {
+  /** Pilar o columna estructural */
+  COLUMN: 'COLUMN',
+  /** Puerta de paso de la estancia */
+  DOOR: 'DOOR',
+  /** Salida de emergencia */
+  FIRE_EXIT: 'FIRE_EXIT',
+  /** Cuadro eléctrico */
+  ELECTRICAL_PANEL: 'ELECTRICAL_PANEL',
+  /** Pasillo peatonal señalizado en el suelo */
+  WALKWAY: 'WALKWAY',
+  /** Cualquier otra zona donde no se puede dejar carga */
+  NO_GO_ZONE: 'NO_GO_ZONE',
+} as const
+export type ObstacleType = (typeof ObstacleType)[keyof typeof ObstacleType]
+
+/** Carretilla elevadora, con las medidas que deciden por dónde puede circular */
+export interface Forklift {
+  /** Ancho total del chasis (mm) */
+  width: number
+  /** Radio de giro exterior (mm) */
+  turningRadius: number
+}
+
 // ─── Packing ─────────────────────────────────────────────────────
 
 export interface PackingMetrics {
@@ -91,6 +149,98 @@ export interface PackingMetrics {
   stabilityScore: number      // 0–100
 }
 
+// ─── Dinámica de transporte ──────────────────────────────────────
+
+/**
+ * Dirección de la aceleración que actúa sobre la carga en el camión
+ * (z = depth cabina, z = 0 puertas; mirando hacia la cabina, +X queda a la izquierda)
+ */
+export const LoadDirection = {
+  /** Hacia la cabina (+Z): frenada */
+  FORWARD: 'FORWARD',
+  /** Hacia las puertas (−Z): arrancada */
+  BACKWARD: 'BACKWARD',
+  /** Hacia +X: curva */
+  LEFT: 'LEFT',
+  /** Hacia −X: curva */
+  RIGHT: 'RIGHT',
+} as const
+export type LoadDirection = (typeof LoadDirection)[keyof typeof LoadDirection]
+
+/** Aceleraciones de diseño en fracciones de g */
+export interface AccelerationFactors {
+  forward: number
+  backward: number
+  sideways: number
+}
+
+/** Equipo de trincaje (EN 12195-2), en daN */
+export interface LashingEquipment {
+  /** Capacidad de amarre (LC) de cada cincha */
+  lashingCapacity: number
+  /** Fuerza de tensado estándar (STF) que da el tensor */
+  standardTensionForce: number
+}
+
+// ─── Temperatura ─────────────────────────────────────────────────
+
+/** Rango de temperatura admitido por un producto, en °C (ambos inclusive) */
+export interface TemperatureRange {
+  min: number
+  max: number
+}
+
+// ─── Mercancías peligrosas (ADR / IMDG) ──────────────────────────
+
+/** Clase de peligro ADR/IMDG (número de clase o división) */
+export const HazardClass = {
+  EXPLOSIVE: '1',
+  FLAMMABLE_GAS: '2.1',
+  NON_FLAMMABLE_GAS: '2.2',
+  TOXIC_GAS: '2.3',
+  FLAMMABLE_LIQUID: '3',
+  FLAMMABLE_SOLID: '4.1',
+  SPONTANEOUSLY_COMBUSTIBLE: '4.2',
+  DANGEROUS_WHEN_WET: '4.3',
+  OXIDIZER: '5.1',
+  ORGANIC_PEROXIDE: '5.2',
+  TOXIC: '6.1',
+  INFECTIOUS: '6.2',
+  RADIOACTIVE: '7',
+  CORROSIVE: '8',
+  MISCELLANEOUS: '9',
+} as const
+export type HazardClass = (typeof HazardClass)[keyof typeof HazardClass]
+
+/** Grupo de embalaje: I peligro alto, II medio, III bajo */
+export const PackingGroup = {
+  I: 'I',
+  II: 'II',
+  III: 'III',
+} as const
+export type PackingGroup = (typeof PackingGroup)[keyof typeof PackingGroup]
+
+/** Unidad de carga más pequeña que no pueden compartir dos clases incompatibles */
+export const SegregationScope = {
+  /** Mismo piso de palet */
+  PALLET: 'PALLET',
+  /** Mismo palet apilado (aunque vayan en pisos distintos) */
+  STACK: 'STACK',
+  /** Mismo camión */
+  TRUCK: 'TRUCK',
+} as const
+export type SegregationScope = (typeof SegregationScope)[keyof typeof SegregationScope]
+
+/** Segregación exigida entre dos clases de peligro */
+export interface HazmatSegregation {
+  mayNotShare: SegregationScope
+  /** Distancia mínima en planta (mm) entre sus palets si van en el mismo camión */
+  minDistance?: number
+}
+
+/** Segregación por par de clases; basta con indicar cada par en un sentido */
+export type HazmatSegregationTable = Partial<Record<HazardClass, Partial<Record<HazardClass, HazmatSegregation>>>>
+
 // ─── Presets ─────────────────────────────────────────────────────
 
 export interface PalletPreset {
@@ -103,5 +253,11 @@ export interface PalletPreset {
 
 export interface TruckPreset {
   dimensions: Dimensions3D
+  /** Carga útil (kg) */
   maxWeight: number
+  axles?: TruckAxles
+  /** Tara (kg) */
+  tareWeight?: number
+  doorOpening?: DoorOpening
+  doors?: TruckDoor[]
 }
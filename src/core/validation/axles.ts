@@ -0,0 +1,141 @@
+/**
+ * Axle validation — Carga por eje del camión
+ * BR-405: Carga máxima por eje
+ * BR-406: Carga mínima por eje (eje que se levanta o eje direccional descargado)
+ */
+
+import type { ValidationResult, Violation } from '../types'
+import type { Axle, Truck } from '../entities/Truck'
+import { getStackedPalletTotalWeight } from '../entities/StackedPallet'
+import { MIN_STEER_AXLE_LOAD_RATIO, WEIGHT_WARNING_THRESHOLD } from '../constants'
+import { calculatePlacedPalletCenterOfGravity } from './stability'
+
+export interface AxleLoad {
+  axleId: string
+  position: number     // mm (Z)
+  load: number         // kg (tara + carga)
+  maxLoad: number      // kg
+  utilization: number  // load / maxLoad
+}
+
+// ─── Cálculo ─────────────────────────────────────────────────────
+
+/**
+ * Reparte un peso aplicado en `z` entre dos apoyos (regla de la palanca).
+ * Devuelve la parte que soporta el apoyo `a`; el resto va a `b`.
+ * Si `z` cae fuera del tramo, la parte de un apoyo es negativa (se levanta).
+ */
+function leverShare(weight: number, z: number, a: number, b: number): number {
+  if (a === b) return weight / 2
+  return (weight * (z - b)) / (a - b)
+}
+
+function toAxleLoad(axle: Axle, load: number): AxleLoad {
+  return {
+    axleId: axle.id,
+    position: axle.position,
+    load,
+    maxLoad: axle.maxLoad,
+    utilization: axle.maxLoad > 0 ? load / axle.maxLoad : 0,
+  }
+}
+
+/**
+ * Calcula la carga de cada eje a partir del peso y centro de gravedad de los palets.
+ * En semirremolques la carga del kingpin se reparte además entre los ejes de la tractora.
+ * Devuelve un array vacío si el camión no tiene geometría de ejes.
+ */
+export function calculateAxleLoads(truck: Truck): AxleLoad[] {
+  const axles = truck.axles
+  if (!axles) return []
+
+  let front = axles.front.tareLoad ?? 0
+  let rear = axles.rear.tareLoad ?? 0
+
+  for (const pp of truck.pallets) {
+    const weight = getStackedPalletTotalWeight(pp.stackedPallet)
+    const { z } = calculatePlacedPalletCenterOfGravity(pp)
+    const share = leverShare(weight, z, axles.front.position, axles.rear.position)
+    front += share
+    rear += weight - share
+  }
+
+  const loads = [toAxleLoad(axles.front, front), toAxleLoad(axles.rear, rear)]
+
+  if (axles.tractor) {
+    const { steer, drive } = axles.tractor
+    const steerShare = leverShare(front, axles.front.position, steer.position, drive.position)
+    loads.push(
+      toAxleLoad(steer, (steer.tareLoad ?? 0) + steerShare),
+      toAxleLoad(drive, (drive.tareLoad ?? 0) + front - steerShare),
+    )
+  }
+
+  return loads
+}
+
+// ─── BR-405 / BR-406: Cargas por eje ─────────────────────────────
+
+/** Umbrales de BR-405 / BR-406 */
+export interface AxleLoadThresholds {
+  /** Fracción de la carga máxima a partir de la cual se avisa (por defecto WEIGHT_WARNING_THRESHOLD) */
+  warningThreshold?: number
+  /** Fracción mínima del peso total sobre el eje direccional (por defecto MIN_STEER_AXLE_LOAD_RATIO) */
+  minSteerRatio?: number
+}
+
+export function validateAxleLoads(truck: Truck, thresholds: AxleLoadThresholds = {}): ValidationResult {
+  const {
+    warningThreshold = WEIGHT_WARNING_THRESHOLD,
+    minSteerRatio = MIN_STEER_AXLE_LOAD_RATIO,
+  } = thresholds
+  const violations: Violation[] = []
+  const axles = truck.axles
+  if (!axles) return { isValid: true, violations }
+
+  const loads = calculateAxleLoads(truck)
+
+  for (const al of loads) {
+    if (al.load < 0) {
+      violations.push({
+        code: 'BR-406',
+        severity: 'error',
+        message: `Eje ${al.axleId} se levanta: la carga está demasiado atrasada (${al.load.toFixed(0)}kg)`,
+        involvedIds: [truck.id, al.axleId],
+      })
+    } else if (al.load > al.maxLoad) {
+      violations.push({
+        code: 'BR-405',
+        severity: 'error',
+        message: `Eje ${al.axleId} sobrecargado (${al.load.toFixed(0)}kg > ${al.maxLoad}kg)`,
+        involvedIds: [truck.id, al.axleId],
+      })
+    } else if (al.load > al.maxLoad * warningThreshold) {
+      violations.push({
+        code: 'BR-405',
+        severity: 'warning',
+        message: `Eje ${al.axleId} supera el ${Math.round(warningThreshold * 100)}% de su carga máxima (${al.load.toFixed(0)}kg / ${al.maxLoad}kg)`,
+        involvedIds: [truck.id, al.axleId],
+      })
+    }
+  }
+
+  // Eje direccional: el de la tractora en semirremolques, el delantero en rígidos
+  const steerId = axles.tractor ? axles.tractor.steer.id : axles.front.id
+  const groundIds = axles.tractor
+    ? [axles.tractor.steer.id, axles.tractor.drive.id, axles.rear.id]
+    : [axles.front.id, axles.rear.id]
+  const steer = loads.find(al => al.axleId === steerId)!
+  const gross = loads.filter(al => groundIds.includes(al.axleId)).reduce((s, al) => s + al.load, 0)
+
+  if (steer.load >= 0 && gross > 0 && steer.load < gross * minSteerRatio) {
+    violations.push({
+      code: 'BR-406',
+      severity: 'warning',
+      message: `Eje direccional ${steerId} con poca carga (${((steer.load / gross) * 100).toFixed(0)}% del total, mínimo ${Math.round(minSteerRatio * 100)}%)`,
+      involvedIds: [truck.id, steerId],
+    })
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
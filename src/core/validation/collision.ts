@@ -4,24 +4,41 @@
  * BR-003: Sin colisiones entre palets
  */
 
-import type { BoundingBox, ValidationResult, Violation } from '../types'
+import type { BoundingBox, Dimensions3D, DiscreteRotation, ValidationResult, Violation } from '../types'
 import type { PlacedBox } from '../entities/PlacedBox'
 import type { PlacedPallet } from '../entities/PlacedPallet'
 import { getStackedPalletTotalHeight } from '../entities/StackedPallet'
 import { COLLISION_TOLERANCE } from '../constants'
+import { SpatialGrid } from '../spatial/SpatialGrid'
 
 // ─── Helpers ─────────────────────────────────────────────────────
 
-/** Calcula el bounding box de una PlacedBox (teniendo en cuenta rotación discreta en Y) */
-export function getBoxBoundingBox(pb: PlacedBox): BoundingBox {
-  let w = pb.box.dimensions.width
-  let d = pb.box.dimensions.depth
-  const h = pb.box.dimensions.height
+/**
+ * Dimensiones efectivas (extensión en X/Y/Z del mundo) tras aplicar una rotación discreta.
+ * Sigue el orden Euler 'XYZ' de Three.js (la matriz es Rx·Ry·Rz, así que se aplica Z, luego Y
+ * y por último X). Cada giro de 90°/270° intercambia las extensiones de los otros dos ejes.
+ */
+export function getOrientedDimensions(dims: Dimensions3D, rotation: DiscreteRotation): Dimensions3D {
+  let w = dims.width
+  let h = dims.height
+  let d = dims.depth
 
-  // Rotación en Y: intercambia width y depth a 90° y 270°
-  if (pb.rotation.y === 90 || pb.rotation.y === 270) {
+  if (rotation.z === 90 || rotation.z === 270) {
+    ;[w, h] = [h, w]
+  }
+  if (rotation.y === 90 || rotation.y === 270) {
     ;[w, d] = [d, w]
   }
+  if (rotation.x === 90 || rotation.x === 270) {
+    ;[h, d] = [d, h]
+  }
+
+  return { width: w, height: h, depth: d }
+}
+
+/** Calcula el bounding box de una PlacedBox (teniendo en cuenta su rotación discreta) */
+export function getBoxBoundingBox(pb: PlacedBox): BoundingBox {
+  const { width: w, height: h, depth: d } = getOrientedDimensions(pb.box.dimensions, pb.rotation)
 
   return {
     minX: pb.position.x,
@@ -91,23 +108,34 @@ export function aabbIntersects(a: BoundingBox, b: BoundingBox, tolerance = COLLI
 
 // ─── Validación ──────────────────────────────────────────────────
 
+/**
+ * Pares (i < j) de AABB que se intersectan, en el mismo orden que un doble bucle.
+ * Usa un SpatialGrid para no comparar elementos alejados.
+ */
+export function findIntersectingPairs(bounds: BoundingBox[], tolerance = COLLISION_TOLERANCE): [number, number][] {
+  const grid = SpatialGrid.from(bounds.map((_, i) => i), i => bounds[i])
+  const pairs: [number, number][] = []
+
+  for (let i = 0; i < bounds.length; i++) {
+    for (const j of grid.queryIndices(bounds[i])) {
+      if (j > i && aabbIntersects(bounds[i], bounds[j], tolerance)) pairs.push([i, j])
+    }
+  }
+
+  return pairs
+}
+
 /** BR-002: Valida que no hay colisiones entre cajas */
 export function validateNoBoxCollisions(boxes: PlacedBox[]): ValidationResult {
   const violations: Violation[] = []
 
-  for (let i = 0; i < boxes.length; i++) {
-    for (let j = i + 1; j < boxes.length; j++) {
-      const bbA = getBoxBoundingBox(boxes[i])
-      const bbB = getBoxBoundingBox(boxes[j])
-      if (aabbIntersects(bbA, bbB)) {
-        violations.push({
-          code: 'BR-002',
-          severity: 'error',
-          message: `Colisión entre cajas ${boxes[i].id} y ${boxes[j].id}`,
-          involvedIds: [boxes[i].id, boxes[j].id],
-        })
-      }
-    }
+  for (const [i, j] of findIntersectingPairs(boxes.map(getBoxBoundingBox))) {
+    violations.push({
+      code: 'BR-002',
+      severity: 'error',
+      message: `Colisión entre cajas ${boxes[i].id} y ${boxes[j].id}`,
+      involvedIds: [boxes[i].id, boxes[j].id],
+    })
   }
 
   return { isValid: violations.length === 0, violations }
@@ -117,19 +145,13 @@ export function validateNoBoxCollisions(boxes: PlacedBox[]): ValidationResult {
 export function validateNoPalletCollisions(pallets: PlacedPallet[]): ValidationResult {
   const violations: Violation[] = []
 
-  for (let i = 0; i < pallets.length; i++) {
-    for (let j = i + 1; j < pallets.length; j++) {
-      const bbA = getPalletBoundingBox(pallets[i])
-      const bbB = getPalletBoundingBox(pallets[j])
-      if (aabbIntersects(bbA, bbB)) {
-        violations.push({
-          code: 'BR-003',
-          severity: 'error',
-          message: `Colisión entre palets ${pallets[i].id} y ${pallets[j].id}`,
-          involvedIds: [pallets[i].id, pallets[j].id],
-        })
-      }
-    }
+  for (const [i, j] of findIntersectingPairs(pallets.map(getPalletBoundingBox))) {
+    violations.push({
+      code: 'BR-003',
+      severity: 'error',
+      message: `Colisión entre palets ${pallets[i].id} y ${pallets[j].id}`,
+      involvedIds: [pallets[i].id, pallets[j].id],
+    })
   }
 
   return { isValid: violations.length === 0, violations }
@@ -0,0 +1,160 @@
+/**
+ * Compression validation — BR-202: Capacidad de carga por compresión (BCT)
+ *
+ * La carga sobre cada caja sale del grafo de soportes: el peso de las cajas de
+ * encima se reparte entre sus soportes según el área de contacto. Esa carga se
+ * compara con el BCT de la caja reducido por los factores de humedad y duración.
+ *
+ * En un StackedPallet, el peso de los pisos de encima y de los separadores baja
+ * a las cajas del techo de cada piso y de ahí al resto por el mismo grafo.
+ */
+
+import type { BoundingBox, ValidationResult, Violation } from '../types'
+import type { Box } from '../entities/Box'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { SupportGraph } from '../support/graph'
+import { computeSupportGraph, SUPPORT_CONTACT_TOLERANCE } from '../support/graph'
+import { getBoxBoundingBox } from './collision'
+import { DEFAULT_DURATION_FACTOR, DEFAULT_HUMIDITY_FACTOR, WEIGHT_WARNING_THRESHOLD } from '../constants'
+
+/** Condiciones de transporte/almacenaje para las cajas que no indican sus propios factores */
+export interface CompressionConditions {
+  /** Por defecto DEFAULT_HUMIDITY_FACTOR (~70 % HR) */
+  humidityFactor?: number
+  /** Por defecto DEFAULT_DURATION_FACTOR (~10 días) */
+  durationFactor?: number
+  /** Warning a partir de esta fracción de la capacidad (por defecto WEIGHT_WARNING_THRESHOLD) */
+  warningThreshold?: number
+}
+
+/**
+ * Carga máxima (kg) que admite una caja encima: `bct × humedad × duración`.
+ * Los factores de la propia caja tienen prioridad sobre las condiciones.
+ * Devuelve null si la caja no tiene `compression`.
+ */
+export function getAllowedCompressionLoad(box: Box, conditions: CompressionConditions = {}): number | null {
+  if (!box.compression) return null
+  const { bct, humidityFactor, durationFactor } = box.compression
+  return bct
+    * (humidityFactor ?? conditions.humidityFactor ?? DEFAULT_HUMIDITY_FACTOR)
+    * (durationFactor ?? conditions.durationFactor ?? DEFAULT_DURATION_FACTOR)
+}
+
+/**
+ * BR-202: La carga que recibe cada caja con `compression` no supera su capacidad.
+ * Error si la supera; warning a partir de `warningThreshold` de la capacidad.
+ *
+ * @param graph Grafo de soportes ya calculado para `boxes` (se calcula si se omite)
+ */
+export function validateCompressionLoad(
+  boxes: PlacedBox[],
+  conditions: CompressionConditions = {},
+  graph: SupportGraph = computeSupportGraph(boxes),
+): ValidationResult {
+  const { warningThreshold = WEIGHT_WARNING_THRESHOLD } = conditions
+  const violations: Violation[] = []
+
+  for (const pb of boxes) {
+    const allowed = getAllowedCompressionLoad(pb.box, conditions)
+    if (allowed === null) continue
+
+    const load = graph.nodes.get(pb.id)?.loadAbove ?? 0
+    const severity = getCompressionSeverity(load, allowed, warningThreshold)
+    if (severity) violations.push(compressionViolation(pb, load, allowed, severity))
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+/**
+ * BR-202 en un StackedPallet: añade a cada piso la carga de los pisos de encima.
+ *
+ * El peso de los pisos superiores (palet, cajas y separadores) y el del separador
+ * del propio piso se reparte entre las cajas del techo del piso en proporción a
+ * su área superior (el separador reparte la carga por igual) y baja por el grafo
+ * de soportes. Solo se informan las cajas que empeoran por esa carga: las que ya
+ * fallan con la carga de su propio piso las informa la regla de piso.
+ */
+export function validateStackCompressionLoad(
+  stack: StackedPallet,
+  conditions: CompressionConditions = {},
+): ValidationResult {
+  const { warningThreshold = WEIGHT_WARNING_THRESHOLD } = conditions
+  const violations: Violation[] = []
+
+  stack.floors.forEach((floor, f) => {
+    const upperLoad = getUpperLoad(stack, f)
+    if (upperLoad <= 0) return
+
+    const own = computeSupportGraph(floor.boxes)
+    const stacked = computeSupportGraph(floor.boxes, distributeOnTop(floor.boxes, upperLoad))
+
+    for (const pb of floor.boxes) {
+      const allowed = getAllowedCompressionLoad(pb.box, conditions)
+      if (allowed === null) continue
+
+      const ownSeverity = getCompressionSeverity(own.nodes.get(pb.id)?.loadAbove ?? 0, allowed, warningThreshold)
+      const load = stacked.nodes.get(pb.id)?.loadAbove ?? 0
+      const severity = getCompressionSeverity(load, allowed, warningThreshold)
+      if (severity && SEVERITY_RANK[severity] > SEVERITY_RANK[ownSeverity ?? 'none']) {
+        violations.push(compressionViolation(pb, load, allowed, severity, f + 1))
+      }
+    }
+  })
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+const SEVERITY_RANK = { none: 0, warning: 1, error: 2 } as const
+
+function getCompressionSeverity(load: number, allowed: number, warningThreshold: number): Violation['severity'] | null {
+  if (load > allowed) return 'error'
+  if (allowed > 0 && load >= allowed * warningThreshold) return 'warning'
+  return null
+}
+
+function compressionViolation(
+  pb: PlacedBox,
+  load: number,
+  allowed: number,
+  severity: Violation['severity'],
+  floorNumber?: number,
+): Violation {
+  const context = floorNumber ? ` con los pisos de encima (piso ${floorNumber})` : ''
+  return {
+    code: 'BR-202',
+    severity,
+    message: severity === 'error'
+      ? `Caja ${pb.id} soporta ${load.toFixed(1)}kg${context} y su capacidad de compresión es ${allowed.toFixed(1)}kg (BCT ${pb.box.compression!.bct}kg)`
+      : `Caja ${pb.id} al ${((load / allowed) * 100).toFixed(0)}% de su capacidad de compresión${context} (${load.toFixed(1)}kg de ${allowed.toFixed(1)}kg)`,
+    involvedIds: [pb.id],
+  }
+}
+
+/** Peso (kg) que descansa sobre el techo del piso `f`: su separador y todo lo de encima */
+function getUpperLoad(stack: StackedPallet, f: number): number {
+  if (f === stack.floors.length - 1) return 0
+  let load = stack.floors[f].separatorAbove?.weight ?? 0
+  for (const floor of stack.floors.slice(f + 1)) {
+    load += floor.pallet.weight
+      + floor.boxes.reduce((sum, pb) => sum + pb.box.weight, 0)
+      + (floor.separatorAbove?.weight ?? 0)
+  }
+  return load
+}
+
+/** Reparte `load` entre las cajas del techo del piso según su área superior */
+function distributeOnTop(boxes: PlacedBox[], load: number): Map<string, number> {
+  const bounds = boxes.map(getBoxBoundingBox)
+  const top = Math.max(...bounds.map(bb => bb.maxY))
+  const onTop = boxes
+    .map((pb, i) => ({ id: pb.id, bb: bounds[i] }))
+    .filter(({ bb }) => top - bb.maxY <= SUPPORT_CONTACT_TOLERANCE)
+  const area = (bb: BoundingBox) => (bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)
+  const totalArea = onTop.reduce((sum, { bb }) => sum + area(bb), 0)
+
+  return new Map(onTop.map(({ id, bb }) => [id, totalArea > 0 ? load * area(bb) / totalArea : 0]))
+}
@@ -0,0 +1,53 @@
+/**
+ * Delivery validation — Orden de descarga en rutas con varias paradas
+ * BR-407: Un palet no puede quedar bloqueado por palets de una parada posterior
+ *
+ * La descarga se hace por las puertas traseras (z = 0): un palet queda bloqueado si
+ * otro palet de una parada posterior está entre él y las puertas (misma franja de
+ * ancho, menor z) o apilado encima.
+ */
+
+import type { BoundingBox, ValidationResult, Violation } from '../types'
+import type { Truck } from '../entities/Truck'
+import { COLLISION_TOLERANCE } from '../constants'
+import { getPalletBoundingBox } from './collision'
+
+/**
+ * Indica si `blocker` impide sacar `target` por las puertas traseras.
+ * Los palets que solo se tocan por un lateral no se bloquean.
+ */
+export function isBlockingUnload(blocker: BoundingBox, target: BoundingBox, tolerance = COLLISION_TOLERANCE): boolean {
+  const overlapX = blocker.minX < target.maxX - tolerance && blocker.maxX > target.minX + tolerance
+  if (!overlapX) return false
+
+  const inFront = blocker.maxZ <= target.minZ + tolerance
+  const overlapZ = blocker.minZ < target.maxZ - tolerance && blocker.maxZ > target.minZ + tolerance
+  const onTop = overlapZ && blocker.minY >= target.maxY - tolerance
+
+  return inFront || onTop
+}
+
+// ─── BR-407: Orden de descarga (LIFO) ────────────────────────────
+
+export function validateDeliveryOrder(truck: Truck): ValidationResult {
+  const violations: Violation[] = []
+  const withStop = truck.pallets
+    .filter(pp => pp.stackedPallet.deliveryStop !== undefined)
+    .map(pp => ({ pp, stop: pp.stackedPallet.deliveryStop!, bb: getPalletBoundingBox(pp) }))
+
+  for (const target of withStop) {
+    const blockers = withStop.filter(
+      other => other.stop > target.stop && isBlockingUnload(other.bb, target.bb),
+    )
+    if (blockers.length === 0) continue
+
+    violations.push({
+      code: 'BR-407',
+      severity: 'error',
+      message: `Palet ${target.pp.id} (parada ${target.stop}) bloqueado por ${blockers.length} palet(s) de paradas posteriores`,
+      involvedIds: [target.pp.id, ...blockers.map(b => b.pp.id)],
+    })
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
@@ -0,0 +1,59 @@
+/**
+ * Door validation — Acceso de los palets por las puertas del camión
+ * BR-408: Cada palet tiene que poder entrar por alguna puerta
+ *
+ * Un palet entra de frente por la puerta con la rotación Y con la que queda colocado:
+ * - Por la trasera avanza a lo largo de Z: su ancho en X y su altura total tienen que
+ *   caber en el hueco. Dentro se puede desplazar lateralmente con la transpaleta.
+ * - Por un lateral entra en línea recta con la carretilla a lo largo de X: su fondo en Z
+ *   y su altura tienen que caber en el hueco, y el palet tiene que quedar enfrente de él.
+ */
+
+import type { ValidationResult, Violation } from '../types'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Truck, TruckDoor } from '../entities/Truck'
+import { DoorSide } from '../types'
+import { COLLISION_TOLERANCE } from '../constants'
+import { getStackedPalletTotalHeight } from '../entities/StackedPallet'
+import { getTruckDoors } from '../entities/Truck'
+import { getPalletBoundingBox } from './collision'
+
+/** Indica si el palet, con su rotación, puede entrar por la puerta hasta su posición */
+export function canLoadThroughDoor(pp: PlacedPallet, door: TruckDoor, tolerance = COLLISION_TOLERANCE): boolean {
+  const bb = getPalletBoundingBox(pp)
+  const height = getStackedPalletTotalHeight(pp.stackedPallet)
+  if (height > door.height + tolerance) return false
+
+  if (door.side === DoorSide.REAR) {
+    return bb.maxX - bb.minX <= door.width + tolerance
+  }
+  return bb.minZ >= door.offset - tolerance && bb.maxZ <= door.offset + door.width + tolerance
+}
+
+/** Puertas por las que se puede cargar el palet */
+export function findLoadingDoors(pp: PlacedPallet, truck: Truck): TruckDoor[] {
+  return getTruckDoors(truck).filter(door => canLoadThroughDoor(pp, door))
+}
+
+// ─── BR-408: Acceso por puertas ──────────────────────────────────
+
+export function validateDoorAccess(truck: Truck): ValidationResult {
+  const violations: Violation[] = []
+  const doors = getTruckDoors(truck)
+
+  for (const pp of truck.pallets) {
+    if (doors.some(door => canLoadThroughDoor(pp, door))) continue
+
+    const bb = getPalletBoundingBox(pp)
+    const height = Math.round(getStackedPalletTotalHeight(pp.stackedPallet))
+    violations.push({
+      code: 'BR-408',
+      severity: 'error',
+      message: `Palet ${pp.id} (${Math.round(bb.maxX - bb.minX)}×${Math.round(bb.maxZ - bb.minZ)}×${height} mm) no entra por ninguna puerta`
+        + ` (${doors.map(d => `${d.id}: ${d.width}×${d.height} mm`).join(', ')})`,
+      involvedIds: [pp.id],
+    })
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
@@ -0,0 +1,361 @@
+/**
+ * Dynamic stability — Vuelco y deslizamiento en frenada, arrancada y curva
+ * BR-504: Vuelco de la carga
+ * BR-505: Deslizamiento de la carga
+ *
+ * Aplica aceleraciones de diseño (por defecto EN 12195-1: 0.8g hacia delante,
+ * 0.5g hacia atrás y a los lados) a cada palet. Se analiza la base de cada piso
+ * de un StackedPallet: el palet base sobre el suelo y cada palet superior sobre
+ * su separador.
+ *
+ * - Vuelco: la carga vuelca sobre el borde de su base si `a > b / h`, siendo `b`
+ *   la distancia en planta del CoG a ese borde y `h` la altura del CoG.
+ * - Deslizamiento: la carga desliza si `a > μ`, con el rozamiento del material
+ *   del palet. En el camión, un palet base que toca la pared (o un palet que a
+ *   su vez está bloqueado) no desliza en esa dirección. Las puertas no bloquean.
+ */
+
+import type { AccelerationFactors, BoundingBox, PalletMaterial, Position3D, ValidationResult, Violation } from '../types'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { Truck } from '../entities/Truck'
+import { LoadDirection } from '../types'
+import { DEFAULT_BLOCKING_GAP, EN_12195_1_ROAD_ACCELERATIONS, PALLET_FRICTION_COEFFICIENTS } from '../constants'
+import { getBoxBoundingBox, getPalletBoundingBox } from './collision'
+
+export interface DynamicStabilityOptions {
+  /** Aceleraciones de diseño en g (por defecto EN_12195_1_ROAD_ACCELERATIONS) */
+  accelerations?: AccelerationFactors
+  /** Rozamiento por material del palet (sobrescribe PALLET_FRICTION_COEFFICIENTS) */
+  friction?: Partial<Record<PalletMaterial, number>>
+  /** Holgura máxima (mm) para considerar que un palet está bloqueado (por defecto DEFAULT_BLOCKING_GAP) */
+  maxBlockingGap?: number
+}
+
+export interface DirectionalMargins {
+  direction: LoadDirection
+  /** Aceleración aplicada (g) */
+  acceleration: number
+  /** Aceleración (g) a partir de la cual vuelca: b / h. Negativa si el CoG ya está fuera de la base */
+  tippingLimit: number
+  /** Aceleración (g) a partir de la cual desliza (μ). Infinity si está bloqueado */
+  slidingLimit: number
+  /** El palet está bloqueado en esta dirección (pared o palets hasta la pared) */
+  blocked: boolean
+  tips: boolean
+  slides: boolean
+}
+
+/** Análisis de la carga que descansa sobre la base de un piso */
+export interface LevelDynamics {
+  /** Piso analizado (0 = palet base sobre el suelo) */
+  floorIndex: number
+  /** Peso del piso y de todo lo que tiene encima (kg) */
+  weight: number
+  /** Altura del CoG sobre la base del piso (mm) */
+  cogHeight: number
+  /** Rozamiento del palet del piso con lo que tiene debajo */
+  friction: number
+  directions: DirectionalMargins[]
+}
+
+export interface PalletDynamics {
+  /** Id del PlacedPallet (o del StackedPallet si se analiza suelto) */
+  id: string
+  levels: LevelDynamics[]
+  /** Menor tippingLimit / aceleración de todos los pisos y direcciones (< 1: vuelca) */
+  tippingMargin: number
+  /** Menor slidingLimit / aceleración de todos los pisos y direcciones (< 1: desliza) */
+  slidingMargin: number
+  /** Vuelca o desliza en alguna dirección: necesita trincaje */
+  needsSecuring: boolean
+}
+
+const DIRECTIONS: LoadDirection[] = [LoadDirection.FORWARD, LoadDirection.BACKWARD, LoadDirection.LEFT, LoadDirection.RIGHT]
+
+const DIRECTION_LABELS: Record<LoadDirection, string> = {
+  FORWARD: 'hacia delante',
+  BACKWARD: 'hacia atrás',
+  LEFT: 'a la izquierda',
+  RIGHT: 'a la derecha',
+}
+
+/** Superficie de contacto mínima (mm) con un vecino para que bloquee */
+const MIN_BLOCKING_OVERLAP = 1
+
+// ─── Análisis ────────────────────────────────────────────────────
+
+/**
+ * Analiza un StackedPallet suelto: su eje Z se toma como sentido de la marcha
+ * y no hay paredes ni palets que lo bloqueen.
+ */
+export function analyzeStackDynamics(stack: StackedPallet, options: DynamicStabilityOptions = {}): PalletDynamics {
+  const pp: PlacedPallet = { id: stack.id, stackedPallet: stack, position: { x: 0, y: 0, z: 0 }, yRotation: 0 }
+  return analyzePallet(pp, new Set(), options)
+}
+
+/** Analiza cada palet del camión, teniendo en cuenta paredes y palets vecinos */
+export function analyzeTruckDynamics(truck: Truck, options: DynamicStabilityOptions = {}): PalletDynamics[] {
+  const blocked = findBlockedDirections(truck, options.maxBlockingGap ?? DEFAULT_BLOCKING_GAP)
+  return truck.pallets.map(pp => analyzePallet(pp, blocked.get(pp.id)!, options))
+}
+
+// ─── Validación ──────────────────────────────────────────────────
+
+/**
+ * BR-504 + BR-505: Palets del camión que vuelcan o deslizan con las aceleraciones
+ * de diseño. Son avisos: la carga es válida, pero necesita trincaje.
+ */
+export function validateDynamicStability(truck: Truck, options: DynamicStabilityOptions = {}): ValidationResult {
+  const violations: Violation[] = []
+
+  for (const result of analyzeTruckDynamics(truck, options)) {
+    const tipping = worst(result, d => d.tips, d => d.tippingLimit / d.acceleration)
+    if (tipping) {
+      const { level, margins } = tipping
+      violations.push({
+        code: 'BR-504',
+        severity: 'warning',
+        message: `${subject(result.id, level.floorIndex)} vuelca con ${margins.acceleration}g ${DIRECTION_LABELS[margins.direction]}`
+          + ` (aguanta ${Math.max(margins.tippingLimit, 0).toFixed(2)}g): necesita trincaje`,
+        involvedIds: [result.id],
+      })
+    }
+
+    const sliding = worst(result, d => d.slides, d => d.slidingLimit / d.acceleration)
+    if (sliding) {
+      const { level, margins } = sliding
+      violations.push({
+        code: 'BR-505',
+        severity: 'warning',
+        message: `${subject(result.id, level.floorIndex)} desliza con ${margins.acceleration}g ${DIRECTION_LABELS[margins.direction]}`
+          + ` (rozamiento μ=${level.friction}): necesita trincaje o bloqueo`,
+        involvedIds: [result.id],
+      })
+    }
+  }
+
+  return { isValid: true, violations }
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+interface FloorMass {
+  baseY: number
+  weight: number
+  /** Momentos (peso × coordenada local) */
+  mx: number
+  my: number
+  mz: number
+  width: number
+  depth: number
+  material: PalletMaterial
+}
+
+/** Peso y momentos de cada piso en coordenadas locales del stack (misma pila que getStackedPalletTotalHeight) */
+function getFloorMasses(stack: StackedPallet): FloorMass[] {
+  let floorY = 0
+  return stack.floors.map(floor => {
+    const { pallet } = floor
+    const pd = pallet.dimensions
+    const mass: FloorMass = {
+      baseY: floorY, weight: 0, mx: 0, my: 0, mz: 0,
+      width: pd.width, depth: pd.depth, material: pallet.material,
+    }
+    const add = (x: number, y: number, z: number, w: number) => {
+      mass.mx += x * w
+      mass.my += y * w
+      mass.mz += z * w
+      mass.weight += w
+    }
+
+    add(pd.width / 2, floorY + pd.height / 2, pd.depth / 2, pallet.weight)
+    const palletTop = floorY + pd.height
+    let boxTop = 0
+    for (const pb of floor.boxes) {
+      const bb = getBoxBoundingBox(pb)
+      add((bb.minX + bb.maxX) / 2, palletTop + (bb.minY + bb.maxY) / 2, (bb.minZ + bb.maxZ) / 2, pb.box.weight)
+      boxTop = Math.max(boxTop, bb.maxY)
+    }
+
+    floorY = palletTop + boxTop
+    if (floor.separatorAbove) {
+      const sd = floor.separatorAbove.dimensions
+      add(sd.width / 2, floorY + sd.height / 2, sd.depth / 2, floor.separatorAbove.weight)
+      floorY += sd.height
+    }
+    return mass
+  })
+}
+
+function analyzePallet(
+  pp: PlacedPallet,
+  blocked: ReadonlySet<LoadDirection>,
+  options: DynamicStabilityOptions,
+): PalletDynamics {
+  const accelerations = options.accelerations ?? EN_12195_1_ROAD_ACCELERATIONS
+  const floors = getFloorMasses(pp.stackedPallet)
+  const toWorld = localToWorld(pp)
+
+  const levels: LevelDynamics[] = []
+  let weight = 0, mx = 0, my = 0, mz = 0
+
+  // De arriba abajo: cada piso soporta los de encima
+  for (let k = floors.length - 1; k >= 0; k--) {
+    const floor = floors[k]
+    weight += floor.weight
+    mx += floor.mx
+    my += floor.my
+    mz += floor.mz
+    if (weight <= 0) continue
+
+    const cog = toWorld({ x: mx / weight, y: my / weight, z: mz / weight })
+    const base = worldFootprint([
+      toWorld({ x: 0, y: 0, z: 0 }), toWorld({ x: floor.width, y: 0, z: 0 }),
+      toWorld({ x: floor.width, y: 0, z: floor.depth }), toWorld({ x: 0, y: 0, z: floor.depth }),
+    ])
+    const cogHeight = my / weight - floor.baseY
+    const friction = options.friction?.[floor.material] ?? PALLET_FRICTION_COEFFICIENTS[floor.material]
+
+    const directions = DIRECTIONS.map((direction): DirectionalMargins => {
+      const acceleration = direction === LoadDirection.FORWARD ? accelerations.forward
+        : direction === LoadDirection.BACKWARD ? accelerations.backward
+          : accelerations.sideways
+      const lever = edgeDistance(direction, cog, base)
+      const tippingLimit = cogHeight > 0 ? lever / cogHeight : lever >= 0 ? Infinity : -Infinity
+      // Solo el palet base puede apoyarse en paredes y vecinos
+      const isBlocked = k === 0 && blocked.has(direction)
+      const slidingLimit = isBlocked ? Infinity : friction
+
+      return {
+        direction,
+        acceleration,
+        tippingLimit,
+        slidingLimit,
+        blocked: isBlocked,
+        tips: acceleration > tippingLimit,
+        slides: acceleration > slidingLimit,
+      }
+    })
+
+    levels.unshift({ floorIndex: k, weight, cogHeight, friction, directions })
+  }
+
+  const all = levels.flatMap(l => l.directions).filter(d => d.acceleration > 0)
+  const tippingMargin = Math.min(Infinity, ...all.map(d => d.tippingLimit / d.acceleration))
+  const slidingMargin = Math.min(Infinity, ...all.map(d => d.slidingLimit / d.acceleration))
+
+  return {
+    id: pp.id,
+    levels,
+    tippingMargin,
+    slidingMargin,
+    needsSecuring: all.some(d => d.tips || d.slides),
+  }
+}
+
+/** Misma convención R_y que getPalletBoundingBox */
+function localToWorld(pp: PlacedPallet): (p: Position3D) => Position3D {
+  const rotRad = (pp.yRotation * Math.PI) / 180
+  const cos = Math.cos(rotRad)
+  const sin = Math.sin(rotRad)
+  return p => ({
+    x: pp.position.x + p.x * cos + p.z * sin,
+    y: pp.position.y + p.y,
+    z: pp.position.z - p.x * sin + p.z * cos,
+  })
+}
+
+function worldFootprint(corners: Position3D[]): Pick<BoundingBox, 'minX' | 'maxX' | 'minZ' | 'maxZ'> {
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    minZ: Math.min(...corners.map(c => c.z)),
+    maxZ: Math.max(...corners.map(c => c.z)),
+  }
+}
+
+/** Distancia en planta del CoG al borde de vuelco en la dirección de la aceleración */
+function edgeDistance(direction: LoadDirection, cog: Position3D, base: Pick<BoundingBox, 'minX' | 'maxX' | 'minZ' | 'maxZ'>): number {
+  switch (direction) {
+    case LoadDirection.FORWARD: return base.maxZ - cog.z
+    case LoadDirection.BACKWARD: return cog.z - base.minZ
+    case LoadDirection.LEFT: return base.maxX - cog.x
+    case LoadDirection.RIGHT: return cog.x - base.minX
+  }
+}
+
+/**
+ * Direcciones en las que cada palet está bloqueado: toca la pared (holgura ≤ maxGap)
+ * o toca un palet que a su vez está bloqueado en esa dirección. Las puertas no bloquean.
+ */
+function findBlockedDirections(truck: Truck, maxGap: number): Map<string, Set<LoadDirection>> {
+  const { width, depth } = truck.dimensions
+  // Solo los palets apoyados en el suelo del camión
+  const grounded = truck.pallets.filter(pp => pp.position.y <= 1)
+  const bounds = new Map(grounded.map(pp => [pp.id, getPalletBoundingBox(pp)]))
+  const result = new Map(truck.pallets.map(pp => [pp.id, new Set<LoadDirection>()]))
+
+  const wallGap: Record<LoadDirection, (bb: BoundingBox) => number> = {
+    FORWARD: bb => depth - bb.maxZ,
+    BACKWARD: () => Infinity,
+    LEFT: bb => width - bb.maxX,
+    RIGHT: bb => bb.minX,
+  }
+  /** Holgura entre `bb` y `other` en la dirección, o Infinity si no se enfrentan */
+  const neighbourGap = (direction: LoadDirection, bb: BoundingBox, other: BoundingBox): number => {
+    const alongZ = direction === LoadDirection.FORWARD || direction === LoadDirection.BACKWARD
+    const overlap = alongZ
+      ? Math.min(bb.maxX, other.maxX) - Math.max(bb.minX, other.minX)
+      : Math.min(bb.maxZ, other.maxZ) - Math.max(bb.minZ, other.minZ)
+    if (overlap < MIN_BLOCKING_OVERLAP) return Infinity
+    const gap = direction === LoadDirection.FORWARD ? other.minZ - bb.maxZ
+      : direction === LoadDirection.BACKWARD ? bb.minZ - other.maxZ
+        : direction === LoadDirection.LEFT ? other.minX - bb.maxX
+          : bb.minX - other.maxX
+    return gap >= -1 ? gap : Infinity
+  }
+
+  for (const direction of DIRECTIONS) {
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const pp of grounded) {
+        const blocked = result.get(pp.id)!
+        if (blocked.has(direction)) continue
+        const bb = bounds.get(pp.id)!
+        const byWall = wallGap[direction](bb) <= maxGap
+        const byNeighbour = grounded.some(other =>
+          other !== pp
+          && result.get(other.id)!.has(direction)
+          && neighbourGap(direction, bb, bounds.get(other.id)!) <= maxGap,
+        )
+        if (byWall || byNeighbour) {
+          blocked.add(direction)
+          changed = true
+        }
+      }
+    }
+  }
+
+  return result
+}
+
+/** Peor piso/dirección que cumple `fails`, según `margin` */
+function worst(
+  result: PalletDynamics,
+  fails: (d: DirectionalMargins) => boolean,
+  margin: (d: DirectionalMargins) => number,
+): { level: LevelDynamics; margins: DirectionalMargins } | null {
+  let found: { level: LevelDynamics; margins: DirectionalMargins } | null = null
+  for (const level of result.levels) {
+    for (const margins of level.directions) {
+      if (fails(margins) && (!found || margin(margins) < margin(found.margins))) found = { level, margins }
+    }
+  }
+  return found
+}
+
+function subject(id: string, floorIndex: number): string {
+  return floorIndex === 0 ? `Palet ${id}` : `Piso ${floorIndex + 1} del palet ${id}`
+}
@@ -6,13 +6,19 @@ import type { ValidationResult, Violation } from '../types'
 import type { PlacedBox } from '../entities/PlacedBox'
 import { getBoxBoundingBox } from './collision'
 import { MIN_SUPPORT_PERCENTAGE } from '../constants'
+import { SpatialGrid } from '../spatial/SpatialGrid'
+import { SUPPORT_CONTACT_TOLERANCE as CONTACT_TOLERANCE } from '../support/graph'
 
 /**
  * BR-004: Valida que toda caja tiene soporte debajo (suelo del palet u otra caja)
- * Al menos MIN_SUPPORT_PERCENTAGE del área base debe estar soportada
+ * Al menos `minSupportRatio` (por defecto MIN_SUPPORT_PERCENTAGE) del área base debe estar soportada
  */
-export function validateSupport(boxes: PlacedBox[]): ValidationResult {
+export function validateSupport(
+  boxes: PlacedBox[],
+  minSupportRatio: number = MIN_SUPPORT_PERCENTAGE,
+): ValidationResult {
   const violations: Violation[] = []
+  const grid = SpatialGrid.from(boxes, getBoxBoundingBox)
 
   for (const pb of boxes) {
     const bb = getBoxBoundingBox(pb)
@@ -23,12 +29,14 @@ export function validateSupport(boxes: PlacedBox[]): ValidationResult {
     const boxArea = (bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)
     let supportedArea = 0
 
-    for (const other of boxes) {
+    // Candidatas: cajas cuyo techo está a ±CONTACT_TOLERANCE de nuestra base
+    const below = { ...bb, minY: bb.minY - CONTACT_TOLERANCE, maxY: bb.minY + CONTACT_TOLERANCE }
+    for (const other of grid.query(below)) {
       if (other.id === pb.id) continue
       const obb = getBoxBoundingBox(other)
 
       // La otra caja está justo debajo (su top ≈ nuestra bottom)
-      if (Math.abs(obb.maxY - bb.minY) > 2) continue
+      if (Math.abs(obb.maxY - bb.minY) > CONTACT_TOLERANCE) continue
 
       // Calcular área de solapamiento en XZ
       const overlapX = Math.max(0, Math.min(bb.maxX, obb.maxX) - Math.max(bb.minX, obb.minX))
@@ -36,11 +44,11 @@ export function validateSupport(boxes: PlacedBox[]): ValidationResult {
       supportedArea += overlapX * overlapZ
     }
 
-    if (boxArea > 0 && supportedArea / boxArea < MIN_SUPPORT_PERCENTAGE) {
+    if (boxArea > 0 && supportedArea / boxArea < minSupportRatio) {
       violations.push({
         code: 'BR-004',
         severity: 'error',
-        message: `Caja ${pb.id} sin soporte suficiente (${((supportedArea / boxArea) * 100).toFixed(0)}% < ${MIN_SUPPORT_PERCENTAGE * 100}%)`,
+        message: `Caja ${pb.id} sin soporte suficiente (${((supportedArea / boxArea) * 100).toFixed(0)}% < ${(minSupportRatio * 100).toFixed(0)}%)`,
         involvedIds: [pb.id],
       })
     }
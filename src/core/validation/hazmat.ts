@@ -0,0 +1,221 @@
+/**
+ * Hazmat validation — Segregación de mercancías peligrosas (ADR / IMDG)
+ * BR-701: Clases incompatibles en el mismo piso de palet
+ * BR-702: Clases incompatibles en el mismo palet apilado
+ * BR-703: Clases que no pueden ir en el mismo camión
+ * BR-704: Distancia mínima entre palets con clases incompatibles
+ *
+ * La tabla de segregación (por defecto HAZMAT_SEGREGATION_TABLE) indica, para cada
+ * par de clases, la unidad de carga más pequeña que no pueden compartir y la
+ * distancia mínima en planta entre sus palets. Cada nivel solo informa de los pares
+ * que no ha informado el anterior: dos cajas incompatibles en el mismo piso dan
+ * BR-701, no además BR-702 y BR-703. Las cajas en cantidades limitadas están exentas.
+ */
+
+import type {
+  BoundingBox,
+  HazardClass,
+  HazmatSegregation,
+  HazmatSegregationTable,
+  ValidationResult,
+  Violation,
+} from '../types'
+import type { Box } from '../entities/Box'
+import type { PlacedBox } from '../entities/PlacedBox'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { Truck } from '../entities/Truck'
+import { SegregationScope } from '../types'
+import { HAZMAT_SEGREGATION_TABLE } from '../constants'
+import { getPalletBoundingBox } from './collision'
+
+/** Cajas peligrosas de una unidad de carga, con sus clases */
+interface HazmatGroup {
+  id: string
+  boxes: { id: string; classes: HazardClass[] }[]
+}
+
+/** Orden de las unidades de carga, de menor a mayor */
+const SCOPE_RANK: Record<SegregationScope, number> = {
+  PALLET: 0,
+  STACK: 1,
+  TRUCK: 2,
+}
+
+/** Clases de peligro de una caja (principal y secundarias); vacío si no es peligrosa o va en cantidad limitada */
+export function getHazardClasses(box: Box): HazardClass[] {
+  if (!box.hazmat || box.hazmat.limitedQuantity) return []
+  return [box.hazmat.hazardClass, ...(box.hazmat.subsidiaryClasses ?? [])]
+}
+
+/**
+ * Segregación más exigente entre dos listas de clases
+ * (`undefined` si pueden ir juntas)
+ */
+export function getSegregation(
+  a: HazardClass[],
+  b: HazardClass[],
+  table: HazmatSegregationTable = HAZMAT_SEGREGATION_TABLE,
+): HazmatSegregation | undefined {
+  let result: HazmatSegregation | undefined
+  for (const ca of a) {
+    for (const cb of b) {
+      const rule = table[ca]?.[cb] ?? table[cb]?.[ca]
+      if (!rule) continue
+      result = result
+        ? {
+            mayNotShare: SCOPE_RANK[rule.mayNotShare] > SCOPE_RANK[result.mayNotShare] ? rule.mayNotShare : result.mayNotShare,
+            minDistance: Math.max(result.minDistance ?? 0, rule.minDistance ?? 0) || undefined,
+          }
+        : rule
+    }
+  }
+  return result
+}
+
+/** Distancia en planta (mm) entre dos envolventes; 0 si se solapan o se tocan */
+export function getPlanDistance(a: BoundingBox, b: BoundingBox): number {
+  const dx = Math.max(0, b.minX - a.maxX, a.minX - b.maxX)
+  const dz = Math.max(0, b.minZ - a.maxZ, a.minZ - b.maxZ)
+  return Math.hypot(dx, dz)
+}
+
+// ─── BR-701: Mismo piso de palet ─────────────────────────────────
+
+export function validatePalletSegregation(
+  boxes: PlacedBox[],
+  table: HazmatSegregationTable = HAZMAT_SEGREGATION_TABLE,
+): ValidationResult {
+  const violations: Violation[] = []
+  const hazardous = hazardousBoxes(boxes)
+
+  for (let i = 0; i < hazardous.length; i++) {
+    for (let j = i + 1; j < hazardous.length; j++) {
+      const a = hazardous[i]
+      const b = hazardous[j]
+      if (!getSegregation(a.classes, b.classes, table)) continue
+      violations.push({
+        code: 'BR-701',
+        severity: 'error',
+        message: `Cajas ${a.id} (clase ${a.classes.join('/')}) y ${b.id} (clase ${b.classes.join('/')}) no pueden ir en el mismo palet`,
+        involvedIds: [a.id, b.id],
+      })
+    }
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── BR-702: Mismo palet apilado ─────────────────────────────────
+
+export function validateStackSegregation(
+  stack: StackedPallet,
+  table: HazmatSegregationTable = HAZMAT_SEGREGATION_TABLE,
+): ValidationResult {
+  const violations: Violation[] = []
+  const floors = stack.floors.map((floor, i): HazmatGroup => ({ id: `${i}`, boxes: hazardousBoxes(floor.boxes) }))
+
+  for (let i = 0; i < floors.length; i++) {
+    for (let j = i + 1; j < floors.length; j++) {
+      const pairs = conflictingPairs(floors[i], floors[j], table, SegregationScope.STACK)
+      if (pairs.length === 0) continue
+      violations.push({
+        code: 'BR-702',
+        severity: 'error',
+        message: `Palet ${stack.id}: los pisos ${i + 1} y ${j + 1} llevan clases incompatibles (${describePairs(pairs)})`,
+        involvedIds: uniqueBoxIds(pairs),
+      })
+    }
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── BR-703 / BR-704: Mismo camión ───────────────────────────────
+
+export function validateTruckSegregation(
+  truck: Truck,
+  table: HazmatSegregationTable = HAZMAT_SEGREGATION_TABLE,
+): ValidationResult {
+  const violations: Violation[] = []
+  const pallets = truck.pallets
+    .map(pp => ({
+      group: { id: pp.id, boxes: hazardousBoxes(pp.stackedPallet.floors.flatMap(f => f.boxes)) },
+      bb: getPalletBoundingBox(pp),
+    }))
+    .filter(p => p.group.boxes.length > 0)
+
+  for (let i = 0; i < pallets.length; i++) {
+    for (let j = i + 1; j < pallets.length; j++) {
+      const a = pallets[i]
+      const b = pallets[j]
+
+      const forbidden = conflictingPairs(a.group, b.group, table, SegregationScope.TRUCK)
+      if (forbidden.length > 0) {
+        violations.push({
+          code: 'BR-703',
+          severity: 'error',
+          message: `Palets ${a.group.id} y ${b.group.id} llevan clases que no pueden ir en el mismo camión (${describePairs(forbidden)})`,
+          involvedIds: uniqueBoxIds(forbidden),
+        })
+        continue
+      }
+
+      const distance = getPlanDistance(a.bb, b.bb)
+      const tooClose = conflictingPairs(a.group, b.group, table, SegregationScope.PALLET)
+        .filter(pair => (pair.segregation.minDistance ?? 0) > distance)
+      if (tooClose.length === 0) continue
+
+      const required = Math.max(...tooClose.map(pair => pair.segregation.minDistance!))
+      violations.push({
+        code: 'BR-704',
+        severity: 'error',
+        message: `Palets ${a.group.id} y ${b.group.id} a ${Math.round(distance)} mm: sus clases exigen ${required} mm (${describePairs(tooClose)})`,
+        involvedIds: uniqueBoxIds(tooClose),
+      })
+    }
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+interface ConflictingPair {
+  a: HazmatGroup['boxes'][number]
+  b: HazmatGroup['boxes'][number]
+  segregation: HazmatSegregation
+}
+
+function hazardousBoxes(boxes: PlacedBox[]): HazmatGroup['boxes'] {
+  return boxes
+    .map(pb => ({ id: pb.id, classes: getHazardClasses(pb.box) }))
+    .filter(b => b.classes.length > 0)
+}
+
+/** Pares de cajas de dos unidades de carga cuya segregación alcanza al menos `scope` */
+function conflictingPairs(
+  a: HazmatGroup,
+  b: HazmatGroup,
+  table: HazmatSegregationTable,
+  scope: SegregationScope,
+): ConflictingPair[] {
+  const pairs: ConflictingPair[] = []
+  for (const ba of a.boxes) {
+    for (const bb of b.boxes) {
+      const segregation = getSegregation(ba.classes, bb.classes, table)
+      if (segregation && SCOPE_RANK[segregation.mayNotShare] >= SCOPE_RANK[scope]) {
+        pairs.push({ a: ba, b: bb, segregation })
+      }
+    }
+  }
+  return pairs
+}
+
+function describePairs(pairs: ConflictingPair[]): string {
+  const classes = new Set(pairs.map(p => `${p.a.classes.join('/')} con ${p.b.classes.join('/')}`))
+  return [...classes].join(', ')
+}
+
+function uniqueBoxIds(pairs: ConflictingPair[]): string[] {
+  return [...new Set(pairs.flatMap(p => [p.a.id, p.b.id]))]
+}
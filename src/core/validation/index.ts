@@ -4,9 +4,11 @@
 
 // Collision
 export {
+  getOrientedDimensions,
   getBoxBoundingBox,
   getPalletBoundingBox,
   aabbIntersects,
+  findIntersectingPairs,
   validateNoBoxCollisions,
   validateNoPalletCollisions,
 } from './collision'
@@ -19,6 +21,13 @@ export {
   validatePalletHeight,
 } from './bounds'
 
+// Orientation
+export {
+  getUpAxis,
+  isOrientationAllowed,
+  validateBoxOrientation,
+} from './orientation'
+
 // Weight
 export {
   validatePalletWeight,
@@ -40,16 +49,77 @@ export {
 // Gravity
 export { validateSupport } from './gravity'
 
+// Compression
+export { getAllowedCompressionLoad, validateCompressionLoad, validateStackCompressionLoad } from './compression'
+export type { CompressionConditions } from './compression'
+
 // Stability
 export {
   calculateCenterOfGravity,
+  calculatePlacedPalletCenterOfGravity,
+  calculatePackingMetrics,
   calculateStabilityScore,
   validateCogInsideSupport,
   validateStability,
 } from './stability'
+export type { StabilityThresholds } from './stability'
+
+// Axles
+export { calculateAxleLoads, validateAxleLoads } from './axles'
+export type { AxleLoad, AxleLoadThresholds } from './axles'
+
+// Delivery
+export { isBlockingUnload, validateDeliveryOrder } from './delivery'
+
+// Doors
+export { canLoadThroughDoor, findLoadingDoors, validateDoorAccess } from './doors'
+
+// Temperature
+export {
+  getStackTemperatureRange,
+  isTemperatureCompatible,
+  findTemperatureZone,
+  blocksReeferAirflow,
+  validateStackTemperature,
+  validateTemperatureZones,
+  validateReeferAirflow,
+} from './temperature'
+
+// Hazmat
+export {
+  getHazardClasses,
+  getSegregation,
+  getPlanDistance,
+  validatePalletSegregation,
+  validateStackSegregation,
+  validateTruckSegregation,
+} from './hazmat'
+
+// Racking
+export {
+  getSlottedPalletWidth,
+  fitsInSlot,
+  validateRackSlots,
+  validateRackLoad,
+  validateRoomRacks,
+} from './racking'
+export type { RackClearances } from './racking'
+
+// Obstacles
+export { getObstacleClearance, getObstacleBoundingBox, validateRoomObstacles } from './obstacles'
+
+// Dynamics
+export { analyzeStackDynamics, analyzeTruckDynamics, validateDynamicStability } from './dynamics'
+export type { DirectionalMargins, DynamicStabilityOptions, LevelDynamics, PalletDynamics } from './dynamics'
+
+// Warehouse
+export { validateUniqueRoomIds } from './warehouse'
 
 // Polygon
 export {
   pointInPolygon,
   validatePalletInRoom,
 } from './polygon'
+
+// Rule engine
+export * from './rules'
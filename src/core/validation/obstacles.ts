@@ -0,0 +1,98 @@
+/**
+ * Obstacles validation — Obstáculos y zonas reservadas de una estancia
+ * BR-411: La carga no puede ocupar pilares, cuadros, pasillos ni zonas prohibidas
+ * BR-412: La carga no puede invadir la franja libre de puertas, salidas y cuadros
+ *
+ * Se comprueban los palets del suelo, la estructura de cada estantería y los palets
+ * de sus ubicaciones. Un obstáculo ocupa desde el suelo hasta `height` (o el techo),
+ * así que un palet en un nivel alto de estantería puede pasar por encima de una puerta.
+ */
+
+import type { BoundingBox, ObstacleType, ValidationResult, Violation } from '../types'
+import type { Room, RoomObstacle } from '../entities/Room'
+import { OBSTACLE_CLEARANCES } from '../constants'
+import { getRackBoundingBox, getRackPlacedPallets } from '../racking/placement'
+import { aabbIntersects, getPalletBoundingBox } from './collision'
+
+/** Carga de la estancia que tiene que respetar los obstáculos */
+interface RoomLoad {
+  id: string
+  label: string
+  bb: BoundingBox
+}
+
+/** Franja libre del obstáculo: la suya propia o la de su tipo */
+export function getObstacleClearance(
+  obstacle: RoomObstacle,
+  clearances: Record<ObstacleType, number> = OBSTACLE_CLEARANCES,
+): number {
+  return obstacle.clearance ?? clearances[obstacle.type]
+}
+
+/** Envolvente del obstáculo, ampliada en planta con `margin` mm por cada lado */
+export function getObstacleBoundingBox(obstacle: RoomObstacle, room: Room, margin = 0): BoundingBox {
+  return {
+    minX: obstacle.position.x - margin,
+    maxX: obstacle.position.x + obstacle.width + margin,
+    minY: 0,
+    maxY: obstacle.height ?? room.ceilingHeight,
+    minZ: obstacle.position.z - margin,
+    maxZ: obstacle.position.z + obstacle.depth + margin,
+  }
+}
+
+// ─── BR-411 / BR-412: Obstáculos y franjas libres ────────────────
+
+export function validateRoomObstacles(
+  room: Room,
+  clearances: Record<ObstacleType, number> = OBSTACLE_CLEARANCES,
+): ValidationResult {
+  const violations: Violation[] = []
+  if (!room.obstacles?.length) return { isValid: true, violations }
+
+  const loads: RoomLoad[] = [
+    ...room.pallets.map(pp => ({ id: pp.id, label: 'Palet', bb: getPalletBoundingBox(pp) })),
+    ...(room.racks ?? []).flatMap(rack => [
+      { id: rack.id, label: 'Estantería', bb: getRackBoundingBox(rack) },
+      ...getRackPlacedPallets(rack).map(pp => ({ id: pp.id, label: 'Palet', bb: getPalletBoundingBox(pp) })),
+    ]),
+  ]
+
+  for (const obstacle of room.obstacles) {
+    const name = obstacle.name ?? obstacle.id
+    const footprint = getObstacleBoundingBox(obstacle, room)
+    const clearance = getObstacleClearance(obstacle, clearances)
+    const zone = clearance > 0 ? getObstacleBoundingBox(obstacle, room, clearance) : undefined
+
+    for (const load of loads) {
+      if (aabbIntersects(load.bb, footprint)) {
+        violations.push({
+          code: 'BR-411',
+          severity: 'error',
+          message: `${load.label} ${load.id} ocupa ${OBSTACLE_NAMES[obstacle.type]} ${name}`,
+          involvedIds: [load.id, obstacle.id],
+        })
+      } else if (zone && aabbIntersects(load.bb, zone)) {
+        violations.push({
+          code: 'BR-412',
+          severity: 'error',
+          message: `${load.label} ${load.id} no deja ${clearance} mm libres junto a ${OBSTACLE_NAMES[obstacle.type]} ${name}`,
+          involvedIds: [load.id, obstacle.id],
+        })
+      }
+    }
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+const OBSTACLE_NAMES: Record<ObstacleType, string> = {
+  COLUMN: 'el pilar',
+  DOOR: 'la puerta',
+  FIRE_EXIT: 'la salida de emergencia',
+  ELECTRICAL_PANEL: 'el cuadro eléctrico',
+  WALKWAY: 'el pasillo peatonal',
+  NO_GO_ZONE: 'la zona reservada',
+}
@@ -0,0 +1,68 @@
+/**
+ * Orientation validation — Restricciones de orientación por caja
+ * BR-005: Orientación permitida ("this side up", ejes que pueden quedar en vertical)
+ */
+
+import type { DiscreteRotation, ValidationResult, Violation } from '../types'
+import { BoxAxis } from '../types'
+import type { Box } from '../entities/Box'
+import type { PlacedBox } from '../entities/PlacedBox'
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/**
+ * Eje propio de la caja que queda en vertical tras aplicar la rotación,
+ * y si queda invertido (apuntando hacia abajo).
+ * Usa la fila Y de la matriz Rx·Ry·Rz (orden Euler 'XYZ' de Three.js).
+ */
+export function getUpAxis(rotation: DiscreteRotation): { axis: BoxAxis; inverted: boolean } {
+  const rad = Math.PI / 180
+  const cx = Math.round(Math.cos(rotation.x * rad))
+  const sx = Math.round(Math.sin(rotation.x * rad))
+  const cy = Math.round(Math.cos(rotation.y * rad))
+  const sy = Math.round(Math.sin(rotation.y * rad))
+  const cz = Math.round(Math.cos(rotation.z * rad))
+  const sz = Math.round(Math.sin(rotation.z * rad))
+
+  // Componente Y en el mundo de cada eje local
+  const widthUp = sx * sy * cz + cx * sz
+  const heightUp = cx * cz - sx * sy * sz
+  const depthUp = -sx * cy
+
+  if (heightUp !== 0) return { axis: BoxAxis.HEIGHT, inverted: heightUp < 0 }
+  if (widthUp !== 0) return { axis: BoxAxis.WIDTH, inverted: widthUp < 0 }
+  return { axis: BoxAxis.DEPTH, inverted: depthUp < 0 }
+}
+
+/**
+ * Indica si una rotación respeta las restricciones de orientación de la caja.
+ * Una caja con restricciones explícitas nunca puede quedar boca abajo.
+ */
+export function isOrientationAllowed(box: Box, rotation: DiscreteRotation): boolean {
+  if (!box.allowedUpAxes) return true
+  const { axis, inverted } = getUpAxis(rotation)
+  if (!box.allowedUpAxes.includes(axis)) return false
+  return !(axis === BoxAxis.HEIGHT && inverted)
+}
+
+// ─── BR-005: Orientación permitida ───────────────────────────────
+
+export function validateBoxOrientation(boxes: PlacedBox[]): ValidationResult {
+  const violations: Violation[] = []
+
+  for (const pb of boxes) {
+    if (!isOrientationAllowed(pb.box, pb.rotation)) {
+      const { axis, inverted } = getUpAxis(pb.rotation)
+      violations.push({
+        code: 'BR-005',
+        severity: 'error',
+        message: inverted && axis === BoxAxis.HEIGHT
+          ? `Caja ${pb.id} está boca abajo`
+          : `Caja ${pb.id} colocada con el eje ${axis} en vertical, no permitido (${pb.box.allowedUpAxes!.join(', ') || 'ninguno'})`,
+        involvedIds: [pb.id],
+      })
+    }
+  }
+
+  return { isValid: violations.length === 0, violations }
+}
@@ -0,0 +1,163 @@
+/**
+ * Racking validation — Estanterías de paletización
+ * BR-409: Cada palet cabe en su ubicación con las holguras mínimas
+ * BR-410: Carga de cada nivel de vigas y de cada vano
+ *
+ * El ancho se mide a lo largo de las vigas (x del rack) con la huella del palet base;
+ * la altura libre de un nivel llega hasta la cara inferior de las vigas de encima.
+ * El nivel de suelo (`elevation` 0) no tiene vigas y no se comprueba su carga.
+ */
+
+import type { ValidationResult, Violation } from '../types'
+import type { Rack, SlottedPallet } from '../entities/Rack'
+import type { Room } from '../entities/Room'
+import type { StackedPallet } from '../entities/StackedPallet'
+import { getLevelClearHeight, getSlotWidth } from '../entities/Rack'
+import { getStackedPalletTotalHeight, getStackedPalletTotalWeight } from '../entities/StackedPallet'
+import { RACK_SIDE_CLEARANCE, RACK_VERTICAL_CLEARANCE, WEIGHT_WARNING_THRESHOLD } from '../constants'
+
+/** Holguras mínimas de una ubicación (mm) */
+export interface RackClearances {
+  vertical: number
+  side: number
+}
+
+const DEFAULT_CLEARANCES: RackClearances = {
+  vertical: RACK_VERTICAL_CLEARANCE,
+  side: RACK_SIDE_CLEARANCE,
+}
+
+/** Ancho que ocupa el palet a lo largo de las vigas (mm) */
+export function getSlottedPalletWidth(stack: StackedPallet, yRotation: SlottedPallet['yRotation']): number {
+  const { width, depth } = stack.floors[0].pallet.dimensions
+  return yRotation === 0 ? width : depth
+}
+
+/** Indica si el palet cabe en una ubicación del nivel con las holguras indicadas */
+export function fitsInSlot(
+  rack: Rack,
+  bayIndex: number,
+  levelIndex: number,
+  stack: StackedPallet,
+  yRotation: SlottedPallet['yRotation'],
+  clearances: RackClearances = DEFAULT_CLEARANCES,
+): boolean {
+  const bay = rack.bays[bayIndex]
+  const level = bay?.levels[levelIndex]
+  if (!level) return false
+  return getStackedPalletTotalHeight(stack) + clearances.vertical <= getLevelClearHeight(rack, bay, levelIndex)
+    && getSlottedPalletWidth(stack, yRotation) + 2 * clearances.side <= getSlotWidth(bay, level)
+}
+
+// ─── BR-409: Holguras de la ubicación ────────────────────────────
+
+export function validateRackSlots(
+  rack: Rack,
+  clearances: RackClearances = DEFAULT_CLEARANCES,
+): ValidationResult {
+  const violations: Violation[] = []
+
+  rack.bays.forEach((bay, b) => {
+    bay.levels.forEach((level, l) => {
+      const where = `${rack.id}, vano ${b + 1}, nivel ${l + 1}`
+      const clearHeight = getLevelClearHeight(rack, bay, l)
+      const slotWidth = getSlotWidth(bay, level)
+      const used = new Set<number>()
+
+      for (const sp of level.pallets) {
+        if (!Number.isInteger(sp.slot) || sp.slot < 0 || sp.slot >= level.slotCount || used.has(sp.slot)) {
+          violations.push({
+            code: 'BR-409',
+            severity: 'error',
+            message: `Palet ${sp.id} en una ubicación ${used.has(sp.slot) ? 'ya ocupada' : 'inexistente'} (${where}, ubicación ${sp.slot + 1})`,
+            involvedIds: [sp.id, level.id],
+          })
+          continue
+        }
+        used.add(sp.slot)
+
+        const height = getStackedPalletTotalHeight(sp.stackedPallet)
+        if (height + clearances.vertical > clearHeight) {
+          violations.push({
+            code: 'BR-409',
+            severity: 'error',
+            message: `Palet ${sp.id} (${height} mm) no deja ${clearances.vertical} mm bajo las vigas (${where}: ${clearHeight} mm libres)`,
+            involvedIds: [sp.id, level.id],
+          })
+        }
+
+        const width = getSlottedPalletWidth(sp.stackedPallet, sp.yRotation)
+        if (width + 2 * clearances.side > slotWidth) {
+          violations.push({
+            code: 'BR-409',
+            severity: 'error',
+            message: `Palet ${sp.id} (${width} mm) no deja ${clearances.side} mm a cada lado (${where}: ubicación de ${Math.round(slotWidth)} mm)`,
+            involvedIds: [sp.id, level.id],
+          })
+        }
+      }
+    })
+  })
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── BR-410: Carga de vigas y vanos ──────────────────────────────
+
+export function validateRackLoad(
+  rack: Rack,
+  warningThreshold: number = WEIGHT_WARNING_THRESHOLD,
+): ValidationResult {
+  const violations: Violation[] = []
+
+  rack.bays.forEach((bay, b) => {
+    let bayLoad = 0
+
+    bay.levels.forEach((level, l) => {
+      // El nivel de suelo no carga los bastidores
+      if (level.elevation === 0) return
+      const load = level.pallets.reduce((sum, sp) => sum + getStackedPalletTotalWeight(sp.stackedPallet), 0)
+      bayLoad += load
+
+      const where = `${rack.id}, vano ${b + 1}, nivel ${l + 1}`
+      const involvedIds = [level.id, ...level.pallets.map(sp => sp.id)]
+      if (load > level.maxLoad) {
+        violations.push({
+          code: 'BR-410',
+          severity: 'error',
+          message: `Carga de las vigas (${load.toFixed(1)}kg) excede su máximo (${level.maxLoad}kg) en ${where}`,
+          involvedIds,
+        })
+      } else if (load > level.maxLoad * warningThreshold) {
+        violations.push({
+          code: 'BR-410',
+          severity: 'warning',
+          message: `Carga de las vigas (${load.toFixed(1)}kg) supera el ${Math.round(warningThreshold * 100)}% de su máximo (${level.maxLoad}kg) en ${where}`,
+          involvedIds,
+        })
+      }
+    })
+
+    if (bay.maxLoad !== undefined && bayLoad > bay.maxLoad) {
+      violations.push({
+        code: 'BR-410',
+        severity: 'error',
+        message: `Carga del vano ${b + 1} de ${rack.id} (${bayLoad.toFixed(1)}kg) excede su máximo (${bay.maxLoad}kg)`,
+        involvedIds: [bay.id],
+      })
+    }
+  })
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── Estancia ────────────────────────────────────────────────────
+
+/** BR-409 y BR-410 de todas las estanterías de la estancia */
+export function validateRoomRacks(room: Room): ValidationResult {
+  const violations = (room.racks ?? []).flatMap(rack => [
+    ...validateRackSlots(rack).violations,
+    ...validateRackLoad(rack).violations,
+  ])
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
@@ -0,0 +1,252 @@
+/**
+ * Validation rules — Reglas BR del sistema registradas por defecto
+ *
+ * Cada regla envuelve el validador puro correspondiente y filtra por su código,
+ * de modo que los validadores que emiten varios códigos (BR-501/503, BR-402/404,
+ * BR-405/406) se pueden configurar por separado.
+ */
+
+import type { ValidationResult } from '../../types'
+import type { RuleParams, RuleScope, ValidationRule } from './types'
+import type { DynamicStabilityOptions } from '../dynamics'
+import {
+  DEFAULT_BLOCKING_GAP,
+  DEFAULT_DURATION_FACTOR,
+  DEFAULT_HUMIDITY_FACTOR,
+  EN_12195_1_ROAD_ACCELERATIONS,
+  MIN_STEER_AXLE_LOAD_RATIO,
+  MIN_SUPPORT_PERCENTAGE,
+  REEFER_AIRFLOW_GAP,
+  WEIGHT_WARNING_THRESHOLD,
+} from '../../constants'
+import { validateNoBoxCollisions, validateNoPalletCollisions } from '../collision'
+import { validateAllBoxesInPalletBounds, validatePalletInTruck } from '../bounds'
+import { validateBoxOrientation } from '../orientation'
+import {
+  validateFragileLoad,
+  validatePalletWeight,
+  validateTruckWeight,
+  validateWeightDistribution,
+} from '../weight'
+import { validateSupport } from '../gravity'
+import { validateCompressionLoad, validateStackCompressionLoad } from '../compression'
+import {
+  validateBoxStackability,
+  validateInvertedPyramid,
+  validateSeparators,
+  validateStackDimensions,
+  validateStackHeight,
+  validateStackWeight,
+} from '../stacking'
+import { validateCogInsideSupport, validateStability } from '../stability'
+import { validateAxleLoads } from '../axles'
+import { validateDeliveryOrder } from '../delivery'
+import { validateDoorAccess } from '../doors'
+import { validateDynamicStability } from '../dynamics'
+import { validateReeferAirflow, validateStackTemperature, validateTemperatureZones } from '../temperature'
+import { validatePalletSegregation, validateStackSegregation, validateTruckSegregation } from '../hazmat'
+
+function defineRule<S extends RuleScope, P extends RuleParams>(rule: ValidationRule<S, P>): ValidationRule {
+  return rule
+}
+
+/** Se queda solo con las violaciones de un código */
+function only(code: string, result: ValidationResult): ValidationResult {
+  const violations = result.violations.filter(v => v.code === code)
+  return { isValid: violations.every(v => v.severity !== 'error'), violations }
+}
+
+function merge(results: ValidationResult[]): ValidationResult {
+  const violations = results.flatMap(r => r.violations)
+  return { isValid: violations.every(v => v.severity !== 'error'), violations }
+}
+
+/** Parámetros planos de BR-504/505 → opciones de validateDynamicStability */
+function dynamicOptions(p: RuleParams): DynamicStabilityOptions {
+  return {
+    accelerations: { forward: p.forward, backward: p.backward, sideways: p.sideways },
+    maxBlockingGap: p.maxBlockingGap,
+  }
+}
+
+// ─── Piso ────────────────────────────────────────────────────────
+
+const floorRules: ValidationRule[] = [
+  defineRule({
+    id: 'BR-001', name: 'Caja dentro del palet', scope: 'floor', defaultParams: {},
+    validate: floor => validateAllBoxesInPalletBounds(floor.boxes, floor.pallet),
+  }),
+  defineRule({
+    id: 'BR-002', name: 'Sin colisiones entre cajas', scope: 'floor', defaultParams: {},
+    validate: floor => validateNoBoxCollisions(floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-004', name: 'Objetos no flotan', scope: 'floor',
+    defaultParams: { minSupportRatio: MIN_SUPPORT_PERCENTAGE },
+    validate: (floor, p) => validateSupport(floor.boxes, p.minSupportRatio),
+  }),
+  defineRule({
+    id: 'BR-005', name: 'Orientación permitida', scope: 'floor', defaultParams: {},
+    validate: floor => validateBoxOrientation(floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-101', name: 'Peso máximo de palet', scope: 'floor',
+    defaultParams: { warningThreshold: WEIGHT_WARNING_THRESHOLD },
+    validate: (floor, p) => validatePalletWeight(floor, p.warningThreshold),
+  }),
+  defineRule({
+    id: 'BR-103', name: 'Peso sobre caja frágil', scope: 'floor', defaultParams: {},
+    validate: floor => validateFragileLoad(floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-104', name: 'Distribución de peso en palet', scope: 'floor',
+    defaultParams: { maxOffsetRatio: 1 / 6 },
+    validate: (floor, p) => validateWeightDistribution(floor.pallet, floor.boxes, p.maxOffsetRatio),
+  }),
+  defineRule({
+    id: 'BR-201', name: 'Caja apilable', scope: 'floor', defaultParams: {},
+    validate: floor => validateBoxStackability(floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-202', name: 'Capacidad de compresión (BCT)', scope: 'floor',
+    defaultParams: {
+      humidityFactor: DEFAULT_HUMIDITY_FACTOR,
+      durationFactor: DEFAULT_DURATION_FACTOR,
+      warningThreshold: WEIGHT_WARNING_THRESHOLD,
+    },
+    validate: (floor, p) => validateCompressionLoad(floor.boxes, p),
+  }),
+  defineRule({
+    id: 'BR-203', name: 'Pirámide invertida', scope: 'floor', defaultParams: {},
+    validate: floor => validateInvertedPyramid(floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-501', name: 'Score de estabilidad mínimo', scope: 'floor',
+    defaultParams: { minScore: 50, recommendedScore: 70 },
+    validate: (floor, p) => only('BR-501', validateStability(floor.pallet, floor.boxes, p)),
+  }),
+  defineRule({
+    id: 'BR-502', name: 'Centro de gravedad sobre el palet', scope: 'floor', defaultParams: {},
+    validate: floor => validateCogInsideSupport(floor.pallet, floor.boxes),
+  }),
+  defineRule({
+    id: 'BR-503', name: 'Altura del centro de gravedad', scope: 'floor',
+    defaultParams: { maxCogHeightRatio: 0.6 },
+    validate: (floor, p) => only('BR-503', validateStability(floor.pallet, floor.boxes, p)),
+  }),
+  defineRule({
+    id: 'BR-701', name: 'Segregación de mercancías peligrosas en el palet', scope: 'floor', defaultParams: {},
+    validate: floor => validatePalletSegregation(floor.boxes),
+  }),
+]
+
+// ─── Stack ───────────────────────────────────────────────────────
+
+const stackRules: ValidationRule[] = [
+  defineRule({
+    // Mismo código que BR-202 de piso; id propio para poder configurarla aparte
+    id: 'BR-202-STACK', name: 'Capacidad de compresión con los pisos de encima', scope: 'stack',
+    defaultParams: {
+      humidityFactor: DEFAULT_HUMIDITY_FACTOR,
+      durationFactor: DEFAULT_DURATION_FACTOR,
+      warningThreshold: WEIGHT_WARNING_THRESHOLD,
+    },
+    validate: (stack, p) => validateStackCompressionLoad(stack, p),
+  }),
+  defineRule({
+    id: 'BR-301', name: 'Mismas dimensiones de planta', scope: 'stack', defaultParams: {},
+    validate: stack => validateStackDimensions(stack),
+  }),
+  defineRule({
+    id: 'BR-302', name: 'Separador obligatorio', scope: 'stack', defaultParams: {},
+    validate: stack => validateSeparators(stack),
+  }),
+  defineRule({
+    id: 'BR-303', name: 'Altura total del stack', scope: 'stack', defaultParams: {},
+    validate: (stack, _p, ctx) => ctx.containerHeight !== undefined
+      ? validateStackHeight(stack, ctx.containerHeight)
+      : { isValid: true, violations: [] },
+  }),
+  defineRule({
+    id: 'BR-304', name: 'Peso acumulado del stack', scope: 'stack', defaultParams: {},
+    validate: stack => validateStackWeight(stack),
+  }),
+  defineRule({
+    id: 'BR-601', name: 'Temperatura común en el palet', scope: 'stack', defaultParams: {},
+    validate: stack => validateStackTemperature(stack),
+  }),
+  defineRule({
+    id: 'BR-702', name: 'Segregación de mercancías peligrosas en el stack', scope: 'stack', defaultParams: {},
+    validate: stack => validateStackSegregation(stack),
+  }),
+]
+
+// ─── Camión ──────────────────────────────────────────────────────
+
+const truckRules: ValidationRule[] = [
+  defineRule({
+    id: 'BR-003', name: 'Sin colisiones entre palets', scope: 'truck', defaultParams: {},
+    validate: truck => validateNoPalletCollisions(truck.pallets),
+  }),
+  defineRule({
+    id: 'BR-102', name: 'Peso máximo de camión', scope: 'truck',
+    defaultParams: { warningThreshold: WEIGHT_WARNING_THRESHOLD },
+    validate: (truck, p) => validateTruckWeight(truck, p.warningThreshold),
+  }),
+  defineRule({
+    id: 'BR-402', name: 'Palet dentro del camión', scope: 'truck', defaultParams: {},
+    validate: truck => merge(truck.pallets.map(pp => only('BR-402', validatePalletInTruck(pp, truck)))),
+  }),
+  defineRule({
+    id: 'BR-404', name: 'Altura de camión', scope: 'truck', defaultParams: {},
+    validate: truck => merge(truck.pallets.map(pp => only('BR-404', validatePalletInTruck(pp, truck)))),
+  }),
+  defineRule({
+    id: 'BR-405', name: 'Carga máxima por eje', scope: 'truck',
+    defaultParams: { warningThreshold: WEIGHT_WARNING_THRESHOLD },
+    validate: (truck, p) => only('BR-405', validateAxleLoads(truck, p)),
+  }),
+  defineRule({
+    id: 'BR-406', name: 'Carga mínima por eje', scope: 'truck',
+    defaultParams: { minSteerRatio: MIN_STEER_AXLE_LOAD_RATIO },
+    validate: (truck, p) => only('BR-406', validateAxleLoads(truck, p)),
+  }),
+  defineRule({
+    id: 'BR-407', name: 'Orden de descarga por paradas', scope: 'truck', defaultParams: {},
+    validate: truck => validateDeliveryOrder(truck),
+  }),
+  defineRule({
+    id: 'BR-408', name: 'Acceso por puertas', scope: 'truck', defaultParams: {},
+    validate: truck => validateDoorAccess(truck),
+  }),
+  defineRule({
+    id: 'BR-504', name: 'Vuelco en frenada y curva', scope: 'truck',
+    defaultParams: { ...EN_12195_1_ROAD_ACCELERATIONS, maxBlockingGap: DEFAULT_BLOCKING_GAP },
+    validate: (truck, p) => only('BR-504', validateDynamicStability(truck, dynamicOptions(p))),
+  }),
+  defineRule({
+    id: 'BR-505', name: 'Deslizamiento en frenada y curva', scope: 'truck',
+    defaultParams: { ...EN_12195_1_ROAD_ACCELERATIONS, maxBlockingGap: DEFAULT_BLOCKING_GAP },
+    validate: (truck, p) => only('BR-505', validateDynamicStability(truck, dynamicOptions(p))),
+  }),
+  defineRule({
+    id: 'BR-602', name: 'Compartimento de temperatura', scope: 'truck', defaultParams: {},
+    validate: truck => validateTemperatureZones(truck),
+  }),
+  defineRule({
+    id: 'BR-603', name: 'Retorno de aire del equipo de frío', scope: 'truck',
+    defaultParams: { gap: REEFER_AIRFLOW_GAP },
+    validate: (truck, p) => validateReeferAirflow(truck, p.gap),
+  }),
+  defineRule({
+    id: 'BR-703', name: 'Mercancías peligrosas incompatibles en el camión', scope: 'truck', defaultParams: {},
+    validate: truck => only('BR-703', validateTruckSegregation(truck)),
+  }),
+  defineRule({
+    id: 'BR-704', name: 'Distancia de segregación', scope: 'truck', defaultParams: {},
+    validate: truck => only('BR-704', validateTruckSegregation(truck)),
+  }),
+]
+
+/** Reglas del sistema, en el orden en que se evalúan */
+export const BUILT_IN_RULES: readonly ValidationRule[] = [...floorRules, ...stackRules, ...truckRules]
@@ -0,0 +1,30 @@
+/**
+ * Validation rules barrel export
+ */
+
+export { RuleScope } from './types'
+export type {
+  RuleTargetMap,
+  RuleContext,
+  RuleParams,
+  ValidationRule,
+  RuleConfig,
+  ValidationProfile,
+  ResolvedRule,
+} from './types'
+
+export { BUILT_IN_RULES } from './builtins'
+
+export {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE,
+  STRICT_EXPORT_PROFILE,
+  INTERNAL_SHUTTLE_PROFILE,
+  BUILT_IN_PROFILES,
+} from './profiles'
+
+export { ValidationRegistry, defaultValidationRegistry } from './registry'
+export type { ValidationRunOptions } from './registry'
+
+export { FloorValidationSession } from './session'
+export type { BoxChange, ValidationDelta, ValidationSessionOptions } from './session'
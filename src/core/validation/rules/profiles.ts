@@ -0,0 +1,61 @@
+/**
+ * Validation profiles — Perfiles de severidad/umbrales predefinidos
+ *
+ * Un perfil solo indica lo que cambia respecto a los valores por defecto de cada regla.
+ */
+
+import type { ValidationProfile } from './types'
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+/** Valores por defecto de todas las reglas */
+export const DEFAULT_PROFILE: ValidationProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Por defecto',
+  rules: {},
+}
+
+/** Exportación: más margen de seguridad y los avisos de reparto de peso pasan a error */
+export const STRICT_EXPORT_PROFILE: ValidationProfile = {
+  id: 'strict-export',
+  name: 'Exportación estricta',
+  rules: {
+    'BR-004': { params: { minSupportRatio: 0.8 } },
+    'BR-101': { params: { warningThreshold: 0.85 } },
+    'BR-102': { params: { warningThreshold: 0.85 } },
+    'BR-104': { severity: 'error' },
+    // Contenedor marítimo: ~90 % HR y unos 30 días bajo carga
+    'BR-202': { params: { humidityFactor: 0.5, durationFactor: 0.59 } },
+    'BR-202-STACK': { params: { humidityFactor: 0.5, durationFactor: 0.59 } },
+    'BR-203': { severity: 'error' },
+    'BR-405': { params: { warningThreshold: 0.85 } },
+    'BR-501': { params: { minScore: 60, recommendedScore: 80 } },
+    'BR-503': { params: { maxCogHeightRatio: 0.55 } },
+  },
+}
+
+/** Lanzadera interna entre naves: trayecto corto, sin paradas y a baja velocidad */
+export const INTERNAL_SHUTTLE_PROFILE: ValidationProfile = {
+  id: 'internal-shuttle',
+  name: 'Lanzadera interna',
+  rules: {
+    'BR-104': { enabled: false },
+    // Menos de un día bajo carga
+    'BR-202': { params: { durationFactor: 0.7 } },
+    'BR-202-STACK': { params: { durationFactor: 0.7 } },
+    'BR-203': { enabled: false },
+    'BR-302': { severity: 'warning' },
+    'BR-407': { enabled: false },
+    'BR-501': { params: { minScore: 40, recommendedScore: 60 } },
+    'BR-503': { enabled: false },
+    // Baja velocidad: frenadas y curvas suaves
+    'BR-504': { params: { forward: 0.5, backward: 0.3, sideways: 0.3 } },
+    'BR-505': { params: { forward: 0.5, backward: 0.3, sideways: 0.3 } },
+  },
+}
+
+export const BUILT_IN_PROFILES: readonly ValidationProfile[] = [
+  DEFAULT_PROFILE,
+  STRICT_EXPORT_PROFILE,
+  INTERNAL_SHUTTLE_PROFILE,
+]
@@ -0,0 +1,166 @@
+/**
+ * ValidationRegistry — Registro de reglas de validación y perfiles
+ *
+ * Análogo a PackingRegistry: mantiene las reglas disponibles (las BR del sistema
+ * más las que registre cada cliente) y los perfiles que las activan, desactivan
+ * o ajustan sus umbrales y severidades.
+ */
+
+import type { PalletFloor } from '../../entities/PalletFloor'
+import type { StackedPallet } from '../../entities/StackedPallet'
+import type { Truck } from '../../entities/Truck'
+import type { ValidationResult, Violation } from '../../types'
+import type {
+  ResolvedRule,
+  RuleConfig,
+  RuleContext,
+  RuleParams,
+  RuleScope,
+  RuleTargetMap,
+  ValidationProfile,
+  ValidationRule,
+} from './types'
+import { BUILT_IN_RULES } from './builtins'
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE_ID } from './profiles'
+
+export interface ValidationRunOptions extends RuleContext {
+  /** Id de un perfil registrado o un perfil ad hoc (por defecto: 'default') */
+  profile?: string | ValidationProfile
+}
+
+export class ValidationRegistry {
+  private rules = new Map<string, ValidationRule>()
+  private profiles = new Map<string, ValidationProfile>()
+
+  constructor() {
+    // Register built-in rules and profiles
+    for (const rule of BUILT_IN_RULES) this.register(rule)
+    for (const profile of BUILT_IN_PROFILES) this.registerProfile(profile)
+  }
+
+  // ─── Reglas ──────────────────────────────────────────────────
+
+  /** Registra una regla. Si ya existe una con el mismo id, la sustituye */
+  register<S extends RuleScope, P extends RuleParams>(rule: ValidationRule<S, P>): void {
+    // Se guarda sin sus tipos concretos: `run` le pasa siempre un objetivo de su ámbito
+    // y los parámetros resueltos a partir de sus `defaultParams`
+    const erased: ValidationRule = rule
+    this.rules.set(rule.id, erased)
+  }
+
+  get(id: string): ValidationRule {
+    const rule = this.rules.get(id)
+    if (!rule) {
+      throw new Error(`Validation rule "${id}" not found. Available: ${this.listIds().join(', ')}`)
+    }
+    return rule
+  }
+
+  list(scope?: RuleScope): ValidationRule[] {
+    const rules = Array.from(this.rules.values())
+    return scope ? rules.filter(r => r.scope === scope) : rules
+  }
+
+  listIds(): string[] {
+    return Array.from(this.rules.keys())
+  }
+
+  has(id: string): boolean {
+    return this.rules.has(id)
+  }
+
+  // ─── Perfiles ────────────────────────────────────────────────
+
+  registerProfile(profile: ValidationProfile): void {
+    this.profiles.set(profile.id, profile)
+  }
+
+  getProfile(id: string): ValidationProfile {
+    const profile = this.profiles.get(id)
+    if (!profile) {
+      throw new Error(`Validation profile "${id}" not found. Available: ${this.listProfiles().map(p => p.id).join(', ')}`)
+    }
+    return profile
+  }
+
+  listProfiles(): ValidationProfile[] {
+    return Array.from(this.profiles.values())
+  }
+
+  hasProfile(id: string): boolean {
+    return this.profiles.has(id)
+  }
+
+  /**
+   * Reglas activas de un perfil con sus parámetros y severidad ya resueltos
+   * (aplicando la cadena de `extends`).
+   */
+  resolve(profile: string | ValidationProfile = DEFAULT_PROFILE_ID, scope?: RuleScope): ResolvedRule[] {
+    const configs = this.collectConfigs(typeof profile === 'string' ? this.getProfile(profile) : profile, [])
+
+    for (const id of Object.keys(configs)) this.get(id)
+
+    return this.list(scope).flatMap(rule => {
+      const config = configs[rule.id] ?? {}
+      if (config.enabled === false) return []
+
+      const params = { ...rule.defaultParams }
+      for (const [key, value] of Object.entries(config.params ?? {})) {
+        if (!(key in rule.defaultParams)) {
+          throw new Error(`Unknown parameter "${key}" for validation rule "${rule.id}"`)
+        }
+        params[key] = value
+      }
+
+      return [{ rule, params, ...(config.severity ? { severity: config.severity } : {}) }]
+    })
+  }
+
+  // ─── Ejecución ───────────────────────────────────────────────
+
+  validateFloor(floor: PalletFloor, options: ValidationRunOptions = {}): ValidationResult {
+    return this.run('floor', floor, options)
+  }
+
+  validateStack(stack: StackedPallet, options: ValidationRunOptions = {}): ValidationResult {
+    return this.run('stack', stack, options)
+  }
+
+  validateTruck(truck: Truck, options: ValidationRunOptions = {}): ValidationResult {
+    return this.run('truck', truck, options)
+  }
+
+  private run<S extends RuleScope>(scope: S, target: RuleTargetMap[S], options: ValidationRunOptions): ValidationResult {
+    const { profile, ...context } = options
+    const violations: Violation[] = []
+
+    for (const { rule, params, severity } of this.resolve(profile, scope)) {
+      const result = (rule as ValidationRule<S>).validate(target, params, context)
+      violations.push(...(severity
+        ? result.violations.map(v => ({ ...v, severity }))
+        : result.violations))
+    }
+
+    return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+  }
+
+  /** Configuración efectiva por regla: primero la del perfil padre, luego la propia */
+  private collectConfigs(profile: ValidationProfile, visited: string[]): Record<string, RuleConfig> {
+    if (visited.includes(profile.id)) {
+      throw new Error(`Circular "extends" in validation profile "${profile.id}"`)
+    }
+    const inherited = profile.extends
+      ? this.collectConfigs(this.getProfile(profile.extends), [...visited, profile.id])
+      : {}
+
+    const configs = { ...inherited }
+    for (const [id, config] of Object.entries(profile.rules)) {
+      const base = inherited[id] ?? {}
+      configs[id] = { ...base, ...config, params: { ...base.params, ...config.params } }
+    }
+    return configs
+  }
+}
+
+/** Instancia global del registro (singleton de conveniencia) */
+export const defaultValidationRegistry = new ValidationRegistry()
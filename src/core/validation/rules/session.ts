@@ -0,0 +1,360 @@
+/**
+ * FloorValidationSession — Validación incremental de un piso de palet
+ *
+ * Pensada para la edición interactiva (drag & drop): recibe cambios sobre las
+ * cajas (añadir, mover, quitar) y devuelve solo las violaciones que aparecen o
+ * desaparecen, en lugar de revalidar todo el piso.
+ *
+ * Las reglas del sistema que dependen solo del entorno de cada caja (BR-001,
+ * BR-002, BR-004, BR-005, BR-103, BR-201, BR-203) se reevalúan únicamente para
+ * las cajas afectadas, localizadas con un SpatialGrid. El resto de reglas
+ * (globales o registradas por el cliente) se reevalúan completas en cada cambio.
+ * El resultado es siempre el mismo que `ValidationRegistry.validateFloor`.
+ */
+
+import type { PlacedBox } from '../../entities/PlacedBox'
+import type { PalletFloor } from '../../entities/PalletFloor'
+import type { BoundingBox, DiscreteRotation, Position3D, Violation } from '../../types'
+import type { ResolvedRule, RuleContext, ValidationRule } from './types'
+import type { ValidationRunOptions } from './registry'
+import { ValidationRegistry, defaultValidationRegistry } from './registry'
+import { BUILT_IN_RULES } from './builtins'
+import { getBoxBoundingBox } from '../collision'
+import { SpatialGrid, suggestCellSize } from '../../spatial/SpatialGrid'
+import { SUPPORT_CONTACT_TOLERANCE as CONTACT_TOLERANCE } from '../../support/graph'
+
+/** Cambio sobre las cajas de la sesión */
+export type BoxChange =
+  | { type: 'add'; box: PlacedBox }
+  | { type: 'move'; id: string; position: Position3D; rotation?: DiscreteRotation }
+  | { type: 'remove'; id: string }
+
+/** Resultado de aplicar uno o varios cambios */
+export interface ValidationDelta {
+  /** Violaciones nuevas */
+  added: Violation[]
+  /** Violaciones que ya no se producen */
+  removed: Violation[]
+  /** Validez del piso tras el cambio */
+  isValid: boolean
+}
+
+export interface ValidationSessionOptions extends ValidationRunOptions {
+  registry?: ValidationRegistry
+}
+
+// ─── Localidad de las reglas del sistema ─────────────────────────
+
+/**
+ * Qué cajas necesita una regla para evaluar a su caja propietaria (`involvedIds[0]`):
+ * - self: solo la propia caja
+ * - support: las cajas sobre las que se apoya (franja bajo su base)
+ * - column: las cajas que tiene encima (columna sobre su techo)
+ * - overlap: las cajas que tocan su AABB
+ */
+type Locality = 'self' | 'support' | 'column' | 'overlap'
+
+const LOCALITIES: Locality[] = ['self', 'support', 'column', 'overlap']
+
+const RULE_LOCALITY: Record<string, Locality> = {
+  'BR-001': 'self',
+  'BR-002': 'overlap',
+  'BR-004': 'support',
+  'BR-005': 'self',
+  'BR-103': 'column',
+  'BR-201': 'column',
+  'BR-203': 'column',
+}
+
+/** Misma tolerancia de "encima" que BR-103/201/203 (mm) */
+const COLUMN_TOLERANCE = 1
+
+interface ActiveRule extends ResolvedRule {
+  /** null: la regla se reevalúa completa en cada cambio */
+  locality: Locality | null
+}
+
+/** Solo las reglas del sistema tienen localidad conocida; si se sustituyen, pasan a ser globales */
+function localityOf(rule: ValidationRule): Locality | null {
+  return BUILT_IN_RULES.includes(rule) ? RULE_LOCALITY[rule.id] ?? null : null
+}
+
+// ─── Sesión ──────────────────────────────────────────────────────
+
+export class FloorValidationSession {
+  private readonly floor: Omit<PalletFloor, 'boxes'>
+  private readonly context: RuleContext
+  private readonly rules: ActiveRule[]
+
+  /** Cajas en orden de sesión (orden de alta; mover no lo cambia) */
+  private boxes = new Map<string, PlacedBox>()
+  private order = new Map<string, number>()
+  private nextOrder = 0
+  private bounds = new Map<string, BoundingBox>()
+  private grid: SpatialGrid<string>
+
+  /** Violaciones de reglas locales: regla → caja propietaria → violaciones */
+  private local = new Map<string, Map<string, Violation[]>>()
+  /** Violaciones de reglas globales: regla → violaciones */
+  private global = new Map<string, Violation[]>()
+  private supportedBy = new Map<string, string[]>()
+  private weightAbove = new Map<string, number>()
+  private snapshot: Violation[] | null = null
+
+  constructor(floor: PalletFloor, options: ValidationSessionOptions = {}) {
+    const { registry = defaultValidationRegistry, profile, ...context } = options
+    const { boxes, ...rest } = floor
+
+    this.floor = rest
+    this.context = context
+    this.rules = registry.resolve(profile, 'floor').map(r => ({ ...r, locality: localityOf(r.rule) }))
+    for (const { rule, locality } of this.rules) {
+      if (locality) this.local.set(rule.id, new Map())
+    }
+    this.grid = new SpatialGrid<string>(suggestCellSize(boxes.map(getBoxBoundingBox)))
+
+    this.apply(boxes.map(box => ({ type: 'add', box })))
+  }
+
+  // ─── Consulta ────────────────────────────────────────────────
+
+  /** Todas las violaciones actuales, en el mismo orden que `validateFloor` */
+  get violations(): Violation[] {
+    if (!this.snapshot) {
+      this.snapshot = this.rules.flatMap(({ rule, locality }) => {
+        if (!locality) return this.global.get(rule.id) ?? []
+        const byOwner = this.local.get(rule.id)!
+        return [...this.boxes.keys()].flatMap(id => byOwner.get(id) ?? [])
+      })
+    }
+    return this.snapshot
+  }
+
+  get isValid(): boolean {
+    return this.violations.every(v => v.severity !== 'error')
+  }
+
+  getBoxes(): PlacedBox[] {
+    return [...this.boxes.values()]
+  }
+
+  /** Piso con las cajas actuales de la sesión */
+  toFloor(): PalletFloor {
+    return { ...this.floor, boxes: this.getBoxes() }
+  }
+
+  /** Ids de las cajas sobre las que se apoya una caja ([] si está sobre el palet) */
+  getSupportedBy(id: string): string[] {
+    this.require(id)
+    return this.supportedBy.get(id)!
+  }
+
+  /** Peso (kg) de las cajas situadas encima de una caja, con el criterio de BR-103 */
+  getWeightAbove(id: string): number {
+    this.require(id)
+    return this.weightAbove.get(id)!
+  }
+
+  // ─── Cambios ─────────────────────────────────────────────────
+
+  add(box: PlacedBox): ValidationDelta {
+    return this.apply([{ type: 'add', box }])
+  }
+
+  move(id: string, position: Position3D, rotation?: DiscreteRotation): ValidationDelta {
+    return this.apply([{ type: 'move', id, position, ...(rotation ? { rotation } : {}) }])
+  }
+
+  remove(id: string): ValidationDelta {
+    return this.apply([{ type: 'remove', id }])
+  }
+
+  /**
+   * Aplica varios cambios de una vez y reevalúa solo lo afectado.
+   * Si algún cambio no es válido (id repetido o inexistente) no se aplica ninguno.
+   */
+  apply(changes: BoxChange[]): ValidationDelta {
+    this.checkChanges(changes)
+
+    const affected = Object.fromEntries(LOCALITIES.map(l => [l, new Set<string>()])) as Record<Locality, Set<string>>
+    const touch = (id: string) => LOCALITIES.forEach(l => affected[l].add(id))
+
+    for (const change of changes) {
+      if (change.type === 'add') {
+        this.place(change.box)
+        this.order.set(change.box.id, this.nextOrder++)
+        touch(change.box.id)
+        this.markDependents(this.bounds.get(change.box.id)!, affected)
+        continue
+      }
+
+      const previous = this.bounds.get(change.id)!
+      touch(change.id)
+      if (change.type === 'remove') {
+        this.boxes.delete(change.id)
+        this.order.delete(change.id)
+        this.bounds.delete(change.id)
+        this.grid.remove(change.id)
+      } else {
+        const current = this.boxes.get(change.id)!
+        this.place({ ...current, position: change.position, rotation: change.rotation ?? current.rotation })
+        this.markDependents(this.bounds.get(change.id)!, affected)
+      }
+      this.markDependents(previous, affected)
+    }
+
+    const before: Violation[] = []
+    const after: Violation[] = []
+
+    for (const active of this.rules) {
+      const { rule, locality } = active
+      if (!locality) {
+        before.push(...(this.global.get(rule.id) ?? []))
+        const found = this.evaluate(active, this.getBoxes())
+        this.global.set(rule.id, found)
+        after.push(...found)
+        continue
+      }
+
+      const byOwner = this.local.get(rule.id)!
+      for (const id of affected[locality]) {
+        before.push(...(byOwner.get(id) ?? []))
+        byOwner.delete(id)
+        if (!this.boxes.has(id)) continue
+
+        const subset = this.sortByOrder([id, ...this.neighbours(locality, id)])
+        const found = this.evaluate(active, subset).filter(v => v.involvedIds[0] === id)
+        if (found.length > 0) byOwner.set(id, found)
+        after.push(...found)
+      }
+    }
+
+    this.updateCaches(affected)
+    this.snapshot = null
+
+    return { ...diffViolations(before, after), isValid: this.isValid }
+  }
+
+  // ─── Internos ────────────────────────────────────────────────
+
+  private checkChanges(changes: BoxChange[]): void {
+    const ids = new Set(this.boxes.keys())
+    for (const change of changes) {
+      if (change.type === 'add') {
+        if (ids.has(change.box.id)) {
+          throw new Error(`PlacedBox "${change.box.id}" already exists in validation session`)
+        }
+        ids.add(change.box.id)
+      } else {
+        if (!ids.has(change.id)) throw new Error(`PlacedBox "${change.id}" not found in validation session`)
+        if (change.type === 'remove') ids.delete(change.id)
+      }
+    }
+  }
+
+  private require(id: string): void {
+    if (!this.boxes.has(id)) throw new Error(`PlacedBox "${id}" not found in validation session`)
+  }
+
+  private place(box: PlacedBox): void {
+    const bb = getBoxBoundingBox(box)
+    this.boxes.set(box.id, box)
+    this.bounds.set(box.id, bb)
+    this.grid.insert(box.id, bb)
+  }
+
+  private sortByOrder(ids: string[]): PlacedBox[] {
+    return [...new Set(ids)]
+      .sort((a, b) => this.order.get(a)! - this.order.get(b)!)
+      .map(id => this.boxes.get(id)!)
+  }
+
+  private evaluate({ rule, params, severity }: ActiveRule, boxes: PlacedBox[]): Violation[] {
+    const { violations } = rule.validate({ ...this.floor, boxes }, params, this.context)
+    return severity ? violations.map(v => ({ ...v, severity })) : violations
+  }
+
+  /** Cajas que una regla de la localidad dada necesita para evaluar a `id` */
+  private neighbours(locality: Locality, id: string): string[] {
+    const bb = this.bounds.get(id)!
+    switch (locality) {
+      case 'self':
+        return []
+      case 'support':
+        return this.grid.query({ ...bb, minY: bb.minY - CONTACT_TOLERANCE, maxY: bb.minY + CONTACT_TOLERANCE })
+      case 'column':
+        return this.grid.query({ ...bb, minY: bb.maxY - COLUMN_TOLERANCE, maxY: Infinity })
+      case 'overlap':
+        return this.grid.query(bb)
+    }
+  }
+
+  /** Marca las cajas cuyo resultado puede cambiar si aparece o desaparece una caja en `bb` */
+  private markDependents(bb: BoundingBox, affected: Record<Locality, Set<string>>): void {
+    const add = (locality: Locality, ids: string[]) => ids.forEach(id => affected[locality].add(id))
+
+    // Cajas apoyadas sobre el techo de `bb`
+    add('support', this.grid.query({ ...bb, minY: bb.maxY - CONTACT_TOLERANCE, maxY: bb.maxY + CONTACT_TOLERANCE }))
+    // Cajas bajo `bb`, en cuya columna está
+    add('column', this.grid.query({ ...bb, minY: -Infinity, maxY: bb.minY + COLUMN_TOLERANCE }))
+    add('overlap', this.grid.query(bb))
+  }
+
+  private updateCaches(affected: Record<Locality, Set<string>>): void {
+    for (const id of affected.support) {
+      if (!this.boxes.has(id)) {
+        this.supportedBy.delete(id)
+        continue
+      }
+      const bb = this.bounds.get(id)!
+      const supports = bb.minY <= 1 ? [] : this.neighbours('support', id).filter(other => {
+        const obb = this.bounds.get(other)!
+        return other !== id
+          && Math.abs(obb.maxY - bb.minY) <= CONTACT_TOLERANCE
+          && Math.min(bb.maxX, obb.maxX) > Math.max(bb.minX, obb.minX)
+          && Math.min(bb.maxZ, obb.maxZ) > Math.max(bb.minZ, obb.minZ)
+      })
+      this.supportedBy.set(id, this.sortByOrder(supports).map(pb => pb.id))
+    }
+
+    for (const id of affected.column) {
+      if (!this.boxes.has(id)) {
+        this.weightAbove.delete(id)
+        continue
+      }
+      const bb = this.bounds.get(id)!
+      this.weightAbove.set(id, this.neighbours('column', id).reduce((sum, other) => {
+        const obb = this.bounds.get(other)!
+        const above = other !== id
+          && obb.minY >= bb.maxY - COLUMN_TOLERANCE
+          && obb.minX < bb.maxX && obb.maxX > bb.minX
+          && obb.minZ < bb.maxZ && obb.maxZ > bb.minZ
+        return above ? sum + this.boxes.get(other)!.box.weight : sum
+      }, 0))
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function signature(v: Violation): string {
+  return `${v.code}|${v.severity}|${v.message}|${v.involvedIds.join(',')}`
+}
+
+/** Diferencia entre dos listas de violaciones (como multiconjuntos) */
+function diffViolations(before: Violation[], after: Violation[]): Pick<ValidationDelta, 'added' | 'removed'> {
+  const pending = new Map<string, Violation[]>()
+  for (const v of before) {
+    const key = signature(v)
+    pending.set(key, [...(pending.get(key) ?? []), v])
+  }
+
+  const added: Violation[] = []
+  for (const v of after) {
+    const same = pending.get(signature(v))
+    if (same && same.length > 0) same.pop()
+    else added.push(v)
+  }
+
+  return { added, removed: [...pending.values()].flat() }
+}
@@ -0,0 +1,68 @@
+/**
+ * Validation rules — Tipos del motor de reglas configurable
+ */
+
+import type { PalletFloor } from '../../entities/PalletFloor'
+import type { StackedPallet } from '../../entities/StackedPallet'
+import type { Truck } from '../../entities/Truck'
+import type { ValidationResult, Violation } from '../../types'
+
+/** Ámbito sobre el que se evalúa una regla */
+export const RuleScope = {
+  /** Un piso de palet (palet base + cajas) */
+  FLOOR: 'floor',
+  /** Un palet apilado completo */
+  STACK: 'stack',
+  /** Un camión con sus palets */
+  TRUCK: 'truck',
+} as const
+
+export type RuleScope = typeof RuleScope[keyof typeof RuleScope]
+
+export interface RuleTargetMap {
+  floor: PalletFloor
+  stack: StackedPallet
+  truck: Truck
+}
+
+/** Datos adicionales que algunas reglas necesitan */
+export interface RuleContext {
+  /** Altura libre del contenedor donde va el stack (mm). Sin ella, BR-303 no se evalúa */
+  containerHeight?: number
+}
+
+export type RuleParams = Record<string, number>
+
+export interface ValidationRule<S extends RuleScope = RuleScope, P extends RuleParams = RuleParams> {
+  /** Id de la regla: el código BR para las reglas del sistema */
+  id: string
+  name: string
+  scope: S
+  /** Parámetros por defecto; los perfiles pueden sobrescribirlos */
+  defaultParams: P
+  validate(target: RuleTargetMap[S], params: P, context: RuleContext): ValidationResult
+}
+
+/** Configuración de una regla dentro de un perfil */
+export interface RuleConfig {
+  /** false para desactivar la regla (por defecto true) */
+  enabled?: boolean
+  /** Fuerza la severidad de todas las violaciones de la regla */
+  severity?: Violation['severity']
+  params?: RuleParams
+}
+
+export interface ValidationProfile {
+  id: string
+  name: string
+  /** Perfil del que hereda; sus reglas se aplican antes que las propias */
+  extends?: string
+  rules: Record<string, RuleConfig>
+}
+
+/** Regla lista para ejecutar: parámetros y severidad ya resueltos para un perfil */
+export interface ResolvedRule {
+  rule: ValidationRule
+  params: RuleParams
+  severity?: Violation['severity']
+}
@@ -5,9 +5,12 @@
  * BR-503: Altura del centro de gravedad
  */
 
-import type { Position3D, ValidationResult, Violation } from '../types'
+import type { PackingMetrics, Position3D, ValidationResult, Violation } from '../types'
 import type { PlacedBox } from '../entities/PlacedBox'
 import type { Pallet } from '../entities/Pallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { StackedPallet } from '../entities/StackedPallet'
+import { getStackedPalletTotalWeight } from '../entities/StackedPallet'
 import { getBoxBoundingBox } from './collision'
 
 /** Calcula el centro de gravedad de un conjunto de cajas */
@@ -39,6 +42,59 @@ export function calculateCenterOfGravity(boxes: PlacedBox[]): Position3D {
   }
 }
 
+/**
+ * Centro de gravedad de un PlacedPallet completo (palets base, cajas y separadores)
+ * en coordenadas del contenedor, teniendo en cuenta su posición y rotación Y.
+ */
+export function calculatePlacedPalletCenterOfGravity(pp: PlacedPallet): Position3D {
+  let totalWeight = 0
+  let lx = 0, ly = 0, lz = 0
+  const add = (x: number, y: number, z: number, w: number) => {
+    lx += x * w
+    ly += y * w
+    lz += z * w
+    totalWeight += w
+  }
+
+  // Coordenadas locales del stack (sin rotar), igual que getStackedPalletTotalHeight
+  let floorY = 0
+  for (const floor of pp.stackedPallet.floors) {
+    const pd = floor.pallet.dimensions
+    add(pd.width / 2, floorY + pd.height / 2, pd.depth / 2, floor.pallet.weight)
+
+    const palletTop = floorY + pd.height
+    let boxTop = 0
+    for (const pb of floor.boxes) {
+      const bb = getBoxBoundingBox(pb)
+      add((bb.minX + bb.maxX) / 2, palletTop + (bb.minY + bb.maxY) / 2, (bb.minZ + bb.maxZ) / 2, pb.box.weight)
+      boxTop = Math.max(boxTop, bb.maxY)
+    }
+
+    floorY = palletTop + boxTop
+    if (floor.separatorAbove) {
+      const sd = floor.separatorAbove.dimensions
+      add(sd.width / 2, floorY + sd.height / 2, sd.depth / 2, floor.separatorAbove.weight)
+      floorY += sd.height
+    }
+  }
+
+  if (totalWeight === 0) return { ...pp.position }
+  lx /= totalWeight
+  ly /= totalWeight
+  lz /= totalWeight
+
+  // Misma convención R_y que getPalletBoundingBox
+  const rotRad = (pp.yRotation * Math.PI) / 180
+  const cos = Math.cos(rotRad)
+  const sin = Math.sin(rotRad)
+
+  return {
+    x: pp.position.x + lx * cos + lz * sin,
+    y: pp.position.y + ly,
+    z: pp.position.z - lx * sin + lz * cos,
+  }
+}
+
 /** Calcula el score de estabilidad (0-100) */
 export function calculateStabilityScore(pallet: Pallet, boxes: PlacedBox[]): number {
   if (boxes.length === 0) return 100
@@ -63,6 +119,34 @@ export function calculateStabilityScore(pallet: Pallet, boxes: PlacedBox[]): num
   return Math.round((horizontalScore * 0.7 + verticalScore * 0.3))
 }
 
+/**
+ * Métricas de empaquetado de un StackedPallet: volumen sobre `maxStackHeight`
+ * del palet base, peso sobre su `maxWeight`, CoG y score de estabilidad.
+ */
+export function calculatePackingMetrics(stack: StackedPallet): PackingMetrics {
+  if (stack.floors.length === 0) {
+    return { volumeUtilization: 0, weightUtilization: 0, centerOfGravity: { x: 0, y: 0, z: 0 }, stabilityScore: 100 }
+  }
+
+  const basePallet = stack.floors[0].pallet
+  const allBoxes = stack.floors.flatMap(f => f.boxes)
+  const totalWeight = getStackedPalletTotalWeight(stack)
+
+  // Volumen total disponible
+  const totalVolume = basePallet.dimensions.width * basePallet.maxStackHeight * basePallet.dimensions.depth
+  const usedVolume = allBoxes.reduce((s, pb) => {
+    const d = pb.box.dimensions
+    return s + d.width * d.height * d.depth
+  }, 0)
+
+  return {
+    volumeUtilization: totalVolume > 0 ? usedVolume / totalVolume : 0,
+    weightUtilization: basePallet.maxWeight > 0 ? totalWeight / basePallet.maxWeight : 0,
+    centerOfGravity: calculateCenterOfGravity(allBoxes),
+    stabilityScore: calculateStabilityScore(basePallet, allBoxes),
+  }
+}
+
 /** BR-502: CoG dentro del polígono de soporte (planta del palet) */
 export function validateCogInsideSupport(pallet: Pallet, boxes: PlacedBox[]): ValidationResult {
   const violations: Violation[] = []
@@ -82,25 +166,40 @@ export function validateCogInsideSupport(pallet: Pallet, boxes: PlacedBox[]): Va
   return { isValid: violations.length === 0, violations }
 }
 
+/** Umbrales de BR-501 / BR-503 */
+export interface StabilityThresholds {
+  /** Score por debajo del cual la estabilidad es un error (por defecto 50) */
+  minScore?: number
+  /** Score por debajo del cual se avisa (por defecto 70) */
+  recommendedScore?: number
+  /** Altura máxima del CoG como fracción de la altura de carga (por defecto 0.6) */
+  maxCogHeightRatio?: number
+}
+
 /** BR-501 + BR-503: Score de estabilidad y CoG alto */
-export function validateStability(pallet: Pallet, boxes: PlacedBox[]): ValidationResult {
+export function validateStability(
+  pallet: Pallet,
+  boxes: PlacedBox[],
+  thresholds: StabilityThresholds = {},
+): ValidationResult {
+  const { minScore = 50, recommendedScore = 70, maxCogHeightRatio = 0.6 } = thresholds
   const violations: Violation[] = []
   if (boxes.length === 0) return { isValid: true, violations }
 
   const score = calculateStabilityScore(pallet, boxes)
 
-  if (score < 50) {
+  if (score < minScore) {
     violations.push({
       code: 'BR-501',
       severity: 'error',
-      message: `Score de estabilidad bajo (${score}/100, mínimo: 50)`,
+      message: `Score de estabilidad bajo (${score}/100, mínimo: ${minScore})`,
       involvedIds: [pallet.id],
     })
-  } else if (score < 70) {
+  } else if (score < recommendedScore) {
     violations.push({
       code: 'BR-501',
       severity: 'warning',
-      message: `Score de estabilidad mejorable (${score}/100, recomendado: ≥70)`,
+      message: `Score de estabilidad mejorable (${score}/100, recomendado: ≥${recommendedScore})`,
       involvedIds: [pallet.id],
     })
   }
@@ -108,7 +207,7 @@ export function validateStability(pallet: Pallet, boxes: PlacedBox[]): Validatio
   // BR-503: CoG alto
   const cog = calculateCenterOfGravity(boxes)
   const maxY = boxes.reduce((max, pb) => Math.max(max, getBoxBoundingBox(pb).maxY), 0)
-  if (maxY > 0 && cog.y > maxY * 0.6) {
+  if (maxY > 0 && cog.y > maxY * maxCogHeightRatio) {
     violations.push({
       code: 'BR-503',
       severity: 'warning',
@@ -0,0 +1,127 @@
+/**
+ * Temperature validation — Compartimentos de temperatura en frigoríficos
+ * BR-601: Las cajas de un palet tienen que admitir una temperatura común
+ * BR-602: Cada palet tiene que ir en un compartimento con la consigna dentro de su rango
+ * BR-603: Los palets no pueden tapar el retorno de aire del equipo de frío
+ *
+ * Los compartimentos (`truck.temperatureZones`) van de lado a lado entre mamparos,
+ * así que un palet solo puede estar en uno si toda su huella en Z cae dentro.
+ * El equipo de frío está en la pared frontal (z = depth).
+ */
+
+import type { TemperatureRange, ValidationResult, Violation } from '../types'
+import type { StackedPallet } from '../entities/StackedPallet'
+import type { PlacedPallet } from '../entities/PlacedPallet'
+import type { TemperatureZone, Truck } from '../entities/Truck'
+import { COLLISION_TOLERANCE, REEFER_AIRFLOW_GAP } from '../constants'
+import { isRefrigerated } from '../entities/Truck'
+import { getPalletBoundingBox } from './collision'
+
+/**
+ * Rango de temperatura común del palet y de todas sus cajas (intersección).
+ * `undefined` si nada declara rango; si no hay temperatura común, `min > max`.
+ */
+export function getStackTemperatureRange(stack: StackedPallet): TemperatureRange | undefined {
+  const ranges = [
+    stack.temperatureRange,
+    ...stack.floors.flatMap(floor => floor.boxes.map(pb => pb.box.temperatureRange)),
+  ].filter((r): r is TemperatureRange => r !== undefined)
+  if (ranges.length === 0) return undefined
+
+  return {
+    min: Math.max(...ranges.map(r => r.min)),
+    max: Math.min(...ranges.map(r => r.max)),
+  }
+}
+
+/** Indica si la consigna cae dentro del rango */
+export function isTemperatureCompatible(range: TemperatureRange, setpoint: number): boolean {
+  return setpoint >= range.min && setpoint <= range.max
+}
+
+/** Compartimento que contiene toda la huella del palet (`undefined` si cruza un mamparo) */
+export function findTemperatureZone(pp: PlacedPallet, truck: Truck, tolerance = COLLISION_TOLERANCE): TemperatureZone | undefined {
+  const bb = getPalletBoundingBox(pp)
+  return truck.temperatureZones?.find(
+    zone => bb.minZ >= zone.startZ - tolerance && bb.maxZ <= zone.endZ + tolerance,
+  )
+}
+
+/** Indica si el palet invade el hueco libre delante del equipo de frío */
+export function blocksReeferAirflow(pp: PlacedPallet, truck: Truck, gap = REEFER_AIRFLOW_GAP): boolean {
+  if (!isRefrigerated(truck)) return false
+  return getPalletBoundingBox(pp).maxZ > truck.dimensions.depth - gap + COLLISION_TOLERANCE
+}
+
+// ─── BR-601: Temperatura común en el palet ───────────────────────
+
+export function validateStackTemperature(stack: StackedPallet): ValidationResult {
+  const violations: Violation[] = []
+  const range = getStackTemperatureRange(stack)
+
+  if (range && range.min > range.max) {
+    const boxes = stack.floors
+      .flatMap(floor => floor.boxes)
+      .filter(pb => pb.box.temperatureRange !== undefined)
+    const warmest = boxes.find(pb => pb.box.temperatureRange!.min === range.min)
+    const coldest = boxes.find(pb => pb.box.temperatureRange!.max === range.max)
+    violations.push({
+      code: 'BR-601',
+      severity: 'error',
+      message: `Palet ${stack.id} mezcla productos sin temperatura común (necesita ≥ ${range.min} °C y ≤ ${range.max} °C)`,
+      involvedIds: [stack.id, ...new Set([warmest, coldest].filter(pb => pb !== undefined).map(pb => pb.id))],
+    })
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── BR-602: Compartimento de temperatura ────────────────────────
+
+export function validateTemperatureZones(truck: Truck): ValidationResult {
+  const violations: Violation[] = []
+  if (!truck.temperatureZones?.length) return { isValid: true, violations }
+
+  for (const pp of truck.pallets) {
+    const zone = findTemperatureZone(pp, truck)
+    if (!zone) {
+      violations.push({
+        code: 'BR-602',
+        severity: 'error',
+        message: `Palet ${pp.id} cruza un mamparo o queda fuera de los compartimentos de temperatura`,
+        involvedIds: [pp.id],
+      })
+      continue
+    }
+
+    const range = getStackTemperatureRange(pp.stackedPallet)
+    if (range && !isTemperatureCompatible(range, zone.setpoint)) {
+      violations.push({
+        code: 'BR-602',
+        severity: 'error',
+        message: `Palet ${pp.id} (${range.min}…${range.max} °C) en el compartimento ${zone.id} a ${zone.setpoint} °C`,
+        involvedIds: [pp.id, zone.id],
+      })
+    }
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
+
+// ─── BR-603: Retorno de aire del equipo de frío ──────────────────
+
+export function validateReeferAirflow(truck: Truck, gap = REEFER_AIRFLOW_GAP): ValidationResult {
+  const violations: Violation[] = []
+
+  for (const pp of truck.pallets) {
+    if (!blocksReeferAirflow(pp, truck, gap)) continue
+    violations.push({
+      code: 'BR-603',
+      severity: 'warning',
+      message: `Palet ${pp.id} tapa el retorno de aire del equipo de frío: deja ${gap} mm libres junto a la pared frontal`,
+      involvedIds: [pp.id],
+    })
+  }
+
+  return { isValid: violations.filter(v => v.severity === 'error').length === 0, violations }
+}
@@ -0,0 +1,28 @@
+/**
+ * Warehouse validation — Reglas del almacén con varias estancias
+ * BR-414: Estancias con el mismo id
+ */
+
+import type { ValidationResult, Violation } from '../types'
+import type { Room } from '../entities/Room'
+
+/** BR-414: Cada estancia de un almacén (`warehouse.rooms`) tiene un id propio; los resultados y el foco van por id */
+export function validateUniqueRoomIds(rooms: readonly Room[]): ValidationResult {
+  const counts = new Map<string, number>()
+  for (const room of rooms) {
+    counts.set(room.id, (counts.get(room.id) ?? 0) + 1)
+  }
+
+  const violations: Violation[] = []
+  for (const [id, count] of counts) {
+    if (count < 2) continue
+    violations.push({
+      code: 'BR-414',
+      severity: 'error',
+      message: `El id de estancia "${id}" se repite en ${count} estancias`,
+      involvedIds: [id],
+    })
+  }
+
+  return { isValid: violations.length === 0, violations }
+}
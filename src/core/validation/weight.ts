@@ -17,7 +17,10 @@ import { getBoxBoundingBox } from './collision'
 
 // ─── BR-101: Peso máximo de palet ────────────────────────────────
 
-export function validatePalletWeight(floor: PalletFloor): ValidationResult {
+export function validatePalletWeight(
+  floor: PalletFloor,
+  warningThreshold: number = WEIGHT_WARNING_THRESHOLD,
+): ValidationResult {
   const violations: Violation[] = []
   const totalBoxWeight = floor.boxes.reduce((sum, pb) => sum + pb.box.weight, 0)
   const maxWeight = floor.pallet.maxWeight
@@ -29,11 +32,11 @@ export function validatePalletWeight(floor: PalletFloor): ValidationResult {
       message: `Peso de cajas (${totalBoxWeight.toFixed(1)}kg) excede el máximo del palet (${maxWeight}kg)`,
       involvedIds: [floor.pallet.id],
     })
-  } else if (totalBoxWeight > maxWeight * WEIGHT_WARNING_THRESHOLD) {
+  } else if (totalBoxWeight > maxWeight * warningThreshold) {
     violations.push({
       code: 'BR-101',
       severity: 'warning',
-      message: `Peso de cajas (${totalBoxWeight.toFixed(1)}kg) supera el 90% del máximo del palet (${maxWeight}kg)`,
+      message: `Peso de cajas (${totalBoxWeight.toFixed(1)}kg) supera el ${percent(warningThreshold)} del máximo del palet (${maxWeight}kg)`,
       involvedIds: [floor.pallet.id],
     })
   }
@@ -43,7 +46,10 @@ export function validatePalletWeight(floor: PalletFloor): ValidationResult {
 
 // ─── BR-102: Peso máximo de camión ───────────────────────────────
 
-export function validateTruckWeight(truck: Truck): ValidationResult {
+export function validateTruckWeight(
+  truck: Truck,
+  warningThreshold: number = WEIGHT_WARNING_THRESHOLD,
+): ValidationResult {
   const violations: Violation[] = []
   const totalWeight = truck.pallets.reduce(
     (sum, pp) => sum + getStackedPalletTotalWeight(pp.stackedPallet),
@@ -57,11 +63,11 @@ export function validateTruckWeight(truck: Truck): ValidationResult {
       message: `Peso total (${totalWeight.toFixed(1)}kg) excede el máximo del camión (${truck.maxWeight}kg)`,
       involvedIds: [truck.id],
     })
-  } else if (totalWeight > truck.maxWeight * WEIGHT_WARNING_THRESHOLD) {
+  } else if (totalWeight > truck.maxWeight * warningThreshold) {
     violations.push({
       code: 'BR-102',
       severity: 'warning',
-      message: `Peso total (${totalWeight.toFixed(1)}kg) supera el 90% del máximo del camión (${truck.maxWeight}kg)`,
+      message: `Peso total (${totalWeight.toFixed(1)}kg) supera el ${percent(warningThreshold)} del máximo del camión (${truck.maxWeight}kg)`,
       involvedIds: [truck.id],
     })
   }
@@ -116,7 +122,15 @@ function calculateWeightAboveBox(target: PlacedBox, allBoxes: PlacedBox[]): numb
 
 // ─── BR-104: Distribución de peso ────────────────────────────────
 
-export function validateWeightDistribution(pallet: Pallet, boxes: PlacedBox[]): ValidationResult {
+/**
+ * BR-104: El CoG en planta no debe alejarse del centro del palet más de
+ * `maxOffsetRatio` del ancho/fondo (por defecto 1/6)
+ */
+export function validateWeightDistribution(
+  pallet: Pallet,
+  boxes: PlacedBox[],
+  maxOffsetRatio = 1 / 6,
+): ValidationResult {
   const violations: Violation[] = []
   if (boxes.length === 0) return { isValid: true, violations }
 
@@ -139,8 +153,8 @@ export function validateWeightDistribution(pallet: Pallet, boxes: PlacedBox[]):
   const centerZ = pallet.dimensions.depth / 2
 
   if (
-    Math.abs(cogX - centerX) > pallet.dimensions.width / 6 ||
-    Math.abs(cogZ - centerZ) > pallet.dimensions.depth / 6
+    Math.abs(cogX - centerX) > pallet.dimensions.width * maxOffsetRatio ||
+    Math.abs(cogZ - centerZ) > pallet.dimensions.depth * maxOffsetRatio
   ) {
     violations.push({
       code: 'BR-104',
@@ -152,3 +166,7 @@ export function validateWeightDistribution(pallet: Pallet, boxes: PlacedBox[]):
 
   return { isValid: true, violations }
 }
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`
+}
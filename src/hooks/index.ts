@@ -3,7 +3,7 @@
  */
 
 export { usePhysicsValidation } from './usePhysicsValidation'
-export type { PhysicsValidationResult } from './usePhysicsValidation'
+export type { PhysicsValidationResult, PhysicsValidationOptions } from './usePhysicsValidation'
 
 export { usePalletMetrics } from './usePalletMetrics'
 export type { PalletMetricsResult } from './usePalletMetrics'
@@ -11,8 +11,19 @@ export type { PalletMetricsResult } from './usePalletMetrics'
 export { usePackingStrategy } from './usePackingStrategy'
 export type { UsePackingStrategyReturn } from './usePackingStrategy'
 
-export { useWarehouseValidation } from './useWarehouseValidation'
-export type { WarehouseValidationResult } from './useWarehouseValidation'
+export { useAsyncPacking } from './useAsyncPacking'
+export type { UseAsyncPackingReturn } from './useAsyncPacking'
+
+export { useTruckMetrics } from './useTruckMetrics'
+export type { TruckMetricsResult } from './useTruckMetrics'
+
+export { useWarehouseValidation, useWarehouseRoomsValidation } from './useWarehouseValidation'
+export type { WarehouseValidationResult, WarehouseRoomsValidationResult, RoomViolation } from './useWarehouseValidation'
+
+export { useRoomAccessibility } from './useRoomAccessibility'
 
 export { useCameraPosition } from './useCameraPosition'
 export type { CameraPosition } from './useCameraPosition'
+
+export { useLoadingPlayback } from './useLoadingPlayback'
+export type { LoadingPlaybackOptions, LoadingPlaybackResult } from './useLoadingPlayback'
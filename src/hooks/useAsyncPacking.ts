@@ -0,0 +1,66 @@
+/**
+ * useAsyncPacking — Variante asíncrona de usePackingStrategy (Web Worker, progreso y cancelación)
+ */
+
+import { useMemo, useCallback, useEffect, useState } from 'react'
+import type { Box } from '@/core/entities/Box'
+import type { Pallet } from '@/core/entities/Pallet'
+import type { PackingResult } from '@/core/packing/PackingStrategy'
+import { PackingRegistry, defaultRegistry } from '@/core/packing/registry'
+import { LatestPackingRunner } from '@/core/packing/async'
+
+export interface UseAsyncPackingReturn {
+  availableStrategies: { id: string; name: string }[]
+  /**
+   * Lanza un empaquetado. Cancela el anterior si seguía en curso;
+   * la llamada cancelada (por otra más nueva, `cancel` o al desmontar) se resuelve con `null`.
+   */
+  pack: (boxes: Box[], pallet: Pallet) => Promise<PackingResult | null>
+  isPacking: boolean
+  /** Avance del empaquetado en curso (0–1) */
+  progress: number
+  /** Cancela el empaquetado en curso (no hace nada si no hay ninguno) */
+  cancel: () => void
+}
+
+export function useAsyncPacking(
+  strategyId: string,
+  registry: PackingRegistry = defaultRegistry,
+  createWorker?: (() => Worker) | null,
+): UseAsyncPackingReturn {
+  const [isPacking, setIsPacking] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [runner] = useState(() => new LatestPackingRunner())
+
+  const availableStrategies = useMemo(
+    () => registry.list().map(s => ({ id: s.id, name: s.name })),
+    [registry],
+  )
+
+  const cancel = useCallback(() => runner.cancel(), [runner])
+
+  const pack = useCallback(
+    async (boxes: Box[], pallet: Pallet): Promise<PackingResult | null> => {
+      setIsPacking(true)
+      setProgress(0)
+      try {
+        const result = await runner.run(strategyId, boxes, pallet, {
+          registry,
+          createWorker,
+          onProgress: ({ processed, total }) => setProgress(total > 0 ? processed / total : 1),
+        })
+        if (result && !runner.isRunning) setProgress(1)
+        return result
+      } finally {
+        // Si otra llamada la ha sustituido, el estado es de esa
+        if (!runner.isRunning) setIsPacking(false)
+      }
+    },
+    [runner, strategyId, registry, createWorker],
+  )
+
+  // Cancelar al desmontar
+  useEffect(() => () => runner.cancel(), [runner])
+
+  return { availableStrategies, pack, isPacking, progress, cancel }
+}
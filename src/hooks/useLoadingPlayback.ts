@@ -0,0 +1,83 @@
+/**
+ * useLoadingPlayback — Estado de reproducción de una secuencia de carga
+ * (play/pausa/paso a paso) sobre un número de pasos
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+export interface LoadingPlaybackOptions {
+  /** Tiempo entre pasos en ms (por defecto: 600) */
+  intervalMs?: number
+  /** Empezar reproduciendo (por defecto: false) */
+  autoPlay?: boolean
+}
+
+export interface LoadingPlaybackResult {
+  /** Pasos completados (0 = nada cargado, stepCount = carga completa) */
+  step: number
+  stepCount: number
+  isPlaying: boolean
+  play: () => void
+  pause: () => void
+  toggle: () => void
+  stepForward: () => void
+  stepBack: () => void
+  /** Vuelve al paso 0 y pausa */
+  reset: () => void
+  seek: (step: number) => void
+}
+
+export function useLoadingPlayback(
+  stepCount: number,
+  options: LoadingPlaybackOptions = {},
+): LoadingPlaybackResult {
+  const { intervalMs = 600, autoPlay = false } = options
+  const [rawStep, setStep] = useState(0)
+  const [playing, setPlaying] = useState(autoPlay)
+
+  // Si la secuencia se acorta, no salirse de rango
+  const step = Math.min(rawStep, stepCount)
+  const isPlaying = playing && step < stepCount
+
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setInterval(() => {
+      setStep(s => Math.min(s + 1, stepCount))
+    }, intervalMs)
+    return () => clearInterval(timer)
+  }, [isPlaying, intervalMs, stepCount])
+
+  const play = useCallback(() => {
+    // Al final, reproducir de nuevo desde el principio
+    setStep(s => (s >= stepCount ? 0 : s))
+    setPlaying(true)
+  }, [stepCount])
+
+  const pause = useCallback(() => setPlaying(false), [])
+
+  const toggle = useCallback(() => {
+    if (isPlaying) pause()
+    else play()
+  }, [isPlaying, play, pause])
+
+  const seek = useCallback((target: number) => {
+    setStep(Math.max(0, Math.min(Math.round(target), stepCount)))
+  }, [stepCount])
+
+  const stepForward = useCallback(() => {
+    setPlaying(false)
+    setStep(s => Math.min(s + 1, stepCount))
+  }, [stepCount])
+
+  const stepBack = useCallback(() => {
+    setPlaying(false)
+    setStep(s => Math.max(Math.min(s, stepCount) - 1, 0))
+  }, [stepCount])
+
+  const reset = useCallback(() => {
+    setPlaying(false)
+    setStep(0)
+  }, [])
+
+  return { step, stepCount, isPlaying, play, pause, toggle, stepForward, stepBack, reset, seek }
+}
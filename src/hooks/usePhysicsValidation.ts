@@ -1,81 +1,67 @@
 /**
  * usePhysicsValidation — Ejecuta todas las validaciones físicas sobre un piso de palet
+ *
+ * Las reglas, umbrales y severidades salen del perfil indicado en el ValidationRegistry.
  */
 
 import { useMemo } from 'react'
 import type { PlacedBox } from '@/core/entities/PlacedBox'
 import type { Pallet } from '@/core/entities/Pallet'
-import type { ValidationResult, Violation } from '@/core/types'
-import { validateNoBoxCollisions } from '@/core/validation/collision'
-import { validateAllBoxesInPalletBounds } from '@/core/validation/bounds'
-import { validatePalletWeight } from '@/core/validation/weight'
-import { validateFragileLoad, validateWeightDistribution } from '@/core/validation/weight'
-import { validateSupport } from '@/core/validation/gravity'
-import { validateBoxStackability, validateInvertedPyramid } from '@/core/validation/stacking'
-import { validateStability, validateCogInsideSupport } from '@/core/validation/stability'
 import type { PalletFloor } from '@/core/entities/PalletFloor'
+import type { ValidationResult, Violation } from '@/core/types'
+import type { ValidationProfile } from '@/core/validation/rules/types'
+import { ValidationRegistry, defaultValidationRegistry } from '@/core/validation/rules/registry'
 
 export interface PhysicsValidationResult {
   isValid: boolean
   violations: Violation[]
   collisions: ValidationResult
   bounds: ValidationResult
+  orientation: ValidationResult
   weight: ValidationResult
   gravity: ValidationResult
   stacking: ValidationResult
+  compression: ValidationResult
   stability: ValidationResult
   fragile: ValidationResult
   distribution: ValidationResult
 }
 
+export interface PhysicsValidationOptions {
+  /** Id de perfil o perfil ad hoc (por defecto: 'default') */
+  profile?: string | ValidationProfile
+  registry?: ValidationRegistry
+}
+
 export function usePhysicsValidation(
   boxes: PlacedBox[],
   pallet: Pallet,
+  options: PhysicsValidationOptions = {},
 ): PhysicsValidationResult {
+  const { profile, registry = defaultValidationRegistry } = options
+
   return useMemo(() => {
-    const collisions = validateNoBoxCollisions(boxes)
-    const bounds = validateAllBoxesInPalletBounds(boxes, pallet)
     const floor: PalletFloor = { level: 0, pallet, boxes }
-    const weight = validatePalletWeight(floor)
-    const gravity = validateSupport(boxes)
-    const stackability = validateBoxStackability(boxes)
-    const invertedPyramid = validateInvertedPyramid(boxes)
-    const stability = validateStability(pallet, boxes)
-    const cogValid = validateCogInsideSupport(pallet, boxes)
-    const fragile = validateFragileLoad(boxes)
-    const distribution = validateWeightDistribution(pallet, boxes)
-
-    const stackingViolations = [...stackability.violations, ...invertedPyramid.violations]
-    const stabilityViolations = [...stability.violations, ...cogValid.violations]
+    const { isValid, violations } = registry.validateFloor(floor, { profile })
 
-    const allViolations: Violation[] = [
-      ...collisions.violations,
-      ...bounds.violations,
-      ...weight.violations,
-      ...gravity.violations,
-      ...stackingViolations,
-      ...stabilityViolations,
-      ...fragile.violations,
-      ...distribution.violations,
-    ]
+    const group = (...codes: string[]): ValidationResult => {
+      const selected = violations.filter(v => codes.includes(v.code))
+      return { isValid: selected.filter(v => v.severity === 'error').length === 0, violations: selected }
+    }
 
     return {
-      isValid: allViolations.filter(v => v.severity === 'error').length === 0,
-      violations: allViolations,
-      collisions,
-      bounds,
-      weight,
-      gravity,
-      stacking: {
-        isValid: stackability.isValid,
-        violations: stackingViolations,
-      },
-      stability: {
-        isValid: stability.isValid && cogValid.isValid,
-        violations: stabilityViolations,
-      },
-      fragile,
-      distribution,
+      isValid,
+      violations,
+      collisions: group('BR-002'),
+      bounds: group('BR-001'),
+      orientation: group('BR-005'),
+      weight: group('BR-101'),
+      gravity: group('BR-004'),
+      stacking: group('BR-201', 'BR-203'),
+      compression: group('BR-202'),
+      stability: group('BR-501', 'BR-502', 'BR-503'),
+      fragile: group('BR-103'),
+      distribution: group('BR-104'),
     }
-  }, [boxes, pallet])
+  }, [boxes, pallet, profile, registry])
 }
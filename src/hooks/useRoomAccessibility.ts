@@ -0,0 +1,16 @@
+/**
+ * useRoomAccessibility — Analiza a qué palets de una habitación llega la carretilla
+ */
+
+import { useMemo } from 'react'
+import type { Room } from '@/core/entities/Room'
+import { analyzeRoomAccessibility } from '@/core/accessibility/analysis'
+import type { AccessibilityOptions, RoomAccessibility } from '@/core/accessibility/analysis'
+
+export function useRoomAccessibility(room: Room, options: AccessibilityOptions = {}): RoomAccessibility {
+  const { forklift, cellSize, entrances } = options
+  return useMemo(
+    () => analyzeRoomAccessibility(room, { forklift, cellSize, entrances }),
+    [room, forklift, cellSize, entrances],
+  )
+}
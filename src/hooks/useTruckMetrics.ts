@@ -0,0 +1,62 @@
+/**
+ * useTruckMetrics — Calcula métricas de carga de un camión (peso, volumen, CoG y cargas por eje)
+ */
+
+import { useMemo } from 'react'
+import type { Truck } from '@/core/entities/Truck'
+import { getStackedPalletTotalWeight } from '@/core/entities/StackedPallet'
+import type { Position3D, ValidationResult } from '@/core/types'
+import { getPalletBoundingBox } from '@/core/validation/collision'
+import { calculatePlacedPalletCenterOfGravity } from '@/core/validation/stability'
+import { calculateAxleLoads, validateAxleLoads } from '@/core/validation/axles'
+import type { AxleLoad } from '@/core/validation/axles'
+
+export interface TruckMetricsResult {
+  totalWeight: number          // kg (carga, sin tara)
+  weightUtilization: number    // 0–1 sobre truck.maxWeight
+  volumeUtilization: number    // 0–1 (volumen envolvente de los palets)
+  floorUtilization: number     // 0–1 (huella de los palets sobre el suelo)
+  palletCount: number
+  centerOfGravity: Position3D
+  axleLoads: AxleLoad[]
+  axleValidation: ValidationResult
+}
+
+export function useTruckMetrics(truck: Truck): TruckMetricsResult {
+  return useMemo(() => {
+    const { width, height, depth } = truck.dimensions
+    let totalWeight = 0
+    let usedVolume = 0
+    let usedFloor = 0
+    let cogX = 0, cogY = 0, cogZ = 0
+
+    for (const pp of truck.pallets) {
+      const weight = getStackedPalletTotalWeight(pp.stackedPallet)
+      const cog = calculatePlacedPalletCenterOfGravity(pp)
+      const bb = getPalletBoundingBox(pp)
+      const footprint = (bb.maxX - bb.minX) * (bb.maxZ - bb.minZ)
+
+      totalWeight += weight
+      cogX += cog.x * weight
+      cogY += cog.y * weight
+      cogZ += cog.z * weight
+      usedVolume += footprint * (bb.maxY - bb.minY)
+      if (bb.minY === 0) usedFloor += footprint
+    }
+
+    const centerOfGravity: Position3D = totalWeight > 0
+      ? { x: cogX / totalWeight, y: cogY / totalWeight, z: cogZ / totalWeight }
+      : { x: 0, y: 0, z: 0 }
+
+    return {
+      totalWeight,
+      weightUtilization: truck.maxWeight > 0 ? totalWeight / truck.maxWeight : 0,
+      volumeUtilization: width * height * depth > 0 ? usedVolume / (width * height * depth) : 0,
+      floorUtilization: width * depth > 0 ? usedFloor / (width * depth) : 0,
+      palletCount: truck.pallets.length,
+      centerOfGravity,
+      axleLoads: calculateAxleLoads(truck),
+      axleValidation: validateAxleLoads(truck),
+    }
+  }, [truck])
+}
@@ -1,45 +1,128 @@
 /**
- * useWarehouseValidation — Valida palets dentro de habitaciones
+ * useWarehouseValidation — Valida palets dentro de habitaciones y sus estanterías
+ * useWarehouseRoomsValidation — Lo mismo para todas las estancias de un almacén
  */
 
 import { useMemo } from 'react'
 import type { Room } from '@/core/entities/Room'
+import type { Warehouse } from '@/core/entities/Warehouse'
 import type { ValidationResult, Violation } from '@/core/types'
 import { validatePalletInRoom } from '@/core/validation/polygon'
 import { validateNoPalletCollisions } from '@/core/validation/collision'
+import { validateRoomRacks } from '@/core/validation/racking'
+import { validateRoomObstacles } from '@/core/validation/obstacles'
+import { validateUniqueRoomIds } from '@/core/validation/warehouse'
+import { getRackPlacedPallets } from '@/core/racking'
 
 export interface WarehouseValidationResult {
   isValid: boolean
   violations: Violation[]
   palletInRoom: ValidationResult
   palletCollisions: ValidationResult
+  /** Holguras de las ubicaciones y carga de vigas y vanos (BR-409, BR-410) */
+  racks: ValidationResult
+  /** Carga sobre obstáculos o en su franja libre (BR-411, BR-412) */
+  obstacles: ValidationResult
+}
+
+/** Violación de una estancia del almacén */
+export interface RoomViolation extends Violation {
+  roomId: string
+}
+
+export interface WarehouseRoomsValidationResult {
+  isValid: boolean
+  /** Violaciones de todas las estancias, con la estancia de cada una, e ids repetidos (BR-414) */
+  violations: RoomViolation[]
+  /** Resultado de cada estancia, por id (con ids repetidos, el de la primera) */
+  rooms: Record<string, WarehouseValidationResult>
+  /** Ids de las estancias con algún error */
+  invalidRoomIds: string[]
 }
 
 export function useWarehouseValidation(room: Room): WarehouseValidationResult {
+  return useMemo(() => validateRoom(room), [room])
+}
+
+export function useWarehouseRoomsValidation(warehouse: Warehouse): WarehouseRoomsValidationResult {
   return useMemo(() => {
-    // Validar que cada palet esté dentro del polígono de la habitación
-    const roomViolations: Violation[] = []
-    for (const placedPallet of room.pallets) {
-      const result = validatePalletInRoom(placedPallet, room)
-      roomViolations.push(...result.violations)
-    }
+    const rooms: Record<string, WarehouseValidationResult> = {}
+    const violations: RoomViolation[] = []
+    const invalidRoomIds = new Set<string>()
 
-    // Validar que no haya colisiones entre palets
-    const collisions = validateNoPalletCollisions(room.pallets)
+    for (const room of warehouse.rooms) {
+      const result = validateRoomCached(room)
+      rooms[room.id] ??= result
+      violations.push(...result.violations.map(v => ({ ...v, roomId: room.id })))
+      if (!result.isValid) invalidRoomIds.add(room.id)
+    }
 
-    const allViolations: Violation[] = [
-      ...roomViolations,
-      ...collisions.violations,
-    ]
+    // Con ids repetidos los resultados por id se pisarían: se marcan como error
+    const duplicates = validateUniqueRoomIds(warehouse.rooms)
+    for (const v of duplicates.violations) {
+      violations.push({ ...v, roomId: v.involvedIds[0] })
+      invalidRoomIds.add(v.involvedIds[0])
+    }
 
     return {
-      isValid: allViolations.filter(v => v.severity === 'error').length === 0,
-      violations: allViolations,
-      palletInRoom: {
-        isValid: roomViolations.length === 0,
-        violations: roomViolations,
-      },
-      palletCollisions: collisions,
+      isValid: violations.every(v => v.severity !== 'error'),
+      violations,
+      rooms,
+      invalidRoomIds: [...invalidRoomIds],
     }
-  }, [room])
+  }, [warehouse.rooms])
+}
+
+// ─── Internos ────────────────────────────────────────────────────
+
+/** Resultados ya calculados: al editar una estancia solo se vuelve a validar esa */
+const roomResults = new WeakMap<Room, WarehouseValidationResult>()
+
+function validateRoomCached(room: Room): WarehouseValidationResult {
+  let result = roomResults.get(room)
+  if (!result) {
+    result = validateRoom(room)
+    roomResults.set(room, result)
+  }
+  return result
+}
+
+function validateRoom(room: Room): WarehouseValidationResult {
+  // Los palets de las estanterías cuentan como palets de la habitación
+  const pallets = [...room.pallets, ...(room.racks ?? []).flatMap(getRackPlacedPallets)]
+
+  // Validar que cada palet esté dentro del polígono de la habitación
+  const roomViolations: Violation[] = []
+  for (const placedPallet of pallets) {
+    const result = validatePalletInRoom(placedPallet, room)
+    roomViolations.push(...result.violations)
+  }
+
+  // Validar que no haya colisiones entre palets
+  const collisions = validateNoPalletCollisions(pallets)
+
+  // Validar ubicaciones y carga de las estanterías
+  const racks = validateRoomRacks(room)
+
+  // Validar que la carga no ocupe obstáculos ni bloquee puertas y salidas
+  const obstacles = validateRoomObstacles(room)
+
+  const allViolations: Violation[] = [
+    ...roomViolations,
+    ...collisions.violations,
+    ...racks.violations,
+    ...obstacles.violations,
+  ]
+
+  return {
+    isValid: allViolations.filter(v => v.severity === 'error').length === 0,
+    violations: allViolations,
+    palletInRoom: {
+      isValid: roomViolations.length === 0,
+      violations: roomViolations,
+    },
+    palletCollisions: collisions,
+    racks,
+    obstacles,
+  }
 }
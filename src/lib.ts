@@ -19,9 +19,26 @@ export type {
   PackingMetrics,
   PalletPreset,
   TruckPreset,
+  AccelerationFactors,
+  LashingEquipment,
+  TemperatureRange,
+  HazmatSegregation,
+  HazmatSegregationTable,
+  Forklift,
 } from "@/core/types";
 
-export { PalletMaterial, SeparatorMaterial, TruckType } from "@/core/types";
+export {
+  BoxAxis,
+  PalletMaterial,
+  SeparatorMaterial,
+  TruckType,
+  DoorSide,
+  LoadDirection,
+  HazardClass,
+  PackingGroup,
+  SegregationScope,
+  ObstacleType,
+} from "@/core/types";
 
 // ──────────────────────────────────────────────
 // Core — Constants & Presets
@@ -34,6 +51,24 @@ export {
   COLLISION_TOLERANCE,
   MIN_SUPPORT_PERCENTAGE,
   WEIGHT_WARNING_THRESHOLD,
+  MIN_STEER_AXLE_LOAD_RATIO,
+  HUMIDITY_SAFETY_FACTORS,
+  DURATION_SAFETY_FACTORS,
+  DEFAULT_HUMIDITY_FACTOR,
+  DEFAULT_DURATION_FACTOR,
+  EN_12195_1_ROAD_ACCELERATIONS,
+  PALLET_FRICTION_COEFFICIENTS,
+  DEFAULT_BLOCKING_GAP,
+  DEFAULT_LASHING_EQUIPMENT,
+  TEMPERATURE_RANGES,
+  REEFER_AIRFLOW_GAP,
+  HAZMAT_SEGREGATION_TABLE,
+  RACK_VERTICAL_CLEARANCE,
+  RACK_SIDE_CLEARANCE,
+  OBSTACLE_CLEARANCES,
+  FORKLIFT_PRESETS,
+  AISLE_SAFETY_MARGIN,
+  OCCUPANCY_CELL_SIZE,
 } from "@/core/constants";
 
 // ──────────────────────────────────────────────
@@ -61,7 +96,7 @@ export { PresetProvider, usePreset } from "@/context/PresetContext";
 // ──────────────────────────────────────────────
 // Core — Entities
 // ──────────────────────────────────────────────
-export type { Box } from "@/core/entities/Box";
+export type { Box, BoxCompression, HazmatInfo } from "@/core/entities/Box";
 export type { PlacedBox } from "@/core/entities/PlacedBox";
 export type { Pallet } from "@/core/entities/Pallet";
 export type { Separator } from "@/core/entities/Separator";
@@ -73,18 +108,24 @@ export {
   ensureUniqueBoxIds,
 } from "@/core/entities/StackedPallet";
 export type { PlacedPallet } from "@/core/entities/PlacedPallet";
-export type { Room } from "@/core/entities/Room";
-export type { Warehouse } from "@/core/entities/Warehouse";
-export type { Truck } from "@/core/entities/Truck";
+export type { Room, RoomObstacle } from "@/core/entities/Room";
+export type { Rack, Bay, BeamLevel, SlottedPallet } from "@/core/entities/Rack";
+export { getRackLength, getBayOffset, getSlotWidth, getLevelClearHeight } from "@/core/entities/Rack";
+export type { Warehouse, FloorBounds } from "@/core/entities/Warehouse";
+export { getRoomOrigin, getRoomFloorPolygon, getRoomBounds, getWarehouseBounds } from "@/core/entities/Warehouse";
+export type { Truck, TruckAxles, Axle, DoorOpening, TruckDoor, TemperatureZone } from "@/core/entities/Truck";
+export { isContainer, isReeferContainer, isRefrigerated, getBulkheads, getTruckDoors } from "@/core/entities/Truck";
 
 // ──────────────────────────────────────────────
 // Core — Validation
 // ──────────────────────────────────────────────
 export {
   // Collision
+  getOrientedDimensions,
   getBoxBoundingBox,
   getPalletBoundingBox,
   aabbIntersects,
+  findIntersectingPairs,
   validateNoBoxCollisions,
   validateNoPalletCollisions,
   // Bounds
@@ -92,6 +133,10 @@ export {
   validateAllBoxesInPalletBounds,
   validatePalletInTruck,
   validatePalletHeight,
+  // Orientation
+  getUpAxis,
+  isOrientationAllowed,
+  validateBoxOrientation,
   // Weight
   validatePalletWeight,
   validateTruckWeight,
@@ -106,15 +151,137 @@ export {
   validateStackWeight,
   // Gravity
   validateSupport,
+  // Compression
+  getAllowedCompressionLoad,
+  validateCompressionLoad,
+  validateStackCompressionLoad,
   // Stability
   calculateCenterOfGravity,
+  calculatePlacedPalletCenterOfGravity,
+  calculatePackingMetrics,
   calculateStabilityScore,
   validateCogInsideSupport,
   validateStability,
+  // Axles
+  calculateAxleLoads,
+  validateAxleLoads,
+  // Delivery
+  isBlockingUnload,
+  validateDeliveryOrder,
+  // Doors
+  canLoadThroughDoor,
+  findLoadingDoors,
+  validateDoorAccess,
+  // Dynamics
+  analyzeStackDynamics,
+  analyzeTruckDynamics,
+  validateDynamicStability,
+  // Temperature
+  getStackTemperatureRange,
+  isTemperatureCompatible,
+  findTemperatureZone,
+  blocksReeferAirflow,
+  validateStackTemperature,
+  validateTemperatureZones,
+  validateReeferAirflow,
+  // Hazmat
+  getHazardClasses,
+  getSegregation,
+  getPlanDistance,
+  validatePalletSegregation,
+  validateStackSegregation,
+  validateTruckSegregation,
+  // Racking
+  getSlottedPalletWidth,
+  fitsInSlot,
+  validateRackSlots,
+  validateRackLoad,
+  validateRoomRacks,
+  // Obstacles
+  getObstacleClearance,
+  getObstacleBoundingBox,
+  validateRoomObstacles,
+  // Warehouse
+  validateUniqueRoomIds,
   // Polygon
   pointInPolygon,
   validatePalletInRoom,
 } from "@/core/validation";
+export type {
+  AxleLoad,
+  AxleLoadThresholds,
+  StabilityThresholds,
+  CompressionConditions,
+  DirectionalMargins,
+  DynamicStabilityOptions,
+  LevelDynamics,
+  PalletDynamics,
+  RackClearances,
+} from "@/core/validation";
+
+// ──────────────────────────────────────────────
+// Core — Spatial index
+// ──────────────────────────────────────────────
+export {
+  SpatialGrid,
+  DEFAULT_SPATIAL_CELL_SIZE,
+  suggestCellSize,
+  expandBounds,
+} from "@/core/spatial";
+
+// ──────────────────────────────────────────────
+// Core — Support graph
+// ──────────────────────────────────────────────
+export {
+  computeSupportGraph,
+  applySupportGraph,
+  getLoadPath,
+  SUPPORT_CONTACT_TOLERANCE,
+} from "@/core/support";
+export type {
+  SupportGraph,
+  SupportNode,
+  SupportContact,
+} from "@/core/support";
+
+// ──────────────────────────────────────────────
+// Core — Load securing
+// ──────────────────────────────────────────────
+export { computeLoadSecuring } from "@/core/securing";
+export type {
+  LashingRow,
+  LoadSecuringOptions,
+  LoadSecuringPlan,
+} from "@/core/securing";
+
+// ──────────────────────────────────────────────
+// Core — Validation rule engine
+// ──────────────────────────────────────────────
+export {
+  ValidationRegistry,
+  defaultValidationRegistry,
+  RuleScope,
+  BUILT_IN_RULES,
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE,
+  STRICT_EXPORT_PROFILE,
+  INTERNAL_SHUTTLE_PROFILE,
+  FloorValidationSession,
+} from "@/core/validation";
+export type {
+  ValidationRule,
+  ValidationProfile,
+  ValidationRunOptions,
+  RuleConfig,
+  RuleContext,
+  RuleParams,
+  RuleTargetMap,
+  ResolvedRule,
+  BoxChange,
+  ValidationDelta,
+  ValidationSessionOptions,
+} from "@/core/validation";
 
 // ──────────────────────────────────────────────
 // Core — Packing Strategies
@@ -122,14 +289,37 @@ export {
 export type {
   PackingStrategy,
   PackingResult,
+  PackingOptions,
+  PackingProgress,
 } from "@/core/packing/PackingStrategy";
 export { ColumnStrategy } from "@/core/packing/ColumnStrategy";
 export { BinPacking3DStrategy } from "@/core/packing/BinPacking3D";
 export { TypeGroupStrategy } from "@/core/packing/TypeGroupStrategy";
 export { MaterialGroupingStrategy } from "@/core/packing/MaterialGroupingStrategy";
+export { ExtremePointStrategy } from "@/core/packing/ExtremePointStrategy";
+export type { BoxOrientation } from "@/core/packing/orientations";
+export {
+  AXIS_ALIGNED_ROTATIONS,
+  getBoxOrientations,
+  getRestingOrientations,
+} from "@/core/packing/orientations";
 export { MultiPalletBuilder } from "@/core/packing/MultiPalletBuilder";
 export type { MultiPalletPackOptions } from "@/core/packing/MultiPalletBuilder";
+export { TruckLoadPlanner } from "@/core/packing/TruckLoadPlanner";
+export type {
+  TruckLoadOptions,
+  TruckLoadOrder,
+  TruckLoadResult,
+} from "@/core/packing/TruckLoadPlanner";
 export { PackingRegistry, defaultRegistry } from "@/core/packing/registry";
+export { packAsync, LatestPackingRunner } from "@/core/packing/async";
+export type { PackAsyncOptions } from "@/core/packing/async";
+export { handlePackingMessages } from "@/core/packing/worker";
+export type {
+  PackingWorkerRequest,
+  PackingWorkerResponse,
+  PackingWorkerScope,
+} from "@/core/packing/worker";
 
 // ──────────────────────────────────────────────
 // Core — Factories
@@ -137,12 +327,139 @@ export { PackingRegistry, defaultRegistry } from "@/core/packing/registry";
 export { PalletFactory } from "@/core/factories/PalletFactory";
 export { TruckFactory } from "@/core/factories/TruckFactory";
 export { BoxFactory } from "@/core/factories/BoxFactory";
+export { RackFactory } from "@/core/factories/RackFactory";
+export type { UniformRackOptions } from "@/core/factories/RackFactory";
+
+// ──────────────────────────────────────────────
+// Core — Serialization
+// ──────────────────────────────────────────────
+export {
+  serialize,
+  deserialize,
+  SCHEMA_VERSION,
+  SerializationError,
+  LEGACY_SCHEMA_VERSION,
+  MIGRATIONS,
+  migrateDocument,
+} from "@/core/serialization";
+export type {
+  DeserializeOptions,
+  SerializableEntities,
+  SerializableKind,
+  SerializedDocument,
+  SerializedEntities,
+  SerializedPlacedBox,
+  SerializedPalletFloor,
+  SerializedStackedPallet,
+  SerializedPlacedPallet,
+  SerializedTruck,
+  SerializedSlottedPallet,
+  SerializedRack,
+  SerializedRoom,
+  SerializedWarehouse,
+  Migration,
+  MigrationMap,
+  RawDocument,
+} from "@/core/serialization";
+
+// ──────────────────────────────────────────────
+// Core — Import
+// ──────────────────────────────────────────────
+export {
+  importBoxesFromCsv,
+  parseCsv,
+  LengthUnit,
+  WeightUnit,
+  DEFAULT_CSV_HEADER_ALIASES,
+} from "@/core/import";
+export type {
+  CsvField,
+  CsvColumnMapping,
+  CsvImportOptions,
+  CsvImportResult,
+  CsvRowError,
+  CsvRecord,
+} from "@/core/import";
+
+// ──────────────────────────────────────────────
+// Core — Report
+// ──────────────────────────────────────────────
+export {
+  generateLoadReport,
+  getPalletLayers,
+  renderLayerSvg,
+  renderTruckPlanSvg,
+  renderLoadReportHtml,
+  escapeXml,
+} from "@/core/report";
+export type {
+  LoadReport,
+  LoadReportOptions,
+  LayerDiagram,
+  BomLine,
+  ReportWeights,
+  TruckReport,
+  PalletLayer,
+  LayerBox,
+  SvgRenderOptions,
+} from "@/core/report";
+
+// ──────────────────────────────────────────────
+// Core — Loading sequence
+// ──────────────────────────────────────────────
+export {
+  generateLoadingSequence,
+  generateTruckLoadingSequence,
+  getBoxSequenceKey,
+} from "@/core/sequence";
+export type {
+  LoadingStep,
+  LoadingSequence,
+  TruckLoadingStep,
+} from "@/core/sequence";
+
+// ──────────────────────────────────────────────
+// Core — Racking
+// ──────────────────────────────────────────────
+export {
+  getRackBoundingBox,
+  getRackPlacedPallets,
+  isSlotFree,
+  findFreeSlot,
+  placePalletInRack,
+  removePalletFromRack,
+} from "@/core/racking";
+export type { RackLocation, RackPlacedPallet } from "@/core/racking";
+
+// ──────────────────────────────────────────────
+// Core — Accessibility
+// ──────────────────────────────────────────────
+export {
+  AccessCell,
+  createRoomGrid,
+  getCellAt,
+  getCellCenter,
+  getCellsInBounds,
+  analyzeRoomAccessibility,
+  validateForkliftAccess,
+  getRequiredAisleWidth,
+} from "@/core/accessibility";
+export type {
+  OccupancyGrid,
+  AccessibilityOptions,
+  PalletAccess,
+  PalletFace,
+  RoomAccessibility,
+} from "@/core/accessibility";
 
 // ──────────────────────────────────────────────
 // Hooks
 // ──────────────────────────────────────────────
 export { usePhysicsValidation } from "@/hooks/usePhysicsValidation";
-export type { PhysicsValidationResult } from "@/hooks/usePhysicsValidation";
+export type {
+  PhysicsValidationResult,
+  PhysicsValidationOptions,
+} from "@/hooks/usePhysicsValidation";
 
 export { usePalletMetrics } from "@/hooks/usePalletMetrics";
 export type { PalletMetricsResult } from "@/hooks/usePalletMetrics";
@@ -150,8 +467,22 @@ export type { PalletMetricsResult } from "@/hooks/usePalletMetrics";
 export { usePackingStrategy } from "@/hooks/usePackingStrategy";
 export type { UsePackingStrategyReturn } from "@/hooks/usePackingStrategy";
 
-export { useWarehouseValidation } from "@/hooks/useWarehouseValidation";
-export type { WarehouseValidationResult } from "@/hooks/useWarehouseValidation";
+export { useAsyncPacking } from "@/hooks/useAsyncPacking";
+export type { UseAsyncPackingReturn } from "@/hooks/useAsyncPacking";
+
+export { useTruckMetrics } from "@/hooks/useTruckMetrics";
+export type { TruckMetricsResult } from "@/hooks/useTruckMetrics";
+
+export { useWarehouseValidation, useWarehouseRoomsValidation } from "@/hooks/useWarehouseValidation";
+export type { WarehouseValidationResult, WarehouseRoomsValidationResult, RoomViolation } from "@/hooks/useWarehouseValidation";
+
+export { useRoomAccessibility } from "@/hooks/useRoomAccessibility";
+
+export { useLoadingPlayback } from "@/hooks/useLoadingPlayback";
+export type {
+  LoadingPlaybackOptions,
+  LoadingPlaybackResult,
+} from "@/hooks/useLoadingPlayback";
 
 // ──────────────────────────────────────────────
 // Components — Primitives
@@ -171,6 +502,21 @@ export type { StackedPalletComponentProps } from "@/components/primitives/Stacke
 export { Label } from "@/components/primitives/Label";
 export type { LabelProps } from "@/components/primitives/Label";
 
+export { DropIn } from "@/components/primitives/DropIn";
+export type { DropInProps } from "@/components/primitives/DropIn";
+
+export { LoadSecuringComponent } from "@/components/primitives/LoadSecuring";
+export type { LoadSecuringComponentProps } from "@/components/primitives/LoadSecuring";
+
+export { RackComponent } from "@/components/primitives/Rack";
+export type { RackComponentProps } from "@/components/primitives/Rack";
+
+export { RoomObstacleComponent } from "@/components/primitives/RoomObstacle";
+export type { RoomObstacleComponentProps } from "@/components/primitives/RoomObstacle";
+
+export { OccupancyGridOverlay, ACCESS_CELL_COLORS } from "@/components/primitives/OccupancyGrid";
+export type { OccupancyGridOverlayProps } from "@/components/primitives/OccupancyGrid";
+
 // ──────────────────────────────────────────────
 // Components — Environments
 // ──────────────────────────────────────────────
@@ -189,6 +535,9 @@ export type {
   CameraPreset,
 } from "@/components/controls/CameraControls";
 
+export { PlaybackControls } from "@/components/controls/PlaybackControls";
+export type { PlaybackControlsProps } from "@/components/controls/PlaybackControls";
+
 // ──────────────────────────────────────────────
 // Components — Scenes (pre-composed)
 // ──────────────────────────────────────────────
@@ -200,3 +549,6 @@ export type { TruckSceneProps } from "@/components/scenes/TruckScene";
 
 export { WarehouseScene } from "@/components/scenes/WarehouseScene";
 export type { WarehouseSceneProps } from "@/components/scenes/WarehouseScene";
+
+export { WarehouseBuildingScene } from "@/components/scenes/WarehouseBuildingScene";
+export type { WarehouseBuildingSceneProps } from "@/components/scenes/WarehouseBuildingScene";